@@ -1,59 +1,194 @@
-
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
 import { Loader } from './components/Loader';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { ResumeEditorPage } from './components/ResumeEditorPage';
-import { AnalysisResult } from './types';
-import { analyzeResume } from './services/geminiService';
+import { ResumeLibraryList } from './components/ResumeLibraryList';
+import { ResumeRecord, TextExtraction } from './types';
+import { analyzeResumeText } from './services/geminiService';
+import { listResumes, getResume, createResume, addAnalysis, deleteResume, getScoredText, getActiveResumeId, setActiveResumeId } from './services/resumeLibrary';
+import { RESUME_STORE, onStorageFull, subscribeToStore } from './services/storage';
+import { startAutoSync, syncStatusStore } from './services/sync';
+import { XCircleIcon } from './components/IconComponents';
 
 type Page = 'upload' | 'results' | 'editor';
 
+// What the error view offers: retrying the operation that failed, or going back to where it started.
+interface FailedOperation {
+  title: string;
+  message: string;
+  retry: () => void;
+  backLabel: string;
+  back: () => void;
+}
+
 const App: React.FC = () => {
   const [page, setPage] = useState<Page>('upload');
-  const [resumeFile, setResumeFile] = useState<File | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [resumes, setResumes] = useState<ResumeRecord[]>([]);
+  const [activeResume, setActiveResume] = useState<ResumeRecord | null>(null);
+  const [activeAnalysisId, setActiveAnalysisId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<FailedOperation | null>(null);
+  const [isStorageFull, setIsStorageFull] = useState(false);
+
+  useEffect(() => {
+    // Restore the resume library and reopen the last active resume, if any.
+    const loadLibrary = async () => {
+      try {
+        const stored = await listResumes();
+        setResumes(stored);
+        const active = stored.find(r => r.id === getActiveResumeId());
+        if (active) {
+          openResume(active);
+        }
+      } catch (err) {
+        console.error("Failed to load resume library", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadLibrary();
+  }, []);
+
+  useEffect(() => onStorageFull(() => setIsStorageFull(true)), []);
+
+  // Keep the library list current when resumes are added or edited in another tab. The open resume
+  // is left alone so in-progress edits here aren't replaced under the user.
+  useEffect(() => subscribeToStore(RESUME_STORE, fromOtherTab => {
+    if (!fromOtherTab) return;
+    listResumes().then(setResumes).catch(err => console.error("Failed to refresh resume library", err));
+  }), []);
+
+  // Resumes written by sync land in this tab's store, so the list is refreshed after each round too.
+  useEffect(() => {
+    const stopAutoSync = startAutoSync();
+    const unsubscribe = syncStatusStore.subscribe(status => {
+      if (!status.lastSyncedAt) return;
+      listResumes().then(setResumes).catch(err => console.error("Failed to refresh resume library", err));
+    });
+    return () => {
+      stopAutoSync();
+      unsubscribe();
+    };
+  }, []);
+
+  const upsertResume = (resume: ResumeRecord) => {
+    setResumes(prev => [resume, ...prev.filter(r => r.id !== resume.id)]);
+    setActiveResume(prev => prev && prev.id === resume.id ? resume : prev);
+  };
+
+  // Tailored variants start without an analysis, so they open straight in the editor.
+  const openResume = (resume: ResumeRecord) => {
+    setActiveResume(resume);
+    setActiveAnalysisId(resume.analyses[resume.analyses.length - 1]?.id || null);
+    setActiveResumeId(resume.id);
+    setError(null);
+    setPage(resume.analyses.length > 0 ? 'results' : 'editor');
+  };
 
-  const handleAnalyze = async (file: File) => {
+  const handleOpenResumeEditor = async (id: string) => {
+    try {
+      const resume = await getResume(id);
+      if (!resume) return;
+      upsertResume(resume);
+      openResume(resume);
+      setPage('editor');
+    } catch (err) {
+      console.error("Failed to open resume", err);
+    }
+  };
+
+  const handleAnalyze = async (file: File, extraction: TextExtraction) => {
     setIsLoading(true);
     setError(null);
-    setResumeFile(file);
-    setAnalysisResult(null);
+    setActiveResume(null);
     setPage('upload');
 
     try {
-      const result = await analyzeResume(file);
-      setAnalysisResult(result);
-      setPage('results');
+      const result = await analyzeResumeText(extraction.text, extraction.mimeType);
+      const resume = await createResume(file, extraction, result);
+      upsertResume(resume);
+      openResume(resume);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "An unexpected error occurred during analysis. Please try again.");
+      setError({
+        title: "Analysis Failed",
+        message: err.message || "An unexpected error occurred during analysis. Please try again.",
+        retry: () => handleAnalyze(file, extraction),
+        backLabel: "Upload Another File",
+        back: handleAnalyzeNew,
+      });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleReanalyze = async () => {
+    if (!activeResume) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await analyzeResumeText(getScoredText(activeResume), activeResume.fileType);
+      const updated = await addAnalysis(activeResume, result);
+      upsertResume(updated);
+      openResume(updated);
+    } catch (err: any) {
+      console.error(err);
+      // The resume and its earlier analyses are untouched, so going back shows them as they were.
+      setError({
+        title: "Re-analysis Failed",
+        message: err.message || "An unexpected error occurred during analysis. Please try again.",
+        retry: handleReanalyze,
+        backLabel: "Back to Results",
+        back: () => setError(null),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectResume = (id: string) => {
+    const resume = resumes.find(r => r.id === id);
+    if (resume) {
+      openResume(resume);
+    }
+  };
+
+  const handleDeleteResume = async (id: string) => {
+    if (!window.confirm("Delete this resume, its analyses and all of its revisions? This action cannot be undone.")) return;
+    try {
+      await deleteResume(id);
+      setResumes(prev => prev.filter(r => r.id !== id));
+      if (activeResume?.id === id) {
+        handleAnalyzeNew();
+      }
+    } catch (err) {
+      console.error("Failed to delete resume", err);
+    }
+  };
+
   const handleAnalyzeNew = () => {
     setPage('upload');
-    setResumeFile(null);
-    setAnalysisResult(null);
+    setActiveResume(null);
+    setActiveAnalysisId(null);
+    setActiveResumeId(null);
     setError(null);
     setIsLoading(false);
   };
 
   const handleEditResume = () => {
-    if (resumeFile && analysisResult) {
+    if (activeResume) {
       setPage('editor');
     }
   };
-  
+
   const handleBackToResults = () => {
-      setPage('results');
+      setPage(activeResume && activeResume.analyses.length > 0 ? 'results' : 'upload');
   }
 
+  const activeAnalysis = activeResume?.analyses.find(a => a.id === activeAnalysisId) || null;
+
   const renderContent = () => {
     if (isLoading) {
       return <Loader />;
@@ -61,36 +196,53 @@ const App: React.FC = () => {
     if (error) {
       return (
         <div className="text-center bg-red-500/10 p-6 rounded-2xl border border-red-500/30">
-          <p className="text-red-400 font-semibold">Analysis Failed</p>
-          <p className="mt-2 text-sm text-red-300">{error}</p>
-          <button onClick={handleAnalyzeNew} className="mt-6 bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">
-            Try Again
-          </button>
+          <p className="text-red-400 font-semibold">{error.title}</p>
+          <p className="mt-2 text-sm text-red-300">{error.message}</p>
+          <div className="mt-6 flex justify-center gap-3">
+            <button onClick={error.back} className="bg-white/10 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-white/20 transition-colors">
+              {error.backLabel}
+            </button>
+            <button onClick={error.retry} className="bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">
+              Try Again
+            </button>
+          </div>
         </div>
       );
     }
 
     switch (page) {
       case 'results':
-        return analysisResult && resumeFile ? (
+        return activeAnalysis && activeResume ? (
           <ResultsDisplay
-            analysisResult={analysisResult}
-            resumeFile={resumeFile}
+            analysisResult={activeAnalysis.result}
+            resume={activeResume}
+            resumes={resumes}
+            activeAnalysisId={activeAnalysis.id}
+            onSelectResume={handleSelectResume}
+            onSelectAnalysis={setActiveAnalysisId}
+            onReanalyze={handleReanalyze}
             onEditResume={handleEditResume}
             onAnalyzeNew={handleAnalyzeNew}
+            onOpenResumeEditor={handleOpenResumeEditor}
+            onResumeCreated={upsertResume}
           />
         ) : null;
       case 'editor':
-          return resumeFile && analysisResult ? (
-            <ResumeEditorPage 
-                resumeFile={resumeFile}
-                initialAnalysis={analysisResult}
+          return activeResume ? (
+            <ResumeEditorPage
+                resume={activeResume}
+                onResumeChange={upsertResume}
                 onBack={handleBackToResults}
             />
           ) : null;
       case 'upload':
       default:
-        return <FileUpload onAnalyze={handleAnalyze} />;
+        return (
+          <div className="space-y-10">
+            <FileUpload onAnalyze={handleAnalyze} />
+            <ResumeLibraryList resumes={resumes} onOpen={handleSelectResume} onDelete={handleDeleteResume} />
+          </div>
+        );
     }
   };
 
@@ -98,6 +250,16 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-sans selection:bg-purple-500/30">
       <main className="container mx-auto px-4 py-12 md:py-20">
         <Header />
+        {isStorageFull && (
+          <div className="mt-8 bg-red-500/10 border border-red-500/30 rounded-lg p-4 flex justify-between items-start gap-4" role="alert">
+            <p className="text-sm text-red-300">
+              This browser's storage for CareerNova is full, so recent changes may not have been saved. Export a backup from the dashboard's "Your Data" card, then delete resumes you no longer need.
+            </p>
+            <button onClick={() => setIsStorageFull(false)} className="text-red-300 hover:text-red-200 flex-shrink-0" aria-label="Dismiss">
+              <XCircleIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
         <div className="mt-12">
           {renderContent()}
         </div>
@@ -110,4 +272,4 @@ const App: React.FC = () => {
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
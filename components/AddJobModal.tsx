@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { JobListing } from '../types';
+import { extractJobPosting } from '../services/geminiService';
+import { parseJobPostingHtml } from '../services/jobPostingImport';
+import { XCircleIcon, ClipboardCheckIcon, FileTextIcon, EditIcon, SparklesIcon, UploadIcon } from './IconComponents';
+
+interface AddJobModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Called with the reviewed listing; tracking it (stage, notes, duplicates) happens next.
+    onContinue: (listing: JobListing) => void;
+}
+
+type ImportMode = 'paste' | 'html' | 'manual';
+
+const EMPTY_LISTING: JobListing = { title: '', company: '', location: '', description: '', url: '', salary: '', requirements: [] };
+
+const inputClass = "mt-1 block w-full px-3 py-2 text-sm border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+const MODES: { id: ImportMode; label: string; icon: React.FC<React.SVGProps<SVGSVGElement>> }[] = [
+    { id: 'paste', label: 'Paste Description', icon: ClipboardCheckIcon },
+    { id: 'html', label: 'Saved Web Page', icon: FileTextIcon },
+    { id: 'manual', label: 'Enter Manually', icon: EditIcon },
+];
+
+export const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onContinue }) => {
+    const [mode, setMode] = useState<ImportMode>('paste');
+    const [pasted, setPasted] = useState('');
+    const [listing, setListing] = useState<JobListing | null>(null);
+    const [requirementsText, setRequirementsText] = useState('');
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMode('paste');
+        setPasted('');
+        setListing(null);
+        setError(null);
+        setNotice(null);
+    }, [isOpen]);
+
+    const review = (result: JobListing, message?: string) => {
+        setListing(result);
+        setRequirementsText((result.requirements || []).join('\n'));
+        setNotice(message || null);
+    };
+
+    const handleExtractPasted = async () => {
+        if (!pasted.trim()) return;
+        setIsExtracting(true);
+        setError(null);
+        try {
+            review(await extractJobPosting(pasted));
+        } catch (e: any) {
+            console.error("Failed to extract job posting:", e);
+            setError(e.message || "Could not read the job posting. Please fill in the fields yourself.");
+            review({ ...EMPTY_LISTING, description: pasted.trim() });
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const handleFile = async (file: File) => {
+        setIsExtracting(true);
+        setError(null);
+        try {
+            const parsed = parseJobPostingHtml(await file.text());
+            const { listing: found } = parsed;
+            if (parsed.structured && found.title && found.company) {
+                review({ ...EMPTY_LISTING, ...found }, "Read from the page's job posting data.");
+            } else if (parsed.text.trim()) {
+                review(await extractJobPosting(parsed.text, found));
+            } else {
+                setError("That page has no readable job posting. Try pasting the description instead.");
+            }
+        } catch (e: any) {
+            console.error("Failed to import job posting page:", e);
+            setError(e.message || "Could not read that file. Try pasting the description instead.");
+        } finally {
+            setIsExtracting(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const handleModeChange = (next: ImportMode) => {
+        setMode(next);
+        setError(null);
+        if (next === 'manual' && !listing) review(EMPTY_LISTING);
+    };
+
+    const update = (field: keyof JobListing, value: string) => {
+        if (listing) setListing({ ...listing, [field]: value });
+    };
+
+    const handleContinue = () => {
+        if (!listing) return;
+        onContinue({
+            ...listing,
+            title: listing.title.trim(),
+            company: listing.company.trim(),
+            location: listing.location.trim(),
+            url: listing.url.trim(),
+            salary: listing.salary?.trim() || undefined,
+            requirements: requirementsText.split('\n').map(line => line.replace(/^[•\-*]\s*/, '').trim()).filter(Boolean),
+        });
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 backdrop-blur-sm" onClick={onClose} role="dialog">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Add Job</h2>
+                        <p className="text-sm text-indigo-600 dark:text-indigo-400 font-semibold">{listing ? 'Check the details before tracking' : 'From a referral, job board or anywhere else'}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
+                        <XCircleIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                <main className="flex-grow overflow-y-auto p-6 space-y-4">
+                    {!listing ? (
+                        <>
+                            <div className="bg-black/20 p-1 rounded-lg inline-flex">
+                                {MODES.map(({ id, label, icon: Icon }) => (
+                                    <button
+                                        key={id}
+                                        onClick={() => handleModeChange(id)}
+                                        className={`px-3 py-2 rounded-md text-sm font-semibold transition-all ${mode === id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                                    >
+                                        <span className="flex items-center gap-2"><Icon className="w-4 h-4" /> {label}</span>
+                                    </button>
+                                ))}
+                            </div>
+
+                            {mode === 'paste' && (
+                                <div>
+                                    <label htmlFor="postingText" className={labelClass}>Job posting</label>
+                                    <textarea
+                                        id="postingText"
+                                        rows={12}
+                                        value={pasted}
+                                        onChange={(e) => setPasted(e.target.value)}
+                                        className={`${inputClass} resize-y`}
+                                        placeholder="Paste the full job description, including the title, company and location if you have them."
+                                    />
+                                </div>
+                            )}
+
+                            {mode === 'html' && (
+                                <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-8 text-center space-y-3">
+                                    <UploadIcon className="w-10 h-10 mx-auto text-gray-400" />
+                                    <p className="text-sm text-gray-400">Save the posting from your browser ("Save Page As", HTML only) and choose the file here.</p>
+                                    <input ref={fileInputRef} type="file" accept=".html,.htm,text/html" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+                                    <button onClick={() => fileInputRef.current?.click()} disabled={isExtracting} className="bg-purple-600 text-white font-semibold text-sm py-2 px-4 rounded-lg hover:bg-purple-500 disabled:opacity-50">
+                                        {isExtracting ? 'Reading...' : 'Choose File'}
+                                    </button>
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <>
+                            {notice && <p className="text-sm text-sky-700 dark:text-sky-300 bg-sky-500/10 rounded-md p-3">{notice}</p>}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="jobTitle" className={labelClass}>Title</label>
+                                    <input id="jobTitle" value={listing.title} onChange={(e) => update('title', e.target.value)} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="jobCompany" className={labelClass}>Company</label>
+                                    <input id="jobCompany" value={listing.company} onChange={(e) => update('company', e.target.value)} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="jobLocation" className={labelClass}>Location</label>
+                                    <input id="jobLocation" value={listing.location} onChange={(e) => update('location', e.target.value)} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label htmlFor="jobSalary" className={labelClass}>Salary</label>
+                                    <input id="jobSalary" value={listing.salary || ''} onChange={(e) => update('salary', e.target.value)} className={inputClass} placeholder="Not stated" />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="jobUrl" className={labelClass}>Apply URL</label>
+                                <input id="jobUrl" type="url" value={listing.url} onChange={(e) => update('url', e.target.value)} className={inputClass} placeholder="https://" />
+                            </div>
+                            <div>
+                                <label htmlFor="jobRequirements" className={labelClass}>Requirements <span className="text-gray-400 font-normal">(one per line)</span></label>
+                                <textarea id="jobRequirements" rows={5} value={requirementsText} onChange={(e) => setRequirementsText(e.target.value)} className={`${inputClass} resize-y`} />
+                            </div>
+                            <div>
+                                <label htmlFor="jobDescription" className={labelClass}>Description</label>
+                                <textarea id="jobDescription" rows={6} value={listing.description} onChange={(e) => update('description', e.target.value)} className={`${inputClass} resize-y`} />
+                            </div>
+                        </>
+                    )}
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                </main>
+
+                <footer className="p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    {listing ? (
+                        <button onClick={() => { setListing(null); setNotice(null); setMode('paste'); }} className="text-sm text-gray-400 hover:text-white font-semibold">Start over</button>
+                    ) : <span />}
+                    {listing ? (
+                        <button
+                            onClick={handleContinue}
+                            disabled={!listing.title.trim() || !listing.company.trim()}
+                            className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-2 px-6 rounded-lg hover:shadow-lg hover:opacity-90 transition-all duration-200 disabled:opacity-50"
+                        >
+                            Continue
+                        </button>
+                    ) : mode === 'paste' && (
+                        <button
+                            onClick={handleExtractPasted}
+                            disabled={!pasted.trim() || isExtracting}
+                            className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-2 px-6 rounded-lg hover:shadow-lg hover:opacity-90 transition-all duration-200 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            <SparklesIcon className="w-4 h-4" /> {isExtracting ? 'Reading...' : 'Extract Details'}
+                        </button>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+};
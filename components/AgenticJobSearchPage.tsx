@@ -1,14 +1,16 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { JobListing, AgentSearchHistoryItem } from '../types';
+import { JobListing } from '../types';
 import { Card } from './Card';
 import { BotMessageSquareIcon, LightbulbIcon, BookmarkIcon, ExternalLinkIcon, CheckCircleIcon } from './IconComponents';
 import { runJobSearchAgentStream } from '../services/geminiService';
+import { addSearchToHistory } from '../services/searchHistory';
 import { JobPrepModal } from './JobPrepModal';
 import { TrackJobModal } from './TrackJobModal';
 
 interface AgenticJobSearchPageProps {
     resumeSummary: string;
+    resumeId?: string;
 }
 
 const parseStream = (text: string) => {
@@ -22,7 +24,7 @@ const parseStream = (text: string) => {
     };
 };
 
-export const AgenticJobSearchPage: React.FC<AgenticJobSearchPageProps> = ({ resumeSummary }) => {
+export const AgenticJobSearchPage: React.FC<AgenticJobSearchPageProps> = ({ resumeSummary, resumeId }) => {
     const [mission, setMission] = useState('Find a remote senior product manager role in fintech');
     const [isAgentRunning, setIsAgentRunning] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -87,20 +89,7 @@ export const AgenticJobSearchPage: React.FC<AgenticJobSearchPageProps> = ({ resu
             }
             
             // Save search history
-            try {
-                const historyItem: AgentSearchHistoryItem = {
-                    id: Date.now().toString(),
-                    mission,
-                    date: new Date().toISOString(),
-                    resultCount: foundJobs.length
-                };
-                const existingHistoryRaw = localStorage.getItem('agentSearchHistory');
-                const existingHistory: AgentSearchHistoryItem[] = existingHistoryRaw ? JSON.parse(existingHistoryRaw) : [];
-                const newHistory = [historyItem, ...existingHistory];
-                localStorage.setItem('agentSearchHistory', JSON.stringify(newHistory));
-            } catch (historyError) {
-                console.error("Failed to save search history", historyError);
-            }
+            addSearchToHistory(mission, foundJobs.length);
 
         } catch (err: any) {
             console.error("Agentic search failed:", err);
@@ -208,7 +197,7 @@ export const AgenticJobSearchPage: React.FC<AgenticJobSearchPageProps> = ({ resu
                 </div>
             )}
             <JobPrepModal isOpen={isPrepModalOpen} onClose={() => setIsPrepModalOpen(false)} job={selectedJob} resumeSummary={resumeSummary} />
-            <TrackJobModal isOpen={isTrackModalOpen} onClose={() => setIsTrackModalOpen(false)} job={selectedJobToTrack} />
+            <TrackJobModal isOpen={isTrackModalOpen} onClose={() => setIsTrackModalOpen(false)} job={selectedJobToTrack} resumeId={resumeId} />
         </div>
     );
 };
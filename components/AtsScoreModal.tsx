@@ -1,11 +1,15 @@
 
-import React from 'react';
-import { XCircleIcon } from './IconComponents';
+import React, { useMemo, useState } from 'react';
+import { XCircleIcon, CheckCircleIcon, LightbulbIcon } from './IconComponents';
+import { scoreResume } from '../services/atsScorer';
 
 interface AtsScoreModalProps {
   isOpen: boolean;
   onClose: () => void;
-  score: number;
+  resumeText: string;
+  fileType?: string;
+  // The model's estimate, shown as a second opinion when available.
+  llmScore?: number;
 }
 
 const getScoreColor = (score: number) => {
@@ -15,7 +19,11 @@ const getScoreColor = (score: number) => {
     return 'text-red-500';
 }
 
-export const AtsScoreModal: React.FC<AtsScoreModalProps> = ({ isOpen, onClose, score }) => {
+export const AtsScoreModal: React.FC<AtsScoreModalProps> = ({ isOpen, onClose, resumeText, fileType, llmScore }) => {
+  const [jobDescription, setJobDescription] = useState('');
+  const report = useMemo(() => scoreResume(resumeText, { fileType, jobDescription }), [resumeText, fileType, jobDescription]);
+  const score = report.score;
+
   if (!isOpen) return null;
 
   return (
@@ -27,7 +35,7 @@ export const AtsScoreModal: React.FC<AtsScoreModalProps> = ({ isOpen, onClose, s
         aria-labelledby="ats-score-title"
     >
       <div 
-        className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg rounded-lg shadow-xl w-full max-w-md m-4 p-6 relative animate-fade-in-up border border-white/20 dark:border-gray-700"
+        className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg rounded-lg shadow-xl w-full max-w-2xl m-4 p-6 relative animate-fade-in-up border border-white/20 dark:border-gray-700 max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
@@ -39,14 +47,51 @@ export const AtsScoreModal: React.FC<AtsScoreModalProps> = ({ isOpen, onClose, s
         <div className="my-6 text-center">
             <div className={`text-6xl font-bold ${getScoreColor(score)}`}>{score}</div>
             <p className="text-sm text-gray-500 dark:text-gray-400">out of 100</p>
+            {llmScore !== undefined && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">AI second opinion: <span className="font-bold">{llmScore}</span></p>
+            )}
+        </div>
+
+        <div className="space-y-3 mb-6">
+            {report.rules.map(rule => (
+                <div key={rule.id} className={`p-3 rounded-lg bg-black/5 dark:bg-black/20 ${rule.applicable ? '' : 'opacity-60'}`}>
+                    <div className="flex justify-between items-center text-sm">
+                        <span className="font-semibold text-gray-800 dark:text-gray-200">{rule.label}</span>
+                        <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{rule.applicable ? `${rule.points} / ${rule.maxPoints}` : 'n/a'}</span>
+                    </div>
+                    {rule.applicable && (
+                        <div className="w-full bg-gray-300 dark:bg-gray-700 rounded-full h-1.5 mt-2">
+                            <div className="bg-gradient-to-r from-purple-500 to-indigo-500 h-1.5 rounded-full" style={{ width: `${(rule.points / rule.maxPoints) * 100}%` }} />
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-2 flex items-start gap-1">
+                        {rule.applicable && rule.tips.length === 0 && <CheckCircleIcon className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />}
+                        {rule.details}
+                    </p>
+                    {rule.tips.map((tip, i) => (
+                        <p key={i} className="text-xs text-amber-600 dark:text-amber-300 mt-1 flex items-start gap-1">
+                            <LightbulbIcon className="w-3.5 h-3.5 flex-shrink-0" /> {tip}
+                        </p>
+                    ))}
+                </div>
+            ))}
+        </div>
+
+        <div className="mb-6">
+            <label htmlFor="ats-job-description" className="text-sm font-semibold text-gray-800 dark:text-gray-200">Target job description (optional)</label>
+            <textarea
+                id="ats-job-description"
+                value={jobDescription}
+                onChange={(e) => setJobDescription(e.target.value)}
+                rows={4}
+                placeholder="Paste a job description to score keyword coverage..."
+                className="mt-2 w-full p-3 text-sm bg-white/50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
         </div>
 
         <div className="text-sm text-gray-600 dark:text-gray-300 space-y-3">
             <p>
-                An <strong>Applicant Tracking System (ATS)</strong> is software used by recruiters and employers to manage job applications. Your ATS score is an estimate of how well your resume is optimized to be read and ranked by these systems.
-            </p>
-            <p>
-                A higher score means your resume is likely well-structured, contains relevant keywords for your target roles, and is easy for both software and recruiters to understand.
+                An <strong>Applicant Tracking System (ATS)</strong> is software used by recruiters and employers to manage job applications. This score is calculated on your device from the rules above, so it only changes when your resume (or the target job description) changes.
             </p>
             <ul className="list-disc list-inside space-y-1 pl-2">
                 <li><strong>90-100:</strong> Excellent</li>
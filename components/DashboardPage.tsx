@@ -1,10 +1,18 @@
-import React, { useState, useEffect } from 'react';
-import { AnalysisResult, SuggestedNextStep, TrackedJob } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AnalysisResult, SuggestedNextStep } from '../types';
+import { useCollection } from '../hooks/useCollection';
+import { buildCalendar, eventTitle, formatEventWhen, upcomingEvents } from '../services/applicationEvents';
+import { downloadBlob } from '../services/resumeExport';
+import { dueLabel } from './JobTimeline';
+import { FunnelAnalyticsPanel } from './FunnelAnalyticsPanel';
+import { DataBackupPanel } from './DataBackupPanel';
+import { SyncPanel } from './SyncPanel';
 import { ActiveTab } from './ResultsDisplay';
 import { Card } from './Card';
 import { RadialProgress } from './RadialProgress';
 import { getSuggestedNextSteps } from '../services/geminiService';
-import { ArrowRightIcon, BrainCircuitIcon, BriefcaseIcon, EditIcon, LightbulbIcon, LinkedinIcon, SearchIcon, VideoIcon, UsersIcon, MapIcon, BotMessageSquareIcon, Building2Icon } from './IconComponents';
+import { trackedJobsStore } from '../services/jobTracker';
+import { ArrowRightIcon, CalendarIcon, DownloadIcon, BrainCircuitIcon, BriefcaseIcon, EditIcon, LightbulbIcon, LinkedinIcon, SearchIcon, VideoIcon, UsersIcon, MapIcon, BotMessageSquareIcon, Building2Icon } from './IconComponents';
 
 interface DashboardPageProps {
     analysisResult: AnalysisResult;
@@ -31,22 +39,13 @@ const QuickActionCard: React.FC<{
 );
 
 export const DashboardPage: React.FC<DashboardPageProps> = ({ analysisResult, onNavigate, onEditResume }) => {
-    const [trackedJobsCount, setTrackedJobsCount] = useState(0);
+    // Live, so the count and upcoming events follow changes made in the tracker in another tab.
+    const trackedJobs = useCollection(trackedJobsStore);
+    const upcoming = useMemo(() => upcomingEvents(trackedJobs), [trackedJobs]);
     const [nextSteps, setNextSteps] = useState<SuggestedNextStep[]>([]);
     const [isLoadingSteps, setIsLoadingSteps] = useState(true);
 
     useEffect(() => {
-        // Load tracked jobs count from localStorage
-        try {
-            const storedJobs = localStorage.getItem('trackedJobs');
-            if (storedJobs) {
-                const jobs: TrackedJob[] = JSON.parse(storedJobs);
-                setTrackedJobsCount(jobs.length);
-            }
-        } catch (e) {
-            console.error("Failed to read tracked jobs from localStorage", e);
-        }
-
         // Fetch suggested next steps
         const fetchSteps = async () => {
             setIsLoadingSteps(true);
@@ -66,6 +65,10 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ analysisResult, on
 
     }, [analysisResult]);
 
+    const handleExportCalendar = () => {
+        downloadBlob(new Blob([buildCalendar(upcoming)], { type: 'text/calendar;charset=utf-8' }), 'careernova-applications.ics');
+    };
+
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Left Column */}
@@ -130,6 +133,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ analysisResult, on
                         onClick={() => onNavigate('linkedin')}
                     />
                 </div>
+                {trackedJobs.length > 0 && <FunnelAnalyticsPanel jobs={trackedJobs} />}
             </div>
 
             {/* Right Column */}
@@ -140,9 +144,41 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ analysisResult, on
                         <RadialProgress score={analysisResult.atsScore} />
                     </div>
                     <p className="text-xs text-gray-400">
-                        You are tracking <span className="font-bold text-purple-400">{trackedJobsCount}</span> job(s).
+                        You are tracking <span className="font-bold text-purple-400">{trackedJobs.length}</span> job(s).
                     </p>
                 </Card>
+                {upcoming.length > 0 && (
+                    <Card className="p-6">
+                        <div className="flex justify-between items-center">
+                            <h3 className="font-semibold text-lg flex items-center gap-2">
+                                <CalendarIcon className="w-5 h-5 text-sky-400" />
+                                Upcoming
+                            </h3>
+                            <button onClick={handleExportCalendar} className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold" title="Download all upcoming interviews and deadlines as an .ics calendar file">
+                                <DownloadIcon className="w-3 h-3" /> Export .ics
+                            </button>
+                        </div>
+                        <div className="mt-4 space-y-3">
+                            {upcoming.slice(0, 5).map(({ job, event }) => {
+                                const due = dueLabel(event);
+                                return (
+                                    <div
+                                        key={`${job.id}-${event.id}`}
+                                        onClick={() => onNavigate('tracker')}
+                                        className="bg-black/20 p-3 rounded-lg cursor-pointer hover:bg-black/40 transition-colors"
+                                    >
+                                        <p className="text-sm font-semibold text-gray-200 flex justify-between items-center gap-2">
+                                            <span className="truncate">{eventTitle(event)}</span>
+                                            {due && <span className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${due.className}`}>{due.text}</span>}
+                                        </p>
+                                        <p className="text-xs text-gray-400 truncate">{job.company} · {formatEventWhen(event)}</p>
+                                    </div>
+                                );
+                            })}
+                            {upcoming.length > 5 && <p className="text-xs text-gray-500 text-center">and {upcoming.length - 5} more in the Job Tracker</p>}
+                        </div>
+                    </Card>
+                )}
                 <Card className="p-6">
                     <h3 className="font-semibold text-lg flex items-center gap-2">
                         <LightbulbIcon className="w-5 h-5 text-yellow-400" />
@@ -174,6 +210,8 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ analysisResult, on
                         )}
                     </div>
                 </Card>
+                <DataBackupPanel />
+                <SyncPanel />
             </div>
         </div>
     );
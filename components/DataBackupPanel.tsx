@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CareerNovaBackup, ImportMode, ImportSummary, createBackup, importBackup, parseBackup, trackedJobsToCsv } from '../services/dataBackup';
+import { loadTrackedJobs } from '../services/jobTracker';
+import { StorageUsage, getStorageUsage, requestPersistentStorage } from '../services/storage';
+import { downloadBlob } from '../services/resumeExport';
+import { Card } from './Card';
+import { DatabaseBackupIcon, DownloadIcon, UploadIcon, RefreshCwIcon } from './IconComponents';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+    return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
+
+const IMPORT_MODES: { id: ImportMode; label: string; description: string }[] = [
+    { id: 'merge', label: 'Merge', description: "Adds the backup to what's here. Jobs in both are combined, and resumes keep their latest edit." },
+    { id: 'replace', label: 'Replace', description: "Deletes this browser's jobs, search history, resumes and interview history, then restores the backup." },
+];
+
+export const DataBackupPanel: React.FC = () => {
+    const [pending, setPending] = useState<{ fileName: string; backup: CareerNovaBackup } | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [includeRecordings, setIncludeRecordings] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        getStorageUsage().then(setUsage).catch(e => console.error("Failed to estimate storage usage", e));
+    }, [summary]);
+
+    const handlePersist = async () => {
+        const persisted = await requestPersistentStorage();
+        if (usage) setUsage({ ...usage, persisted });
+    };
+
+    const handleExport = async () => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            const backup = await createBackup({ includeRecordings });
+            downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), `careernova-backup-${today()}.json`);
+        } catch (e: any) {
+            console.error("Failed to export backup", e);
+            setError("Could not read your saved data for the backup.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleExportCsv = () => {
+        downloadBlob(new Blob([trackedJobsToCsv(loadTrackedJobs())], { type: 'text/csv;charset=utf-8' }), `careernova-jobs-${today()}.csv`);
+    };
+
+    const handleFile = async (file: File) => {
+        setError(null);
+        setSummary(null);
+        try {
+            setPending({ fileName: file.name, backup: parseBackup(await file.text()) });
+            setMode('merge');
+        } catch (e: any) {
+            setError(e.message || "Could not read that file.");
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pending) return;
+        if (mode === 'replace' && !window.confirm("Replace all CareerNova data in this browser with the backup? This cannot be undone.")) return;
+        setIsWorking(true);
+        setError(null);
+        try {
+            setSummary(await importBackup(pending.backup, mode));
+            setPending(null);
+        } catch (e: any) {
+            console.error("Failed to import backup", e);
+            setError(e.message || "The backup could not be imported.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <Card className="p-6">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+                <DatabaseBackupIcon className="w-5 h-5 text-emerald-400" />
+                Your Data
+            </h3>
+            <p className="mt-1 text-xs text-gray-400">Everything is stored in this browser. Back it up to move your search to another laptop or browser.</p>
+            {usage && (
+                <p className="mt-2 text-xs text-gray-500">
+                    Using {formatBytes(usage.usedBytes)}{usage.quotaBytes > 0 && ` of ${formatBytes(usage.quotaBytes)}`}.
+                    {' '}{usage.persisted
+                        ? 'Protected from automatic cleanup.'
+                        : <button onClick={handlePersist} className="text-sky-400 hover:text-sky-300 font-semibold" title="Ask the browser not to clear CareerNova's data when disk space runs low">Protect from cleanup</button>}
+                </p>
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-2">
+                <button onClick={handleExport} disabled={isWorking} className="text-xs flex items-center gap-1 bg-emerald-600/20 text-emerald-300 hover:bg-emerald-600/30 font-semibold py-1.5 px-3 rounded-md disabled:opacity-50" title="Tracked jobs, search history, resumes, interview history and settings in one file">
+                    <DownloadIcon className="w-3 h-3" /> Backup (.json)
+                </button>
+                <button onClick={handleExportCsv} className="text-xs flex items-center gap-1 bg-white/5 text-gray-300 hover:bg-white/10 font-semibold py-1.5 px-3 rounded-md" title="Tracked jobs as a spreadsheet. CSV files cannot be imported back.">
+                    <DownloadIcon className="w-3 h-3" /> Jobs (.csv)
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={isWorking} className="text-xs flex items-center gap-1 bg-white/5 text-gray-300 hover:bg-white/10 font-semibold py-1.5 px-3 rounded-md disabled:opacity-50">
+                    <UploadIcon className="w-3 h-3" /> Import
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+            </div>
+            <label className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                <input type="checkbox" checked={includeRecordings} onChange={(e) => setIncludeRecordings(e.target.checked)} />
+                Include interview recordings in the backup (makes the file much larger)
+            </label>
+
+            {pending && (
+                <div className="mt-4 bg-black/20 rounded-lg p-3 space-y-3">
+                    <div className="text-xs text-gray-300">
+                        <p className="font-semibold truncate">{pending.fileName}</p>
+                        {pending.backup.exportedAt && <p className="text-gray-400">Made {new Date(pending.backup.exportedAt).toLocaleString()}</p>}
+                        <p className="text-gray-400">
+                            {pending.backup.trackedJobs.length} job(s), {pending.backup.searchHistory.length} search(es), {pending.backup.resumes.length} resume(s), {pending.backup.interviewSessions.length} interview(s)
+                        </p>
+                    </div>
+                    <div className="bg-black/20 p-1 rounded-lg inline-flex">
+                        {IMPORT_MODES.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => setMode(option.id)}
+                                className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${mode === option.id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className={`text-xs ${mode === 'replace' ? 'text-amber-300' : 'text-gray-400'}`}>{IMPORT_MODES.find(option => option.id === mode)!.description}</p>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setPending(null)} className="text-xs text-gray-400 hover:text-white font-semibold py-1.5 px-3">Cancel</button>
+                        <button onClick={handleImport} disabled={isWorking} className="text-xs bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-1.5 px-4 rounded-md hover:opacity-90 disabled:opacity-50">
+                            {isWorking ? 'Importing...' : 'Import'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {summary && (
+                <div className="mt-4 bg-emerald-500/10 rounded-lg p-3 text-xs text-emerald-200 space-y-2">
+                    <p>
+                        Imported {summary.trackedJobs.added} new job(s){summary.trackedJobs.merged > 0 && `, combined ${summary.trackedJobs.merged} already tracked`},
+                        {' '}{summary.searchHistory} search(es), {summary.resumes.added + summary.resumes.updated} resume(s) and {summary.interviewSessions} interview(s).
+                    </p>
+                    {/* The open resume and editor state aren't swapped out underneath the user, so imported resumes show after a reload. */}
+                    <button onClick={() => window.location.reload()} className="flex items-center gap-1 font-semibold text-emerald-300 hover:text-emerald-200">
+                        <RefreshCwIcon className="w-3 h-3" /> Reload to see it
+                    </button>
+                </div>
+            )}
+
+            {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+        </Card>
+    );
+};
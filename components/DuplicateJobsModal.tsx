@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { TrackedJob } from '../types';
+import { DuplicateGroup, pickPrimary } from '../services/jobIdentity';
+import { SOURCE_LABELS } from '../services/jobTracker';
+import { XCircleIcon } from './IconComponents';
+
+interface DuplicateJobsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    groups: DuplicateGroup[];
+    // Jobs left out of the merge are kept, as different postings from the merged record.
+    onMerge: (primary: TrackedJob, others: TrackedJob[], leftOut: TrackedJob[]) => void;
+    // Called with the jobs the user says are all different postings.
+    onKeepSeparate: (jobs: TrackedJob[]) => void;
+}
+
+const hostOf = (url: string) => {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return url;
+    }
+};
+
+const Detail: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <p className="text-xs"><span className="text-gray-400">{label}:</span> <span className="text-gray-200">{children}</span></p>
+);
+
+export const DuplicateJobsModal: React.FC<DuplicateJobsModalProps> = ({ isOpen, onClose, groups, onMerge, onKeepSeparate }) => {
+    const [index, setIndex] = useState(0);
+    const [primaryId, setPrimaryId] = useState<string | null>(null);
+    const [excluded, setExcluded] = useState<string[]>([]);
+
+    const group = groups[Math.min(index, groups.length - 1)];
+
+    // Each group starts from the suggested record with every job included.
+    useEffect(() => {
+        setPrimaryId(group ? pickPrimary(group.jobs).id : null);
+        setExcluded([]);
+    }, [group]);
+
+    useEffect(() => {
+        if (isOpen && groups.length === 0) onClose();
+    }, [isOpen, groups.length]);
+
+    if (!isOpen || !group) return null;
+
+    const included = group.jobs.filter(job => !excluded.includes(job.id));
+    const primary = included.find(job => job.id === primaryId) || included[0];
+
+    const toggleIncluded = (id: string) => {
+        setExcluded(excluded.includes(id) ? excluded.filter(e => e !== id) : [...excluded, id]);
+    };
+
+    const handleMerge = () => {
+        if (!primary || included.length < 2) return;
+        onMerge(primary, included.filter(job => job !== primary), group.jobs.filter(job => excluded.includes(job.id)));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 backdrop-blur-sm" onClick={onClose} role="dialog">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white">Possible Duplicates</h2>
+                        <p className="text-sm text-indigo-600 dark:text-indigo-400 font-semibold">{group.reasons.join(' · ')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
+                        <XCircleIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                <main className="flex-grow overflow-auto p-4">
+                    <p className="text-xs text-gray-400 mb-3">Choose whose stage and posting details to keep. Notes, timeline events, tags and stage history from every included record are combined.</p>
+                    <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(group.jobs.length, 3)}, minmax(0, 1fr))` }}>
+                        {group.jobs.map(job => {
+                            const isIncluded = !excluded.includes(job.id);
+                            const isPrimary = job === primary;
+                            return (
+                                <div key={job.id} className={`rounded-lg p-3 space-y-2 border transition-colors ${isPrimary ? 'border-purple-500 bg-purple-500/10' : 'border-white/10 bg-black/20'} ${isIncluded ? '' : 'opacity-50'}`}>
+                                    <div>
+                                        <h3 className="font-bold text-sm text-purple-300">{job.title}</h3>
+                                        <p className="text-xs font-semibold text-gray-200">{job.company} - <span className="text-gray-400 font-normal">{job.location}</span></p>
+                                    </div>
+                                    <Detail label="Stage">{job.status}</Detail>
+                                    <Detail label="Source">{SOURCE_LABELS[job.source || 'agent']}</Detail>
+                                    {job.url && <Detail label="Link"><a href={job.url} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:text-sky-300">{hostOf(job.url)}</a></Detail>}
+                                    {job.applicationDate && <Detail label="Applied">{new Date(job.applicationDate).toLocaleDateString()}</Detail>}
+                                    <Detail label="Timeline">{(job.events || []).length} event(s)</Detail>
+                                    {(job.tags || []).length > 0 && <Detail label="Tags">{job.tags!.join(', ')}</Detail>}
+                                    {job.notes && <p className="text-xs text-gray-400 line-clamp-3 whitespace-pre-wrap">{job.notes}</p>}
+                                    <div className="flex justify-between items-center pt-2 border-t border-white/10 text-xs">
+                                        <label className="flex items-center gap-1 cursor-pointer text-gray-300">
+                                            <input type="radio" name="primary" checked={isPrimary} disabled={!isIncluded} onChange={() => setPrimaryId(job.id)} className="accent-purple-500" />
+                                            Keep these details
+                                        </label>
+                                        <label className="flex items-center gap-1 cursor-pointer text-gray-400">
+                                            <input type="checkbox" checked={isIncluded} onChange={() => toggleIncluded(job.id)} className="accent-purple-500" />
+                                            Include
+                                        </label>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </main>
+
+                <footer className="p-4 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center gap-3">
+                    <div className="flex items-center gap-3 text-xs text-gray-400">
+                        <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="hover:text-white disabled:opacity-40">Previous</button>
+                        <span>{Math.min(index, groups.length - 1) + 1} of {groups.length}</span>
+                        <button onClick={() => setIndex(i => Math.min(groups.length - 1, i + 1))} disabled={index >= groups.length - 1} className="hover:text-white disabled:opacity-40">Next</button>
+                    </div>
+                    <div className="flex gap-3">
+                        <button onClick={() => onKeepSeparate(group.jobs)} className="text-sm font-semibold py-2 px-4 rounded-lg text-gray-300 hover:bg-white/5">
+                            Not Duplicates
+                        </button>
+                        <button onClick={handleMerge} disabled={included.length < 2} className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-2 px-6 rounded-lg hover:shadow-lg hover:opacity-90 transition-all duration-200 disabled:opacity-50">
+                            Merge {included.length} Records
+                        </button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
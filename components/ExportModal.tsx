@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { PageFit, ResumeFont, StructuredResume, TemplateSettings } from '../types';
+import { getDefaultSettings, MARGIN_RANGE_MM, RESUME_TEMPLATES } from '../services/resumeTemplates';
+import { downloadBlob, renderResumeDocx, renderResumePdf, resumeToJsonResume, resumeToMarkdown } from '../services/resumeExport';
+import { XCircleIcon, DownloadIcon, CheckCircleIcon, AlertTriangleIcon } from './IconComponents';
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    resume: StructuredResume;
+    resumeText: string;
+    // Used as the stem of every exported file name.
+    fileBaseName: string;
+    settings: TemplateSettings;
+    onSettingsChange: (settings: TemplateSettings) => void;
+}
+
+type ExportFormat = 'pdf' | 'docx' | 'md' | 'json' | 'txt';
+
+const FONTS: Array<{ id: ResumeFont; label: string }> = [
+    { id: 'helvetica', label: 'Sans-serif' },
+    { id: 'times', label: 'Serif' },
+    { id: 'courier', label: 'Monospace' },
+];
+
+const PAGE_FITS: Array<{ id: PageFit; label: string }> = [
+    { id: 'natural', label: 'Natural' },
+    { id: 'one-page', label: '1 page' },
+    { id: 'two-page', label: '2 pages' },
+];
+
+const FORMATS: Array<{ id: ExportFormat; label: string }> = [
+    { id: 'pdf', label: 'PDF' },
+    { id: 'docx', label: 'Word (.docx)' },
+    { id: 'md', label: 'Markdown' },
+    { id: 'json', label: 'JSON Resume' },
+    { id: 'txt', label: 'Plain text' },
+];
+
+// Re-rendering on every keystroke of the colour picker or margin slider is wasteful.
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const labelClass = "text-xs font-bold uppercase tracking-widest text-gray-500 dark:text-gray-400 mb-2 block";
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resume, resumeText, fileBaseName, settings, onSettingsChange }) => {
+    const [preview, setPreview] = useState<{ url: string; pageCount: number; scale: number; fits: boolean } | null>(null);
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let url: string | null = null;
+        const timer = setTimeout(() => {
+            try {
+                const render = renderResumePdf(resume, settings);
+                url = URL.createObjectURL(render.doc.output('blob'));
+                setPreview({ url, pageCount: render.pageCount, scale: render.scale, fits: render.fits });
+                setError(null);
+            } catch (err) {
+                console.error("Failed to render resume preview:", err);
+                setError("Couldn't render the preview with these settings.");
+            }
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [isOpen, resume, settings]);
+
+    if (!isOpen) return null;
+
+    const update = (patch: Partial<TemplateSettings>) => onSettingsChange({ ...settings, ...patch });
+
+    const handleExport = async (format: ExportFormat) => {
+        setExporting(format);
+        setError(null);
+        try {
+            switch (format) {
+                case 'pdf':
+                    downloadBlob(renderResumePdf(resume, settings).doc.output('blob'), `${fileBaseName}.pdf`);
+                    break;
+                case 'docx':
+                    downloadBlob(await renderResumeDocx(resume, settings), `${fileBaseName}.docx`);
+                    break;
+                case 'md':
+                    downloadBlob(new Blob([resumeToMarkdown(resume)], { type: 'text/markdown;charset=utf-8' }), `${fileBaseName}.md`);
+                    break;
+                case 'json':
+                    downloadBlob(new Blob([JSON.stringify(resumeToJsonResume(resume), null, 2)], { type: 'application/json' }), `${fileBaseName}.resume.json`);
+                    break;
+                case 'txt':
+                    downloadBlob(new Blob([resumeText], { type: 'text/plain;charset=utf-8' }), `${fileBaseName}.txt`);
+                    break;
+            }
+        } catch (err) {
+            console.error(`Resume export (${format}) failed:`, err);
+            setError("Export failed. Please try again.");
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center backdrop-blur-sm"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="export-title"
+        >
+            <div
+                className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg rounded-lg shadow-xl w-full max-w-6xl m-4 p-6 relative animate-fade-in-up border border-white/20 dark:border-gray-700 max-h-[92vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
+                    <XCircleIcon className="w-6 h-6" />
+                </button>
+                <h2 id="export-title" className="text-xl font-bold text-gray-800 dark:text-white mb-4">Export Resume</h2>
+
+                <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 min-h-0 flex-grow">
+                    <div className="lg:col-span-2 space-y-6 overflow-y-auto pr-2 custom-scrollbar">
+                        <div>
+                            <span className={labelClass}>Template</span>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                {RESUME_TEMPLATES.map(template => (
+                                    <button
+                                        key={template.id}
+                                        onClick={() => onSettingsChange({ ...getDefaultSettings(template.id), marginMm: settings.marginMm, pageFit: settings.pageFit })}
+                                        className={`text-left p-3 rounded-lg border transition-colors ${settings.templateId === template.id ? 'border-purple-500 bg-purple-500/10' : 'border-gray-300 dark:border-gray-700 hover:border-gray-500'}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold text-sm text-gray-800 dark:text-gray-100">{template.name}</span>
+                                            <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${template.atsSafe ? 'bg-green-500/15 text-green-600 dark:text-green-300' : 'bg-amber-500/15 text-amber-600 dark:text-amber-300'}`}>
+                                                {template.atsSafe ? 'ATS-safe' : 'Designer'}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{template.description}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="export-font" className={labelClass}>Font</label>
+                                <select
+                                    id="export-font"
+                                    value={settings.font}
+                                    onChange={(e) => update({ font: e.target.value as ResumeFont })}
+                                    className="w-full bg-black/5 dark:bg-black/20 border border-gray-300 dark:border-white/10 rounded-md px-2 py-1.5 text-sm text-gray-800 dark:text-gray-200"
+                                >
+                                    {FONTS.map(font => <option key={font.id} value={font.id}>{font.label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="export-accent" className={labelClass}>Accent colour</label>
+                                <input
+                                    id="export-accent"
+                                    type="color"
+                                    value={settings.accentColor}
+                                    onChange={(e) => update({ accentColor: e.target.value })}
+                                    className="w-full h-9 bg-transparent rounded-md cursor-pointer"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label htmlFor="export-margin" className={labelClass}>Margins: {settings.marginMm} mm</label>
+                            <input
+                                id="export-margin"
+                                type="range"
+                                min={MARGIN_RANGE_MM.min}
+                                max={MARGIN_RANGE_MM.max}
+                                value={settings.marginMm}
+                                onChange={(e) => update({ marginMm: Number(e.target.value) })}
+                                className="w-full accent-purple-500"
+                            />
+                        </div>
+
+                        <div>
+                            <span className={labelClass}>Page fit</span>
+                            <div className="bg-black/5 dark:bg-black/20 p-1 rounded-lg inline-flex">
+                                {PAGE_FITS.map(fit => (
+                                    <button
+                                        key={fit.id}
+                                        onClick={() => update({ pageFit: fit.id })}
+                                        className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${settings.pageFit === fit.id ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white'}`}
+                                    >
+                                        {fit.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {preview && (
+                                <p className={`text-xs mt-2 flex items-center gap-1 ${preview.fits ? 'text-gray-500 dark:text-gray-400' : 'text-amber-600 dark:text-amber-300'}`}>
+                                    {preview.fits ? <CheckCircleIcon className="w-3.5 h-3.5 text-green-500" /> : <AlertTriangleIcon className="w-3.5 h-3.5" />}
+                                    {preview.pageCount} {preview.pageCount === 1 ? 'page' : 'pages'}
+                                    {preview.scale < 1 && ` · text scaled to ${Math.round(preview.scale * 100)}%`}
+                                    {!preview.fits && ' · still too long, consider trimming content'}
+                                </p>
+                            )}
+                        </div>
+
+                        <div>
+                            <span className={labelClass}>Download</span>
+                            <div className="grid grid-cols-2 gap-2">
+                                {FORMATS.map(format => (
+                                    <button
+                                        key={format.id}
+                                        onClick={() => handleExport(format.id)}
+                                        disabled={exporting !== null}
+                                        className={`flex items-center justify-center gap-2 text-sm font-semibold py-2 px-3 rounded-lg transition-colors disabled:opacity-50 ${format.id === 'pdf' || format.id === 'docx' ? 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white' : 'bg-black/5 dark:bg-white/5 text-gray-700 dark:text-gray-200 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                                    >
+                                        <DownloadIcon className="w-4 h-4" />
+                                        {exporting === format.id ? 'Exporting...' : format.label}
+                                    </button>
+                                ))}
+                            </div>
+                            {!RESUME_TEMPLATES.find(t => t.id === settings.templateId)?.atsSafe && (
+                                <p className="text-xs text-amber-600 dark:text-amber-300 mt-2">Two-column PDFs can confuse ATS parsers. The Word export always uses a single column.</p>
+                            )}
+                            {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+                        </div>
+                    </div>
+
+                    <div className="lg:col-span-3 min-h-[50vh] bg-gray-200 dark:bg-black/30 rounded-lg overflow-hidden">
+                        {preview ? (
+                            <iframe src={`${preview.url}#toolbar=0&view=FitH`} title="Resume preview" className="w-full h-full min-h-[50vh]" />
+                        ) : (
+                            <div className="flex items-center justify-center h-full text-sm text-gray-500">Rendering preview...</div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
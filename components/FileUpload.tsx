@@ -1,32 +1,46 @@
 
 import React, { useState, useRef } from 'react';
-import { UploadIcon, FileTextIcon, FilePdfIcon, FileDocIcon, XCircleIcon, SparklesIcon } from './IconComponents';
+import { UploadIcon, FileTextIcon, FilePdfIcon, FileDocIcon, XCircleIcon, SparklesIcon, ImageIcon, AlertTriangleIcon } from './IconComponents';
+import { ExtractionProgress, TextExtraction } from '../types';
+import { extractResumeText } from '../services/geminiService';
+import { FORMAT_MIME_TYPES } from '../services/fileSniffer';
 
 interface FileUploadProps {
-  onAnalyze: (file: File) => void;
+  onAnalyze: (file: File, extraction: TextExtraction) => void;
 }
 
-const ACCEPTED_FILE_TYPES = [
-    'application/pdf', 
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 
-    'text/plain'
-];
-const ACCEPTED_FILE_EXTENSIONS = ".pdf,.docx,.txt";
+// A first filter only: browsers often report an empty or generic type, so the file's contents
+// decide its format during extraction.
+const ACCEPTED_FILE_TYPES = [...Object.values(FORMAT_MIME_TYPES), 'text/x-markdown', 'text/rtf'];
+const ACCEPTED_FILE_EXTENSIONS = ".pdf,.docx,.odt,.rtf,.html,.htm,.md,.markdown,.json,.txt,.png,.jpg,.jpeg";
 const MAX_FILE_SIZE_MB = 5;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+// Below this the recognised text usually needs checking before it is worth analysing.
+const LOW_CONFIDENCE = 70;
+
+const describeProgress = (progress: ExtractionProgress) => {
+  const page = progress.pageCount > 1 ? ` page ${progress.pageNumber} of ${progress.pageCount}` : '';
+  if (progress.method === 'text') return `Reading${page}...`;
+  return `Running OCR on${page || ' image'}... ${Math.round((progress.progress || 0) * 100)}%`;
+};
 
 export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  // Set only when OCR was needed, so the user can check the recognised text before analysis.
+  const [review, setReview] = useState<TextExtraction | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File | undefined | null): boolean => {
     setError(null);
     if (!file) return false;
 
-    if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
-      setError("Invalid file type. Please upload a PDF, DOCX, or TXT file.");
+    const extension = '.' + (file.name.split('.').pop() || '').toLowerCase();
+    if (!ACCEPTED_FILE_TYPES.includes(file.type) && !ACCEPTED_FILE_EXTENSIONS.split(',').includes(extension)) {
+      setError("Invalid file type. Please upload a PDF, Word, OpenDocument, RTF, HTML, Markdown, JSON Resume, text or image file.");
       return false;
     }
     
@@ -72,12 +86,34 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze }) => {
   const handleRemoveFile = () => {
     setSelectedFile(null);
     setError(null);
+    setReview(null);
   }
 
-  const handleSubmit = (event: React.FormEvent) => {
+  const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    if (selectedFile) {
-      onAnalyze(selectedFile);
+    if (!selectedFile) return;
+    if (review) {
+      onAnalyze(selectedFile, review);
+      return;
+    }
+
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extraction = await extractResumeText(selectedFile, setProgress);
+      if (!extraction.text.trim()) {
+        setError("Couldn't find any text in this file, even with OCR. Try a sharper scan or a different format.");
+      } else if (extraction.pages.some(page => page.method === 'ocr')) {
+        setReview(extraction);
+      } else {
+        onAnalyze(selectedFile, extraction);
+      }
+    } catch (err: any) {
+      console.error("Failed to extract text from resume:", err);
+      setError(err.message || "Couldn't read this file. Please try another one.");
+    } finally {
+      setIsExtracting(false);
+      setProgress(null);
     }
   };
   
@@ -113,22 +149,58 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze }) => {
                   <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400"><FilePdfIcon className="w-5 h-5 text-red-500/80" /> PDF</span>
                   <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400"><FileDocIcon className="w-5 h-5 text-blue-500/80" /> DOCX</span>
                   <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400"><FileTextIcon className="w-5 h-5 text-gray-500/80" /> TXT</span>
+                  <span className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400"><ImageIcon className="w-5 h-5 text-emerald-500/80" /> PNG / JPG</span>
               </div>
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">Also ODT, RTF, HTML, Markdown, JSON Resume and your LinkedIn "Save to PDF" profile</p>
               <p className="text-xs text-gray-400 dark:text-gray-500 mt-4 font-medium">(Max file size: {MAX_FILE_SIZE_MB}MB)</p>
             </div>
           </div>
         ) : (
           <div className="bg-white/20 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
             <div className="flex items-center space-x-4">
-               {selectedFile.type.includes('pdf') ? <FilePdfIcon className="w-10 h-10 text-red-500 flex-shrink-0" /> : selectedFile.type.includes('word') ? <FileDocIcon className="w-10 h-10 text-blue-500 flex-shrink-0" /> : <FileTextIcon className="w-10 h-10 text-gray-500 dark:text-gray-300 flex-shrink-0" />}
+               {selectedFile.type.includes('pdf') ? <FilePdfIcon className="w-10 h-10 text-red-500 flex-shrink-0" /> : /word|opendocument|rtf/.test(selectedFile.type) ? <FileDocIcon className="w-10 h-10 text-blue-500 flex-shrink-0" /> : selectedFile.type.startsWith('image/') ? <ImageIcon className="w-10 h-10 text-emerald-500 flex-shrink-0" /> : <FileTextIcon className="w-10 h-10 text-gray-500 dark:text-gray-300 flex-shrink-0" />}
                <div className="flex-grow min-w-0">
                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{selectedFile.name}</p>
                    <p className="text-xs text-gray-500 dark:text-gray-400">{getFileSize(selectedFile.size)}</p>
                </div>
-               <button type="button" onClick={handleRemoveFile} className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors" aria-label="Remove file">
+               <button type="button" onClick={handleRemoveFile} disabled={isExtracting} className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors" aria-label="Remove file">
                    <XCircleIcon className="w-6 h-6" />
                </button>
             </div>
+            {progress && (
+              <div className="mt-4">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{describeProgress(progress)}</p>
+                <div className="h-1.5 bg-gray-300 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-500 transition-all"
+                    style={{ width: `${((progress.pageNumber - 1 + (progress.progress || 0)) / progress.pageCount) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {review && (
+              <div className="mt-4 space-y-2">
+                <p className="text-xs text-gray-600 dark:text-gray-300">Some of this file is an image, so its text was recognised with OCR. Check it looks right before analysing.</p>
+                <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                  {review.pages.map(page => (
+                    <li key={page.pageNumber} className="bg-black/5 dark:bg-black/20 rounded-md p-2">
+                      <div className="flex justify-between items-center text-xs mb-1">
+                        <span className="font-semibold text-gray-700 dark:text-gray-200">Page {page.pageNumber}</span>
+                        {page.method === 'ocr' ? (
+                          <span className={`flex items-center gap-1 font-semibold ${(page.confidence ?? 0) < LOW_CONFIDENCE ? 'text-amber-600 dark:text-amber-300' : 'text-green-600 dark:text-green-400'}`}>
+                            {(page.confidence ?? 0) < LOW_CONFIDENCE && <AlertTriangleIcon className="w-3.5 h-3.5" />}
+                            OCR · {Math.round(page.confidence ?? 0)}% confidence
+                          </span>
+                        ) : (
+                          <span className="text-gray-500 dark:text-gray-400">Text layer{(page.columnCount || 1) > 1 && ` · ${page.columnCount} columns`}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-3 whitespace-pre-line">{page.text.trim() || '(no text found)'}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
@@ -144,12 +216,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onAnalyze }) => {
 
         <button
           type="submit"
-          disabled={!selectedFile}
+          disabled={!selectedFile || isExtracting}
           className="mt-6 w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-3 px-4 rounded-lg disabled:from-gray-500 disabled:to-gray-600 dark:disabled:from-gray-600 dark:disabled:to-gray-700 disabled:cursor-not-allowed transition-all duration-300 focus:outline-none focus:ring-4 focus:ring-purple-500/50 shadow-[0_10px_20px_rgba(120,_80,_220,_0.2)] hover:shadow-[0_15px_30px_rgba(120,_80,_220,_0.3)] disabled:shadow-none transform hover:scale-105 disabled:scale-100 animate-pulse-slow disabled:animate-none"
         >
           <SparklesIcon className="w-5 h-5" />
-          Analyze My Resume
+          {isExtracting ? 'Reading File...' : review ? 'Looks Right, Analyze' : 'Analyze My Resume'}
         </button>
+        {review && (
+          <button type="button" onClick={handleRemoveFile} className="mt-3 w-full text-sm text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white">
+            Choose another file
+          </button>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { TrackedJob } from '../types';
+import { FUNNEL_STAGES, GroupPerformance, MIN_GROUP_SIZE, StageDuration, computeFunnelAnalytics } from '../services/funnelAnalytics';
+import { Card } from './Card';
+import { ActivityIcon, TrendingUpIcon } from './IconComponents';
+
+interface FunnelAnalyticsPanelProps {
+    jobs: TrackedJob[];
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatDays = (days: number) => days < 1 ? '<1d' : `${Math.round(days)}d`;
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-3">{children}</h4>
+);
+
+const Bar: React.FC<{ value: number; className: string }> = ({ value, className }) => (
+    <div className="h-2 bg-black/30 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full transition-all duration-700 ${className}`} style={{ width: `${Math.max(0, Math.min(1, value)) * 100}%` }} />
+    </div>
+);
+
+// Min–max whisker, interquartile box and median tick, on a shared day scale.
+const DurationRow: React.FC<{ duration: StageDuration; scale: number }> = ({ duration, scale }) => {
+    const at = (days: number) => `${(days / scale) * 100}%`;
+    return (
+        <div className="grid grid-cols-[7rem_1fr_6rem] items-center gap-3 text-xs">
+            <span className="text-gray-300 truncate">{duration.stage}</span>
+            {duration.count > 0 ? (
+                <div className="relative h-4" title={`min ${formatDays(duration.min)}, quartiles ${formatDays(duration.p25)}–${formatDays(duration.p75)}, max ${formatDays(duration.max)}`}>
+                    <div className="absolute top-1/2 h-px bg-gray-500" style={{ left: at(duration.min), width: `calc(${at(duration.max - duration.min)} + 1px)` }} />
+                    <div className="absolute top-1 h-2 bg-purple-500/50 rounded-sm" style={{ left: at(duration.p25), width: `calc(${at(duration.p75 - duration.p25)} + 2px)` }} />
+                    <div className="absolute top-0 h-4 w-0.5 bg-purple-300" style={{ left: at(duration.median) }} />
+                </div>
+            ) : (
+                <span className="text-gray-500">No jobs have left this stage yet</span>
+            )}
+            <span className="text-gray-400 text-right">
+                {duration.count > 0 && <>median <span className="text-gray-200 font-semibold">{formatDays(duration.median)}</span></>}
+                {duration.ongoing > 0 && <span className="block text-gray-500">{duration.ongoing} still here</span>}
+            </span>
+        </div>
+    );
+};
+
+const GroupTable: React.FC<{ groups: GroupPerformance[] }> = ({ groups }) => (
+    <div className="space-y-2">
+        {groups.map(group => {
+            const isSmall = group.applied < MIN_GROUP_SIZE;
+            return (
+                <div key={group.label} className={`grid grid-cols-[minmax(0,1fr)_5rem_5rem] items-center gap-3 text-xs ${isSmall ? 'opacity-60' : ''}`} title={isSmall ? 'Too few applications to compare reliably' : undefined}>
+                    <span className="text-gray-300 truncate">{group.label} <span className="text-gray-500">({group.applied})</span></span>
+                    <div>
+                        <Bar value={group.interviewRate} className="bg-sky-400" />
+                        <span className="text-gray-400">{percent(group.interviewRate)}</span>
+                    </div>
+                    <div>
+                        <Bar value={group.offerRate} className="bg-green-400" />
+                        <span className="text-gray-400">{percent(group.offerRate)}</span>
+                    </div>
+                </div>
+            );
+        })}
+        <div className="grid grid-cols-[minmax(0,1fr)_5rem_5rem] gap-3 text-xs text-gray-500">
+            <span />
+            <span>Interviewed</span>
+            <span>Offered</span>
+        </div>
+    </div>
+);
+
+export const FunnelAnalyticsPanel: React.FC<FunnelAnalyticsPanelProps> = ({ jobs }) => {
+    const [groupBy, setGroupBy] = useState<'resume' | 'role'>('resume');
+    const analytics = useMemo(() => computeFunnelAnalytics(jobs), [jobs]);
+
+    if (analytics.appliedCount === 0) {
+        return (
+            <Card className="p-6">
+                <h3 className="font-semibold text-lg flex items-center gap-2">
+                    <TrendingUpIcon className="w-5 h-5 text-purple-400" />
+                    Search Analytics
+                </h3>
+                <p className="mt-2 text-sm text-gray-400">Move a job past "Saved" in the Job Tracker to start seeing how your applications convert.</p>
+            </Card>
+        );
+    }
+
+    const maxWeekly = Math.max(1, ...analytics.velocity.map(week => week.count));
+    const durationScale = Math.max(1, ...analytics.durations.map(duration => duration.max));
+    const groups = groupBy === 'resume' ? analytics.byResume : analytics.byRoleFamily;
+
+    return (
+        <Card className="p-6 space-y-8">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+                <TrendingUpIcon className="w-5 h-5 text-purple-400" />
+                Search Analytics
+                <span className="text-xs font-normal text-gray-400 ml-auto">{analytics.appliedCount} application(s)</span>
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <div>
+                    <SectionTitle>Funnel</SectionTitle>
+                    <div className="space-y-2">
+                        {FUNNEL_STAGES.map((stage, i) => {
+                            const conversion = analytics.conversions[i - 1];
+                            return (
+                                <div key={stage}>
+                                    {conversion && (
+                                        <p className="text-xs text-gray-500 pl-2">↓ {percent(conversion.rate)}</p>
+                                    )}
+                                    <div className="flex justify-between text-xs mb-1">
+                                        <span className="text-gray-300">{stage}</span>
+                                        <span className="text-gray-400">{analytics.reached[stage]}</span>
+                                    </div>
+                                    <Bar value={analytics.reached[stage] / analytics.appliedCount} className="bg-gradient-to-r from-purple-500 to-sky-400" />
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div className="space-y-8">
+                    <div>
+                        <SectionTitle>Response Rate by Source</SectionTitle>
+                        <div className="space-y-3">
+                            {analytics.sources.map(source => (
+                                <div key={source.source}>
+                                    <div className="flex justify-between text-xs mb-1">
+                                        <span className="text-gray-300">{source.label}</span>
+                                        <span className="text-gray-400">{source.applied > 0 ? `${percent(source.rate)} of ${source.applied}` : 'No applications'}</span>
+                                    </div>
+                                    <Bar value={source.rate} className="bg-indigo-400" />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <SectionTitle>Applications per Week</SectionTitle>
+                        <div className="flex items-end gap-1 h-24" role="img" aria-label={`Applications over the last ${analytics.velocity.length} weeks`}>
+                            {analytics.velocity.map(week => (
+                                <div
+                                    key={week.weekStart.toISOString()}
+                                    className="flex-1 bg-sky-400/70 hover:bg-sky-300 rounded-t transition-colors"
+                                    style={{ height: `${Math.max(week.count / maxWeekly * 100, week.count > 0 ? 4 : 1)}%` }}
+                                    title={`Week of ${week.weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}: ${week.count}`}
+                                />
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500 mt-1">
+                            <span>{analytics.velocity[0].weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                            <span>This week</span>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {analytics.durations.length > 0 && (
+                <div>
+                    <SectionTitle>Time in Stage</SectionTitle>
+                    <div className="space-y-2">
+                        {analytics.durations.map(duration => (
+                            <DurationRow key={duration.stage} duration={duration} scale={durationScale} />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div>
+                <div className="flex justify-between items-center mb-3">
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-gray-400 flex items-center gap-2">
+                        <ActivityIcon className="w-4 h-4" /> What Converts
+                    </h4>
+                    <div className="bg-black/20 p-1 rounded-lg inline-flex">
+                        {(['resume', 'role'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setGroupBy(option)}
+                                className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${groupBy === option ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                            >
+                                {option === 'resume' ? 'Resume' : 'Role Family'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <GroupTable groups={groups} />
+            </div>
+        </Card>
+    );
+};
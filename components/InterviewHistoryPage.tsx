@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { InterviewSession } from '../types';
+import { SESSION_METRICS, SessionMetric, deleteInterviewSession, findQuotedTurn, listInterviewSessions, metricTrend, saveInterviewSession } from '../services/interviewSessions';
+import { INTERVIEW_SESSION_STORE, subscribeToStore } from '../services/storage';
+import { getInterviewFeedback } from '../services/geminiService';
+import { analyzeSpeech } from '../services/speechAnalytics';
+import { Card } from './Card';
+import { AnswerScoreCard } from './InterviewModal';
+import { SpeechAnalyticsPanel } from './SpeechAnalyticsPanel';
+import { ArrowLeftIcon, BotIcon, HistoryIcon, MicIcon, SparklesIcon, TrendingUpIcon, UserIcon, XCircleIcon } from './IconComponents';
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${change}`;
+
+const CHART_WIDTH = 200;
+const CHART_HEIGHT = 48;
+
+const TrendCard: React.FC<{ metric: SessionMetric; sessions: InterviewSession[] }> = ({ metric, sessions }) => {
+    const trend = metricTrend(sessions, metric);
+    const values = trend.points.map(p => p.value);
+    const top = metric.max ?? Math.max(1, ...values);
+    const x = (i: number) => trend.points.length === 1 ? CHART_WIDTH / 2 : (i / (trend.points.length - 1)) * CHART_WIDTH;
+    const y = (value: number) => CHART_HEIGHT - 4 - (value / top) * (CHART_HEIGHT - 8);
+    const isImproving = trend.change !== undefined && trend.change !== 0 && (trend.change > 0) !== !!metric.lowerIsBetter;
+
+    return (
+        <div className="bg-black/20 rounded-lg p-3">
+            <div className="flex items-baseline justify-between">
+                <h4 className="text-xs font-semibold text-gray-300">{metric.label}</h4>
+                <span className="text-lg font-bold">{trend.latest ?? '–'}</span>
+            </div>
+            {trend.points.length > 0 ? (
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-12 mt-1" role="img" aria-label={`${metric.label} over ${trend.points.length} sessions`}>
+                    <polyline
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        className="text-purple-400"
+                        points={trend.points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}
+                    />
+                    {trend.points.map((p, i) => (
+                        <circle key={p.sessionId} cx={x(i)} cy={y(p.value)} r="2.5" className="fill-purple-300">
+                            <title>{`${formatDate(p.date)}: ${p.value}`}</title>
+                        </circle>
+                    ))}
+                </svg>
+            ) : (
+                <p className="text-xs text-gray-500 h-12 flex items-center">No scored sessions yet</p>
+            )}
+            <p className={`text-xs ${trend.change === undefined ? 'text-gray-500' : isImproving ? 'text-green-400' : trend.change === 0 ? 'text-gray-400' : 'text-amber-400'}`}>
+                {trend.change === undefined ? 'Needs 4+ sessions to compare' : `${formatChange(trend.change)} vs. the 3 sessions before`}
+            </p>
+        </div>
+    );
+};
+
+const AudioSegment: React.FC<{ blob: Blob; label: string }> = ({ blob, label }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [blob]);
+    return (
+        <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-400 w-14 flex-shrink-0">{label}</span>
+            {url && <audio controls src={url} className="w-full h-8" />}
+        </div>
+    );
+};
+
+const SessionReplay: React.FC<{ session: InterviewSession; onBack: () => void; onUpdated: (session: InterviewSession) => void }> = ({ session, onBack, onUpdated }) => {
+    const [highlighted, setHighlighted] = useState<number | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const turnRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const improvements = session.report?.feedback?.exampleImprovements || [];
+    const quotedTurns = useMemo(() => improvements.map(item => findQuotedTurn(session.transcript, item.userAnswer)), [session]);
+    const speech = useMemo(() => analyzeSpeech(session.transcript), [session.transcript]);
+
+    const showTurn = (index: number) => {
+        if (index < 0) return;
+        setHighlighted(index);
+        turnRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    const handleGenerateReport = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            // Answer scores from when the session ended are kept.
+            const updated = { ...session, report: { ...session.report, ...await getInterviewFeedback(session.transcript) } };
+            await saveInterviewSession(updated);
+            onUpdated(updated);
+        } catch (e: any) {
+            setError(e.message || "Could not generate the report.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="flex items-center gap-3">
+                <button onClick={onBack} className="p-2 rounded-lg bg-white/10 hover:bg-white/20" aria-label="Back to history"><ArrowLeftIcon className="w-5 h-5" /></button>
+                <div>
+                    <h2 className="text-xl font-bold">{session.role}</h2>
+                    <p className="text-sm text-gray-400">{formatDate(session.startedAt)} · {formatDuration(session.durationSeconds)} · {session.mode === 'structured' ? 'Structured' : 'Free-form'}</p>
+                </div>
+            </div>
+
+            {session.audio && session.audio.length > 0 && (
+                <Card className="p-4 space-y-2">
+                    <h3 className="font-bold flex items-center gap-2"><MicIcon className="w-5 h-5 text-purple-400" /> Your Recording</h3>
+                    {session.audio.map((blob, i) => <AudioSegment key={i} blob={blob} label={session.audio!.length > 1 ? `Part ${i + 1}` : ''} />)}
+                </Card>
+            )}
+
+            <SpeechAnalyticsPanel analytics={speech} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                <Card className="p-4">
+                    <h3 className="font-bold mb-3">Transcript</h3>
+                    <div className="space-y-3 max-h-[70vh] overflow-y-auto pr-1">
+                        {session.transcript.map((turn, index) => (
+                            <div
+                                key={index}
+                                ref={el => { turnRefs.current[index] = el; }}
+                                className={`flex items-start gap-3 ${turn.speaker === 'user' ? 'justify-end' : ''}`}
+                            >
+                                {turn.speaker === 'model' && <BotIcon className="w-5 h-5 text-indigo-400 flex-shrink-0 mt-1" />}
+                                <div className={`p-3 rounded-lg max-w-[85%] transition-shadow ${turn.speaker === 'model' ? 'bg-indigo-500/20' : 'bg-purple-500/20'} ${highlighted === index ? 'ring-2 ring-amber-400' : ''}`}>
+                                    <p className="text-sm text-gray-200">{turn.text}</p>
+                                </div>
+                                {turn.speaker === 'user' && <UserIcon className="w-5 h-5 text-purple-400 flex-shrink-0 mt-1" />}
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+
+                <div className="space-y-6">
+                    {session.report?.feedback ? (
+                        <>
+                            <Card className="p-4">
+                                <h3 className="font-bold mb-2 flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-yellow-400" /> Overall Feedback</h3>
+                                <p className="text-sm text-gray-300">{session.report.feedback.overallFeedback}</p>
+                            </Card>
+                            <Card className="p-4">
+                                <h3 className="font-bold mb-2 flex items-center gap-2"><TrendingUpIcon className="w-5 h-5 text-sky-400" /> Example Improvements</h3>
+                                <div className="space-y-3">
+                                    {improvements.map((item, i) => (
+                                        <button
+                                            key={i}
+                                            onClick={() => showTurn(quotedTurns[i])}
+                                            disabled={quotedTurns[i] < 0}
+                                            className={`block w-full text-left bg-black/20 p-3 rounded-md ${quotedTurns[i] >= 0 ? 'hover:bg-black/30' : 'cursor-default'} ${highlighted !== null && highlighted === quotedTurns[i] ? 'ring-2 ring-amber-400' : ''}`}
+                                        >
+                                            <p className="text-xs font-semibold text-gray-400">Your Answer:</p>
+                                            <p className="text-xs italic text-gray-400 border-l-2 border-red-500 pl-2">"{item.userAnswer}"</p>
+                                            <p className="text-xs font-semibold text-green-400 mt-2">Suggestion:</p>
+                                            <p className="text-xs text-gray-300 border-l-2 border-green-500 pl-2">{item.suggestion}</p>
+                                            {quotedTurns[i] >= 0 && <p className="mt-2 text-xs text-amber-300">Show in transcript</p>}
+                                        </button>
+                                    ))}
+                                </div>
+                            </Card>
+                        </>
+                    ) : (
+                        <Card className="p-4 text-sm text-gray-300 space-y-3">
+                            <p>The report for this session couldn't be generated when it ended.</p>
+                            <button onClick={handleGenerateReport} disabled={isGenerating} className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-50">
+                                {isGenerating ? 'Generating...' : 'Generate Report'}
+                            </button>
+                            {error && <p className="text-red-400">{error}</p>}
+                        </Card>
+                    )}
+                    {session.report?.answers && session.report.answers.length > 0 && (
+                        <Card className="p-4">
+                            <h3 className="font-bold mb-2">Answer by Answer</h3>
+                            <div className="space-y-3">
+                                {session.report.answers.map((answer, i) => <AnswerScoreCard key={answer.questionId} answer={answer} index={i} />)}
+                            </div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const InterviewHistoryPage: React.FC = () => {
+    const [sessions, setSessions] = useState<InterviewSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [role, setRole] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = () => listInterviewSessions()
+            .then(setSessions)
+            .catch(err => console.error("Failed to load interview sessions", err))
+            .finally(() => setIsLoading(false));
+        load();
+        return subscribeToStore(INTERVIEW_SESSION_STORE, load);
+    }, []);
+
+    const roles = useMemo(() => [...new Set(sessions.map(s => s.role))].sort(), [sessions]);
+    const visible = role ? sessions.filter(s => s.role === role) : sessions;
+    const selected = sessions.find(s => s.id === selectedId);
+
+    const handleDelete = async (session: InterviewSession) => {
+        if (!window.confirm(`Delete the ${session.role} session from ${formatDate(session.startedAt)}?`)) return;
+        setError(null);
+        try {
+            await deleteInterviewSession(session.id);
+        } catch (err: any) {
+            console.error("Failed to delete interview session", err);
+            setError("The session couldn't be deleted. Please try again.");
+        }
+    };
+
+    if (selected) {
+        return (
+            <SessionReplay
+                session={selected}
+                onBack={() => setSelectedId(null)}
+                onUpdated={updated => setSessions(prev => prev.map(s => s.id === updated.id ? updated : s))}
+            />
+        );
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <Card className="p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h2 className="text-xl font-bold flex items-center gap-2"><HistoryIcon className="w-6 h-6 text-purple-400" /> Interview History</h2>
+                        <p className="text-sm text-gray-400">Every practice interview is saved here, so you can see whether you're improving.</p>
+                    </div>
+                    {roles.length > 1 && (
+                        <select value={role} onChange={(e) => setRole(e.target.value)} className="text-sm p-2 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500" aria-label="Filter by role">
+                            <option value="">All roles</option>
+                            {roles.map(r => <option key={r} value={r}>{r}</option>)}
+                        </select>
+                    )}
+                </div>
+                {visible.length > 0 && (
+                    <div className="mt-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+                        {SESSION_METRICS.map(metric => <TrendCard key={metric.id} metric={metric} sessions={visible} />)}
+                    </div>
+                )}
+            </Card>
+
+            <Card className="p-6">
+                {error && <p className="mb-3 text-sm text-red-400">{error}</p>}
+                {isLoading ? (
+                    <p className="text-sm text-gray-400">Loading...</p>
+                ) : visible.length === 0 ? (
+                    <p className="text-sm text-gray-400">No practice interviews yet. Start one from a career path on the Analysis tab.</p>
+                ) : (
+                    <div className="divide-y divide-white/10">
+                        {visible.map(session => (
+                            <div key={session.id} className="py-3 flex items-center gap-4">
+                                <button onClick={() => setSelectedId(session.id)} className="flex-grow min-w-0 text-left group">
+                                    <p className="font-semibold truncate group-hover:text-purple-300">{session.role}</p>
+                                    <p className="text-xs text-gray-400">
+                                        {formatDate(session.startedAt)} · {formatDuration(session.durationSeconds)} · {session.mode === 'structured' ? 'Structured' : 'Free-form'}
+                                        {session.channels.includes('text') && ' · typed'}
+                                        {session.audio?.length ? ' · recorded' : ''}
+                                    </p>
+                                </button>
+                                {session.report?.feedback ? (
+                                    <div className="hidden sm:flex gap-3 text-xs text-gray-400">
+                                        <span>Clarity <span className="text-gray-200 font-semibold">{session.report.feedback.clarityScore}</span></span>
+                                        <span>Relevance <span className="text-gray-200 font-semibold">{session.report.feedback.relevanceScore}</span></span>
+                                        <span>STAR <span className="text-gray-200 font-semibold">{session.report.feedback.starMethodAdherence.score}</span></span>
+                                    </div>
+                                ) : (
+                                    <span className="text-xs text-amber-300">No report</span>
+                                )}
+                                <button onClick={() => handleDelete(session)} className="text-gray-500 hover:text-red-400" aria-label="Delete session"><XCircleIcon className="w-5 h-5" /></button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </Card>
+        </div>
+    );
+};
@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 // FIX: 'LiveSession' is not an exported member of '@google/genai'. It has been removed from the import.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from "@google/genai";
-import { CareerPath, InterviewTurn, InterviewReportResult } from '../types';
-import { XCircleIcon, BotIcon, UserIcon, SparklesIcon, CheckCircleIcon, LightbulbIcon, MessageSquareQuoteIcon, TrendingUpIcon, StarIcon, MessageCircleWarningIcon, SmileIcon, MehIcon, FrownIcon, PuzzleIcon } from './IconComponents';
-import { ai, getInterviewFeedback } from '../services/geminiService';
+import { GoogleGenAI, LiveServerMessage, Modality, Blob as PcmBlob } from "@google/genai";
+import { CareerPath, InterviewTurn, InterviewReportResult, InterviewFeedback, InterviewPlan, AnswerScore, InterviewChannel, InterviewSession } from '../types';
+import { XCircleIcon, BotIcon, UserIcon, SendIcon, MicIcon, EditIcon, SparklesIcon, CheckCircleIcon, LightbulbIcon, MessageSquareQuoteIcon, TrendingUpIcon, StarIcon, MessageCircleWarningIcon, SmileIcon, MehIcon, FrownIcon, PuzzleIcon } from './IconComponents';
+import { formatInterviewTranscript, getInterviewFeedback, getInterviewerReply, scoreInterviewAnswers } from '../services/geminiService';
+import { CATEGORY_LABELS } from '../services/interviewQuestions';
+import { saveInterviewSession } from '../services/interviewSessions';
+import { SpeechAnalytics, analyzeSpeech, createSpeechTracker } from '../services/speechAnalytics';
+import { createId } from '../services/resumeLibrary';
+import { MicCapture, PcmPlayer, createPcmPlayer, openMicrophone, pcm16ToFloat32, startMicCapture } from '../services/audioPipeline';
+import { microphoneStore } from '../services/preferences';
+import { InterviewSetup } from './InterviewSetup';
+import { SpeechAnalyticsPanel } from './SpeechAnalyticsPanel';
+import { MicLevelMeter } from './MicrophoneControls';
 import { RadialProgress } from './RadialProgress';
 import { Card } from './Card';
 
@@ -27,30 +36,11 @@ function encode(bytes: Uint8Array) {
   return btoa(binary);
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-function createBlob(data: Float32Array): Blob {
+function createBlob(data: Float32Array): PcmBlob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
@@ -58,14 +48,75 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
+export const AnswerScoreCard: React.FC<{ answer: AnswerScore; index: number }> = ({ answer, index }) => (
+    <div className="bg-black/20 p-3 rounded-md">
+        <div className="flex items-start gap-3">
+            {answer.score !== undefined
+                ? <RadialProgress score={answer.score} size={48} strokeWidth={5} />
+                : <div className="w-12 h-12 flex-shrink-0 rounded-full border-4 border-gray-600 flex items-center justify-center text-xs text-gray-400" title="Not scored">–</div>}
+            <div className="min-w-0">
+                <p className="text-xs text-gray-400">Question {index + 1} · {CATEGORY_LABELS[answer.category]}</p>
+                <p className="text-sm font-semibold text-gray-200">{answer.question}</p>
+                <p className="mt-1 text-xs text-gray-300">{answer.feedback}</p>
+            </div>
+        </div>
+        {answer.answer && <p className="mt-2 text-xs italic text-gray-400 border-l-2 border-purple-500 pl-2 line-clamp-3">"{answer.answer}"</p>}
+        {(answer.strengths.length > 0 || answer.improvements.length > 0) && (
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+                <ul className="space-y-1">
+                    {answer.strengths.map((item, i) => <li key={i} className="flex gap-1 text-green-300"><CheckCircleIcon className="w-3 h-3 mt-0.5 flex-shrink-0" />{item}</li>)}
+                </ul>
+                <ul className="space-y-1">
+                    {answer.improvements.map((item, i) => <li key={i} className="flex gap-1 text-amber-300"><LightbulbIcon className="w-3 h-3 mt-0.5 flex-shrink-0" />{item}</li>)}
+                </ul>
+            </div>
+        )}
+    </div>
+);
+
+const AnswerScoresCard: React.FC<{ answers: AnswerScore[] }> = ({ answers }) => {
+    const scores = answers.flatMap(answer => answer.score !== undefined ? [answer.score] : []);
+    return (
+        <Card className="p-4">
+            <h3 className="font-bold mb-2 flex items-center gap-2">
+                <MessageSquareQuoteIcon className="w-5 h-5 text-purple-400"/>
+                Answer by Answer
+                {scores.length > 0 && (
+                    <span className="ml-auto text-sm font-normal text-gray-400">
+                        Average {Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)}
+                    </span>
+                )}
+            </h3>
+            <div className="space-y-3">
+                {answers.map((answer, i) => <AnswerScoreCard key={answer.questionId} answer={answer} index={i} />)}
+            </div>
+        </Card>
+    );
+};
+
 interface FeedbackReportDisplayProps {
     report: InterviewReportResult;
+    speech: SpeechAnalytics | null;
 }
 
-const FeedbackReportDisplay: React.FC<FeedbackReportDisplayProps> = ({ report }) => {
-    const { feedback } = report;
+// Either half of the report can be missing when its request failed; whatever arrived is shown.
+const FeedbackReportDisplay: React.FC<FeedbackReportDisplayProps> = ({ report, speech }) => (
+    <div className="space-y-4 animate-fade-in">
+        {report.answers && report.answers.length > 0 && <AnswerScoresCard answers={report.answers} />}
+        {report.feedback ? <FeedbackDetails feedback={report.feedback} speech={speech} /> : (
+            <>
+                <p className="text-sm text-amber-300 bg-amber-500/10 rounded-md p-3">
+                    The overall report couldn't be generated. You can generate it later from your interview history.
+                </p>
+                {speech && <SpeechAnalyticsPanel analytics={speech} />}
+            </>
+        )}
+    </div>
+);
+
+const FeedbackDetails: React.FC<{ feedback: InterviewFeedback; speech: SpeechAnalytics | null }> = ({ feedback, speech }) => {
     return (
-        <div className="space-y-4 animate-fade-in">
+        <>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <Card className="p-4 text-center">
                     <h3 className="font-semibold text-sm">Clarity</h3>
@@ -92,8 +143,8 @@ const FeedbackReportDisplay: React.FC<FeedbackReportDisplayProps> = ({ report })
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Card className="p-4">
                     <h3 className="font-bold mb-2 flex items-center gap-2"><MessageCircleWarningIcon className="w-5 h-5 text-amber-400"/>Filler Words</h3>
-                    <p className="text-3xl font-bold text-center">{feedback.fillerWordCount}</p>
-                    <p className="text-xs text-gray-400 text-center">approximate count</p>
+                    <p className="text-3xl font-bold text-center">{speech ? speech.fillerTotal : feedback.fillerWordCount}</p>
+                    <p className="text-xs text-gray-400 text-center">{speech ? `counted in your answers · the model estimated ${feedback.fillerWordCount}` : 'approximate count'}</p>
                 </Card>
                 <Card className="p-4">
                     <h3 className="font-bold mb-2 flex items-center gap-2">
@@ -111,6 +162,8 @@ const FeedbackReportDisplay: React.FC<FeedbackReportDisplayProps> = ({ report })
                 </Card>
             </div>
 
+            {speech && <SpeechAnalyticsPanel analytics={speech} />}
+
             <Card className="p-4">
                 <h3 className="font-bold mb-2 flex items-center gap-2"><PuzzleIcon className="w-5 h-5 text-sky-400"/>Relevant Keywords Used</h3>
                 {feedback.relevantKeywordsUsed && feedback.relevantKeywordsUsed.length > 0 ? (
@@ -141,11 +194,23 @@ const FeedbackReportDisplay: React.FC<FeedbackReportDisplayProps> = ({ report })
                     ))}
                 </div>
             </Card>
-        </div>
+        </>
     )
 };
 
 
+// The interviewer persona, shared by the voice session and the typed chat so switching between them
+// doesn't change who is asking the questions.
+const interviewerInstruction = (role: string, resumeSummary: string, plan: InterviewPlan | null, channel: InterviewChannel): string => {
+    const medium = channel === 'voice'
+        ? 'The interview is spoken in real time, so keep your responses concise and natural-sounding.'
+        : 'The interview is a typed chat, so write short plain-text messages without markdown.';
+    if (plan) {
+        return `You are an expert interviewer conducting a structured practice interview for the role of ${role}. The candidate's resume summary is: "${resumeSummary}". ${medium} The interview follows a fixed plan of ${plan.questions.length} questions. You will receive messages like "Ask question 2 of ${plan.questions.length}: <question>". When you do, acknowledge the previous answer in at most one short, neutral sentence if there was one, then ask that question without changing its meaning. Before the first question, give a one-sentence friendly introduction. Never ask follow-up or additional questions, never move on by yourself, and don't give feedback or hints. If the candidate asks for clarification, answer briefly without giving the answer away.`;
+    }
+    return `You are an expert interviewer conducting a practice interview for the role of ${role}. The candidate's resume summary is: "${resumeSummary}". ${medium} Ask relevant behavioral and technical questions. Start with a friendly introduction and the first question. Wait for the candidate's response before asking the next question.`;
+};
+
 interface InterviewModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -153,29 +218,71 @@ interface InterviewModalProps {
   resumeSummary: string;
 }
 
-type InterviewPhase = 'idle' | 'connecting' | 'live' | 'processing' | 'report' | 'error';
+type InterviewPhase = 'idle' | 'setup' | 'connecting' | 'live' | 'processing' | 'report' | 'error';
 
 export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose, careerPath, resumeSummary }) => {
   const [phase, setPhase] = useState<InterviewPhase>('idle');
   const [isModelSpeaking, setIsModelSpeaking] = useState(false);
   const [transcript, setTranscript] = useState<InterviewTurn[]>([]);
+  const transcriptRef = useRef<InterviewTurn[]>([]);
+  const [speechAnalytics, setSpeechAnalytics] = useState<SpeechAnalytics | null>(null);
   const [feedbackReport, setFeedbackReport] = useState<InterviewReportResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const [liveInputText, setLiveInputText] = useState('');
   const [liveOutputText, setLiveOutputText] = useState('');
 
-  // FIX: Use ReturnType to infer the session promise type from the `ai.live.connect` method since 'LiveSession' is not exported.
-  const sessionPromiseRef = useRef<ReturnType<typeof ai.live.connect> | null>(null);
+  // Structured mode: the plan being followed, the question being answered, and when its answer time runs out.
+  const [plan, setPlan] = useState<InterviewPlan | null>(null);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [answerDeadline, setAnswerDeadline] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const planRef = useRef<InterviewPlan | null>(null);
+  const questionIndexRef = useRef(0);
+  const answersRef = useRef<string[]>([]);
+  const awaitingQuestionRef = useRef(false);
+  const [isPlanComplete, setIsPlanComplete] = useState(false);
+  const isPlanCompleteRef = useRef(false);
+
+  // Typed chat, used by choice or when the microphone or live session isn't available.
+  const [channel, setChannel] = useState<InterviewChannel>('voice');
+  const channelRef = useRef<InterviewChannel>('voice');
+  const [draft, setDraft] = useState('');
+  const draftRef = useRef('');
+  const [isInterviewerTyping, setIsInterviewerTyping] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Bumped whenever a pending chat reply should be ignored (switching channel, closing).
+  const chatGenerationRef = useRef(0);
+
+  // Saved to the interview history when the session ends.
+  const startedAtRef = useRef(new Date());
+  const channelsUsedRef = useRef<InterviewChannel[]>([]);
+  const [isSessionSaved, setIsSessionSaved] = useState(false);
+
+  // Opt-in recording of the candidate's microphone, one segment per voice connection.
+  const recordAudioRef = useRef(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingsRef = useRef<Blob[]>([]);
+  const recordingStoppedRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Timing for spoken turns: the candidate's from the microphone, the interviewer's from its audio.
+  const speechTrackerRef = useRef(createSpeechTracker());
+  const interviewerSpeechRef = useRef<{ startedAt: number; endedAt: number; speakingMs: number } | null>(null);
+
+  // FIX: Use ReturnType to infer the session promise type from the `live.connect` method since 'LiveSession' is not exported.
+  const sessionPromiseRef = useRef<ReturnType<GoogleGenAI['live']['connect']> | null>(null);
+  // Set once the session has connected, so audio can be sent without waiting on the promise each time.
+  const liveSessionRef = useRef<Awaited<ReturnType<GoogleGenAI['live']['connect']>> | null>(null);
   const transcriptContainerRef = useRef<HTMLDivElement>(null);
   
   // Audio state references
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const nextStartTimeRef = useRef(0);
-  const audioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const playerRef = useRef<PcmPlayer | null>(null);
+  const isPlayingRef = useRef(false);
+  const inputLevelRef = useRef(0);
+  // Bumped whenever voice stops, so a connection still waiting on the browser knows to give up.
+  const voiceGenerationRef = useRef(0);
 
   // Transcription references
   const currentInputTranscriptionRef = useRef('');
@@ -188,24 +295,47 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
   }, [transcript, liveInputText, liveOutputText]);
 
   const cleanupAudio = () => {
-    scriptProcessorRef.current?.disconnect();
-    mediaStreamSourceRef.current?.disconnect();
-    inputAudioContextRef.current?.close().catch(console.error);
-    outputAudioContextRef.current?.close().catch(console.error);
-    
-    scriptProcessorRef.current = null;
-    mediaStreamSourceRef.current = null;
-    inputAudioContextRef.current = null;
-    outputAudioContextRef.current = null;
-    
-    audioSourcesRef.current.forEach(source => source.stop());
-    audioSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    micCaptureRef.current?.stop().catch(console.error);
+    playerRef.current?.close().catch(console.error);
+    micCaptureRef.current = null;
+    playerRef.current = null;
+    isPlayingRef.current = false;
+    inputLevelRef.current = 0;
+
+    // Release the microphone so the browser's recording indicator goes away.
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    mediaStreamRef.current = null;
+  };
+
+  const startRecording = (stream: MediaStream) => {
+    if (!recordAudioRef.current || typeof MediaRecorder === 'undefined') return;
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recordingStoppedRef.current = new Promise<void>(resolve => {
+      recorder.onstop = () => {
+        if (chunks.length > 0) recordingsRef.current.push(new Blob(chunks, { type: recorder.mimeType }));
+        resolve();
+      };
+    });
+    recorder.start();
+    recorderRef.current = recorder;
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+    recorderRef.current = null;
+  };
+
+  const noteChannel = (used: InterviewChannel) => {
+    if (!channelsUsedRef.current.includes(used)) channelsUsedRef.current = [...channelsUsedRef.current, used];
   };
 
   useEffect(() => {
     if (isOpen && careerPath) {
-      startInterview();
+      setPhase('setup');
     } else {
       stopInterview();
       setPhase('idle');
@@ -216,32 +346,287 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
     };
   }, [isOpen]);
 
-  const stopInterview = () => {
+  // Spoken turns take the timing measured since the previous turn; typed ones are stamped when sent.
+  const withTiming = (turn: InterviewTurn): InterviewTurn => {
+    if (channelRef.current === 'voice') {
+      let timing;
+      if (turn.speaker === 'user') {
+        timing = speechTrackerRef.current.take();
+      } else {
+        timing = interviewerSpeechRef.current || undefined;
+        interviewerSpeechRef.current = null;
+      }
+      return timing ? { ...turn, timing } : turn;
+    }
+    const now = Date.now();
+    return { ...turn, timing: { startedAt: now, endedAt: now } };
+  };
+
+  const appendTurns = (turns: InterviewTurn[]) => {
+    // Timed before filtering, so an empty turn doesn't pass its measurements on to the next one.
+    transcriptRef.current = [...transcriptRef.current, ...turns.map(withTiming).filter(turn => turn.text)];
+    setTranscript(transcriptRef.current);
+  };
+
+  const currentQuestionId = () => planRef.current?.questions[questionIndexRef.current].id;
+
+  const stopVoice = () => {
+    voiceGenerationRef.current += 1;
+    stopRecording();
     if (sessionPromiseRef.current) {
         sessionPromiseRef.current.then(session => session.close()).catch(console.error);
         sessionPromiseRef.current = null;
     }
+    liveSessionRef.current = null;
     cleanupAudio();
     setIsModelSpeaking(false);
   };
 
-  const startInterview = async () => {
+  const stopInterview = () => {
+    stopVoice();
+    chatGenerationRef.current += 1;
+    setIsInterviewerTyping(false);
+    setAnswerDeadline(null);
+  };
+
+  const startAnswerClock = (delaySeconds = 0) => {
+    const limit = planRef.current?.answerTimeLimit;
+    if (limit) setAnswerDeadline(Date.now() + (delaySeconds + limit) * 1000);
+  };
+
+  const requestChatReply = async (direction?: string) => {
     if (!careerPath) return;
+    const generation = ++chatGenerationRef.current;
+    const questionId = currentQuestionId();
+    setIsInterviewerTyping(true);
+    try {
+        const reply = await getInterviewerReply(interviewerInstruction(careerPath.role, resumeSummary, planRef.current, 'text'), transcriptRef.current, direction);
+        if (generation !== chatGenerationRef.current) return;
+        appendTurns([{ speaker: 'model', text: reply, questionId }]);
+        if (planRef.current && direction) startAnswerClock();
+    } catch (e) {
+        console.error("Failed to get the interviewer's reply:", e);
+        if (generation === chatGenerationRef.current) setNotice("The interviewer couldn't reply. Send your message again or switch to voice.");
+    } finally {
+        if (generation === chatGenerationRef.current) setIsInterviewerTyping(false);
+    }
+  };
 
-    setPhase('connecting');
+  // The app, not the model, decides when to move on, so every answer can be matched to its question.
+  const askQuestion = (index: number) => {
+    const currentPlan = planRef.current;
+    if (!currentPlan) return;
+    const question = currentPlan.questions[index];
+    const direction = `Ask question ${index + 1} of ${currentPlan.questions.length}: ${question.text}`;
+
+    // Whatever the candidate said last belongs to the previous question.
+    const pendingAnswer = currentInputTranscriptionRef.current.trim();
+    if (pendingAnswer) {
+      const previousId = currentPlan.questions[questionIndexRef.current].id;
+      appendTurns([{ speaker: 'user', text: pendingAnswer, questionId: previousId }]);
+      currentInputTranscriptionRef.current = '';
+      setLiveInputText('');
+    }
+
+    questionIndexRef.current = index;
+    setQuestionIndex(index);
+    setAnswerDeadline(null);
+    if (channelRef.current === 'text') {
+      awaitingQuestionRef.current = false;
+      requestChatReply(direction);
+    } else if (sessionPromiseRef.current) {
+      awaitingQuestionRef.current = true;
+      sessionPromiseRef.current.then(session => session.sendClientContent({ turns: direction, turnComplete: true }));
+    }
+  };
+
+  // Moves past the current question, or marks the plan finished after the last one.
+  const advanceQuestion = () => {
+    const nextIndex = questionIndexRef.current + 1;
+    if (planRef.current && nextIndex < planRef.current.questions.length) {
+      askQuestion(nextIndex);
+    } else {
+      setAnswerDeadline(null);
+      isPlanCompleteRef.current = true;
+      setIsPlanComplete(true);
+    }
+  };
+
+  const sendChatMessage = () => {
+    const text = draftRef.current.trim();
+    draftRef.current = '';
+    setDraft('');
+    setNotice(null);
+    if (text) {
+      appendTurns([{ speaker: 'user', text, questionId: currentQuestionId() }]);
+      if (planRef.current) {
+        const index = questionIndexRef.current;
+        answersRef.current[index] = [answersRef.current[index], text].filter(Boolean).join('\n');
+      }
+    }
+    // In a structured interview, sending is handing in the answer.
+    if (planRef.current) {
+      advanceQuestion();
+    } else if (text) {
+      requestChatReply();
+    }
+  };
+
+  useEffect(() => {
+    if (answerDeadline === null) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((answerDeadline - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      // Time's up: hand in whatever was typed and move on.
+      if (remaining === 0) {
+        if (channelRef.current === 'text') {
+          sendChatMessage();
+        } else {
+          advanceQuestion();
+        }
+      }
+    };
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [answerDeadline]);
+
+  const switchToText = (reason?: string) => {
+    // Keep whatever was said so far as completed turns.
+    const questionId = currentQuestionId();
+    appendTurns([
+      { speaker: 'model', text: currentOutputTranscriptionRef.current.trim(), questionId },
+      { speaker: 'user', text: currentInputTranscriptionRef.current.trim(), questionId },
+    ]);
+    currentInputTranscriptionRef.current = '';
+    currentOutputTranscriptionRef.current = '';
+    setLiveInputText('');
+    setLiveOutputText('');
+    stopVoice();
+
+    channelRef.current = 'text';
+    setChannel('text');
+    noteChannel('text');
+    setNotice(reason || null);
+    setPhase('live');
+
+    const turns = transcriptRef.current;
+    if (planRef.current) {
+      // Ask the current question in the chat unless it was already asked in full.
+      const wasAsked = turns.some(turn => turn.speaker === 'model' && turn.questionId === questionId);
+      if (!isPlanCompleteRef.current && (awaitingQuestionRef.current || !wasAsked)) askQuestion(questionIndexRef.current);
+    } else if (turns.length === 0 || turns[turns.length - 1].speaker === 'user') {
+      requestChatReply();
+    }
+  };
+
+  const switchToVoice = () => {
+    chatGenerationRef.current += 1;
+    setIsInterviewerTyping(false);
+    channelRef.current = 'voice';
+    setChannel('voice');
+    setNotice(null);
+    connectVoice(true);
+  };
+
+  const startInterview = (interviewPlan: InterviewPlan | null, startChannel: InterviewChannel, recordAudio: boolean) => {
+    if (!careerPath) return;
+
+    startedAtRef.current = new Date();
+    channelsUsedRef.current = [];
+    recordAudioRef.current = recordAudio;
+    recordingsRef.current = [];
+    recordingStoppedRef.current = Promise.resolve();
+    setIsSessionSaved(false);
+
+    planRef.current = interviewPlan;
+    setPlan(interviewPlan);
+    questionIndexRef.current = 0;
+    setQuestionIndex(0);
+    answersRef.current = [];
+    awaitingQuestionRef.current = false;
+    isPlanCompleteRef.current = false;
+    setIsPlanComplete(false);
+    transcriptRef.current = [];
     setTranscript([]);
     setFeedbackReport(null);
+    setSpeechAnalytics(null);
+    speechTrackerRef.current = createSpeechTracker();
+    interviewerSpeechRef.current = null;
     setIsModelSpeaking(false);
     setLiveInputText('');
     setLiveOutputText('');
+    draftRef.current = '';
+    setDraft('');
     setError(null);
 
+    if (startChannel === 'text') {
+      switchToText();
+    } else {
+      channelRef.current = 'voice';
+      setChannel('voice');
+      setNotice(null);
+      connectVoice(false);
+    }
+  };
+
+  // Opens the live audio session. When `resuming`, the interview continues from the typed chat.
+  const connectVoice = async (resuming: boolean) => {
+    if (!careerPath) return;
+    const interviewPlan = planRef.current;
+    stopVoice();
+    const generation = voiceGenerationRef.current;
+    // Whatever is opened after voice was stopped or switched away from is released at once.
+    const isStale = () => generation !== voiceGenerationRef.current;
+    setPhase('connecting');
+
     try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        
-        const systemInstruction = `You are an expert interviewer conducting a real-time, voice-based practice interview for the role of ${careerPath.role}. The candidate's resume summary is: "${resumeSummary}". Ask relevant behavioral and technical questions. Start with a friendly introduction and the first question. Wait for the user's response before asking the next question. Keep your responses concise and natural-sounding.`;
+        const stream = await openMicrophone(microphoneStore.read());
+        if (isStale()) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        mediaStreamRef.current = stream;
+        noteChannel('voice');
+        startRecording(stream);
+
+        const player = await createPcmPlayer(24000, playing => {
+            isPlayingRef.current = playing;
+            setIsModelSpeaking(playing);
+        });
+        if (isStale()) {
+            player.close().catch(console.error);
+            return;
+        }
+        playerRef.current = player;
+        const capture = await startMicCapture(stream, chunk => {
+            inputLevelRef.current = chunk.level;
+            // The candidate isn't expected to talk over the interviewer.
+            if (isPlayingRef.current) {
+                speechTrackerRef.current.interrupt();
+            } else {
+                speechTrackerRef.current.addFrame(chunk.isSpeech, chunk.durationMs, chunk.endedAt);
+            }
+            liveSessionRef.current?.sendRealtimeInput({ media: createBlob(chunk.samples) });
+        });
+        if (isStale()) {
+            capture.stop().catch(console.error);
+            return;
+        }
+        micCaptureRef.current = capture;
+
+        let systemInstruction = interviewerInstruction(careerPath.role, resumeSummary, interviewPlan, 'voice');
+        if (resuming && transcriptRef.current.length > 0) {
+            systemInstruction += `\n\nThe interview so far took place over typed chat:\n${formatInterviewTranscript(transcriptRef.current)}\n\nContinue it by voice from where it left off. Don't introduce yourself again.`;
+        }
 
-        sessionPromiseRef.current = ai.live.connect({
+        // Loaded on demand, like the rest of the Gemini provider, so the main bundle doesn't carry it.
+        const { getGeminiClient } = await import('../services/geminiProvider');
+        if (isStale()) return;
+        sessionPromiseRef.current = getGeminiClient().live.connect({
             model: 'gemini-2.5-flash-native-audio-preview-09-2025',
             config: {
                 systemInstruction,
@@ -255,36 +640,23 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
             callbacks: {
                 onopen: () => {
                     setPhase('live');
-                    const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                    inputAudioContextRef.current = inputAudioContext;
-                    outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                    
-                    const source = inputAudioContext.createMediaStreamSource(stream);
-                    mediaStreamSourceRef.current = source;
-
-                    const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = scriptProcessor;
-
-                    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob = createBlob(inputData);
-                        
-                        if (sessionPromiseRef.current) {
-                            sessionPromiseRef.current.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
+
+                    if (interviewPlan) {
+                        // Ask the current question again if it hasn't been answered yet, otherwise the next one.
+                        const index = questionIndexRef.current;
+                        if (!resuming || !answersRef.current[index]?.trim()) {
+                            askQuestion(index);
+                        } else {
+                            advanceQuestion();
                         }
-                    };
-                    source.connect(scriptProcessor);
-                    
-                    // The ScriptProcessorNode needs to be connected to the destination to be processed.
-                    // To prevent echo, connect it through a GainNode with gain set to 0.
-                    const gainNode = inputAudioContext.createGain();
-                    gainNode.gain.setValueAtTime(0, inputAudioContext.currentTime);
-                    scriptProcessor.connect(gainNode);
-                    gainNode.connect(inputAudioContext.destination);
+                    } else if (resuming) {
+                        sessionPromiseRef.current?.then(session => session.sendClientContent({
+                            turns: "The candidate has switched to voice. Continue the interview from where it left off.",
+                            turnComplete: true,
+                        }));
+                    }
                 },
-                onmessage: async (message: LiveServerMessage) => {
+                onmessage: (message: LiveServerMessage) => {
                     if (message.serverContent?.outputTranscription) {
                         currentOutputTranscriptionRef.current += message.serverContent.outputTranscription.text;
                         setLiveOutputText(currentOutputTranscriptionRef.current);
@@ -292,18 +664,24 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
                     if (message.serverContent?.inputTranscription) {
                         currentInputTranscriptionRef.current += message.serverContent.inputTranscription.text;
                         setLiveInputText(currentInputTranscriptionRef.current);
+                        if (planRef.current) {
+                            const index = questionIndexRef.current;
+                            answersRef.current[index] = (answersRef.current[index] || '') + message.serverContent.inputTranscription.text;
+                        }
                     }
                     if (message.serverContent?.turnComplete) {
-                        const userTurn = { speaker: 'user' as const, text: currentInputTranscriptionRef.current.trim() };
-                        const modelTurn = { speaker: 'model' as const, text: currentOutputTranscriptionRef.current.trim() };
+                        const questionId = planRef.current?.questions[questionIndexRef.current].id;
+                        const userTurn = { speaker: 'user' as const, text: currentInputTranscriptionRef.current.trim(), questionId };
+                        const modelTurn = { speaker: 'model' as const, text: currentOutputTranscriptionRef.current.trim(), questionId };
+
+                        // The question has been asked; the answer clock starts once its audio finishes playing.
+                        if (awaitingQuestionRef.current && planRef.current) {
+                            awaitingQuestionRef.current = false;
+                            startAnswerClock(playerRef.current ? Math.max(0, (playerRef.current.endsAt() - Date.now()) / 1000) : 0);
+                        }
                         
-                        setTranscript(prev => {
-                            const newTurns = [];
-                            // A complete turn is usually a question (model) followed by an answer (user).
-                            if (modelTurn.text) newTurns.push(modelTurn);
-                            if (userTurn.text) newTurns.push(userTurn);
-                            return [...prev, ...newTurns];
-                        });
+                        // A complete turn is usually a question (model) followed by an answer (user).
+                        appendTurns([modelTurn, userTurn]);
 
                         currentInputTranscriptionRef.current = '';
                         currentOutputTranscriptionRef.current = '';
@@ -312,54 +690,67 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
                     }
 
                     const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                    if (base64Audio) {
-                        setIsModelSpeaking(true);
-                        const outputAudioContext = outputAudioContextRef.current;
-                        if (!outputAudioContext) return;
-
-                        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContext.currentTime);
-
-                        const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
-                        const sourceNode = outputAudioContext.createBufferSource();
-                        sourceNode.buffer = audioBuffer;
-                        sourceNode.connect(outputAudioContext.destination);
-                        
-                        sourceNode.addEventListener('ended', () => {
-                            audioSourcesRef.current.delete(sourceNode);
-                            if(audioSourcesRef.current.size === 0) {
-                                setIsModelSpeaking(false);
-                            }
-                        });
-                        
-                        sourceNode.start(nextStartTimeRef.current);
-                        nextStartTimeRef.current += audioBuffer.duration;
-                        audioSourcesRef.current.add(sourceNode);
+                    const player = playerRef.current;
+                    if (base64Audio && player) {
+                        const samples = pcm16ToFloat32(decode(base64Audio));
+                        const startsAt = player.endsAt();
+                        const durationMs = (samples.length / 24000) * 1000;
+                        player.play(samples);
+                        const spoken = interviewerSpeechRef.current || { startedAt: startsAt, endedAt: startsAt, speakingMs: 0 };
+                        interviewerSpeechRef.current = {
+                            startedAt: spoken.startedAt,
+                            endedAt: startsAt + durationMs,
+                            speakingMs: spoken.speakingMs + Math.round(durationMs),
+                        };
                     }
                     if (message.serverContent?.interrupted) {
-                        setIsModelSpeaking(false);
-                        audioSourcesRef.current.forEach(source => source.stop());
-                        audioSourcesRef.current.clear();
-                        nextStartTimeRef.current = 0;
+                        player?.clear();
+                        // The queued audio that was dropped never played, so it doesn't count as talk time.
+                        const spoken = interviewerSpeechRef.current;
+                        const now = Date.now();
+                        if (spoken && spoken.endedAt > now) {
+                            const endedAt = Math.max(now, spoken.startedAt);
+                            interviewerSpeechRef.current = {
+                                startedAt: spoken.startedAt,
+                                endedAt,
+                                speakingMs: Math.max(0, spoken.speakingMs - Math.round(spoken.endedAt - endedAt)),
+                            };
+                        }
                     }
                 },
                 onerror: (e: ErrorEvent) => {
+                    // A session that has since been replaced mustn't take down the current one.
+                    if (isStale()) return;
                     console.error('Live session error:', e);
-                    setError("A connection error occurred during the interview.");
-                    setPhase('error');
-                    stopInterview();
+                    switchToText("The voice connection dropped, so the interview continues in text chat.");
                 },
                 onclose: () => {
-                    if(phase === 'live') { // only transition if closed unexpectedly
-                        setPhase('idle');
-                    }
+                    // Closing on purpose goes through stopVoice, which makes the session stale, so only an
+                    // unexpected close gets here.
+                    if (isStale()) return;
+                    setPhase('idle');
                 },
             },
         });
+        const sessionPromise = sessionPromiseRef.current;
+        sessionPromise
+            .then(session => {
+                if (sessionPromiseRef.current === sessionPromise) liveSessionRef.current = session;
+            })
+            .catch(err => {
+                console.error("Failed to connect the live session:", err);
+                if (sessionPromiseRef.current === sessionPromise) switchToText("Voice interviews aren't available right now, so the interview continues in text chat.");
+            });
 
     } catch (err) {
+        if (isStale()) return;
         console.error("Failed to get microphone access or start session:", err);
-        setError("Could not access your microphone. Please check your browser permissions and try again.");
-        setPhase('error');
+        const errorName = err instanceof DOMException ? err.name : '';
+        switchToText(errorName === 'NotAllowedError'
+            ? "Microphone access wasn't allowed, so the interview continues in text chat. Allow it in your browser's site settings to use voice."
+            : errorName === 'NotFoundError'
+            ? "No microphone was found, so the interview continues in text chat. Connect one to use voice."
+            : "Voice interviews aren't available right now, so the interview continues in text chat.");
     }
   };
   
@@ -367,16 +758,16 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
     stopInterview();
     
     // Create a final transcript by combining completed turns and any in-progress text.
-    let finalTranscript = [...transcript];
+    let finalTranscript = [...transcriptRef.current];
     const lastUserInput = currentInputTranscriptionRef.current.trim();
     const lastModelOutput = currentOutputTranscriptionRef.current.trim();
 
     // The model's partial output (question) should be added before the user's partial input (answer).
     if (lastModelOutput) {
-        finalTranscript.push({ speaker: 'model', text: lastModelOutput });
+        finalTranscript.push(withTiming({ speaker: 'model', text: lastModelOutput }));
     }
     if (lastUserInput) {
-        finalTranscript.push({ speaker: 'user', text: lastUserInput });
+        finalTranscript.push(withTiming({ speaker: 'user', text: lastUserInput }));
     }
     
     // Guard against calling the API with no conversation data.
@@ -393,43 +784,80 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
         return;
     }
 
+    // Saved whether or not the report succeeds, so the answers aren't lost.
+    await recordingStoppedRef.current;
+    const session: InterviewSession = {
+        id: createId(),
+        role: careerPath?.role || 'Interview',
+        startedAt: startedAtRef.current.toISOString(),
+        durationSeconds: Math.round((Date.now() - startedAtRef.current.getTime()) / 1000),
+        mode: plan ? 'structured' : 'freeform',
+        channels: channelsUsedRef.current,
+        transcript: finalTranscript,
+        ...(recordingsRef.current.length > 0 ? { audio: recordingsRef.current } : {}),
+    };
+    const saveSession = (report?: InterviewReportResult) =>
+        saveInterviewSession(report ? { ...session, report } : session)
+            .then(() => setIsSessionSaved(true))
+            .catch(err => console.error("Failed to save interview session:", err));
+
+    setSpeechAnalytics(analyzeSpeech(finalTranscript));
     setPhase('processing');
-    try {
-        const report = await getInterviewFeedback(finalTranscript);
-        setFeedbackReport(report);
+    // Only the questions that were actually asked are scored.
+    const askedAnswers = plan
+        ? plan.questions.slice(0, questionIndexRef.current + 1).map((question, i) => ({ question, answer: answersRef.current[i] || '' }))
+        : [];
+    // The overall report and the per-answer scores are separate requests; either is shown without the other.
+    const [reportResult, answersResult] = await Promise.allSettled([
+        getInterviewFeedback(finalTranscript),
+        askedAnswers.length > 0 ? scoreInterviewAnswers(careerPath?.role || 'this role', askedAnswers) : Promise.resolve(undefined),
+    ]);
+    const feedback = reportResult.status === 'fulfilled' ? reportResult.value.feedback : undefined;
+    const answers = answersResult.status === 'fulfilled' ? answersResult.value : undefined;
+    if (reportResult.status === 'rejected') console.error("Failed to get feedback:", reportResult.reason);
+    if (answersResult.status === 'rejected') console.error("Failed to score answers:", answersResult.reason);
+
+    if (feedback || answers) {
+        setFeedbackReport({ feedback, answers });
         setPhase('report');
-    } catch(e) {
-        console.error("Failed to get feedback:", e);
-        // Provide a more specific error message to the user.
-        let errorMessage = "An unexpected error occurred.";
-        if (e instanceof Error) {
-            errorMessage = e.message;
-            // Attempt to parse JSON error for cleaner display if it comes from the backend
-            if (errorMessage.includes('{')) {
-               try {
-                   const parsed = JSON.parse(errorMessage.substring(errorMessage.indexOf('{')));
-                   if (parsed.error && parsed.error.message) {
-                       errorMessage = parsed.error.message;
-                   }
-               } catch (parseErr) {
-                   // Ignore parsing error and use original message
+        saveSession({ feedback, answers });
+        return;
+    }
+
+    const e = reportResult.status === 'rejected' ? reportResult.reason : undefined;
+    // Provide a more specific error message to the user.
+    let errorMessage = "An unexpected error occurred.";
+    if (e instanceof Error) {
+        errorMessage = e.message;
+        // Attempt to parse JSON error for cleaner display if it comes from the backend
+        if (errorMessage.includes('{')) {
+           try {
+               const parsed = JSON.parse(errorMessage.substring(errorMessage.indexOf('{')));
+               if (parsed.error && parsed.error.message) {
+                   errorMessage = parsed.error.message;
                }
-            }
+           } catch (parseErr) {
+               // Ignore parsing error and use original message
+           }
         }
-        setError(errorMessage);
-        setPhase('error');
     }
+    setError(errorMessage);
+    setPhase('error');
+    saveSession();
   };
   
   if (!isOpen) return null;
 
   const renderContent = () => {
     switch(phase) {
+        case 'setup':
+            return <InterviewSetup resumeSummary={resumeSummary} onStart={startInterview} />;
         case 'connecting':
         case 'live':
              return (
                  <>
                     <main className="flex-grow flex flex-col p-6 text-center overflow-hidden">
+                        {channel === 'voice' && (
                         <div className="flex-shrink-0 mb-4">
                             <div className={`relative w-24 h-24 mx-auto rounded-full flex items-center justify-center transition-colors duration-300 ${isModelSpeaking ? 'bg-indigo-500/30' : 'bg-gray-500/20'}`}>
                                 <div className={`absolute inset-0 rounded-full border-4 ${isModelSpeaking ? 'border-indigo-400 animate-pulse-slow' : 'border-transparent'}`}></div>
@@ -438,7 +866,29 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
                             <p className="mt-4 text-lg font-semibold text-gray-700 dark:text-gray-200">
                                 {phase === 'connecting' ? 'Connecting...' : isModelSpeaking ? "Interviewer is speaking..." : "Ready for your response"}
                             </p>
+                            {phase === 'live' && <MicLevelMeter getLevel={() => inputLevelRef.current} className="mt-3 w-40 mx-auto" />}
                         </div>
+                        )}
+                        {notice && <p className="flex-shrink-0 mb-4 text-sm text-amber-300">{notice}</p>}
+
+                        {plan && phase === 'live' && (
+                            <div className="flex-shrink-0 mb-4 bg-black/20 rounded-lg p-3 text-left">
+                                <div className="flex items-center justify-between text-xs text-gray-400">
+                                    <span>Question {questionIndex + 1} of {plan.questions.length} · {CATEGORY_LABELS[plan.questions[questionIndex].category]}</span>
+                                    {secondsLeft !== null && (
+                                        <span className={`font-mono font-semibold ${secondsLeft <= 15 ? 'text-red-400' : 'text-gray-300'}`}>
+                                            {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="mt-2 h-1 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-purple-500 transition-all" style={{ width: `${(questionIndex / plan.questions.length) * 100}%` }}></div>
+                                </div>
+                                {isPlanComplete && (
+                                    <p className="mt-2 text-xs text-amber-300">That was the last question. Finish the interview to see your scores.</p>
+                                )}
+                            </div>
+                        )}
                         
                         <div ref={transcriptContainerRef} className="flex-grow bg-black/20 rounded-lg p-4 text-left overflow-y-auto space-y-4">
                             {transcript.map((turn, index) => (
@@ -467,9 +917,49 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
                                     <UserIcon className="w-6 h-6 text-purple-400 flex-shrink-0 mt-1" />
                                 </div>
                             )}
+                            {isInterviewerTyping && (
+                                <div className="flex items-start gap-3">
+                                    <BotIcon className="w-6 h-6 text-indigo-400 flex-shrink-0 mt-1" />
+                                    <p className="p-3 text-sm text-gray-400 italic">Interviewer is typing...</p>
+                                </div>
+                            )}
                         </div>
+
+                        {channel === 'text' && (
+                            <form onSubmit={(e) => { e.preventDefault(); sendChatMessage(); }} className="flex-shrink-0 mt-3 flex items-end gap-2">
+                                <textarea
+                                    value={draft}
+                                    onChange={(e) => { draftRef.current = e.target.value; setDraft(e.target.value); }}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && !e.shiftKey) {
+                                            e.preventDefault();
+                                            if (draft.trim() && !isInterviewerTyping) sendChatMessage();
+                                        }
+                                    }}
+                                    rows={3}
+                                    disabled={isPlanComplete}
+                                    placeholder={plan ? "Type your answer. Sending it moves on to the next question." : "Type your answer..."}
+                                    className="flex-grow p-2 text-sm text-left border border-gray-300 dark:border-gray-600 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none disabled:opacity-50"
+                                    aria-label="Your answer"
+                                />
+                                <button type="submit" disabled={!draft.trim() || isInterviewerTyping || isPlanComplete} className="bg-indigo-600 text-white p-3 rounded-lg hover:bg-indigo-700 disabled:opacity-50" aria-label="Send">
+                                    <SendIcon className="w-5 h-5" />
+                                </button>
+                            </form>
+                        )}
                     </main>
                     <footer className="p-3 bg-white/50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-700 flex items-center justify-center gap-2 flex-shrink-0">
+                         {phase === 'live' && (
+                            channel === 'voice'
+                                ? <button onClick={() => switchToText()} className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white font-semibold py-2 px-3"><EditIcon className="w-4 h-4" /> Type Instead</button>
+                                : <button onClick={switchToVoice} disabled={isInterviewerTyping} className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white font-semibold py-2 px-3 disabled:opacity-50"><MicIcon className="w-4 h-4" /> Use Voice</button>
+                         )}
+                         {plan && phase === 'live' && !isPlanComplete && channel === 'voice' && questionIndex < plan.questions.length - 1 && (
+                            <button onClick={() => askQuestion(questionIndex + 1)} disabled={isModelSpeaking} className="bg-indigo-600 text-white font-bold py-2 px-6 rounded-lg transition-colors hover:bg-indigo-700 disabled:opacity-50">Next Question</button>
+                         )}
+                         {plan && phase === 'live' && !isPlanComplete && channel === 'text' && !draft.trim() && (
+                            <button onClick={sendChatMessage} disabled={isInterviewerTyping} className="bg-indigo-600 text-white font-bold py-2 px-6 rounded-lg transition-colors hover:bg-indigo-700 disabled:opacity-50">Skip Question</button>
+                         )}
                          <button onClick={handleFinish} className="bg-red-600 text-white font-bold py-2 px-6 rounded-lg transition-colors hover:bg-red-700">Finish Interview</button>
                     </footer>
                  </>
@@ -484,7 +974,8 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
         case 'report':
             return (
                 <main className="p-4 overflow-y-auto">
-                    {feedbackReport && <FeedbackReportDisplay report={feedbackReport} />}
+                    {isSessionSaved && <p className="mb-3 text-xs text-gray-400">Saved to your interview history.</p>}
+                    {feedbackReport && <FeedbackReportDisplay report={feedbackReport} speech={speechAnalytics} />}
                 </main>
             );
         case 'error':
@@ -492,6 +983,7 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
                 <main className="flex-grow flex flex-col items-center justify-center p-6 text-center">
                     <p className="text-red-400 font-semibold">An Error Occurred</p>
                     <p className="mt-2 text-sm text-red-300">{error || "Please try again."}</p>
+                    {isSessionSaved && <p className="mt-2 text-xs text-gray-400">Your answers were saved. You can generate the report later from your interview history.</p>}
                     <button onClick={onClose} className="mt-6 bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">
                         Close
                     </button>
@@ -508,7 +1000,7 @@ export const InterviewModal: React.FC<InterviewModalProps> = ({ isOpen, onClose,
         <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center sticky top-0 bg-white/80 dark:bg-gray-900/80 z-10">
             <div>
               <h2 className="text-xl font-bold text-gray-800 dark:text-white">
-                {phase !== 'report' ? 'Live Interview Practice' : 'Performance Report'}
+                {phase === 'setup' ? 'Set Up Your Interview' : phase === 'report' ? 'Performance Report' : channel === 'text' ? 'Interview Practice (Text Chat)' : 'Live Interview Practice'}
               </h2>
               <p className="text-sm text-purple-600 dark:text-purple-400 font-semibold">{careerPath?.role}</p>
             </div>
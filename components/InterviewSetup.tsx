@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { InterviewChannel, InterviewDifficulty, InterviewPlan, InterviewQuestionCategory } from '../types';
+import { CATEGORY_LABELS, DIFFICULTIES, QUESTION_CATEGORIES, buildInterviewPlan, getQuestionBank, jobQuestionsStore, saveJobQuestions } from '../services/interviewQuestions';
+import { trackedJobsStore } from '../services/jobTracker';
+import { generateInterviewQuestions } from '../services/geminiService';
+import { useCollection } from '../hooks/useCollection';
+import { MicrophoneSelect } from './MicrophoneControls';
+import { MicIcon, SparklesIcon, ClipboardCheckIcon, EditIcon } from './IconComponents';
+
+type InterviewMode = 'freeform' | 'structured';
+
+const MODES: { id: InterviewMode; label: string; description: string }[] = [
+    { id: 'structured', label: 'Structured', description: "The interviewer works through a set of questions you choose, with a time limit per answer. Every answer is scored on its own." },
+    { id: 'freeform', label: 'Free-form', description: "An open conversation where the interviewer picks questions for the role as it goes. You get one report for the whole session." },
+];
+
+const CHANNELS: { id: InterviewChannel; label: string }[] = [
+    { id: 'voice', label: 'Speaking' },
+    { id: 'text', label: 'Typing' },
+];
+
+const QUESTION_COUNTS = [3, 5, 8, 10];
+
+const TIME_LIMITS: { seconds: number; label: string }[] = [
+    { seconds: 60, label: '1 min' },
+    { seconds: 120, label: '2 min' },
+    { seconds: 180, label: '3 min' },
+    { seconds: 0, label: 'No limit' },
+];
+
+const inputClass = "mt-1 block w-full p-2 text-sm border-gray-300 dark:border-gray-600 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-indigo-500";
+
+const optionClass = (isActive: boolean) =>
+    `px-3 py-1 rounded-md text-xs font-semibold transition-all ${isActive ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white hover:bg-white/5'}`;
+
+interface InterviewSetupProps {
+    resumeSummary: string;
+    // Called with the plan for a structured interview, or null for free-form.
+    onStart: (plan: InterviewPlan | null, channel: InterviewChannel, recordAudio: boolean) => void;
+}
+
+export const InterviewSetup: React.FC<InterviewSetupProps> = ({ resumeSummary, onStart }) => {
+    const trackedJobs = useCollection(trackedJobsStore);
+    const jobQuestions = useCollection(jobQuestionsStore);
+    const [mode, setMode] = useState<InterviewMode>('structured');
+    const [channel, setChannel] = useState<InterviewChannel>('voice');
+    const [recordAudio, setRecordAudio] = useState(false);
+    const [count, setCount] = useState(5);
+    const [difficulty, setDifficulty] = useState<InterviewDifficulty>('medium');
+    const [categories, setCategories] = useState<InterviewQuestionCategory[]>(['behavioral', 'technical', 'situational']);
+    const [answerTimeLimit, setAnswerTimeLimit] = useState(120);
+    const [jobId, setJobId] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const jobs = trackedJobs.filter(job => job.description?.trim());
+    const selectedJob = jobs.find(job => job.id === jobId);
+    const generatedCount = jobQuestions.filter(q => q.jobId === jobId).length;
+    const available = useMemo(
+        () => getQuestionBank(jobId || undefined).filter(q => categories.includes(q.category)).length,
+        [jobId, categories, jobQuestions],
+    );
+
+    const toggleCategory = (category: InterviewQuestionCategory) => {
+        setCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+    };
+
+    const handleSelectJob = (id: string) => {
+        setJobId(id);
+        setError(null);
+        // Interviewing for a specific company is what company questions are for.
+        if (id && !categories.includes('company')) setCategories(prev => [...prev, 'company']);
+    };
+
+    const handleGenerate = async () => {
+        if (!selectedJob) return;
+        setIsGenerating(true);
+        setError(null);
+        try {
+            saveJobQuestions(selectedJob.id, await generateInterviewQuestions(selectedJob, resumeSummary));
+        } catch (e: any) {
+            setError(e.message || "Could not generate questions for this job.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleStart = () => {
+        if (mode === 'freeform') {
+            onStart(null, channel, recordAudio);
+            return;
+        }
+        const plan = buildInterviewPlan(getQuestionBank(jobId || undefined), { count, difficulty, categories, answerTimeLimit });
+        if (plan.questions.length === 0) {
+            setError("No questions match these settings. Choose another category or generate questions for a job.");
+            return;
+        }
+        onStart(plan, channel, recordAudio);
+    };
+
+    return (
+        <main className="flex-grow overflow-y-auto p-6 space-y-5">
+            <div>
+                <div className="bg-black/20 p-1 rounded-lg inline-flex">
+                    {MODES.map(option => (
+                        <button key={option.id} onClick={() => setMode(option.id)} className={optionClass(mode === option.id)}>{option.label}</button>
+                    ))}
+                </div>
+                <p className="mt-2 text-sm text-gray-400">{MODES.find(option => option.id === mode)!.description}</p>
+            </div>
+
+            <div>
+                <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Answer by</p>
+                <div className="mt-2 bg-black/20 p-1 rounded-lg inline-flex">
+                    {CHANNELS.map(option => <button key={option.id} onClick={() => setChannel(option.id)} className={optionClass(channel === option.id)}>{option.label}</button>)}
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                    {channel === 'voice'
+                        ? "Needs a microphone. You can switch to typing at any point."
+                        : "Good for quiet spaces and written screening questions. You can switch to speaking at any point."}
+                </p>
+                {channel === 'voice' && <MicrophoneSelect className="mt-2 max-w-sm" />}
+                <label className="mt-2 flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={recordAudio} onChange={(e) => setRecordAudio(e.target.checked)} className="accent-purple-500" />
+                    Keep a recording of my spoken answers with this session (stays on this device)
+                </label>
+            </div>
+
+            {mode === 'structured' && (
+                <>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-700 dark:text-gray-200">Practising for a specific job? <span className="font-normal text-gray-400">(optional)</span></label>
+                        <select value={jobId} onChange={(e) => handleSelectJob(e.target.value)} className={inputClass}>
+                            <option value="">No, general practice</option>
+                            {jobs.map(job => <option key={job.id} value={job.id}>{job.title} at {job.company}</option>)}
+                        </select>
+                        {selectedJob && (
+                            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-400">
+                                <span>{generatedCount > 0 ? `${generatedCount} question(s) written from this posting.` : "No questions written from this posting yet."}</span>
+                                <button onClick={handleGenerate} disabled={isGenerating} className="flex items-center gap-1 font-semibold text-purple-400 hover:text-purple-300 disabled:opacity-50">
+                                    <SparklesIcon className="w-3 h-3" /> {isGenerating ? 'Writing...' : generatedCount > 0 ? 'Write new ones' : 'Write questions'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Categories</p>
+                        <div className="mt-2 flex flex-wrap gap-2">
+                            {QUESTION_CATEGORIES.map(category => (
+                                <label key={category} className="flex items-center gap-1.5 text-xs text-gray-300 bg-black/20 px-2 py-1 rounded-md cursor-pointer">
+                                    <input type="checkbox" checked={categories.includes(category)} onChange={() => toggleCategory(category)} className="accent-purple-500" />
+                                    {CATEGORY_LABELS[category]}
+                                </label>
+                            ))}
+                        </div>
+                        {categories.includes('company') && !generatedCount && (
+                            <p className="mt-1 text-xs text-amber-300/80">Company-specific questions are written from a tracked job's posting.</p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Questions</p>
+                            <div className="mt-2 bg-black/20 p-1 rounded-lg inline-flex">
+                                {QUESTION_COUNTS.map(n => <button key={n} onClick={() => setCount(n)} className={optionClass(count === n)}>{n}</button>)}
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Difficulty</p>
+                            <div className="mt-2 bg-black/20 p-1 rounded-lg inline-flex">
+                                {DIFFICULTIES.map(d => <button key={d} onClick={() => setDifficulty(d)} className={`${optionClass(difficulty === d)} capitalize`}>{d}</button>)}
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-gray-700 dark:text-gray-200">Time per answer</p>
+                            <div className="mt-2 bg-black/20 p-1 rounded-lg inline-flex">
+                                {TIME_LIMITS.map(limit => <button key={limit.seconds} onClick={() => setAnswerTimeLimit(limit.seconds)} className={optionClass(answerTimeLimit === limit.seconds)}>{limit.label}</button>)}
+                            </div>
+                        </div>
+                    </div>
+
+                    <p className="text-xs text-gray-400 flex items-center gap-1">
+                        <ClipboardCheckIcon className="w-4 h-4" />
+                        {available} question(s) in the bank match.{available < count && available > 0 && ` The interview will have ${available}.`}
+                    </p>
+                </>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="flex justify-end">
+                <button onClick={handleStart} disabled={mode === 'structured' && categories.length === 0} className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-2 px-6 rounded-lg hover:opacity-90 disabled:opacity-50">
+                    {channel === 'voice' ? <MicIcon className="w-4 h-4" /> : <EditIcon className="w-4 h-4" />} Start Interview
+                </button>
+            </div>
+        </main>
+    );
+};
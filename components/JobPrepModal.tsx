@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { JobListing } from '../types';
 import { XCircleIcon, CopyIcon, BrainCircuitIcon, ClipboardCheckIcon } from './IconComponents';
-import { ai } from '../services/geminiService';
+import { generateJobPrepContent } from '../services/geminiService';
 
 interface JobPrepModalProps {
     isOpen: boolean;
@@ -32,19 +32,9 @@ export const JobPrepModal: React.FC<JobPrepModalProps> = ({ isOpen, onClose, job
         setIsLoading(true);
         setContent('');
         
-        let prompt = '';
-        if (tab === 'coverLetter') {
-            prompt = `Write a professional and concise cover letter for the role of "${job.title}" at "${job.company}". The candidate's background is: "${resumeSummary}". The job description is: "${job.description}". The letter should be tailored to the job and highlight the candidate's relevant skills.`;
-        } else {
-            prompt = `Generate a list of 5-7 potential interview questions for the role of "${job.title}" at "${job.company}". Include a mix of behavioral, technical, and situational questions based on the job description: "${job.description}". For each question, provide a brief tip on what the interviewer is looking for.`;
-        }
-
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
-            setContent(response.text);
+            const text = await generateJobPrepContent(tab === 'coverLetter' ? 'coverLetter' : 'interviewQuestions', job, resumeSummary);
+            setContent(text);
         } catch (error) {
             console.error("Failed to generate content:", error);
             setContent("Sorry, an error occurred while generating content. Please try again.");
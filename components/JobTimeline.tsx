@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { ApplicationEvent, ApplicationEventType, InterviewFormat, TrackedJob } from '../types';
+import { EVENT_TYPES, EVENT_TYPE_LABELS, INTERVIEW_FORMATS, buildCalendar, daysUntil, eventTitle, formatEventWhen, isUpcoming, sortEvents } from '../services/applicationEvents';
+import { createId } from '../services/resumeLibrary';
+import { downloadBlob } from '../services/resumeExport';
+import { CalendarIcon, DownloadIcon, PlusIcon, Trash2Icon } from './IconComponents';
+
+interface JobTimelineProps {
+    job: TrackedJob;
+    onUpdate: (job: TrackedJob) => void;
+}
+
+const inputClass = "mt-1 block w-full p-2 text-sm border-gray-300 dark:border-gray-600 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-indigo-500";
+
+const EVENT_DOT: Record<ApplicationEventType, string> = {
+    'applied': 'bg-sky-400',
+    'recruiter-email': 'bg-indigo-400',
+    'interview': 'bg-purple-400',
+    'take-home': 'bg-amber-400',
+    'offer-deadline': 'bg-green-400',
+};
+
+const emptyDraft = (): ApplicationEvent => ({ id: '', type: 'interview', date: new Date().toISOString().split('T')[0], format: 'Video', durationMinutes: 60 });
+
+// Urgency label for events in the next few days, so deadlines stand out on the card.
+export const dueLabel = (event: ApplicationEvent): { text: string; className: string } | null => {
+    const days = daysUntil(event);
+    if (days < 0 || days > 7) return null;
+    const text = days === 0 ? 'Today' : days === 1 ? 'Tomorrow' : `In ${days} days`;
+    return { text, className: days <= 2 ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300' };
+};
+
+export const JobTimeline: React.FC<JobTimelineProps> = ({ job, onUpdate }) => {
+    const [draft, setDraft] = useState<ApplicationEvent | null>(null);
+    const events = sortEvents(job.events || []);
+    const upcoming = events.filter(event => isUpcoming(event));
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft?.date) return;
+        const event: ApplicationEvent = { ...draft, id: createId() };
+        // Interview fields are only kept on interviews, in case the type was changed while editing.
+        if (event.type !== 'interview') {
+            delete event.round;
+            delete event.interviewer;
+            delete event.format;
+            delete event.durationMinutes;
+        }
+        onUpdate({ ...job, events: [...(job.events || []), event] });
+        setDraft(null);
+    };
+
+    const handleDelete = (id: string) => {
+        onUpdate({ ...job, events: (job.events || []).filter(event => event.id !== id) });
+    };
+
+    const handleExport = () => {
+        const calendar = buildCalendar(upcoming.map(event => ({ job, event })));
+        downloadBlob(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }), `${job.company}-${job.title}`.replace(/[^A-Za-z0-9-]+/g, '-') + '.ics');
+    };
+
+    return (
+        <div className="bg-black/10 rounded-md p-3 space-y-2">
+            <div className="flex justify-between items-center">
+                <label className="text-xs text-gray-400 flex items-center gap-1"><CalendarIcon className="w-3 h-3"/> Timeline</label>
+                {upcoming.length > 0 && (
+                    <button onClick={handleExport} className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold" title="Download upcoming events as an .ics calendar file">
+                        <DownloadIcon className="w-3 h-3"/> .ics
+                    </button>
+                )}
+            </div>
+
+            {events.length === 0 && !draft && <p className="text-xs text-gray-500">No events yet.</p>}
+            <ol className="space-y-2">
+                {events.map(event => {
+                    const due = isUpcoming(event) ? dueLabel(event) : null;
+                    return (
+                        <li key={event.id} className="flex items-start gap-2 text-xs group">
+                            <span className={`w-2 h-2 rounded-full mt-1 flex-shrink-0 ${EVENT_DOT[event.type]}`} />
+                            <div className="flex-grow min-w-0">
+                                <p className="font-semibold text-gray-200">
+                                    {eventTitle(event)}
+                                    {due && <span className={`ml-2 px-1.5 py-0.5 rounded ${due.className}`}>{due.text}</span>}
+                                </p>
+                                <p className="text-gray-400">{formatEventWhen(event)}{event.interviewer && ` · ${event.interviewer}`}</p>
+                                {event.notes && <p className="text-gray-500 whitespace-pre-wrap">{event.notes}</p>}
+                            </div>
+                            <button onClick={() => handleDelete(event.id)} className="text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100" aria-label={`Delete ${eventTitle(event)}`}>
+                                <Trash2Icon className="w-3 h-3"/>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            {draft ? (
+                <form onSubmit={handleSave} className="space-y-2 border-t border-white/10 pt-2">
+                    <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as ApplicationEventType })} className={inputClass} aria-label="Event type">
+                        {EVENT_TYPES.map(type => <option key={type} value={type}>{EVENT_TYPE_LABELS[type]}</option>)}
+                    </select>
+                    <div className="flex gap-2">
+                        <input type="date" required value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className={inputClass} aria-label="Date" />
+                        <input type="time" value={draft.time || ''} onChange={(e) => setDraft({ ...draft, time: e.target.value || undefined })} className={inputClass} aria-label="Time (optional)" />
+                    </div>
+                    {draft.type === 'interview' ? (
+                        <>
+                            <input value={draft.round || ''} onChange={(e) => setDraft({ ...draft, round: e.target.value })} className={inputClass} placeholder="Round, e.g. Hiring manager" aria-label="Round" />
+                            <input value={draft.interviewer || ''} onChange={(e) => setDraft({ ...draft, interviewer: e.target.value })} className={inputClass} placeholder="Interviewer" aria-label="Interviewer" />
+                            <div className="flex gap-2">
+                                <select value={draft.format} onChange={(e) => setDraft({ ...draft, format: e.target.value as InterviewFormat })} className={inputClass} aria-label="Format">
+                                    {INTERVIEW_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                                </select>
+                                <input type="number" min={5} step={5} value={draft.durationMinutes || ''} onChange={(e) => setDraft({ ...draft, durationMinutes: Number(e.target.value) || undefined })} className={inputClass} aria-label="Duration in minutes" title="Duration (minutes)" />
+                            </div>
+                        </>
+                    ) : (
+                        <input value={draft.title || ''} onChange={(e) => setDraft({ ...draft, title: e.target.value || undefined })} className={inputClass} placeholder={`Title (default: ${EVENT_TYPE_LABELS[draft.type]})`} aria-label="Title" />
+                    )}
+                    <textarea value={draft.notes || ''} onChange={(e) => setDraft({ ...draft, notes: e.target.value || undefined })} rows={2} className={`${inputClass} resize-y`} placeholder="Notes" aria-label="Notes" />
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={() => setDraft(null)} className="text-xs text-gray-400 hover:text-white font-semibold">Cancel</button>
+                        <button type="submit" className="text-xs px-3 py-1 rounded-md bg-purple-600 text-white font-semibold hover:bg-purple-500">Add</button>
+                    </div>
+                </form>
+            ) : (
+                <button onClick={() => setDraft(emptyDraft())} className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold">
+                    <PlusIcon className="w-3 h-3"/> Add event
+                </button>
+            )}
+        </div>
+    );
+};
@@ -1,30 +1,102 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { TrackedJob, ApplicationStatus, AgentSearchHistoryItem } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { TrackedJob, ApplicationStatus, AgentSearchHistoryItem, ResumeRecord, JobListing } from '../types';
+import { useCollection } from '../hooks/useCollection';
 import { Card } from './Card';
-import { BriefcaseIcon, Trash2Icon, CalendarIcon, FileTextIcon, ExternalLinkIcon, BotMessageSquareIcon } from './IconComponents';
+import { BriefcaseIcon, Trash2Icon, CalendarIcon, FileTextIcon, ExternalLinkIcon, BotMessageSquareIcon, MagicWandIcon, EditIcon, PlusIcon, DollarSignIcon, ClipboardCheckIcon, ChevronDownIcon, ChevronUpIcon, TagIcon, GripVerticalIcon, XCircleIcon } from './IconComponents';
+import { getCurrentText, getResume, getScoredText, listResumes } from '../services/resumeLibrary';
+import { resumeToText } from '../services/resumeModel';
+import { createSubmission, createTailoredVariant } from '../services/resumeVariants';
+import { APPLICATION_STAGES, STAGE_ORDER, hiddenStagesStore, moveToStage, trackedJobsStore } from '../services/jobTracker';
+import { searchHistoryStore } from '../services/searchHistory';
+import { isUpcoming, eventTitle, formatEventWhen, sortEvents } from '../services/applicationEvents';
+import { ComparableVersion, ResumeCompareModal } from './ResumeCompareModal';
+import { JobTimeline, dueLabel } from './JobTimeline';
+import { DuplicateJobsModal } from './DuplicateJobsModal';
+import { AddJobModal } from './AddJobModal';
+import { TrackJobModal } from './TrackJobModal';
+import { findDuplicateGroups, markDistinct, mergeJobs } from '../services/jobIdentity';
 
-const LOCAL_STORAGE_KEY = 'trackedJobs';
-const HISTORY_STORAGE_KEY = 'agentSearchHistory';
-const STATUS_ORDER: ApplicationStatus[] = ['Saved', 'Applied', 'Interviewing', 'Offer Received'];
+const DRAG_TYPE = 'application/x-tracked-job';
+
+const filterSelectClass = "bg-black/20 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+interface BoardFilters {
+    company: string;
+    location: string;
+    tag: string;
+}
+
+const EMPTY_FILTERS: BoardFilters = { company: '', location: '', tag: '' };
+
+const uniqueSorted = (values: string[]) => [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+interface TailoringState {
+    isTailoring: boolean;
+    error?: string;
+    changes?: string[];
+}
 
 const TrackedJobCard: React.FC<{
     job: TrackedJob;
     onUpdate: (updatedJob: TrackedJob) => void;
     onDelete: (jobId: string) => void;
-}> = ({ job, onUpdate, onDelete }) => {
+    variant?: ResumeRecord;
+    // Why tailoring is unavailable, if it is.
+    tailorBlocker?: string;
+    tailoring?: TailoringState;
+    onTailor: () => void;
+    onOpenResume?: (resumeId: string) => void;
+    onCompareVariant: (variant: ResumeRecord) => void;
+    onRecordSubmission: () => void;
+    onViewSubmission: () => void;
+}> = ({ job, onUpdate, onDelete, variant, tailorBlocker, tailoring, onTailor, onOpenResume, onCompareVariant, onRecordSubmission, onViewSubmission }) => {
     const [notes, setNotes] = useState(job.notes || '');
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [tagInput, setTagInput] = useState('');
+    const tags = job.tags || [];
+    const enteredAt = job.stageTimestamps?.[job.status];
+    const nextEvent = sortEvents(job.events || []).find(event => isUpcoming(event));
+    const nextDue = nextEvent && dueLabel(nextEvent);
 
+    // The select is the keyboard-accessible alternative to dragging the card.
     const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        onUpdate({ ...job, status: e.target.value as ApplicationStatus });
+        onUpdate(moveToStage(job, e.target.value as ApplicationStatus));
+    };
+
+    const handleAddTag = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = tagInput.trim();
+        if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+            onUpdate({ ...job, tags: [...tags, tag] });
+        }
+        setTagInput('');
+    };
+
+    const handleRemoveTag = (tag: string) => {
+        onUpdate({ ...job, tags: tags.filter(t => t !== tag) });
+    };
+
+    // Only the grip starts a drag, so selecting text in the card's fields doesn't; the whole card is
+    // still what's shown moving.
+    const handleDragStart = (e: React.DragEvent<HTMLSpanElement>) => {
+        e.dataTransfer.setData(DRAG_TYPE, job.id);
+        e.dataTransfer.effectAllowed = 'move';
+        const card = e.currentTarget.closest('[data-job-card]');
+        if (card) e.dataTransfer.setDragImage(card, 12, 12);
     };
 
+    // Notes can also change from a merge or sync while the card is shown.
+    useEffect(() => {
+        setNotes(job.notes || '');
+    }, [job.notes]);
+
     const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         setNotes(e.target.value);
     };
     
     const handleNotesBlur = () => {
-        onUpdate({ ...job, notes });
+        if (notes !== (job.notes || '')) onUpdate({ ...job, notes });
     };
 
     const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -32,17 +104,52 @@ const TrackedJobCard: React.FC<{
     };
 
     return (
-        <Card className="p-4 space-y-3">
-            <div>
-                <h3 className="font-bold text-md text-purple-300">{job.title}</h3>
-                <p className="text-sm font-semibold">{job.company} - <span className="text-gray-400 font-normal">{job.location}</span></p>
+        <Card className="p-3 space-y-3" data-job-card>
+            <div className="flex items-start gap-2">
+                <span draggable onDragStart={handleDragStart} className="cursor-grab active:cursor-grabbing flex-shrink-0" title="Drag to another stage">
+                    <GripVerticalIcon className="w-4 h-4 mt-0.5 text-gray-500" />
+                </span>
+                <div className="flex-grow min-w-0">
+                    <h3 className="font-bold text-sm text-purple-300">{job.title}</h3>
+                    <p className="text-xs font-semibold">{job.company} - <span className="text-gray-400 font-normal">{job.location}</span></p>
+                    {job.salary && <p className="text-xs text-green-300 flex items-center gap-1 mt-0.5"><DollarSignIcon className="w-3 h-3"/> {job.salary}</p>}
+                    {enteredAt && <p className="text-xs text-gray-500 mt-0.5">In {job.status} since {new Date(enteredAt).toLocaleDateString()}</p>}
+                </div>
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-gray-400 hover:text-white flex-shrink-0" aria-label={isExpanded ? 'Collapse details' : 'Expand details'} aria-expanded={isExpanded}>
+                    {isExpanded ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+                </button>
             </div>
 
-            <div className="flex flex-col sm:flex-row gap-4">
+            {nextEvent && !isExpanded && (
+                <p className="text-xs text-gray-300 flex items-center gap-1">
+                    <CalendarIcon className="w-3 h-3 text-gray-400 flex-shrink-0"/>
+                    <span className="truncate">{eventTitle(nextEvent)} · {formatEventWhen(nextEvent)}</span>
+                    {nextDue && <span className={`ml-auto px-1.5 py-0.5 rounded flex-shrink-0 ${nextDue.className}`}>{nextDue.text}</span>}
+                </p>
+            )}
+
+            {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {tags.map(tag => (
+                        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-sky-500/10 border border-sky-500/30 text-sky-300 flex items-center gap-1">
+                            {tag}
+                            {isExpanded && (
+                                <button onClick={() => handleRemoveTag(tag)} className="hover:text-white" aria-label={`Remove tag ${tag}`}>
+                                    <XCircleIcon className="w-3 h-3" />
+                                </button>
+                            )}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {isExpanded && (
+            <>
+            <div className="flex flex-col gap-3">
                 <div className="flex-1">
-                    <label className="text-xs text-gray-400">Status</label>
+                    <label className="text-xs text-gray-400">Stage</label>
                     <select value={job.status} onChange={handleStatusChange} className="mt-1 block w-full p-2 text-sm border-gray-300 dark:border-gray-600 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-indigo-500">
-                        {STATUS_ORDER.map(s => <option key={s} value={s}>{s}</option>)}
+                        {STAGE_ORDER.map(s => <option key={s} value={s}>{s}</option>)}
                     </select>
                 </div>
                 {job.status !== 'Saved' && (
@@ -53,6 +160,64 @@ const TrackedJobCard: React.FC<{
                 )}
             </div>
             
+            <JobTimeline job={job} onUpdate={onUpdate} />
+
+            {job.requirements && job.requirements.length > 0 && (
+                <div className="bg-black/10 rounded-md p-3">
+                    <label className="text-xs text-gray-400 flex items-center gap-1"><ClipboardCheckIcon className="w-3 h-3"/> Requirements</label>
+                    <ul className="mt-1 text-xs text-gray-300 list-disc list-inside space-y-0.5">
+                        {job.requirements.map((requirement, i) => <li key={i}>{requirement}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div className="bg-black/10 rounded-md p-3 space-y-2">
+                <label className="text-xs text-gray-400 flex items-center gap-1"><FileTextIcon className="w-3 h-3"/> Resume</label>
+                {variant ? (
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-semibold truncate" title={variant.name}>{variant.name}</span>
+                        <div className="flex gap-3 flex-shrink-0">
+                            {onOpenResume && (
+                                <button onClick={() => onOpenResume(variant.id)} className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold">
+                                    <EditIcon className="w-3 h-3"/> Edit
+                                </button>
+                            )}
+                            <button onClick={() => onCompareVariant(variant)} className="text-xs text-sky-400 hover:text-sky-300 font-semibold">Compare with base</button>
+                        </div>
+                    </div>
+                ) : (
+                    <button
+                        onClick={onTailor}
+                        disabled={!!tailorBlocker || tailoring?.isTailoring}
+                        title={tailorBlocker}
+                        className="w-full text-xs flex items-center justify-center gap-1 py-2 rounded-md bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <MagicWandIcon className="w-3 h-3"/> {tailoring?.isTailoring ? 'Tailoring...' : 'Tailor for this job'}
+                    </button>
+                )}
+                {tailoring?.error && <p className="text-xs text-red-400">{tailoring.error}</p>}
+                {tailoring?.changes && tailoring.changes.length > 0 && (
+                    <ul className="text-xs text-gray-400 list-disc list-inside space-y-0.5">
+                        {tailoring.changes.map((change, i) => <li key={i}>{change}</li>)}
+                    </ul>
+                )}
+                {job.submittedResume ? (
+                    <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                        <span className="truncate">
+                            Submitted <span className="font-semibold text-gray-300">{job.submittedResume.resumeName}</span> on {new Date(job.submittedResume.submittedAt).toLocaleDateString()}
+                        </span>
+                        <div className="flex gap-3 flex-shrink-0">
+                            <button onClick={onViewSubmission} className="text-sky-400 hover:text-sky-300 font-semibold">View</button>
+                            <button onClick={onRecordSubmission} className="text-gray-400 hover:text-white font-semibold" title="Record the current version instead">Replace</button>
+                        </div>
+                    </div>
+                ) : job.status !== 'Saved' && (
+                    <button onClick={onRecordSubmission} className="text-xs text-sky-400 hover:text-sky-300 font-semibold">
+                        Record which resume was submitted
+                    </button>
+                )}
+            </div>
+
             <div>
                 <label className="text-xs text-gray-400 flex items-center gap-1"><FileTextIcon className="w-3 h-3"/> Notes</label>
                 <textarea 
@@ -65,6 +230,16 @@ const TrackedJobCard: React.FC<{
                 />
             </div>
 
+            <form onSubmit={handleAddTag}>
+                <label className="text-xs text-gray-400 flex items-center gap-1"><TagIcon className="w-3 h-3"/> Add Tag</label>
+                <input
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    className="mt-1 block w-full p-2 text-sm border-gray-300 dark:border-gray-600 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-indigo-500"
+                    placeholder="e.g., remote, referral — press Enter"
+                />
+            </form>
+
             <div className="flex justify-between items-center pt-2 border-t border-white/10">
                 <a href={job.url} target="_blank" rel="noopener noreferrer" className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold">
                     View Job <ExternalLinkIcon className="w-3 h-3"/>
@@ -73,6 +248,8 @@ const TrackedJobCard: React.FC<{
                     <Trash2Icon className="w-3 h-3"/> Delete
                 </button>
             </div>
+            </>
+            )}
         </Card>
     );
 };
@@ -97,50 +274,160 @@ const HistoryCard: React.FC<{ item: AgentSearchHistoryItem; onDelete: (id: strin
     </Card>
 );
 
-export const JobTrackerPage: React.FC = () => {
-    const [trackedJobs, setTrackedJobs] = useState<TrackedJob[]>([]);
-    const [searchHistory, setSearchHistory] = useState<AgentSearchHistoryItem[]>([]);
+interface JobTrackerPageProps {
+    resumeId?: string;
+    onOpenResume?: (resumeId: string) => void;
+    onResumeCreated?: (resume: ResumeRecord) => void;
+}
+
+export const JobTrackerPage: React.FC<JobTrackerPageProps> = ({ resumeId, onOpenResume, onResumeCreated }) => {
+    const trackedJobs = useCollection(trackedJobsStore);
+    const [showActiveResumeOnly, setShowActiveResumeOnly] = useState(false);
+    const searchHistory = useCollection(searchHistoryStore);
     const [activeTab, setActiveTab] = useState<'tracker' | 'history'>('tracker');
+    const [library, setLibrary] = useState<ResumeRecord[]>([]);
+    const [tailoring, setTailoring] = useState<Record<string, TailoringState>>({});
+    const [comparison, setComparison] = useState<{ title: string; subtitle?: string; versions: ComparableVersion[] } | null>(null);
+    const [filters, setFilters] = useState<BoardFilters>(EMPTY_FILTERS);
+    const hiddenStages = useCollection(hiddenStagesStore);
+    const [showStageSettings, setShowStageSettings] = useState(false);
+    const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+    const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+    const [isAddingJob, setIsAddingJob] = useState(false);
+    const [listingToTrack, setListingToTrack] = useState<JobListing | null>(null);
+    const duplicateGroups = useMemo(() => findDuplicateGroups(trackedJobs), [trackedJobs]);
 
     useEffect(() => {
-        try {
-            const storedJobs = localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (storedJobs) {
-                setTrackedJobs(JSON.parse(storedJobs));
-            }
-            const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-            if (storedHistory) {
-                setSearchHistory(JSON.parse(storedHistory));
-            }
-        } catch (error) {
-            console.error("Failed to load data from localStorage", error);
-        }
+        listResumes().then(setLibrary).catch(error => console.error("Failed to load resume library", error));
     }, []);
 
     const saveJobs = useCallback((jobs: TrackedJob[]) => {
-        try {
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(jobs));
-            setTrackedJobs(jobs);
-        } catch (error) {
-            console.error("Failed to save tracked jobs to localStorage", error);
-        }
+        trackedJobsStore.write(jobs);
     }, []);
-    
+
     const saveHistory = useCallback((history: AgentSearchHistoryItem[]) => {
+        searchHistoryStore.write(history);
+    }, []);
+
+    // For updates that land after an await, when `trackedJobs` may already be out of date.
+    const patchJob = useCallback((jobId: string, patch: Partial<TrackedJob>) => {
+        trackedJobsStore.update(jobs => jobs.map(j => j.id === jobId ? { ...j, ...patch } : j));
+    }, []);
+
+    const findResume = (id?: string) => id ? library.find(r => r.id === id) : undefined;
+    // The resume a job is tailored from: the one it was tracked with, else the active one.
+    const getBaseResume = (job: TrackedJob) => findResume(job.resumeId) || findResume(resumeId);
+
+    const recordSubmission = async (job: TrackedJob) => {
+        const sourceId = job.variantResumeId && findResume(job.variantResumeId) ? job.variantResumeId : getBaseResume(job)?.id;
+        if (!sourceId) return;
         try {
-            localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
-            setSearchHistory(history);
+            // Read the resume fresh so edits made since this page loaded are captured.
+            const source = await getResume(sourceId);
+            if (source) patchJob(job.id, { submittedResume: createSubmission(source) });
         } catch (error) {
-             console.error("Failed to save history to localStorage", error);
+            console.error("Failed to record the submitted resume", error);
         }
-    }, []);
+    };
 
     const handleUpdateJob = (updatedJob: TrackedJob) => {
+        const previous = trackedJobs.find(j => j.id === updatedJob.id);
         const newJobs = trackedJobs.map(j => j.id === updatedJob.id ? updatedJob : j);
         saveJobs(newJobs);
+        if (previous?.status === 'Saved' && updatedJob.status !== 'Saved' && !updatedJob.submittedResume) {
+            recordSubmission(updatedJob);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const job = trackedJobs.find(j => j.id === e.dataTransfer.getData(DRAG_TYPE));
+        if (job && job.status !== status) handleUpdateJob(moveToStage(job, status));
+    };
+
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropTarget !== status) setDropTarget(status);
+    };
+
+    const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+        // Moving onto a card inside the column also fires dragleave on the column.
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+    };
+
+    const toggleStage = (status: ApplicationStatus) => {
+        hiddenStagesStore.write(hiddenStages.includes(status) ? hiddenStages.filter(s => s !== status) : [...hiddenStages, status]);
+    };
+
+    const handleTailor = async (job: TrackedJob) => {
+        const base = getBaseResume(job);
+        if (!base) return;
+        setTailoring(prev => ({ ...prev, [job.id]: { isTailoring: true } }));
+        try {
+            const { variant, changes } = await createTailoredVariant(base, job);
+            setLibrary(prev => [variant, ...prev]);
+            onResumeCreated?.(variant);
+            patchJob(job.id, { variantResumeId: variant.id });
+            setTailoring(prev => ({ ...prev, [job.id]: { isTailoring: false, changes } }));
+        } catch (error: any) {
+            console.error("Failed to tailor resume:", error);
+            setTailoring(prev => ({ ...prev, [job.id]: { isTailoring: false, error: error.message || "Could not tailor the resume. Please try again." } }));
+        }
+    };
+
+    const handleCompareVariant = (variant: ResumeRecord) => {
+        const info = variant.variantOf;
+        const base = findResume(info?.baseResumeId);
+        setComparison({
+            title: 'Tailored variant vs base',
+            subtitle: info ? `${info.jobTitle} at ${info.company}` : variant.name,
+            versions: [
+                { id: 'fork', label: `${info?.baseName || 'Base'} when tailored`, text: variant.originalStructured ? resumeToText(variant.originalStructured) : variant.originalText },
+                ...(base ? [{ id: 'base', label: `${base.name} now`, text: getScoredText(base) }] : []),
+                { id: 'variant', label: `${variant.name} now`, text: getScoredText(variant) },
+            ],
+        });
+    };
+
+    const handleViewSubmission = (job: TrackedJob) => {
+        const submitted = job.submittedResume;
+        if (!submitted) return;
+        const source = findResume(submitted.resumeId);
+        setComparison({
+            title: 'Submitted resume',
+            subtitle: `${job.title} at ${job.company}`,
+            versions: [
+                { id: 'submitted', label: `As submitted on ${new Date(submitted.submittedAt).toLocaleDateString()}`, text: submitted.text },
+                ...(source ? [{ id: 'current', label: `${source.name} now`, text: getCurrentText(source) }] : []),
+            ],
+        });
+    };
+
+    const handleMergeJobs = (primary: TrackedJob, others: TrackedJob[], leftOut: TrackedJob[]) => {
+        const merged = mergeJobs(primary, others);
+        const mergedIds = others.map(job => job.id);
+        const newJobs = trackedJobs
+            .filter(job => !mergedIds.includes(job.id))
+            .map(job => job.id === primary.id ? merged : job);
+        // Each job left out is only known to differ from the merged one, not from the others left out.
+        saveJobs(leftOut.reduce((jobs, job) => markDistinct(jobs, [merged, job]), newJobs));
+    };
+
+    const handleKeepSeparate = (jobs: TrackedJob[]) => {
+        saveJobs(markDistinct(trackedJobs, jobs));
+    };
+
+    const handleAddedListing = (listing: JobListing) => {
+        setIsAddingJob(false);
+        setListingToTrack(listing);
     };
 
     const handleDeleteJob = (jobId: string) => {
+        const job = trackedJobs.find(j => j.id === jobId);
+        if (job && !window.confirm(`Stop tracking ${job.title} at ${job.company}? Its notes, timeline and stage history will be deleted. This action cannot be undone.`)) return;
         const newJobs = trackedJobs.filter(j => j.id !== jobId);
         saveJobs(newJobs);
     };
@@ -154,11 +441,25 @@ export const JobTrackerPage: React.FC = () => {
         saveHistory([]);
     }
 
-    const jobsByStatus = STATUS_ORDER.reduce((acc, status) => {
-        acc[status] = trackedJobs.filter(job => job.status === status);
+    const companies = uniqueSorted(trackedJobs.map(job => job.company));
+    const locations = uniqueSorted(trackedJobs.map(job => job.location));
+    const allTags = uniqueSorted(trackedJobs.flatMap(job => job.tags || []));
+    const hasFilters = filters.company || filters.location || filters.tag;
+
+    const visibleJobs = trackedJobs.filter(job =>
+        (!showActiveResumeOnly || !resumeId || job.resumeId === resumeId)
+        && (!filters.company || job.company === filters.company)
+        && (!filters.location || job.location === filters.location)
+        && (!filters.tag || (job.tags || []).includes(filters.tag))
+    );
+
+    const jobsByStatus = STAGE_ORDER.reduce((acc, status) => {
+        acc[status] = visibleJobs.filter(job => job.status === status);
         return acc;
     }, {} as Record<ApplicationStatus, TrackedJob[]>);
 
+    const visibleStages = APPLICATION_STAGES.filter(stage => !hiddenStages.includes(stage.id));
+
     return (
         <div className="animate-fade-in space-y-6">
             <div className="flex justify-center mb-6">
@@ -180,32 +481,107 @@ export const JobTrackerPage: React.FC = () => {
 
             {activeTab === 'tracker' && (
                 <>
+                    <div className="flex justify-end">
+                        <button onClick={() => setIsAddingJob(true)} className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold text-sm py-2 px-4 rounded-lg hover:shadow-lg hover:opacity-90 transition-all duration-200 flex items-center gap-2">
+                            <PlusIcon className="w-4 h-4" /> Add Job
+                        </button>
+                    </div>
                     {trackedJobs.length === 0 ? (
                         <Card className="p-10 text-center">
                             <BriefcaseIcon className="w-12 h-12 mx-auto text-gray-500" />
                             <h2 className="mt-4 text-xl font-semibold">Your Job Tracker is Empty</h2>
-                            <p className="mt-2 text-gray-400">Find jobs in the "Find Jobs" tab and track them here to manage your application process.</p>
+                            <p className="mt-2 text-gray-400">Add a job you found elsewhere, or find jobs in the "Find Jobs" tab and track them here to manage your application process.</p>
                         </Card>
                     ) : (
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                            {STATUS_ORDER.map(status => (
-                                <div key={status} className="space-y-4">
-                                    <h2 className="text-lg font-bold text-center text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-sky-400">
-                                        {status} ({jobsByStatus[status].length})
-                                    </h2>
-                                    <div className="space-y-4">
-                                        {jobsByStatus[status].map(job => (
+                        <>
+                        {duplicateGroups.length > 0 && (
+                            <div className="flex justify-between items-center gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg px-4 py-3 text-sm text-amber-200">
+                                <span>{duplicateGroups.length === 1 ? 'One set of jobs looks' : `${duplicateGroups.length} sets of jobs look`} like the same posting tracked more than once.</span>
+                                <button onClick={() => setIsReviewingDuplicates(true)} className="font-semibold text-amber-300 hover:text-amber-100 flex-shrink-0">Review</button>
+                            </div>
+                        )}
+                        <div className="flex flex-wrap items-center gap-3">
+                            <select value={filters.company} onChange={(e) => setFilters({ ...filters, company: e.target.value })} className={filterSelectClass} aria-label="Filter by company">
+                                <option value="">All companies</option>
+                                {companies.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <select value={filters.location} onChange={(e) => setFilters({ ...filters, location: e.target.value })} className={filterSelectClass} aria-label="Filter by location">
+                                <option value="">All locations</option>
+                                {locations.map(l => <option key={l} value={l}>{l}</option>)}
+                            </select>
+                            <select value={filters.tag} onChange={(e) => setFilters({ ...filters, tag: e.target.value })} className={filterSelectClass} aria-label="Filter by tag" disabled={allTags.length === 0}>
+                                <option value="">{allTags.length === 0 ? 'No tags yet' : 'All tags'}</option>
+                                {allTags.map(t => <option key={t} value={t}>{t}</option>)}
+                            </select>
+                            {hasFilters && (
+                                <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-xs text-sky-400 hover:text-sky-300 font-semibold">Clear filters</button>
+                            )}
+                            <div className="flex-grow" />
+                            {resumeId && (
+                                <label className="text-sm text-gray-400 flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={showActiveResumeOnly}
+                                        onChange={(e) => setShowActiveResumeOnly(e.target.checked)}
+                                        className="accent-purple-500"
+                                    />
+                                    Only jobs tracked with this resume
+                                </label>
+                            )}
+                            <button onClick={() => setShowStageSettings(!showStageSettings)} className="text-xs text-gray-400 hover:text-white font-semibold flex items-center gap-1" aria-expanded={showStageSettings}>
+                                Columns {showStageSettings ? <ChevronUpIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+                            </button>
+                        </div>
+                        {showStageSettings && (
+                            <div className="flex flex-wrap gap-x-4 gap-y-2 bg-black/20 rounded-lg p-3">
+                                {APPLICATION_STAGES.map(stage => (
+                                    <label key={stage.id} className="text-xs text-gray-300 flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={!hiddenStages.includes(stage.id)}
+                                            onChange={() => toggleStage(stage.id)}
+                                            className="accent-purple-500"
+                                        />
+                                        {stage.id} ({trackedJobs.filter(job => job.status === stage.id).length})
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex gap-4 overflow-x-auto pb-4">
+                            {visibleStages.map(stage => (
+                                <div
+                                    key={stage.id}
+                                    onDragOver={(e) => handleDragOver(e, stage.id)}
+                                    onDragLeave={handleDragLeave}
+                                    onDrop={(e) => handleDrop(e, stage.id)}
+                                    className={`w-72 flex-shrink-0 rounded-xl border-t-4 ${stage.accent} p-3 space-y-3 transition-colors ${dropTarget === stage.id ? 'bg-purple-500/10 ring-2 ring-purple-500/50' : stage.closed ? 'bg-black/20' : 'bg-black/10'}`}
+                                >
+                                    <div className="flex justify-between items-center">
+                                        <h2 className="text-sm font-bold uppercase tracking-wider text-gray-300">{stage.id}</h2>
+                                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${stage.badge}`}>{jobsByStatus[stage.id].length}</span>
+                                    </div>
+                                    <div className="space-y-3 min-h-[4rem]">
+                                        {jobsByStatus[stage.id].map(job => (
                                             <TrackedJobCard
                                                 key={job.id}
                                                 job={job}
                                                 onUpdate={handleUpdateJob}
                                                 onDelete={handleDeleteJob}
+                                                variant={findResume(job.variantResumeId)}
+                                                tailorBlocker={!job.description?.trim() ? 'This job has no description to tailor for.' : !getBaseResume(job) ? 'Open a resume first.' : undefined}
+                                                tailoring={tailoring[job.id]}
+                                                onTailor={() => handleTailor(job)}
+                                                onOpenResume={onOpenResume}
+                                                onCompareVariant={handleCompareVariant}
+                                                onRecordSubmission={() => recordSubmission(job)}
+                                                onViewSubmission={() => handleViewSubmission(job)}
                                             />
                                         ))}
                                     </div>
                                 </div>
                             ))}
                         </div>
+                        </>
                     )}
                 </>
             )}
@@ -232,6 +608,25 @@ export const JobTrackerPage: React.FC = () => {
                     )}
                 </>
             )}
+
+            <AddJobModal isOpen={isAddingJob} onClose={() => setIsAddingJob(false)} onContinue={handleAddedListing} />
+            <TrackJobModal isOpen={listingToTrack !== null} onClose={() => setListingToTrack(null)} job={listingToTrack} resumeId={resumeId} source="manual" />
+
+            <DuplicateJobsModal
+                isOpen={isReviewingDuplicates}
+                onClose={() => setIsReviewingDuplicates(false)}
+                groups={duplicateGroups}
+                onMerge={handleMergeJobs}
+                onKeepSeparate={handleKeepSeparate}
+            />
+
+            <ResumeCompareModal
+                isOpen={comparison !== null}
+                onClose={() => setComparison(null)}
+                title={comparison?.title || ''}
+                subtitle={comparison?.subtitle}
+                versions={comparison?.versions || []}
+            />
         </div>
     );
 };
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { KeywordMatch, StructuredResume, TargetJob } from '../types';
+import { analyzeKeywordGap } from '../services/keywordGap';
+import { createId } from '../services/resumeLibrary';
+import { trackedJobsStore } from '../services/jobTracker';
+import { useCollection } from '../hooks/useCollection';
+import { XCircleIcon, PlusIcon, CheckCircleIcon, TargetIcon } from './IconComponents';
+
+interface KeywordGapPanelProps {
+    resume: StructuredResume;
+    targetJobs: TargetJob[];
+    onTargetJobsChange: (jobs: TargetJob[]) => void;
+    fieldLabels: Map<string, string>;
+    // Called with a field id to highlight where a keyword appears, or null to clear it.
+    onLocate: (fieldId: string | null) => void;
+}
+
+const KeywordGroup: React.FC<{ title: string; matches: KeywordMatch[]; selected: string | null; onSelect: (keyword: string | null) => void }> = ({ title, matches, selected, onSelect }) => {
+    if (matches.length === 0) return null;
+    const found = matches.filter(m => m.fieldIds.length > 0).length;
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h4 className="text-xs font-bold uppercase tracking-widest text-gray-400">{title}</h4>
+                <span className="text-xs text-gray-400">{found} / {matches.length} found</span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+                {matches.map(match => {
+                    const isFound = match.fieldIds.length > 0;
+                    return (
+                        <button
+                            key={match.keyword}
+                            onClick={() => onSelect(selected === match.keyword ? null : match.keyword)}
+                            className={`text-xs px-2 py-1 rounded-full border transition-colors ${isFound ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-red-500/10 border-red-500/30 text-red-300'} ${selected === match.keyword ? 'ring-2 ring-yellow-400' : ''}`}
+                            title={isFound ? `Appears in ${match.fieldIds.length} place(s)` : 'Missing from your resume'}
+                        >
+                            {match.keyword}{match.jobIds.length > 1 && <span className="opacity-60"> ×{match.jobIds.length}</span>}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export const KeywordGapPanel: React.FC<KeywordGapPanelProps> = ({ resume, targetJobs, onTargetJobsChange, fieldLabels, onLocate }) => {
+    const [isAdding, setIsAdding] = useState(targetJobs.length === 0);
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null);
+    const trackedJobs = useCollection(trackedJobsStore);
+
+    const matches = useMemo(() => analyzeKeywordGap(resume, targetJobs), [resume, targetJobs]);
+    const selected = matches.find(m => m.keyword === selectedKeyword) || null;
+
+    const pinJob = (job: TargetJob) => {
+        onTargetJobsChange([...targetJobs, job]);
+        setTitle('');
+        setDescription('');
+        setIsAdding(false);
+    };
+
+    const handlePinTracked = (trackedJobId: string) => {
+        const job = trackedJobs.find(j => j.id === trackedJobId);
+        if (!job) return;
+        pinJob({ id: createId(), title: job.title, company: job.company, description: job.description, trackedJobId: job.id });
+    };
+
+    const handleSelectKeyword = (keyword: string | null) => {
+        setSelectedKeyword(keyword);
+        const match = matches.find(m => m.keyword === keyword);
+        onLocate(match && match.fieldIds.length > 0 ? match.fieldIds[0] : null);
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="space-y-2">
+                {targetJobs.map(job => (
+                    <div key={job.id} className="flex items-center justify-between gap-2 bg-black/20 px-3 py-2 rounded-md">
+                        <div className="min-w-0">
+                            <p className="text-sm font-semibold text-gray-200 truncate">{job.title}</p>
+                            {job.company && <p className="text-xs text-gray-400 truncate">{job.company}</p>}
+                        </div>
+                        <button onClick={() => onTargetJobsChange(targetJobs.filter(j => j.id !== job.id))} className="text-gray-500 hover:text-red-400 flex-shrink-0" aria-label={`Unpin ${job.title}`}>
+                            <XCircleIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+
+                {isAdding ? (
+                    <div className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-2">
+                        {trackedJobs.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => handlePinTracked(e.target.value)}
+                                className="w-full bg-black/20 border border-white/10 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            >
+                                <option value="" disabled>Pick a tracked job...</option>
+                                {trackedJobs.map(job => (
+                                    <option key={job.id} value={job.id}>{job.title} · {job.company}</option>
+                                ))}
+                            </select>
+                        )}
+                        <input
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder="Job title"
+                            className="w-full bg-black/20 border border-white/10 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        <textarea
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            rows={5}
+                            placeholder="Or paste a job description..."
+                            className="w-full bg-black/20 border border-white/10 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
+                        />
+                        <div className="flex justify-end gap-2">
+                            {targetJobs.length > 0 && (
+                                <button onClick={() => setIsAdding(false)} className="text-xs px-3 py-1.5 text-gray-400 hover:text-white">Cancel</button>
+                            )}
+                            <button
+                                onClick={() => pinJob({ id: createId(), title: title.trim() || 'Pasted job description', description })}
+                                disabled={!description.trim()}
+                                className="text-xs px-3 py-1.5 rounded-md bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 font-semibold disabled:opacity-50"
+                            >
+                                Pin job
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <button onClick={() => setIsAdding(true)} className="text-xs flex items-center gap-1 text-purple-300 hover:text-purple-200 font-semibold">
+                        <PlusIcon className="w-3 h-3" /> Add target job
+                    </button>
+                )}
+            </div>
+
+            {targetJobs.length > 0 ? (
+                <>
+                    <KeywordGroup title="Required" matches={matches.filter(m => m.importance === 'required')} selected={selectedKeyword} onSelect={handleSelectKeyword} />
+                    <KeywordGroup title="Preferred" matches={matches.filter(m => m.importance === 'preferred')} selected={selectedKeyword} onSelect={handleSelectKeyword} />
+                    {selected && (
+                        <div className="text-xs bg-black/20 p-3 rounded-md">
+                            {selected.fieldIds.length > 0 ? (
+                                <>
+                                    <p className="text-green-300 font-semibold flex items-center gap-1 mb-1"><CheckCircleIcon className="w-3.5 h-3.5" /> "{selected.keyword}" appears in:</p>
+                                    <ul className="space-y-0.5">
+                                        {selected.fieldIds.map(fieldId => (
+                                            <li key={fieldId}>
+                                                <button onClick={() => onLocate(fieldId)} className="text-gray-300 hover:text-white hover:underline text-left">
+                                                    {fieldLabels.get(fieldId) || fieldId}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            ) : (
+                                <p className="text-red-300">"{selected.keyword}" is missing. If it reflects your experience, work it into a bullet or your skills.</p>
+                            )}
+                        </div>
+                    )}
+                </>
+            ) : (
+                <div className="flex flex-col items-center justify-center text-gray-400 py-6">
+                    <TargetIcon className="w-8 h-8 mb-2 opacity-50" />
+                    <p className="text-sm text-center">Pin a job description to see which of its keywords your resume covers.</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { levelToMeter, listMicrophones } from '../services/audioPipeline';
+import { microphoneStore } from '../services/preferences';
+import { useCollection } from '../hooks/useCollection';
+import { MicIcon } from './IconComponents';
+
+interface MicrophoneSelectProps {
+    className?: string;
+    // Called after the choice is saved, for callers that need to reopen the microphone.
+    onChange?: (deviceId: string | null) => void;
+}
+
+export const MicrophoneSelect: React.FC<MicrophoneSelectProps> = ({ className = '', onChange }) => {
+    const selected = useCollection(microphoneStore);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+    useEffect(() => {
+        if (!navigator.mediaDevices?.enumerateDevices) return;
+        const refresh = () => listMicrophones().then(setDevices).catch(err => console.error("Failed to list microphones", err));
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, []);
+
+    // Browsers only reveal device names once the microphone has been allowed, and a single device
+    // leaves nothing to choose.
+    const choices = devices.filter(device => device.deviceId && device.deviceId !== 'default');
+    if (choices.length < 2) return null;
+
+    const handleChange = (deviceId: string) => {
+        const value = deviceId || null;
+        microphoneStore.write(value);
+        onChange?.(value);
+    };
+
+    return (
+        <label className={`flex items-center gap-2 text-xs text-gray-300 ${className}`}>
+            <MicIcon className="w-4 h-4 flex-shrink-0" />
+            <select
+                value={choices.some(device => device.deviceId === selected) ? selected! : ''}
+                onChange={(e) => handleChange(e.target.value)}
+                className="flex-grow min-w-0 p-1 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="Microphone"
+            >
+                <option value="">System default</option>
+                {choices.map((device, i) => <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>)}
+            </select>
+        </label>
+    );
+};
+
+// Animates outside React so a level arriving every few milliseconds doesn't re-render the page.
+export const MicLevelMeter: React.FC<{ getLevel: () => number; className?: string }> = ({ getLevel, className = '' }) => {
+    const barRef = useRef<HTMLDivElement>(null);
+    const getLevelRef = useRef(getLevel);
+    getLevelRef.current = getLevel;
+
+    useEffect(() => {
+        let frame = 0;
+        let shown = 0;
+        const draw = () => {
+            // Rise at once but fall back gently, like a hardware meter.
+            const target = levelToMeter(getLevelRef.current());
+            shown = target > shown ? target : shown * 0.9 + target * 0.1;
+            if (barRef.current) barRef.current.style.width = `${Math.round(shown * 100)}%`;
+            frame = requestAnimationFrame(draw);
+        };
+        frame = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    return (
+        <div className={`h-1.5 bg-white/10 rounded-full overflow-hidden ${className}`} role="meter" aria-label="Microphone level">
+            <div ref={barRef} className="h-full bg-gradient-to-r from-green-400 via-green-400 to-amber-400 transition-none" style={{ width: '0%' }} />
+        </div>
+    );
+};
@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { AnalysisResult, CareerPath } from '../types';
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, CareerPath, ResumeRecord } from '../types';
 import { Card } from './Card';
 import { RadialProgress } from './RadialProgress';
 import { AtsScoreModal } from './AtsScoreModal';
@@ -7,7 +7,9 @@ import { RoadmapModal } from './RoadmapModal';
 import { InterviewModal } from './InterviewModal';
 import { RoadmapResult } from '../types';
 import { getCareerRoadmap } from '../services/geminiService';
-import { LayoutDashboardIcon, ArrowRightIcon, BrainCircuitIcon, EditIcon, FilePlusIcon, LightbulbIcon, MessageSquareQuoteIcon, SearchIcon, SparklesIcon, TrendingUpIcon, BriefcaseIcon, BotMessageSquareIcon, UsersIcon, MapIcon, LinkedinIcon, VideoIcon, Building2Icon, DollarSignIcon, ActivityIcon } from './IconComponents';
+import { getScoredText } from '../services/resumeLibrary';
+import { scoreResume } from '../services/atsScorer';
+import { LayoutDashboardIcon, ArrowRightIcon, RefreshCwIcon, BrainCircuitIcon, EditIcon, FilePlusIcon, LightbulbIcon, MessageSquareQuoteIcon, SearchIcon, SparklesIcon, TrendingUpIcon, BriefcaseIcon, BotMessageSquareIcon, UsersIcon, MapIcon, LinkedinIcon, VideoIcon, Building2Icon, DollarSignIcon, ActivityIcon, HistoryIcon } from './IconComponents';
 import { AgenticJobSearchPage } from './AgenticJobSearchPage';
 import { JobTrackerPage } from './JobTrackerPage';
 import { ConnectionsPage } from './ConnectionsPage';
@@ -16,17 +18,25 @@ import { DashboardPage } from './DashboardPage';
 import { LinkedInOptimizerPage } from './LinkedInOptimizerPage';
 import { VideoPitchCoachPage } from './VideoPitchCoachPage';
 import { CompanyVibePage } from './CompanyVibePage';
+import { InterviewHistoryPage } from './InterviewHistoryPage';
 
 interface ResultsDisplayProps {
   analysisResult: AnalysisResult;
-  resumeFile: File;
+  resume: ResumeRecord;
+  resumes: ResumeRecord[];
+  activeAnalysisId: string;
+  onSelectResume: (id: string) => void;
+  onSelectAnalysis: (id: string) => void;
+  onReanalyze: () => void;
   onEditResume: () => void;
   onAnalyzeNew: () => void;
+  onOpenResumeEditor: (id: string) => void;
+  onResumeCreated: (resume: ResumeRecord) => void;
 }
 
-export type ActiveTab = 'dashboard' | 'analysis' | 'jobs' | 'video' | 'tracker' | 'connections' | 'trajectory' | 'linkedin' | 'vibe';
+export type ActiveTab = 'dashboard' | 'analysis' | 'jobs' | 'video' | 'tracker' | 'connections' | 'trajectory' | 'linkedin' | 'vibe' | 'interviews';
 
-export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult, resumeFile, onEditResume, onAnalyzeNew }) => {
+export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult, resume, resumes, activeAnalysisId, onSelectResume, onSelectAnalysis, onReanalyze, onEditResume, onAnalyzeNew, onOpenResumeEditor, onResumeCreated }) => {
   const [isAtsModalOpen, setIsAtsModalOpen] = useState(false);
   const [isRoadmapModalOpen, setIsRoadmapModalOpen] = useState(false);
   const [isInterviewModalOpen, setIsInterviewModalOpen] = useState(false);
@@ -35,6 +45,9 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
   const [roadmapData, setRoadmapData] = useState<RoadmapResult | null>(null);
   const [isRoadmapLoading, setIsRoadmapLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<ActiveTab>('dashboard');
+  const scoredText = useMemo(() => getScoredText(resume), [resume]);
+  // The same score the breakdown and the editor show; the analysis keeps the one from when it ran.
+  const atsScore = useMemo(() => scoreResume(scoredText, { fileType: resume.fileType }).score, [scoredText, resume.fileType]);
 
   const handleViewRoadmap = async (path: CareerPath) => {
     setSelectedCareerPath(path);
@@ -103,9 +116,12 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
                         <Card className="p-6 text-center">
                             <h3 className="font-semibold">ATS Score</h3>
                             <div className="my-3 flex justify-center">
-                                <RadialProgress score={analysisResult.atsScore} />
+                                <RadialProgress score={atsScore} />
                             </div>
-                            <button onClick={() => setIsAtsModalOpen(true)} className="text-xs text-purple-400 hover:underline">What is this?</button>
+                            {analysisResult.atsScore !== atsScore && (
+                                <p className="text-xs text-gray-400 mb-2">{analysisResult.atsScore} when this analysis ran</p>
+                            )}
+                            <button onClick={() => setIsAtsModalOpen(true)} className="text-xs text-purple-400 hover:underline">See breakdown</button>
                         </Card>
                         <Card className="p-6">
                             <h3 className="font-semibold text-lg flex items-center gap-2"><TrendingUpIcon className="w-5 h-5" /> Suggested Career Paths</h3>
@@ -152,13 +168,15 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
                 </div>
             );
         case 'jobs':
-             return <AgenticJobSearchPage resumeSummary={analysisResult.summary} />;
+             return <AgenticJobSearchPage resumeSummary={analysisResult.summary} resumeId={resume.id} />;
         case 'video':
             return <VideoPitchCoachPage />;
+        case 'interviews':
+            return <InterviewHistoryPage />;
         case 'vibe':
             return <CompanyVibePage />;
         case 'tracker':
-            return <JobTrackerPage />;
+            return <JobTrackerPage resumeId={resume.id} onOpenResume={onOpenResumeEditor} onResumeCreated={onResumeCreated} />;
         case 'connections':
             return <ConnectionsPage resumeSummary={analysisResult.summary} />;
         case 'trajectory':
@@ -189,6 +207,9 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
                <button onClick={() => setActiveTab('video')} className={`px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 ${activeTab === 'video' ? 'bg-purple-600 text-white' : 'bg-white/10 hover:bg-white/20'}`}>
                   <VideoIcon className="w-5 h-5" /> Video Coach
               </button>
+              <button onClick={() => setActiveTab('interviews')} className={`px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 ${activeTab === 'interviews' ? 'bg-purple-600 text-white' : 'bg-white/10 hover:bg-white/20'}`}>
+                  <HistoryIcon className="w-5 h-5" /> Interviews
+              </button>
               <button onClick={() => setActiveTab('jobs')} className={`px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 ${activeTab === 'jobs' ? 'bg-purple-600 text-white' : 'bg-white/10 hover:bg-white/20'}`}>
                   <BotMessageSquareIcon className="w-5 h-5" /> AI Job Agent
               </button>
@@ -205,7 +226,28 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
                   <MapIcon className="w-5 h-5" /> Trajectory
               </button>
           </div>
-          <div className="flex items-center gap-3">
+          <div className="flex items-center gap-3 flex-wrap justify-center">
+            <select
+              value={resume.id}
+              onChange={(e) => onSelectResume(e.target.value)}
+              className="text-sm p-2 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              aria-label="Select resume"
+            >
+              {resumes.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+            <select
+              value={activeAnalysisId}
+              onChange={(e) => onSelectAnalysis(e.target.value)}
+              className="text-sm p-2 bg-white/10 dark:bg-gray-700/50 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              aria-label="Select analysis"
+            >
+              {resume.analyses.map((a, i) => (
+                <option key={a.id} value={a.id}>Analysis {i + 1} · {new Date(a.createdAt).toLocaleDateString()} · ATS {a.result.atsScore}</option>
+              ))}
+            </select>
+            <button onClick={onReanalyze} className="flex items-center gap-2 text-sm bg-indigo-500/10 text-indigo-300 px-4 py-2 rounded-md hover:bg-indigo-500/20 transition-colors" title="Analyze the current version of this resume again">
+              <RefreshCwIcon className="w-4 h-4" /> Re-analyze
+            </button>
             <button onClick={onAnalyzeNew} className="flex items-center gap-2 text-sm bg-gray-500/10 text-gray-300 px-4 py-2 rounded-md hover:bg-gray-500/20 transition-colors">
               <FilePlusIcon className="w-4 h-4" /> Analyze New
             </button>
@@ -214,7 +256,7 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ analysisResult,
       
       {renderActiveTab()}
 
-      <AtsScoreModal isOpen={isAtsModalOpen} onClose={() => setIsAtsModalOpen(false)} score={analysisResult.atsScore} />
+      <AtsScoreModal isOpen={isAtsModalOpen} onClose={() => setIsAtsModalOpen(false)} resumeText={scoredText} fileType={resume.fileType} llmScore={analysisResult.llmAtsScore} />
       <RoadmapModal isOpen={isRoadmapModalOpen} onClose={() => setIsRoadmapModalOpen(false)} isLoading={isRoadmapLoading} roadmapData={roadmapData} careerPath={selectedCareerPath} />
       <InterviewModal isOpen={isInterviewModalOpen} onClose={() => setIsInterviewModalOpen(false)} careerPath={selectedCareerPath} resumeSummary={analysisResult.summary} />
     </div>
@@ -0,0 +1,83 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { diffWords, countChanges } from '../services/textDiff';
+import { DiffText } from './RevisionHistoryModal';
+import { XCircleIcon } from './IconComponents';
+
+export interface ComparableVersion {
+    id: string;
+    label: string;
+    text: string;
+}
+
+interface ResumeCompareModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title: string;
+    subtitle?: string;
+    // Listed oldest first; the first and last are compared by default.
+    versions: ComparableVersion[];
+}
+
+const selectClass = "bg-black/20 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500";
+
+export const ResumeCompareModal: React.FC<ResumeCompareModalProps> = ({ isOpen, onClose, title, subtitle, versions }) => {
+    const [fromId, setFromId] = useState(versions[0]?.id);
+    const [toId, setToId] = useState(versions[versions.length - 1]?.id);
+
+    // Reset the selection each time the modal opens, not whenever a version's text changes.
+    useEffect(() => {
+        if (!isOpen) return;
+        setFromId(versions[0]?.id);
+        setToId(versions[versions.length - 1]?.id);
+    }, [isOpen]);
+
+    const from = versions.find(v => v.id === fromId) || versions[0];
+    const to = versions.find(v => v.id === toId) || versions[versions.length - 1];
+    const segments = useMemo(() => from && to ? diffWords(from.text, to.text) : [], [from?.text, to?.text]);
+    const changes = countChanges(segments);
+
+    if (!isOpen || !from || !to) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 backdrop-blur-sm" onClick={onClose} role="dialog">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white">{title}</h2>
+                        {subtitle && <p className="text-sm text-indigo-600 dark:text-indigo-400 font-semibold">{subtitle}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
+                        <XCircleIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                <div className="p-4 flex justify-between items-center flex-wrap gap-3 border-b border-gray-200 dark:border-gray-700">
+                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                        <span className="font-bold text-red-400">A</span>
+                        <select value={from.id} onChange={(e) => setFromId(e.target.value)} className={selectClass} aria-label="Compare from">
+                            {versions.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                        </select>
+                        <span className="font-bold text-green-400 ml-2">B</span>
+                        <select value={to.id} onChange={(e) => setToId(e.target.value)} className={selectClass} aria-label="Compare to">
+                            {versions.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        <span className="text-green-400 font-semibold">+{changes.added}</span> / <span className="text-red-400 font-semibold">-{changes.removed}</span> words
+                    </p>
+                </div>
+
+                <main className="flex-grow grid grid-cols-2 gap-3 p-4 overflow-hidden">
+                    <div className="overflow-y-auto bg-black/20 rounded-md p-4">
+                        <p className="text-xs font-bold text-red-400 mb-2 truncate">A · {from.label}</p>
+                        <DiffText segments={segments.filter(s => s.type !== 'added')} />
+                    </div>
+                    <div className="overflow-y-auto bg-black/20 rounded-md p-4">
+                        <p className="text-xs font-bold text-green-400 mb-2 truncate">B · {to.label}</p>
+                        <DiffText segments={segments.filter(s => s.type !== 'removed')} />
+                    </div>
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ResumeRecord } from '../types';
+import { Card } from './Card';
+import { getLatestAnalysis } from '../services/resumeLibrary';
+import { FileTextIcon, Trash2Icon, CalendarIcon, ArrowRightIcon } from './IconComponents';
+
+interface ResumeLibraryListProps {
+    resumes: ResumeRecord[];
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+export const ResumeLibraryList: React.FC<ResumeLibraryListProps> = ({ resumes, onOpen, onDelete }) => {
+    if (resumes.length === 0) return null;
+
+    return (
+        <div className="w-full max-w-3xl mx-auto">
+            <h2 className="text-lg font-bold mb-4 text-center">Your Resume Library</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {resumes.map(resume => {
+                    const latest = getLatestAnalysis(resume);
+                    return (
+                        <Card key={resume.id} className="p-4 flex flex-col justify-between">
+                            <div className="flex items-start gap-3">
+                                <FileTextIcon className="w-8 h-8 text-purple-400 flex-shrink-0" />
+                                <div className="min-w-0">
+                                    <h3 className="font-bold text-md text-purple-300 truncate">{resume.name}</h3>
+                                    {resume.variantOf && (
+                                        <p className="text-xs text-teal-400 mt-1 truncate">Tailored for {resume.variantOf.jobTitle} at {resume.variantOf.company}</p>
+                                    )}
+                                    <p className="text-xs text-gray-400 flex items-center gap-1 mt-1">
+                                        <CalendarIcon className="w-3 h-3" /> Updated {new Date(resume.updatedAt).toLocaleDateString()}
+                                    </p>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        {resume.analyses.length} analys{resume.analyses.length === 1 ? 'is' : 'es'} · {resume.revisions.length} revision(s)
+                                        {latest && <> · ATS <span className="font-bold text-purple-400">{latest.result.atsScore}</span></>}
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="flex justify-between items-center border-t border-white/10 pt-3 mt-3">
+                                <button onClick={() => onDelete(resume.id)} className="text-xs flex items-center gap-1 text-red-400 hover:text-red-300 font-semibold">
+                                    <Trash2Icon className="w-3 h-3" /> Delete
+                                </button>
+                                <button onClick={() => onOpen(resume.id)} className="text-xs flex items-center gap-1 text-sky-400 hover:text-sky-300 font-semibold">
+                                    Open <ArrowRightIcon className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </Card>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
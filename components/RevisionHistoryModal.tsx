@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResumeRecord, ResumeRevision } from '../types';
+import { XCircleIcon, HistoryIcon, RefreshCwIcon } from './IconComponents';
+import { diffWords, countChanges, DiffSegment } from '../services/textDiff';
+
+interface RevisionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    resume: ResumeRecord;
+    originalAtsScore: number;
+    onRestore: (revision: Snapshot) => void;
+}
+
+type DiffMode = 'inline' | 'side-by-side';
+
+// The original upload is shown as the first snapshot so it can be compared and restored like any other.
+export type Snapshot = Pick<ResumeRevision, 'id' | 'createdAt' | 'text' | 'label' | 'atsScore' | 'structured'> & {
+    kind: ResumeRevision['kind'] | 'original';
+};
+
+const ORIGINAL_ID = 'original';
+
+const KIND_STYLES: Record<Snapshot['kind'], string> = {
+    original: 'bg-gray-500/20 text-gray-300',
+    edit: 'bg-sky-500/20 text-sky-300',
+    suggestion: 'bg-purple-500/20 text-purple-300',
+    reset: 'bg-red-500/20 text-red-300',
+    restore: 'bg-amber-500/20 text-amber-300',
+    tailored: 'bg-teal-500/20 text-teal-300',
+};
+
+const SEGMENT_STYLES: Record<DiffSegment['type'], string> = {
+    equal: '',
+    added: 'bg-green-500/25 text-green-200',
+    removed: 'bg-red-500/25 text-red-200 line-through',
+};
+
+export const DiffText: React.FC<{ segments: DiffSegment[] }> = ({ segments }) => (
+    <pre className="whitespace-pre-wrap font-mono text-xs leading-relaxed text-gray-300">
+        {segments.map((segment, i) => (
+            <span key={i} className={SEGMENT_STYLES[segment.type]}>{segment.text}</span>
+        ))}
+    </pre>
+);
+
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ isOpen, onClose, resume, originalAtsScore, onRestore }) => {
+    const snapshots = useMemo<Snapshot[]>(() => [
+        { id: ORIGINAL_ID, createdAt: resume.createdAt, text: resume.originalText, label: 'Original upload', atsScore: originalAtsScore, structured: resume.originalStructured, kind: 'original' },
+        ...resume.revisions,
+    ], [resume, originalAtsScore]);
+
+    const [fromId, setFromId] = useState<string>(ORIGINAL_ID);
+    const [toId, setToId] = useState<string>(ORIGINAL_ID);
+    const [mode, setMode] = useState<DiffMode>('inline');
+
+    useEffect(() => {
+        // Default to comparing the latest snapshot with the one before it.
+        if (isOpen) {
+            setToId(snapshots[snapshots.length - 1].id);
+            setFromId(snapshots[Math.max(0, snapshots.length - 2)].id);
+        }
+    }, [isOpen]);
+
+    const from = snapshots.find(s => s.id === fromId) || snapshots[0];
+    const to = snapshots.find(s => s.id === toId) || snapshots[snapshots.length - 1];
+    const segments = useMemo(() => diffWords(from.text, to.text), [from.text, to.text]);
+    const changes = countChanges(segments);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 backdrop-blur-sm" onClick={onClose} role="dialog">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-800 dark:text-white flex items-center gap-2"><HistoryIcon className="w-5 h-5" /> Revision History</h2>
+                        <p className="text-sm text-indigo-600 dark:text-indigo-400 font-semibold">{resume.name}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300" aria-label="Close modal">
+                        <XCircleIcon className="w-7 h-7" />
+                    </button>
+                </header>
+
+                <main className="flex-grow grid grid-cols-1 lg:grid-cols-3 gap-4 p-4 overflow-hidden">
+                    <div className="lg:col-span-1 overflow-y-auto space-y-2 pr-1">
+                        <div className="grid grid-cols-[2rem_2rem_1fr] text-xs text-gray-400 font-semibold px-2">
+                            <span>A</span><span>B</span><span>Snapshot</span>
+                        </div>
+                        {[...snapshots].reverse().map(snapshot => (
+                            <div key={snapshot.id} className={`grid grid-cols-[2rem_2rem_1fr] items-start gap-0 p-2 rounded-md border ${snapshot.id === toId || snapshot.id === fromId ? 'border-purple-500/50 bg-purple-500/5' : 'border-white/10'}`}>
+                                <input type="radio" name="diff-from" checked={snapshot.id === fromId} onChange={() => setFromId(snapshot.id)} className="mt-1 accent-red-500" aria-label={`Compare from ${snapshot.label}`} />
+                                <input type="radio" name="diff-to" checked={snapshot.id === toId} onChange={() => setToId(snapshot.id)} className="mt-1 accent-green-500" aria-label={`Compare to ${snapshot.label}`} />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate" title={snapshot.label}>{snapshot.label}</p>
+                                    <div className="flex items-center gap-2 mt-1 flex-wrap">
+                                        <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${KIND_STYLES[snapshot.kind]}`}>{snapshot.kind}</span>
+                                        <span className="text-xs text-gray-400">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                                        <span className="text-xs text-gray-400">ATS <span className="font-bold text-purple-400">{snapshot.atsScore ?? '—'}</span></span>
+                                    </div>
+                                    {snapshot.id !== snapshots[snapshots.length - 1].id && (
+                                        <button onClick={() => onRestore(snapshot)} className="mt-2 text-xs flex items-center gap-1 text-amber-400 hover:text-amber-300 font-semibold">
+                                            <RefreshCwIcon className="w-3 h-3" /> Restore
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="lg:col-span-2 flex flex-col overflow-hidden">
+                        <div className="flex justify-between items-center mb-3 flex-wrap gap-2">
+                            <p className="text-xs text-gray-400">
+                                <span className="text-green-400 font-semibold">+{changes.added}</span> / <span className="text-red-400 font-semibold">-{changes.removed}</span> words
+                            </p>
+                            <div className="bg-black/20 p-1 rounded-lg inline-flex">
+                                {(['inline', 'side-by-side'] as DiffMode[]).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => setMode(m)}
+                                        className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${mode === m ? 'bg-purple-600 text-white shadow-lg' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}
+                                    >
+                                        {m === 'inline' ? 'Inline' : 'Side by side'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {mode === 'inline' ? (
+                            <div className="flex-grow overflow-y-auto bg-black/20 rounded-md p-4">
+                                <DiffText segments={segments} />
+                            </div>
+                        ) : (
+                            <div className="flex-grow grid grid-cols-2 gap-3 overflow-hidden">
+                                <div className="overflow-y-auto bg-black/20 rounded-md p-4">
+                                    <p className="text-xs font-bold text-red-400 mb-2 truncate">A · {from.label}</p>
+                                    <DiffText segments={segments.filter(s => s.type !== 'added')} />
+                                </div>
+                                <div className="overflow-y-auto bg-black/20 rounded-md p-4">
+                                    <p className="text-xs font-bold text-green-400 mb-2 truncate">B · {to.label}</p>
+                                    <DiffText segments={segments.filter(s => s.type !== 'removed')} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </main>
+            </div>
+        </div>
+    );
+};
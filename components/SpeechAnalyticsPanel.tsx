@@ -0,0 +1,79 @@
+import React from 'react';
+import { SpeechAnalytics, LONG_PAUSE_MS, RECOMMENDED_ANSWER_WORDS } from '../services/speechAnalytics';
+import { Card } from './Card';
+import { ActivityIcon } from './IconComponents';
+
+const LENGTH_STYLES: Record<'short' | 'within' | 'long', { label: string; className: string }> = {
+    short: { label: 'Short', className: 'bg-amber-900/50 text-amber-300' },
+    within: { label: 'Good length', className: 'bg-green-900/50 text-green-300' },
+    long: { label: 'Long', className: 'bg-amber-900/50 text-amber-300' },
+};
+
+const formatFillers = (fillers: Record<string, number>) =>
+    Object.entries(fillers).sort((a, b) => b[1] - a[1]).map(([word, count]) => `"${word}" ×${count}`).join(', ');
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+    <div className="bg-black/20 rounded-lg p-3 text-center">
+        <p className="text-xs text-gray-400">{label}</p>
+        <p className="text-2xl font-bold">{value}</p>
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+);
+
+// Numbers measured on this device from the transcript and microphone, shown next to the model's feedback.
+export const SpeechAnalyticsPanel: React.FC<{ analytics: SpeechAnalytics }> = ({ analytics }) => {
+    if (analytics.answers.length === 0) return null;
+    const share = analytics.candidateShare;
+
+    return (
+        <Card className="p-4">
+            <h3 className="font-bold mb-3 flex items-center gap-2"><ActivityIcon className="w-5 h-5 text-emerald-400" /> Speech Analytics</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Pace" value={analytics.wordsPerMinute ? `${analytics.wordsPerMinute}` : '–'} hint={analytics.wordsPerMinute ? 'words per minute' : 'no spoken answers'} />
+                <Stat label="Long Pauses" value={`${analytics.longPauses}`} hint={`${LONG_PAUSE_MS / 1000}s or longer`} />
+                <Stat label="Filler Words" value={`${analytics.fillerTotal}`} hint={analytics.fillerTotal > 0 ? formatFillers(analytics.fillers) : 'none found'} />
+                <Stat
+                    label="You / Interviewer"
+                    value={share === undefined ? '–' : `${Math.round(share * 100)}% / ${100 - Math.round(share * 100)}%`}
+                    hint={analytics.shareBasis === 'time' ? 'by speaking time' : 'by words'}
+                />
+            </div>
+
+            <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-gray-400">
+                            <th className="py-1 pr-2 font-semibold">Answer</th>
+                            <th className="py-1 px-2 font-semibold">Words</th>
+                            <th className="py-1 px-2 font-semibold">Time</th>
+                            <th className="py-1 px-2 font-semibold">WPM</th>
+                            <th className="py-1 px-2 font-semibold">Pauses</th>
+                            <th className="py-1 pl-2 font-semibold">Fillers</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10">
+                        {analytics.answers.map((answer, i) => (
+                            <tr key={i} className="align-top">
+                                <td className="py-2 pr-2 text-gray-300 max-w-xs">
+                                    <p className="font-semibold">Answer {i + 1}</p>
+                                    {answer.question && <p className="text-gray-500 line-clamp-2">{answer.question}</p>}
+                                </td>
+                                <td className="py-2 px-2 whitespace-nowrap">
+                                    {answer.words}
+                                    <span className={`ml-1 px-1.5 py-0.5 rounded ${LENGTH_STYLES[answer.length].className}`}>{LENGTH_STYLES[answer.length].label}</span>
+                                </td>
+                                <td className="py-2 px-2 whitespace-nowrap">{answer.spoken ? `${answer.durationSeconds}s` : 'Typed'}</td>
+                                <td className="py-2 px-2">{answer.wordsPerMinute ?? '–'}</td>
+                                <td className="py-2 px-2">{answer.longPauses ?? '–'}</td>
+                                <td className="py-2 pl-2 text-gray-300">{answer.fillerTotal > 0 ? formatFillers(answer.fillers) : '–'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="mt-3 text-xs text-gray-500">
+                Measured on your device. Answers of {RECOMMENDED_ANSWER_WORDS.min}–{RECOMMENDED_ANSWER_WORDS.max} words are a good length. Fillers are counted from the transcript, so any the transcription left out aren't included.
+            </p>
+        </Card>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef } from 'react';
+import { StructuredResume, ExperienceEntry, EducationEntry, CustomSection } from '../types';
+import { CUSTOM_SECTION_PRESETS, moveItem } from '../services/resumeModel';
+import { ChevronUpIcon, ChevronDownIcon, Trash2Icon, PlusIcon } from './IconComponents';
+
+interface StructuredResumeEditorProps {
+    resume: StructuredResume;
+    onChange: (resume: StructuredResume) => void;
+    // Field (see listResumeFields) to outline, e.g. while a suggestion for it is being previewed.
+    highlightedFieldId?: string | null;
+}
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-md px-3 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500";
+const highlightClass = " ring-2 ring-yellow-400 border-yellow-400";
+const addButtonClass = "text-xs flex items-center gap-1 text-purple-300 hover:text-purple-200 font-semibold";
+
+const ItemControls: React.FC<{ index: number; count: number; onMove: (to: number) => void; onRemove: () => void; label: string }> = ({ index, count, onMove, onRemove, label }) => (
+    <div className="flex items-center flex-shrink-0 text-gray-500">
+        <button onClick={() => onMove(index - 1)} disabled={index === 0} className="p-1 hover:text-white disabled:opacity-30" aria-label={`Move ${label} up`}>
+            <ChevronUpIcon className="w-4 h-4" />
+        </button>
+        <button onClick={() => onMove(index + 1)} disabled={index === count - 1} className="p-1 hover:text-white disabled:opacity-30" aria-label={`Move ${label} down`}>
+            <ChevronDownIcon className="w-4 h-4" />
+        </button>
+        <button onClick={onRemove} className="p-1 hover:text-red-400" aria-label={`Remove ${label}`}>
+            <Trash2Icon className="w-4 h-4" />
+        </button>
+    </div>
+);
+
+// An editable, reorderable list of single-line items (bullets, skills, custom section items).
+const ItemList: React.FC<{ items: string[]; onChange: (items: string[]) => void; itemLabel: string; placeholder: string; fieldIdPrefix: string; highlightedFieldId?: string | null }> = ({ items, onChange, itemLabel, placeholder, fieldIdPrefix, highlightedFieldId }) => (
+    <div className="space-y-1.5">
+        {items.map((item, i) => (
+            <div key={i} className="flex items-start gap-1">
+                <span className="text-gray-500 mt-1.5">•</span>
+                <textarea
+                    value={item}
+                    onChange={(e) => onChange(items.map((existing, j) => j === i ? e.target.value.replace(/\n/g, ' ') : existing))}
+                    rows={Math.max(1, Math.ceil(item.length / 70))}
+                    data-field-id={`${fieldIdPrefix}.${i}`}
+                    className={`${inputClass} resize-none${highlightedFieldId === `${fieldIdPrefix}.${i}` ? highlightClass : ''}`}
+                    placeholder={placeholder}
+                />
+                <ItemControls
+                    index={i}
+                    count={items.length}
+                    label={itemLabel}
+                    onMove={(to) => onChange(moveItem(items, i, to))}
+                    onRemove={() => onChange(items.filter((_, j) => j !== i))}
+                />
+            </div>
+        ))}
+        <button onClick={() => onChange([...items, ''])} className={addButtonClass}>
+            <PlusIcon className="w-3 h-3" /> Add {itemLabel}
+        </button>
+    </div>
+);
+
+const SectionHeading: React.FC<{ title: string; children?: React.ReactNode }> = ({ title, children }) => (
+    <div className="flex justify-between items-center border-b border-white/10 pb-1 mb-3">
+        <h4 className="text-xs font-bold uppercase tracking-widest text-gray-400">{title}</h4>
+        {children}
+    </div>
+);
+
+export const StructuredResumeEditor: React.FC<StructuredResumeEditorProps> = ({ resume, onChange, highlightedFieldId }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!highlightedFieldId) return;
+        const element = containerRef.current?.querySelector(`[data-field-id="${highlightedFieldId}"]`);
+        element?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [highlightedFieldId]);
+
+    // Props shared by every single-value input so it can be found and outlined by field id.
+    const fieldProps = (fieldId: string, className: string = inputClass) => ({
+        'data-field-id': fieldId,
+        className: highlightedFieldId === fieldId ? className + highlightClass : className,
+    });
+
+    const update = (patch: Partial<StructuredResume>) => onChange({ ...resume, ...patch });
+    const customSections = resume.customSections || [];
+
+    const updateExperience = (index: number, patch: Partial<ExperienceEntry>) =>
+        update({ experience: resume.experience.map((entry, i) => i === index ? { ...entry, ...patch } : entry) });
+    const updateEducation = (index: number, patch: Partial<EducationEntry>) =>
+        update({ education: resume.education.map((entry, i) => i === index ? { ...entry, ...patch } : entry) });
+    const updateCustomSection = (index: number, patch: Partial<CustomSection>) =>
+        update({ customSections: customSections.map((section, i) => i === index ? { ...section, ...patch } : section) });
+
+    return (
+        <div ref={containerRef} className="space-y-8 p-6">
+            <section>
+                <SectionHeading title="Contact" />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <input value={resume.name} onChange={(e) => update({ name: e.target.value })} className={`${inputClass} sm:col-span-2 font-bold`} placeholder="Full name" />
+                    <input value={resume.email} onChange={(e) => update({ email: e.target.value })} className={inputClass} placeholder="Email" />
+                    <input value={resume.phone} onChange={(e) => update({ phone: e.target.value })} className={inputClass} placeholder="Phone" />
+                    <input value={resume.linkedin || ''} onChange={(e) => update({ linkedin: e.target.value })} className={`${inputClass} sm:col-span-2`} placeholder="LinkedIn URL" />
+                    <input value={(resume.links || []).join(' | ')} onChange={(e) => update({ links: e.target.value ? e.target.value.split(' | ') : [] })} className={`${inputClass} sm:col-span-2`} placeholder="Website, GitHub, location (separate with |)" />
+                </div>
+            </section>
+
+            <section>
+                <SectionHeading title="Summary" />
+                <textarea
+                    value={resume.summary}
+                    onChange={(e) => update({ summary: e.target.value })}
+                    rows={4}
+                    {...fieldProps('summary', `${inputClass} resize-y`)}
+                    placeholder="A short professional summary"
+                />
+            </section>
+
+            <section>
+                <SectionHeading title="Experience">
+                    <button onClick={() => update({ experience: [...resume.experience, { role: '', company: '', dates: '', description: [] }] })} className={addButtonClass}>
+                        <PlusIcon className="w-3 h-3" /> Add position
+                    </button>
+                </SectionHeading>
+                <div className="space-y-4">
+                    {resume.experience.map((entry, i) => (
+                        <div key={i} className="bg-gray-800/50 p-3 rounded-lg border border-gray-700 space-y-2">
+                            <div className="flex items-start gap-2">
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 flex-grow">
+                                    <input value={entry.role} onChange={(e) => updateExperience(i, { role: e.target.value })} {...fieldProps(`experience.${i}.role`)} placeholder="Role" />
+                                    <input value={entry.company} onChange={(e) => updateExperience(i, { company: e.target.value })} {...fieldProps(`experience.${i}.company`)} placeholder="Company" />
+                                    <input value={entry.dates} onChange={(e) => updateExperience(i, { dates: e.target.value })} {...fieldProps(`experience.${i}.dates`)} placeholder="Dates" />
+                                </div>
+                                <ItemControls
+                                    index={i}
+                                    count={resume.experience.length}
+                                    label="position"
+                                    onMove={(to) => update({ experience: moveItem(resume.experience, i, to) })}
+                                    onRemove={() => update({ experience: resume.experience.filter((_, j) => j !== i) })}
+                                />
+                            </div>
+                            <ItemList items={entry.description} onChange={(description) => updateExperience(i, { description })} itemLabel="bullet" placeholder="What you did and the result" fieldIdPrefix={`experience.${i}.description`} highlightedFieldId={highlightedFieldId} />
+                        </div>
+                    ))}
+                </div>
+            </section>
+
+            <section>
+                <SectionHeading title="Education">
+                    <button onClick={() => update({ education: [...resume.education, { degree: '', institution: '', dates: '' }] })} className={addButtonClass}>
+                        <PlusIcon className="w-3 h-3" /> Add education
+                    </button>
+                </SectionHeading>
+                <div className="space-y-2">
+                    {resume.education.map((entry, i) => (
+                        <div key={i} className="flex items-start gap-2">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 flex-grow">
+                                <input value={entry.degree} onChange={(e) => updateEducation(i, { degree: e.target.value })} {...fieldProps(`education.${i}.degree`)} placeholder="Degree" />
+                                <input value={entry.institution} onChange={(e) => updateEducation(i, { institution: e.target.value })} {...fieldProps(`education.${i}.institution`)} placeholder="Institution" />
+                                <input value={entry.dates} onChange={(e) => updateEducation(i, { dates: e.target.value })} {...fieldProps(`education.${i}.dates`)} placeholder="Dates" />
+                            </div>
+                            <ItemControls
+                                index={i}
+                                count={resume.education.length}
+                                label="education"
+                                onMove={(to) => update({ education: moveItem(resume.education, i, to) })}
+                                onRemove={() => update({ education: resume.education.filter((_, j) => j !== i) })}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </section>
+
+            <section>
+                <SectionHeading title="Skills" />
+                <ItemList items={resume.skills} onChange={(skills) => update({ skills })} itemLabel="skill" placeholder="e.g. TypeScript" fieldIdPrefix="skills" highlightedFieldId={highlightedFieldId} />
+            </section>
+
+            {customSections.map((section, i) => (
+                <section key={i}>
+                    <div className="flex items-center gap-2 border-b border-white/10 pb-1 mb-3">
+                        <input
+                            value={section.title}
+                            onChange={(e) => updateCustomSection(i, { title: e.target.value })}
+                            className="flex-grow bg-transparent text-xs font-bold uppercase tracking-widest text-gray-400 focus:outline-none focus:text-white"
+                            aria-label="Section title"
+                        />
+                        <ItemControls
+                            index={i}
+                            count={customSections.length}
+                            label="section"
+                            onMove={(to) => update({ customSections: moveItem(customSections, i, to) })}
+                            onRemove={() => update({ customSections: customSections.filter((_, j) => j !== i) })}
+                        />
+                    </div>
+                    <ItemList items={section.items} onChange={(items) => updateCustomSection(i, { items })} itemLabel="item" placeholder="Entry" fieldIdPrefix={`customSections.${i}.items`} highlightedFieldId={highlightedFieldId} />
+                </section>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-3 border-t border-white/10 pt-4">
+                <span className="text-xs text-gray-400">Add section:</span>
+                {[...CUSTOM_SECTION_PRESETS, 'Custom'].map(title => (
+                    <button
+                        key={title}
+                        onClick={() => update({ customSections: [...customSections, { title: title === 'Custom' ? 'New Section' : title, items: [''] }] })}
+                        className="text-xs px-2 py-1 rounded-md bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 font-semibold"
+                    >
+                        {title}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AnchoredSuggestion } from '../types';
+import { ArrowRightIcon, EditIcon, XCircleIcon } from './IconComponents';
+
+interface SuggestionCardProps {
+    suggestion: AnchoredSuggestion;
+    // The current text of the field the suggestion targets; undefined when the suggestion is stale.
+    fieldText?: string;
+    fieldLabel?: string;
+    onAccept: (replacement: string) => void;
+    onReject: () => void;
+    onPreview: (active: boolean) => void;
+}
+
+const CONTEXT_CHARS = 40;
+
+export const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, fieldText, fieldLabel, onAccept, onReject, onPreview }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [replacement, setReplacement] = useState(suggestion.suggestedChange);
+    const isStale = fieldText === undefined;
+
+    const { start, end } = suggestion.anchor;
+    const before = fieldText ? fieldText.slice(Math.max(0, start - CONTEXT_CHARS), start) : '';
+    const after = fieldText ? fieldText.slice(end, end + CONTEXT_CHARS) : '';
+
+    return (
+        <div
+            className={`bg-gray-800/50 p-4 rounded-lg border transition-colors ${isStale ? 'border-amber-500/40 opacity-70' : 'border-gray-700 hover:border-gray-600'}`}
+            onMouseEnter={() => onPreview(true)}
+            onMouseLeave={() => onPreview(false)}
+        >
+            <div className="flex justify-between items-start gap-2 mb-2">
+                <span className="text-xs uppercase font-bold text-gray-400 truncate">{isStale ? 'Text changed' : fieldLabel}</span>
+                <button onClick={onReject} className="text-gray-500 hover:text-red-400 flex-shrink-0" aria-label="Reject suggestion">
+                    <XCircleIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            {isStale ? (
+                <p className="text-xs text-amber-300 bg-black/20 p-2 rounded border-l-2 border-amber-500">
+                    The text this suggestion was written for ("{suggestion.originalText}") is no longer in your resume.
+                </p>
+            ) : (
+                <p className="text-xs text-gray-400 bg-black/20 p-2 rounded leading-relaxed">
+                    {start > CONTEXT_CHARS && '…'}{before}
+                    <span className="bg-red-500/25 text-red-200 line-through">{suggestion.originalText}</span>
+                    <span className="bg-green-500/25 text-green-200">{replacement}</span>
+                    {after}{fieldText!.length > end + CONTEXT_CHARS && '…'}
+                </p>
+            )}
+
+            {isEditing && (
+                <textarea
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    rows={3}
+                    className="mt-2 w-full bg-black/20 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
+                    aria-label="Edit suggested text"
+                />
+            )}
+
+            <p className="text-xs text-gray-400 mt-2 border-t border-gray-700 pt-2">{suggestion.explanation}</p>
+
+            {!isStale && (
+                <div className="mt-3 flex gap-2">
+                    <button
+                        onClick={() => setIsEditing(!isEditing)}
+                        className="py-2 px-3 text-xs flex items-center justify-center gap-1 bg-gray-700/50 text-gray-300 hover:bg-gray-700 rounded font-semibold transition-colors"
+                    >
+                        <EditIcon className="w-3 h-3" /> {isEditing ? 'Done' : 'Edit'}
+                    </button>
+                    <button
+                        onClick={() => onAccept(replacement)}
+                        disabled={!replacement.trim()}
+                        className="flex-grow py-2 text-xs flex items-center justify-center gap-1 bg-purple-600/20 text-purple-300 hover:bg-purple-600/30 rounded font-semibold transition-colors disabled:opacity-50"
+                    >
+                        Accept <ArrowRightIcon className="w-3 h-3" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { connectSync, disconnectSync, syncNow, syncSettingsStore, syncStatusStore } from '../services/sync';
+import { useCollection } from '../hooks/useCollection';
+import { Card } from './Card';
+import { CloudIcon, RefreshCwIcon } from './IconComponents';
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-md px-3 py-1.5 text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500";
+
+export const SyncPanel: React.FC = () => {
+    const settings = useCollection(syncSettingsStore);
+    const status = useCollection(syncStatusStore);
+    const [form, setForm] = useState({ serverUrl: '', space: '', token: '', passphrase: '' });
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const field = (name: keyof typeof form) => ({
+        value: form[name],
+        onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm(prev => ({ ...prev, [name]: e.target.value })),
+    });
+
+    const run = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            await action();
+        } catch (e: any) {
+            setError(e.message || "Sync could not be set up.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleConnect = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await connectSync(form.serverUrl, form.space.trim(), form.token, form.passphrase);
+            setForm({ serverUrl: '', space: '', token: '', passphrase: '' });
+        });
+    };
+
+    const handleDisconnect = () => {
+        if (!window.confirm("Stop syncing this browser? Its data and the server's copy are both kept.")) return;
+        run(disconnectSync);
+    };
+
+    return (
+        <Card className="p-6">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+                <CloudIcon className="w-5 h-5 text-sky-400" />
+                Sync
+            </h3>
+
+            {settings ? (
+                <div className="mt-2 space-y-3">
+                    <p className="text-xs text-gray-400">
+                        Syncing space <span className="font-semibold text-gray-200">{settings.space}</span> with {settings.serverUrl}.
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        {status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}.` : 'Not synced yet.'}
+                        {!!status.mergedConflicts && ` Combined ${status.mergedConflicts} field(s) edited on two devices.`}
+                    </p>
+                    {status.error && <p className="text-xs text-red-400">{status.error}</p>}
+                    <div className="flex gap-2">
+                        <button onClick={() => run(syncNow)} disabled={isWorking} className="text-xs flex items-center gap-1 bg-sky-600/20 text-sky-300 hover:bg-sky-600/30 font-semibold py-1.5 px-3 rounded-md disabled:opacity-50">
+                            <RefreshCwIcon className={`w-3 h-3 ${isWorking ? 'animate-spin' : ''}`} /> Sync now
+                        </button>
+                        <button onClick={handleDisconnect} disabled={isWorking} className="text-xs text-gray-400 hover:text-white font-semibold py-1.5 px-3 disabled:opacity-50">Disconnect</button>
+                    </div>
+                </div>
+            ) : (
+                <form onSubmit={handleConnect} className="mt-2 space-y-2">
+                    <p className="text-xs text-gray-400">
+                        Keep jobs, resumes and interview practice in step across devices through your own sync server.
+                        Everything is encrypted with your passphrase before it leaves this browser.
+                    </p>
+                    <input {...field('serverUrl')} type="url" required placeholder="Server URL, e.g. https://sync.example.com" className={inputClass} />
+                    <input {...field('space')} required pattern="[A-Za-z0-9_\-]{1,64}" placeholder="Space name (same on every device)" className={inputClass} />
+                    <input {...field('token')} type="password" required placeholder="Server token" autoComplete="off" className={inputClass} />
+                    <input {...field('passphrase')} type="password" required minLength={8} placeholder="Encryption passphrase" autoComplete="new-password" className={inputClass} />
+                    <p className="text-xs text-amber-300/80">The passphrase can't be recovered. Without it, synced data can't be read on a new device.</p>
+                    <div className="flex justify-end">
+                        <button type="submit" disabled={isWorking} className="text-xs bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold py-1.5 px-4 rounded-md hover:opacity-90 disabled:opacity-50">
+                            {isWorking ? 'Connecting...' : 'Connect'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+        </Card>
+    );
+};
@@ -1,35 +1,35 @@
-
 import React, { useState, useEffect } from 'react';
 import { SunIcon, MoonIcon } from './IconComponents';
+import { Theme, themeStore } from '../services/preferences';
 
-// Function to get the initial theme from localStorage or system preference
-const getInitialTheme = (): 'light' | 'dark' => {
-    if (typeof window !== 'undefined' && window.localStorage) {
-        const storedPrefs = window.localStorage.getItem('theme');
-        if (storedPrefs === 'light' || storedPrefs === 'dark') {
-            return storedPrefs;
-        }
-        const userMedia = window.matchMedia('(prefers-color-scheme: dark)');
-        if (userMedia.matches) {
-            return 'dark';
-        }
+// Function to get the initial theme from storage or system preference
+const getInitialTheme = (): Theme => {
+    const storedPrefs = themeStore.read();
+    if (storedPrefs) {
+        return storedPrefs;
+    }
+    if (typeof window !== 'undefined' && window.matchMedia('(prefers-color-scheme: dark)').matches) {
+        return 'dark';
     }
     // Default to dark theme if no preference found
     return 'dark';
 };
 
 export const ThemeToggle: React.FC = () => {
-  const [theme, setTheme] = useState<'light' | 'dark'>(getInitialTheme());
+  const [theme, setTheme] = useState<Theme>(getInitialTheme());
 
   useEffect(() => {
     const root = window.document.documentElement;
     // Ensure the correct class is set on the html element
     root.classList.remove(theme === 'dark' ? 'light' : 'dark');
     root.classList.add(theme);
-    // Save the theme preference to localStorage
-    localStorage.setItem('theme', theme);
+    // Save the theme preference
+    if (themeStore.read() !== theme) themeStore.write(theme);
   }, [theme]);
 
+  // Follow theme changes made in other tabs.
+  useEffect(() => themeStore.subscribe(stored => stored && setTheme(stored)), []);
+
   const toggleTheme = () => {
     setTheme(prevTheme => (prevTheme === 'dark' ? 'light' : 'dark'));
   };
@@ -1,59 +1,71 @@
 
-import React, { useState, useEffect } from 'react';
-import { JobListing, TrackedJob, ApplicationStatus } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { JobListing, TrackedJob, ApplicationStatus, JobSource } from '../types';
+import { STAGE_ORDER, loadTrackedJobs, moveToStage, saveTrackedJobs } from '../services/jobTracker';
+import { findSameJob, findSimilarJobs, markDistinct } from '../services/jobIdentity';
+import { createId } from '../services/resumeLibrary';
 import { XCircleIcon } from './IconComponents';
 
 interface TrackJobModalProps {
   isOpen: boolean;
   onClose: () => void;
   job: JobListing | null;
+  resumeId?: string;
+  source?: JobSource;
 }
 
-const STATUS_OPTIONS: ApplicationStatus[] = ['Saved', 'Applied', 'Interviewing', 'Offer Received'];
-const LOCAL_STORAGE_KEY = 'trackedJobs';
-
-export const TrackJobModal: React.FC<TrackJobModalProps> = ({ isOpen, onClose, job }) => {
+export const TrackJobModal: React.FC<TrackJobModalProps> = ({ isOpen, onClose, job, resumeId, source = 'agent' }) => {
   const [status, setStatus] = useState<ApplicationStatus>('Saved');
   const [applicationDate, setApplicationDate] = useState('');
   const [notes, setNotes] = useState('');
+  // Set when the user says a job that matched an existing record is a separate opening.
+  const [isSeparatePosting, setIsSeparatePosting] = useState(false);
+
+  const { existingJobs, existing, similar } = useMemo(() => {
+    const jobs = isOpen ? loadTrackedJobs() : [];
+    return {
+      existingJobs: jobs,
+      existing: job ? findSameJob(jobs, job) : undefined,
+      similar: job ? findSimilarJobs(jobs, job) : [],
+    };
+  }, [job, isOpen]);
+  const tracked = isSeparatePosting ? undefined : existing;
+
+  useEffect(() => {
+    setIsSeparatePosting(false);
+  }, [job, isOpen]);
 
   useEffect(() => {
-    // Reset form when modal opens for a new job
+    // Reset form when modal opens for a new job, or start from what's recorded for one already tracked
     if (job) {
-      setStatus('Saved');
-      setApplicationDate(new Date().toISOString().split('T')[0]); // Default to today
-      setNotes('');
+      setStatus(tracked?.status || 'Saved');
+      setApplicationDate(tracked?.applicationDate || new Date().toISOString().split('T')[0]); // Default to today
+      setNotes(tracked?.notes || '');
     }
-  }, [job, isOpen]);
+  }, [job, isOpen, tracked]);
 
   const handleSave = () => {
     if (!job) return;
 
+    const now = new Date();
+    // Re-tracking keeps the stage history and tags already recorded for the job.
+    const base: TrackedJob = tracked
+      ? { ...tracked, ...job }
+      : { ...job, id: createId(), status: 'Saved', source, stageTimestamps: { Saved: now.toISOString() }, tags: [], events: [] };
     const newTrackedJob: TrackedJob = {
-      ...job,
-      id: `${job.company}-${job.title}-${job.location}`, // Create a simple unique ID
-      status,
-      applicationDate: status !== 'Saved' ? applicationDate : undefined,
+      ...moveToStage({ ...base, applicationDate: status !== 'Saved' ? applicationDate : undefined }, status, now),
       notes,
+      resumeId: resumeId ?? tracked?.resumeId,
     };
 
-    try {
-      const existingJobsRaw = localStorage.getItem(LOCAL_STORAGE_KEY);
-      const existingJobs: TrackedJob[] = existingJobsRaw ? JSON.parse(existingJobsRaw) : [];
-      
-      // Avoid duplicates
-      const jobIndex = existingJobs.findIndex(j => j.id === newTrackedJob.id);
-      if (jobIndex > -1) {
-        existingJobs[jobIndex] = newTrackedJob; // Update if exists
-      } else {
-        existingJobs.push(newTrackedJob);
-      }
-
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(existingJobs));
+    // A separate posting gets its own record, and the two are never suggested as duplicates again.
+    const jobs = tracked
+      ? existingJobs.map(j => j.id === tracked.id ? newTrackedJob : j)
+      : existing
+      ? markDistinct([...existingJobs, newTrackedJob], [existing, newTrackedJob])
+      : [...existingJobs, newTrackedJob];
+    if (saveTrackedJobs(jobs)) {
       onClose();
-    } catch (error) {
-      console.error("Failed to save job to localStorage", error);
-      // Optionally show an error to the user
     }
   };
 
@@ -73,6 +85,29 @@ export const TrackJobModal: React.FC<TrackJobModalProps> = ({ isOpen, onClose, j
         </header>
 
         <main className="p-6 space-y-4">
+          {existing && !isSeparatePosting ? (
+            <div className="text-sm text-sky-700 dark:text-sky-300 bg-sky-500/10 rounded-md p-3">
+              <p>You already track this job. Saving updates it instead of adding a copy.</p>
+              <button onClick={() => setIsSeparatePosting(true)} className="mt-1 text-xs font-semibold hover:underline">
+                This is a different posting
+              </button>
+            </div>
+          ) : existing ? (
+            <div className="text-sm text-sky-700 dark:text-sky-300 bg-sky-500/10 rounded-md p-3">
+              <p>This will be tracked separately from the {existing.title} job you already track ({existing.status}).</p>
+              <button onClick={() => setIsSeparatePosting(false)} className="mt-1 text-xs font-semibold hover:underline">
+                It's the same posting
+              </button>
+            </div>
+          ) : similar.length > 0 && (
+            <div className="text-sm text-amber-700 dark:text-amber-300 bg-amber-500/10 rounded-md p-3">
+              <p>This looks like a job you already track:</p>
+              <ul className="list-disc list-inside mt-1">
+                {similar.map(j => <li key={j.id}>{j.title} at {j.company} ({j.status})</li>)}
+              </ul>
+              <p className="mt-1 text-xs">If it's the same posting, you can merge them from the Job Tracker.</p>
+            </div>
+          )}
           <div>
             <label htmlFor="status" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Status</label>
             <select
@@ -81,7 +116,7 @@ export const TrackJobModal: React.FC<TrackJobModalProps> = ({ isOpen, onClose, j
               onChange={(e) => setStatus(e.target.value as ApplicationStatus)}
               className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
             >
-              {STATUS_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+              {STAGE_ORDER.map(opt => <option key={opt} value={opt}>{opt}</option>)}
             </select>
           </div>
 
@@ -3,8 +3,12 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Card } from './Card';
 import { VideoIcon, SparklesIcon, TrendingUpIcon, UploadIcon, ArrowLeftIcon } from './IconComponents';
 import { analyzeVideoPitch } from '../services/geminiService';
+import { VideoCapture, clearPendingCapture, loadPendingCapture, savePendingCapture } from '../services/videoCaptures';
 import { VideoPitchFeedback } from '../types';
 import { RadialProgress } from './RadialProgress';
+import { MicCapture, openMicrophone, startMicCapture } from '../services/audioPipeline';
+import { microphoneStore } from '../services/preferences';
+import { MicLevelMeter, MicrophoneSelect } from './MicrophoneControls';
 
 type Status = 'idle' | 'permission' | 'ready' | 'recording' | 'processing' | 'results' | 'error';
 const RECORDING_DURATION = 30; // 30 seconds
@@ -67,9 +71,12 @@ export const VideoPitchCoachPage: React.FC = () => {
     const [timeLeft, setTimeLeft] = useState(RECORDING_DURATION);
     const [feedback, setFeedback] = useState<VideoPitchFeedback | null>(null);
     const [isVideoReady, setIsVideoReady] = useState(false);
+    const [pendingCapture, setPendingCapture] = useState<VideoCapture | null>(null);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
+    const micCaptureRef = useRef<MicCapture | null>(null);
+    const inputLevelRef = useRef(0);
     const recognitionRef = useRef<any | null>(null);
     const frameCaptureIntervalRef = useRef<number | null>(null);
     const timerIntervalRef = useRef<number | null>(null);
@@ -83,6 +90,9 @@ export const VideoPitchCoachPage: React.FC = () => {
     }, [status]);
 
     const cleanup = () => {
+        micCaptureRef.current?.stop().catch(console.error);
+        micCaptureRef.current = null;
+        inputLevelRef.current = 0;
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(track => track.stop());
             streamRef.current = null;
@@ -103,6 +113,7 @@ export const VideoPitchCoachPage: React.FC = () => {
     };
 
     useEffect(() => {
+        loadPendingCapture().then(setPendingCapture).catch(err => console.error("Failed to load the unanalyzed recording", err));
         return () => cleanup(); // Cleanup on component unmount
     }, []);
 
@@ -118,9 +129,16 @@ export const VideoPitchCoachPage: React.FC = () => {
         setStatus('permission');
         setError(null);
         try {
-            const mediaStream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
+            const mediaStream = await openMicrophone(microphoneStore.read(), true);
             streamRef.current = mediaStream;
             setStatus('ready');
+            // The level meter is a convenience, so recording still works without it.
+            startMicCapture(mediaStream, chunk => { inputLevelRef.current = chunk.level; })
+                .then(capture => {
+                    if (streamRef.current === mediaStream) micCaptureRef.current = capture;
+                    else capture.stop().catch(console.error);
+                })
+                .catch(err => console.error("Failed to start the microphone level meter", err));
         } catch (err) {
             console.error(err);
             setError("Camera and microphone access denied. Please enable permissions in your browser settings.");
@@ -128,6 +146,12 @@ export const VideoPitchCoachPage: React.FC = () => {
         }
     };
 
+    const handleMicrophoneChange = () => {
+        if (statusRef.current !== 'ready') return;
+        cleanup();
+        requestPermissions();
+    };
+
     const stopRecording = () => {
         if (statusRef.current !== 'recording') return;
         
@@ -307,25 +331,48 @@ export const VideoPitchCoachPage: React.FC = () => {
         }
     };
 
-    const handleAnalysis = async () => {
-        if (capturedFramesRef.current.length === 0) {
-            setError("No video frames were captured. Please ensure your camera is not covered and has good lighting.");
-            setStatus('error');
-            cleanup();
-            return;
-        }
-
+    const analyzeCapture = async (frames: string[], transcript: string) => {
         try {
-            // Note: For uploaded videos, transcriptRef is empty. The prompt handles this case.
-            const result = await analyzeVideoPitch(capturedFramesRef.current, transcriptRef.current.trim());
+            // Note: For uploaded videos, transcript is empty. The prompt handles this case.
+            const result = await analyzeVideoPitch(frames, transcript);
             setFeedback(result);
             setStatus('results');
+            setPendingCapture(null);
+            clearPendingCapture().catch(err => console.error("Failed to clear the analyzed recording", err));
         } catch (err: any) {
             console.error(err);
             setError(err.message || "Failed to analyze video pitch.");
             setStatus('error');
         }
     };
+
+    const handleAnalysis = async () => {
+        if (capturedFramesRef.current.length === 0) {
+            setError("No video frames were captured. Please ensure your camera is not covered and has good lighting.");
+            setStatus('error');
+            cleanup();
+            return;
+        }
+
+        const frames = [...capturedFramesRef.current];
+        const transcript = transcriptRef.current.trim();
+        // Saved first, so a quick success can't be followed by a late save of an analyzed recording.
+        await savePendingCapture(frames, transcript).then(setPendingCapture).catch(err => console.error("Failed to keep the recording for retrying", err));
+        await analyzeCapture(frames, transcript);
+    };
+
+    const handleRetryPending = () => {
+        if (!pendingCapture) return;
+        transcriptRef.current = pendingCapture.transcript;
+        setError(null);
+        setStatus('processing');
+        analyzeCapture(pendingCapture.frames, pendingCapture.transcript);
+    };
+
+    const handleDiscardPending = () => {
+        setPendingCapture(null);
+        clearPendingCapture().catch(err => console.error("Failed to discard the recording", err));
+    };
     
     const handleTryAgain = () => {
         cleanup();
@@ -353,6 +400,16 @@ export const VideoPitchCoachPage: React.FC = () => {
                         <VideoIcon className="w-16 h-16 mx-auto text-gray-500"/>
                         <h2 className="mt-4 text-2xl font-bold">Video Pitch Coach</h2>
                         <p className="mt-2 text-gray-400 max-w-lg mx-auto mb-8">Practice your 30-second elevator pitch. Record live for speech analysis, or upload a video for body language feedback.</p>
+
+                        {pendingCapture && (
+                            <div className="max-w-2xl mx-auto mb-6 bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 flex flex-col sm:flex-row items-center justify-between gap-3 text-left">
+                                <p className="text-sm text-amber-200">Your recording from {new Date(pendingCapture.createdAt).toLocaleString()} was never analyzed.</p>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button onClick={handleDiscardPending} className="text-sm text-gray-400 hover:text-white font-semibold py-2 px-3">Discard</button>
+                                    <button onClick={handleRetryPending} className="bg-indigo-500 text-white text-sm font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">Analyze It</button>
+                                </div>
+                            </div>
+                        )}
                         
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-2xl mx-auto">
                             <Card 
@@ -419,6 +476,10 @@ export const VideoPitchCoachPage: React.FC = () => {
                                 </div>
                              )}
                         </div>
+                        <div className="mt-3 flex flex-col sm:flex-row items-center gap-3">
+                            <MicLevelMeter getLevel={() => inputLevelRef.current} className="w-full sm:w-48" />
+                            {status === 'ready' && <MicrophoneSelect onChange={handleMicrophoneChange} className="w-full sm:w-auto sm:ml-auto" />}
+                        </div>
                         <div className="mt-6 flex justify-center gap-4">
                              <button onClick={handleTryAgain} className="bg-gray-600 text-white font-bold py-3 px-6 rounded-lg text-lg transition-transform transform hover:scale-105">Cancel</button>
                              {status === 'ready' && <button onClick={startRecording} disabled={!isVideoReady} className="bg-green-600 text-white font-bold py-3 px-8 rounded-lg text-lg transition-transform transform hover:scale-105 disabled:bg-gray-500 disabled:cursor-not-allowed">
@@ -456,9 +517,16 @@ export const VideoPitchCoachPage: React.FC = () => {
                      <div className="text-center bg-red-500/10 p-6 rounded-2xl border border-red-500/30 max-w-md mx-auto">
                         <p className="text-red-400 font-semibold">An Error Occurred</p>
                         <p className="mt-2 text-sm text-red-300">{error}</p>
-                        <button onClick={handleTryAgain} className="mt-6 bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">
-                            Try Again
-                        </button>
+                        <div className="mt-6 flex justify-center gap-3">
+                            {pendingCapture && (
+                                <button onClick={handleRetryPending} className="bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 transition-colors">
+                                    Retry Analysis
+                                </button>
+                            )}
+                            <button onClick={handleTryAgain} className={`${pendingCapture ? 'bg-gray-600 hover:bg-gray-500' : 'bg-indigo-500 hover:bg-indigo-600'} text-white font-bold py-2 px-4 rounded-lg transition-colors`}>
+                                {pendingCapture ? 'Record Again' : 'Try Again'}
+                            </button>
+                        </div>
                     </div>
                 );
         }
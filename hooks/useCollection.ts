@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { Collection } from '../services/storage';
+
+// The collection's current value, re-rendering when it changes in this tab or another.
+export const useCollection = <T>(collection: Collection<T>): T =>
+    useSyncExternalStore(collection.subscribe, collection.read);
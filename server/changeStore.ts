@@ -0,0 +1,86 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { FieldChange, PullResponse, PushResponse, StoredChange } from '../services/syncProtocol.ts';
+import { fieldKey, isNewer } from '../services/syncProtocol.ts';
+
+// Keeps each space in one JSON file holding the latest change per field. Old values are dropped as
+// soon as they are overwritten, so files only grow with the data itself. Writes go to a temporary
+// file first and are renamed into place, so a crash never leaves a half-written space.
+
+interface SpaceData {
+    cursor: number;
+    fields: Record<string, StoredChange>;
+}
+
+export interface ChangeStore {
+    pull: (space: string, since: number) => Promise<PullResponse>;
+    push: (space: string, since: number, changes: FieldChange[]) => Promise<PushResponse>;
+}
+
+export const createChangeStore = (dir: string): ChangeStore => {
+    const spaces = new Map<string, Promise<SpaceData>>();
+    // Pushes to a space run one at a time; pulls see the last committed state.
+    const queues = new Map<string, Promise<unknown>>();
+
+    const file = (space: string) => path.join(dir, `${space}.json`);
+
+    const load = (space: string): Promise<SpaceData> => {
+        let data = spaces.get(space);
+        if (!data) {
+            data = fs.readFile(file(space), 'utf8')
+                .then(text => JSON.parse(text) as SpaceData)
+                .catch((error: NodeJS.ErrnoException) => {
+                    if (error.code === 'ENOENT') return { cursor: 0, fields: {} };
+                    spaces.delete(space);
+                    throw error;
+                });
+            spaces.set(space, data);
+        }
+        return data;
+    };
+
+    const save = async (space: string, data: SpaceData) => {
+        await fs.mkdir(dir, { recursive: true });
+        const temp = `${file(space)}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(data));
+        await fs.rename(temp, file(space));
+    };
+
+    const pull = async (space: string, since: number): Promise<PullResponse> => {
+        const data = await load(space);
+        const changes = Object.values(data.fields).filter(change => change.seq > since).sort((a, b) => a.seq - b.seq);
+        return { cursor: data.cursor, changes };
+    };
+
+    const push = (space: string, since: number, changes: FieldChange[]): Promise<PushResponse> => {
+        const run = async (): Promise<PushResponse> => {
+            const data = await load(space);
+            const next: SpaceData = { cursor: data.cursor, fields: { ...data.fields } };
+            const conflicts: PushResponse['conflicts'] = [];
+            let accepted = 0;
+            for (const change of changes) {
+                const key = fieldKey(change);
+                const existing = next.fields[key];
+                // Another device wrote this field after the client last pulled.
+                if (existing && existing.seq > since && existing.device !== change.device) {
+                    conflicts.push({ collection: change.collection, id: change.id, field: change.field });
+                    continue;
+                }
+                if (!isNewer(change, existing)) continue;
+                next.cursor += 1;
+                next.fields[key] = { ...change, seq: next.cursor };
+                accepted += 1;
+            }
+            if (accepted > 0) {
+                await save(space, next);
+                spaces.set(space, Promise.resolve(next));
+            }
+            return { cursor: next.cursor, accepted, conflicts };
+        };
+        const result = (queues.get(space) || Promise.resolve()).then(run, run);
+        queues.set(space, result.catch(() => undefined));
+        return result;
+    };
+
+    return { pull, push };
+};
@@ -0,0 +1,136 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import type { FieldChange, PushRequest, SyncCollection } from '../services/syncProtocol.ts';
+import { SPACE_PATTERN, SYNC_API_VERSION } from '../services/syncProtocol.ts';
+import { createChangeStore } from './changeStore.ts';
+
+// Self-hosted sync server for CareerNova. It stores encrypted field changes per "space" (one per
+// person or team) and hands them to other devices; it can't read any of them.
+//
+//   SYNC_TOKEN=... npm run sync-server
+//
+// SYNC_TOKEN         required; clients send it as a bearer token
+// SYNC_PORT          default 8787
+// SYNC_DATA_DIR      default ./sync-data
+// SYNC_ALLOWED_ORIGIN  origin allowed to call the API from a browser, default *
+// SYNC_MAX_BODY_MB   largest accepted push, default 25
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+const MAX_BODY_BYTES = Number(process.env.SYNC_MAX_BODY_MB || 25) * 1024 * 1024;
+
+const COLLECTIONS: SyncCollection[] = ['trackedJobs', 'resumes', 'interviewSessions'];
+
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const isAuthorized = (req: IncomingMessage) => {
+    const header = req.headers.authorization || '';
+    const presented = header.startsWith('Bearer ') ? header.slice(7) : '';
+    // Comparing digests keeps the comparison constant-time whatever the lengths.
+    return timingSafeEqual(digest(presented), digest(TOKEN));
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Vary': 'Origin',
+    });
+    res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Push is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new HttpError(400, 'Body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const isString = (value: unknown, max: number): value is string => typeof value === 'string' && value.length > 0 && value.length <= max;
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFieldChange = (change: unknown): change is FieldChange =>
+    isObject(change) && COLLECTIONS.some(collection => collection === change.collection)
+    && isString(change.id, 200) && isString(change.field, 100) && isString(change.device, 100)
+    && typeof change.value === 'string' && Number.isFinite(change.ts);
+
+const parsePush = (body: unknown): PushRequest => {
+    if (!isObject(body) || !Number.isInteger(body.since) || !Array.isArray(body.changes) || !body.changes.every(isFieldChange)) {
+        throw new HttpError(400, 'Expected { since, changes } with valid field changes.');
+    }
+    return { since: body.since as number, changes: body.changes };
+};
+
+const store = createChangeStore(DATA_DIR);
+
+const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'OPTIONS') return send(res, 204, null);
+    if (url.pathname === `/${SYNC_API_VERSION}/health`) return send(res, 200, { ok: true });
+
+    const match = url.pathname.match(new RegExp(`^/${SYNC_API_VERSION}/spaces/([^/]+)/changes$`));
+    if (!match) throw new HttpError(404, 'Not found.');
+    if (!isAuthorized(req)) throw new HttpError(401, 'Missing or wrong sync token.');
+    const space = decodeURIComponent(match[1]);
+    if (!SPACE_PATTERN.test(space)) throw new HttpError(400, 'Space names use letters, digits, - and _ only.');
+
+    if (req.method === 'GET') {
+        const since = Number(url.searchParams.get('since') || 0);
+        if (!Number.isInteger(since) || since < 0) throw new HttpError(400, '`since` must be a cursor from an earlier pull.');
+        return send(res, 200, await store.pull(space, since));
+    }
+    if (req.method === 'POST') {
+        const { since, changes } = parsePush(await readBody(req));
+        return send(res, 200, await store.push(space, since, changes));
+    }
+    throw new HttpError(405, 'Method not allowed.');
+};
+
+if (!TOKEN) {
+    console.error('SYNC_TOKEN is not set. Choose a long random token and give it to every device that should sync.');
+    process.exit(1);
+}
+
+createServer((req, res) => {
+    route(req, res).catch(error => {
+        if (error instanceof HttpError) {
+            send(res, error.status, { error: error.message });
+        } else {
+            console.error(error);
+            send(res, 500, { error: 'The sync server failed to handle the request.' });
+        }
+    });
+}).listen(PORT, () => {
+    console.log(`CareerNova sync server listening on port ${PORT}, storing data in ${DATA_DIR}`);
+});
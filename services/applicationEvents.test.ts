@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ApplicationEvent, TrackedJob } from '../types';
+import { buildCalendar } from './applicationEvents';
+
+const job = (overrides: Partial<TrackedJob> = {}): TrackedJob => ({
+    id: 'job-1',
+    title: 'Backend Engineer',
+    company: 'Acme',
+    location: '',
+    description: '',
+    url: '',
+    status: 'Onsite',
+    ...overrides,
+});
+
+const NOW = new Date(Date.UTC(2024, 4, 1, 9, 30));
+
+// Undoes line folding, so content lines can be checked whole.
+const contentLines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+const calendarFor = (event: ApplicationEvent, overrides: Partial<TrackedJob> = {}) => buildCalendar([{ job: job(overrides), event }], NOW);
+
+describe('buildCalendar', () => {
+    it('writes a calendar with CRLF line endings', () => {
+        const ics = calendarFor({ id: 'e1', type: 'offer-deadline', date: '2024-05-10' });
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+        expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+        expect(contentLines(ics)).toContain('DTSTAMP:20240501T093000Z');
+    });
+
+    it('writes events without a time as all-day events', () => {
+        const lines = contentLines(calendarFor({ id: 'e1', type: 'take-home', date: '2024-05-10' }));
+        expect(lines).toContain('DTSTART;VALUE=DATE:20240510');
+        expect(lines).toContain('DTEND;VALUE=DATE:20240511');
+    });
+
+    it('writes timed events in UTC and interviews for their length', () => {
+        const lines = contentLines(calendarFor({ id: 'e1', type: 'interview', date: '2024-05-10', time: '14:00', durationMinutes: 45 }));
+        const start = new Date('2024-05-10T14:00');
+        const utc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        expect(lines).toContain(`DTSTART:${utc(start)}`);
+        expect(lines).toContain(`DTEND:${utc(new Date(start.getTime() + 45 * 60000))}`);
+    });
+
+    it('escapes backslashes, commas, semicolons and newlines in text', () => {
+        const lines = contentLines(calendarFor(
+            { id: 'e1', type: 'interview', date: '2024-05-10', round: 'Onsite', notes: 'Bring ID; ask for Sam\nRoom 4, floor 2' },
+            { company: 'Acme, Inc. \\ R&D' },
+        ));
+        expect(lines).toContain('SUMMARY:Onsite: Acme\\, Inc. \\\\ R&D');
+        expect(lines).toContain('DESCRIPTION:Backend Engineer at Acme\\, Inc. \\\\ R&D\\nBring ID\\; ask for Sam\\nRoom 4\\, floor 2');
+    });
+
+    it('reminds half an hour before interviews and a day before deadlines', () => {
+        const alarm = (event: ApplicationEvent) => {
+            const lines = contentLines(calendarFor(event));
+            return lines.slice(lines.indexOf('BEGIN:VALARM'), lines.indexOf('END:VALARM') + 1);
+        };
+        expect(alarm({ id: 'e1', type: 'interview', date: '2024-05-10', time: '14:00' })).toEqual([
+            'BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Interview', 'TRIGGER:-PT30M', 'END:VALARM',
+        ]);
+        expect(alarm({ id: 'e2', type: 'offer-deadline', date: '2024-05-10' })).toContain('TRIGGER:-P1D');
+    });
+
+    it('folds lines at 75 octets without splitting a character', () => {
+        const notes = `${'é'.repeat(60)} ${'日本語'.repeat(20)} ${'🎉'.repeat(30)}`;
+        const ics = calendarFor({ id: 'e1', type: 'take-home', date: '2024-05-10', notes });
+        const encoder = new TextEncoder();
+        const physical = ics.split('\r\n');
+        expect(physical.filter(line => line.startsWith(' ')).length).toBeGreaterThan(3);
+        for (const line of physical) {
+            expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+            // A lone surrogate, half of a split emoji, can't be URI-encoded.
+            expect(() => encodeURIComponent(line)).not.toThrow();
+        }
+        expect(contentLines(ics)).toContain(`DESCRIPTION:Backend Engineer at Acme\\n${notes}`);
+    });
+});
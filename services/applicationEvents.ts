@@ -0,0 +1,141 @@
+import { ApplicationEvent, ApplicationEventType, InterviewFormat, TrackedJob } from "../types";
+
+export const EVENT_TYPE_LABELS: Record<ApplicationEventType, string> = {
+    'applied': 'Applied',
+    'recruiter-email': 'Recruiter Email',
+    'interview': 'Interview',
+    'take-home': 'Take-home Due',
+    'offer-deadline': 'Offer Deadline',
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_TYPE_LABELS) as ApplicationEventType[];
+
+// Types that describe something still to happen, as opposed to a log of what already did.
+export const SCHEDULED_EVENT_TYPES: ApplicationEventType[] = ['interview', 'take-home', 'offer-deadline'];
+
+export const INTERVIEW_FORMATS: InterviewFormat[] = ['Phone', 'Video', 'Onsite', 'Pair Programming', 'Panel'];
+
+const DEFAULT_INTERVIEW_MINUTES = 60;
+const DEFAULT_DEADLINE_MINUTES = 30;
+
+export interface JobEvent {
+    job: TrackedJob;
+    event: ApplicationEvent;
+}
+
+export const eventTitle = (event: ApplicationEvent): string => {
+    if (event.title) return event.title;
+    if (event.type === 'interview') {
+        return [event.round || 'Interview', event.format && `(${event.format})`].filter(Boolean).join(' ');
+    }
+    return EVENT_TYPE_LABELS[event.type];
+};
+
+// Dates are stored as local calendar values, so they are parsed in the user's time zone.
+export const eventStart = (event: ApplicationEvent): Date => new Date(`${event.date}T${event.time || '00:00'}`);
+
+const eventEnd = (event: ApplicationEvent): Date => {
+    const start = eventStart(event);
+    if (!event.time) return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    const minutes = event.type === 'interview' ? event.durationMinutes || DEFAULT_INTERVIEW_MINUTES : DEFAULT_DEADLINE_MINUTES;
+    return new Date(start.getTime() + minutes * 60000);
+};
+
+export const sortEvents = (events: ApplicationEvent[]): ApplicationEvent[] =>
+    [...events].sort((a, b) => eventStart(a).getTime() - eventStart(b).getTime());
+
+export const isUpcoming = (event: ApplicationEvent, now: Date = new Date()): boolean =>
+    SCHEDULED_EVENT_TYPES.includes(event.type) && eventEnd(event) > now;
+
+export const upcomingEvents = (jobs: TrackedJob[], now: Date = new Date()): JobEvent[] =>
+    jobs
+        .flatMap(job => (job.events || []).filter(event => isUpcoming(event, now)).map(event => ({ job, event })))
+        .sort((a, b) => eventStart(a.event).getTime() - eventStart(b.event).getTime());
+
+export const formatEventWhen = (event: ApplicationEvent): string => {
+    const start = eventStart(event);
+    const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+    return event.time ? `${day}, ${start.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}` : day;
+};
+
+// Whole days from today to the event's date; negative once it has passed.
+export const daysUntil = (event: ApplicationEvent, now: Date = new Date()): number => {
+    const start = eventStart(event);
+    const eventDay = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return Math.round((eventDay.getTime() - today.getTime()) / 86400000);
+};
+
+// --- iCalendar export (RFC 5545) ---
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const dateValue = (date: Date) =>
+    `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+// Content lines are folded at 75 octets, never splitting a multi-byte character.
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let bytes = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74;
+        if (bytes + size > limit) {
+            parts.push(current);
+            current = '';
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const eventLines = ({ job, event }: JobEvent, stamp: string): string[] => {
+    const start = eventStart(event);
+    const end = eventEnd(event);
+    const details = [
+        `${job.title} at ${job.company}`,
+        event.interviewer && `Interviewer: ${event.interviewer}`,
+        event.format && `Format: ${event.format}`,
+        event.notes,
+    ].filter(Boolean).join('\n');
+    // Deadlines get a day's warning; interviews half an hour.
+    const trigger = event.type === 'interview' ? '-PT30M' : '-P1D';
+    return [
+        'BEGIN:VEVENT',
+        `UID:${job.id.replace(/[^A-Za-z0-9-]/g, '-')}-${event.id}@careernova`,
+        `DTSTAMP:${stamp}`,
+        ...(event.time
+            ? [`DTSTART:${utcStamp(start)}`, `DTEND:${utcStamp(end)}`]
+            : [`DTSTART;VALUE=DATE:${dateValue(start)}`, `DTEND;VALUE=DATE:${dateValue(end)}`]),
+        `SUMMARY:${escapeText(`${eventTitle(event)}: ${job.company}`)}`,
+        `DESCRIPTION:${escapeText(details)}`,
+        ...(job.url ? [`URL:${job.url}`] : []),
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(eventTitle(event))}`,
+        `TRIGGER:${trigger}`,
+        'END:VALARM',
+        'END:VEVENT',
+    ];
+};
+
+export const buildCalendar = (items: JobEvent[], now: Date = new Date()): string => {
+    const stamp = utcStamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//CareerNova//Job Tracker//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...items.flatMap(item => eventLines(item, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { extractKeywords, findMissingKeywords, scoreResume, tokenizeWords } from './atsScorer';
+
+const RESUME = `Jane Doe
+jane@example.com | (555) 123-4567
+
+Summary
+Backend engineer focused on reliable payment systems.
+
+Experience
+Senior Engineer, Acme — Jan 2020 - Present
+- Led a team of 6 engineers to rebuild the billing platform in Go and PostgreSQL
+- Reduced checkout latency by 40% by caching pricing lookups in Redis
+- Designed the event pipeline that processes 2M payments a day on Kafka
+
+Engineer, Initech — Mar 2016 - Dec 2019
+- Built internal APIs in Python and Django used by 12 product teams
+- Automated deployments with Terraform, cutting release time from 2 hours to 15 minutes
+
+Education
+B.Sc. Computer Science, State University — 2016
+
+Skills
+Go, Python, PostgreSQL, Redis, Kafka, Terraform, Kubernetes, AWS`;
+
+const ruleOf = (text: string, id: string, jobDescription?: string) =>
+    scoreResume(text, { jobDescription }).rules.find(rule => rule.id === id)!;
+
+describe('tokenizeWords', () => {
+    it('keeps tech spellings whole', () => {
+        expect(tokenizeWords('C++, C# and Node.js.')).toEqual(['c++', 'c#', 'and', 'node.js']);
+    });
+});
+
+describe('extractKeywords', () => {
+    it('ranks terms by frequency and drops stop words', () => {
+        expect(extractKeywords('Kubernetes and Go. We use Kubernetes daily, with Terraform and Kubernetes.', 3)).toEqual(['kubernetes', 'daily', 'terraform']);
+    });
+});
+
+describe('findMissingKeywords', () => {
+    it('returns the keywords the resume never mentions', () => {
+        expect(findMissingKeywords(RESUME, ['kafka', 'rust', 'terraform', 'graphql'])).toEqual(['rust', 'graphql']);
+    });
+});
+
+describe('scoreResume', () => {
+    it('gives the same score for the same text', () => {
+        expect(scoreResume(RESUME).score).toBe(scoreResume(RESUME).score);
+    });
+
+    it('scores a complete resume well', () => {
+        const report = scoreResume(RESUME);
+        expect(report.score).toBeGreaterThanOrEqual(70);
+        expect(ruleOf(RESUME, 'sections').points).toBe(ruleOf(RESUME, 'sections').maxPoints);
+    });
+
+    it('leaves keyword coverage out without a job description', () => {
+        expect(ruleOf(RESUME, 'keywords').applicable).toBe(false);
+        expect(ruleOf(RESUME, 'keywords', 'Kafka Kubernetes Rust').applicable).toBe(true);
+    });
+
+    it('rewards covering the job description', () => {
+        const jobDescription = 'Kafka, Kubernetes, Terraform, PostgreSQL and Redis experience for our payments platform.';
+        const covered = scoreResume(RESUME, { jobDescription }).score;
+        const uncovered = scoreResume(RESUME, { jobDescription: 'Swift, Objective-C, UIKit and Xcode for our iOS apps.' }).score;
+        expect(covered).toBeGreaterThan(uncovered);
+    });
+
+    it('penalises missing sections and contact details', () => {
+        const bare = RESUME.replace(/^Education[\s\S]*?\n\n/m, '').replace('jane@example.com | (555) 123-4567', '');
+        expect(scoreResume(bare).score).toBeLessThan(scoreResume(RESUME).score);
+    });
+
+    it('penalises files ATS software rejects', () => {
+        expect(scoreResume(RESUME, { fileType: 'image/png' }).score).toBeLessThan(scoreResume(RESUME, { fileType: 'application/pdf' }).score);
+    });
+});
@@ -0,0 +1,278 @@
+import { AtsRuleId, AtsRuleResult, AtsScoreReport } from "../types";
+
+// Rule-based ATS scoring. Everything here is a pure function of the resume text (plus the
+// optional job description and file type), so the same resume always gets the same score.
+
+export interface AtsScoreOptions {
+    jobDescription?: string;
+    fileType?: string;
+}
+
+const RULE_WEIGHTS: Record<AtsRuleId, number> = {
+    sections: 15,
+    contact: 10,
+    dates: 10,
+    bulletLength: 10,
+    actionVerbs: 15,
+    quantified: 15,
+    keywords: 15,
+    parseability: 10,
+};
+
+const SECTION_PATTERNS: Array<{ name: string; pattern: RegExp; required: boolean }> = [
+    { name: 'Experience', pattern: /^(work |professional |relevant )?(experience|employment|work history|career history)$/, required: true },
+    { name: 'Education', pattern: /^(education|academic background|qualifications)$/, required: true },
+    { name: 'Skills', pattern: /^((technical |key |core )?skills|competencies|core competencies|technologies)$/, required: true },
+    { name: 'Summary', pattern: /^(summary|professional summary|profile|professional profile|objective|about me)$/, required: false },
+];
+
+const ACTION_VERBS = new Set([
+    'accelerated', 'achieved', 'analyzed', 'architected', 'automated', 'boosted', 'built', 'championed', 'coached',
+    'collaborated', 'conceived', 'consolidated', 'coordinated', 'created', 'cut', 'decreased', 'defined', 'delivered',
+    'deployed', 'designed', 'developed', 'directed', 'drove', 'eliminated', 'enabled', 'engineered', 'established',
+    'evaluated', 'expanded', 'facilitated', 'founded', 'generated', 'grew', 'guided', 'headed', 'identified',
+    'implemented', 'improved', 'increased', 'initiated', 'integrated', 'introduced', 'launched', 'led', 'maintained',
+    'managed', 'mentored', 'migrated', 'modernized', 'negotiated', 'optimized', 'orchestrated', 'organized',
+    'overhauled', 'oversaw', 'owned', 'partnered', 'pioneered', 'planned', 'produced', 'programmed', 'proposed',
+    'published', 'raised', 'realized', 'rebuilt', 'redesigned', 'reduced', 'refactored', 'resolved', 'restructured',
+    'revamped', 'saved', 'scaled', 'secured', 'shipped', 'simplified', 'spearheaded', 'standardized', 'streamlined',
+    'strengthened', 'supervised', 'taught', 'tested', 'trained', 'transformed', 'tripled', 'doubled', 'wrote',
+]);
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'you', 'your', 'our', 'are', 'will', 'have', 'has', 'that', 'this', 'from', 'who',
+    'what', 'all', 'any', 'can', 'able', 'about', 'into', 'their', 'they', 'them', 'was', 'were', 'been', 'being',
+    'not', 'but', 'more', 'most', 'other', 'such', 'than', 'then', 'also', 'very', 'well', 'work', 'working', 'team',
+    'teams', 'role', 'roles', 'job', 'including', 'include', 'includes', 'across', 'within', 'while', 'where', 'when',
+    'how', 'why', 'which', 'its', 'per', 'etc', 'using', 'use', 'must', 'should', 'would', 'could', 'may', 'plus',
+    'strong', 'experience', 'years', 'year', 'ability', 'skills', 'knowledge', 'understanding', 'responsibilities',
+    'requirements', 'qualifications', 'preferred', 'required', 'candidate', 'company', 'join', 'help', 'opportunity',
+    'new', 'one', 'two', 'three', 'based', 'like', 'both', 'each', 'every', 'through', 'over', 'under', 'out',
+    'need', 'needs', 'looking', 'seeking', 'want', 'ideal', 'ideally', 'great', 'good', 'excellent',
+]);
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_TOKEN = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE_TOKEN})\\s*(?:-|–|—|to)\\s*(${DATE_TOKEN}|present|current|now)`, 'gi');
+const MONTH_INDEX = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const BULLET_MARKER = /^\s*(?:[-•*▪●◦‣–]|\d+[.)])\s+/;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Lower-cased words, keeping tech spellings like "c++", "c#" and "node.js" intact.
+export const tokenizeWords = (text: string): string[] => text.toLowerCase().match(/[a-z][a-z0-9+#.]*[a-z0-9+#]|[a-z]/g) || [];
+
+const lineOf = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const isSectionHeading = (line: string, name?: string) => {
+    const normalized = line.toLowerCase().replace(/[:\-–—]+$/, '').trim();
+    return line.split(/\s+/).length <= 4 && SECTION_PATTERNS.some(section => (!name || section.name === name) && section.pattern.test(normalized));
+};
+
+const getBullets = (text: string): string[] => {
+    // Skill lists are often bulleted too, but they aren't achievement statements.
+    let inSkills = false;
+    const bullets: string[] = [];
+    for (const line of text.split('\n')) {
+        if (isSectionHeading(line.trim())) {
+            inSkills = isSectionHeading(line.trim(), 'Skills');
+        } else if (!inSkills && BULLET_MARKER.test(line)) {
+            bullets.push(line.replace(BULLET_MARKER, '').trim());
+        }
+    }
+    if (bullets.length > 0) return bullets;
+    // Resumes without bullet markers: treat sentence-like lines as bullets.
+    return lineOf(text).filter(line => line.split(/\s+/).length >= 6 && /[a-z]/.test(line));
+};
+
+const rule = (id: AtsRuleId, label: string, fraction: number, details: string, tips: string[], applicable = true): AtsRuleResult => ({
+    id,
+    label,
+    points: applicable ? Math.round(clamp01(fraction) * RULE_WEIGHTS[id] * 10) / 10 : 0,
+    maxPoints: RULE_WEIGHTS[id],
+    applicable,
+    details,
+    tips,
+});
+
+const scoreSections = (text: string): AtsRuleResult => {
+    const lines = lineOf(text);
+    const found = SECTION_PATTERNS.filter(section => lines.some(line => isSectionHeading(line, section.name)));
+    const missing = SECTION_PATTERNS.filter(section => section.required && !found.includes(section));
+    const requiredCount = SECTION_PATTERNS.filter(s => s.required).length;
+    const fraction = (requiredCount - missing.length) / requiredCount * 0.85 + (found.some(s => !s.required) ? 0.15 : 0);
+    return rule('sections', 'Standard sections', fraction,
+        found.length > 0 ? `Found: ${found.map(s => s.name).join(', ')}.` : 'No standard section headings found.',
+        missing.map(s => `Add a clearly labelled "${s.name}" heading so ATS parsers can find that section.`));
+};
+
+const scoreContact = (text: string): AtsRuleResult => {
+    const checks = [
+        { name: 'email', found: /[\w.+-]+@[\w-]+\.[\w.]+/.test(text), weight: 0.45 },
+        { name: 'phone', found: /\+?\d[\d\s().-]{7,}\d/.test(text), weight: 0.35 },
+        { name: 'LinkedIn', found: /linkedin\.com\/in\//i.test(text), weight: 0.2 },
+    ];
+    const found = checks.filter(c => c.found);
+    return rule('contact', 'Contact information', found.reduce((sum, c) => sum + c.weight, 0),
+        found.length > 0 ? `Found ${found.map(c => c.name).join(', ')}.` : 'No contact details found.',
+        checks.filter(c => !c.found).map(c => `Include your ${c.name} in the header as plain text.`));
+};
+
+const dateFormat = (token: string) =>
+    /^\d{4}$/.test(token) ? 'year' : /\//.test(token) ? 'numeric' : 'month';
+
+const dateValue = (token: string): number | null => {
+    const lower = token.toLowerCase();
+    if (/present|current|now/.test(lower)) return Number.MAX_SAFE_INTEGER;
+    const year = Number(lower.match(/\d{4}/)?.[0]);
+    if (!year) return null;
+    const numericMonth = lower.match(/^(\d{1,2})\//);
+    const namedMonth = MONTH_INDEX.findIndex(m => lower.startsWith(m));
+    const month = numericMonth ? Number(numericMonth[1]) - 1 : Math.max(namedMonth, 0);
+    return year * 12 + month;
+};
+
+const scoreDates = (text: string): AtsRuleResult => {
+    const ranges = Array.from(text.matchAll(DATE_RANGE)).map(match => ({ start: match[1], end: match[2] }));
+    if (ranges.length === 0) {
+        return rule('dates', 'Date consistency', 0, 'No employment date ranges found.',
+            ['Give every position a date range such as "Jan 2020 - Present".']);
+    }
+
+    const formats = ranges.flatMap(r => [r.start, r.end]).filter(t => !/present|current|now/i.test(t)).map(dateFormat);
+    const counts = formats.reduce<Record<string, number>>((acc, f) => ({ ...acc, [f]: (acc[f] || 0) + 1 }), {});
+    const dominant = Math.max(...Object.values(counts), 0);
+    const consistency = formats.length > 0 ? dominant / formats.length : 1;
+    const ordered = ranges.filter(r => {
+        const start = dateValue(r.start);
+        const end = dateValue(r.end);
+        return start !== null && end !== null && start <= end;
+    }).length / ranges.length;
+
+    const tips: string[] = [];
+    if (consistency < 1) tips.push('Use one date format throughout, e.g. "Mar 2021 - Jun 2023".');
+    if (ordered < 1) tips.push('Check that every start date comes before its end date.');
+    return rule('dates', 'Date consistency', 0.3 + 0.4 * consistency + 0.3 * ordered,
+        `${ranges.length} date range${ranges.length === 1 ? '' : 's'} found${consistency < 1 ? ' in mixed formats' : ''}.`, tips);
+};
+
+const scoreBulletLength = (bullets: string[]): AtsRuleResult => {
+    if (bullets.length === 0) {
+        return rule('bulletLength', 'Bullet length', 0, 'No bullet points found.',
+            ['Describe each role with 3-6 bullet points.']);
+    }
+    const lengths = bullets.map(b => b.split(/\s+/).length);
+    const tooShort = lengths.filter(n => n < 8).length;
+    const tooLong = lengths.filter(n => n > 30).length;
+    const tips: string[] = [];
+    if (tooShort > 0) tips.push(`${tooShort} bullet${tooShort === 1 ? ' is' : 's are'} under 8 words; add context or results.`);
+    if (tooLong > 0) tips.push(`${tooLong} bullet${tooLong === 1 ? ' is' : 's are'} over 30 words; split or tighten ${tooLong === 1 ? 'it' : 'them'}.`);
+    return rule('bulletLength', 'Bullet length', (bullets.length - tooShort - tooLong) / bullets.length,
+        `${bullets.length - tooShort - tooLong} of ${bullets.length} bullets are 8-30 words long.`, tips);
+};
+
+const scoreActionVerbs = (bullets: string[]): AtsRuleResult => {
+    if (bullets.length === 0) {
+        return rule('actionVerbs', 'Action verbs', 0, 'No bullet points found.', ['Start each bullet with a strong action verb.']);
+    }
+    const withVerb = bullets.filter(b => ACTION_VERBS.has(tokenizeWords(b)[0] || '')).length;
+    return rule('actionVerbs', 'Action verbs', withVerb / bullets.length / 0.8,
+        `${withVerb} of ${bullets.length} bullets start with an action verb.`,
+        withVerb / bullets.length < 0.8 ? ['Start bullets with verbs like "Led", "Built" or "Reduced" instead of "Responsible for".'] : []);
+};
+
+const scoreQuantified = (bullets: string[]): AtsRuleResult => {
+    if (bullets.length === 0) {
+        return rule('quantified', 'Quantified achievements', 0, 'No bullet points found.', ['Add bullets with measurable results.']);
+    }
+    const quantified = bullets.filter(b => /\d|%|\$|€|£/.test(b)).length;
+    // Around 40% of bullets carrying a number is already strong.
+    return rule('quantified', 'Quantified achievements', quantified / bullets.length / 0.4,
+        `${quantified} of ${bullets.length} bullets include a number, percentage or amount.`,
+        quantified / bullets.length < 0.4 ? ['Quantify results: team sizes, percentages, revenue, time saved.'] : []);
+};
+
+// Whether a word can be a keyword on its own, rather than filler or a bare number.
+export const isMeaningfulWord = (word: string) => word.length >= 3 && !STOP_WORDS.has(word) && !/^\d+$/.test(word);
+
+// The most frequent meaningful terms in a job description, most important first.
+export const extractKeywords = (text: string, limit = 25): string[] => {
+    const counts = new Map<string, number>();
+    for (const word of tokenizeWords(text)) {
+        if (!isMeaningfulWord(word)) continue;
+        counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([word]) => word);
+};
+
+export const findMissingKeywords = (resumeText: string, keywords: string[]): string[] => {
+    const present = new Set(tokenizeWords(resumeText));
+    return keywords.filter(keyword => !present.has(keyword));
+};
+
+const scoreKeywords = (text: string, jobDescription?: string): AtsRuleResult => {
+    const keywords = jobDescription ? extractKeywords(jobDescription) : [];
+    if (keywords.length === 0) {
+        return rule('keywords', 'Keyword coverage', 0, 'Add a target job description to measure keyword coverage.', [], false);
+    }
+    const missing = findMissingKeywords(text, keywords);
+    const covered = keywords.length - missing.length;
+    return rule('keywords', 'Keyword coverage', covered / keywords.length / 0.8,
+        `${covered} of ${keywords.length} key terms from the job description appear in your resume.`,
+        missing.length > 0 ? [`Consider working in: ${missing.slice(0, 8).join(', ')}.`] : []);
+};
+
+const PARSEABLE_TYPES = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
+
+const scoreParseability = (text: string, fileType?: string): AtsRuleResult => {
+    const tips: string[] = [];
+    let fraction = 1;
+
+    if (fileType && !PARSEABLE_TYPES.includes(fileType) && !fileType.startsWith('text/')) {
+        fraction -= 0.3;
+        tips.push('Submit a DOCX or text-based PDF; other formats are often rejected by ATS software.');
+    }
+    const garbled = (text.match(/[�\u0000-\u0008\u000E-\u001F]/g) || []).length;
+    if (garbled > 0) {
+        fraction -= Math.min(0.4, garbled / 50);
+        tips.push('Some characters could not be read; avoid unusual fonts, icons and symbols.');
+    }
+    const wordCount = tokenizeWords(text).length;
+    if (wordCount < 150) {
+        fraction -= 0.3;
+        tips.push('Very little text was extracted; make sure the resume is not a scanned image.');
+    }
+    const lines = lineOf(text);
+    const wideLines = lines.filter(line => /\S\s{4,}\S/.test(line)).length;
+    if (lines.length > 0 && wideLines / lines.length > 0.2) {
+        fraction -= 0.2;
+        tips.push('Text appears to be laid out in columns or tables, which many ATS parsers read out of order.');
+    }
+
+    return rule('parseability', 'Parse-ability', fraction,
+        tips.length === 0 ? `${wordCount} words extracted cleanly.` : `${wordCount} words extracted with some issues.`, tips);
+};
+
+export const scoreResume = (text: string, options: AtsScoreOptions = {}): AtsScoreReport => {
+    const bullets = getBullets(text);
+    const rules = [
+        scoreSections(text),
+        scoreContact(text),
+        scoreDates(text),
+        scoreBulletLength(bullets),
+        scoreActionVerbs(bullets),
+        scoreQuantified(bullets),
+        scoreKeywords(text, options.jobDescription),
+        scoreParseability(text, options.fileType),
+    ];
+
+    // Rules that can't be evaluated are left out rather than counted as zero.
+    const applicable = rules.filter(r => r.applicable);
+    const earned = applicable.reduce((sum, r) => sum + r.points, 0);
+    const possible = applicable.reduce((sum, r) => sum + r.maxPoints, 0);
+    return { score: possible > 0 ? Math.round(earned / possible * 100) : 0, rules };
+};
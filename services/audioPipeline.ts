@@ -0,0 +1,192 @@
+import processorsUrl from './audioProcessors.ts?worker&url';
+
+// Microphone capture and PCM playback on AudioWorklets, shared by the mock interview and the pitch
+// coach. The processors themselves live in audioProcessors.ts.
+
+// What the Live API expects from the microphone.
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Short chunks keep latency down; each one is also a voice activity frame.
+const CAPTURE_CHUNK_MS = 50;
+// Enough buffered audio to ride out ordinary network jitter without a noticeable delay.
+const PLAYBACK_PREBUFFER_MS = 120;
+// How long playback has to stay empty before the speaker counts as finished.
+const PLAYBACK_IDLE_AFTER_MS = 250;
+
+// --- Devices ---
+
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> =>
+    (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
+
+// Echo cancellation matters most here: without it the interviewer's voice from the speakers is picked
+// up and transcribed as the candidate's.
+export const microphoneConstraints = (deviceId?: string | null): MediaTrackConstraints => ({
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    channelCount: 1,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+});
+
+// Falls back to the default microphone when the chosen one has been unplugged.
+export const openMicrophone = async (deviceId?: string | null, video?: boolean | MediaTrackConstraints): Promise<MediaStream> => {
+    try {
+        return await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(deviceId), video });
+    } catch (err) {
+        if (deviceId && err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+            return navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(), video });
+        }
+        throw err;
+    }
+};
+
+// --- Levels and voice activity ---
+
+// Chunks quieter than this (RMS) are never treated as speech, however quiet the room is.
+const MIN_SPEECH_LEVEL = 0.01;
+// How far above the room's background noise a chunk has to be to count as speech.
+const NOISE_MARGIN = 3;
+// How quickly, per second, the noise estimate rises towards louder input. It drops at once on a quieter
+// chunk, but rises slowly enough that a long stretch of talking isn't mistaken for a noisy room.
+const NOISE_RISE_PER_SECOND = 0.008;
+
+export const createVoiceActivityDetector = () => {
+    let noiseFloor = MIN_SPEECH_LEVEL / NOISE_MARGIN;
+    return (level: number, durationMs: number): boolean => {
+        noiseFloor = level < noiseFloor
+            ? level
+            : noiseFloor + (level - noiseFloor) * Math.min(1, NOISE_RISE_PER_SECOND * (durationMs / 1000));
+        return level >= Math.max(MIN_SPEECH_LEVEL, noiseFloor * NOISE_MARGIN);
+    };
+};
+
+// Maps an RMS level to 0–1 on a decibel scale, which is how loudness is heard.
+export const levelToMeter = (level: number): number => {
+    if (level <= 0) return 0;
+    const db = 20 * Math.log10(level);
+    return Math.min(1, Math.max(0, (db + 60) / 60));
+};
+
+// --- Worklets ---
+
+const contextsWithProcessors = new WeakSet<BaseAudioContext>();
+
+const loadProcessors = async (context: AudioContext) => {
+    if (contextsWithProcessors.has(context)) return;
+    await context.audioWorklet.addModule(processorsUrl);
+    contextsWithProcessors.add(context);
+};
+
+export interface CapturedChunk {
+    // Mono samples at CAPTURE_SAMPLE_RATE.
+    samples: Float32Array;
+    level: number;
+    isSpeech: boolean;
+    durationMs: number;
+    // Epoch milliseconds.
+    endedAt: number;
+}
+
+export interface MicCapture {
+    stop: () => Promise<void>;
+}
+
+// Streams the microphone as 16 kHz chunks. The context runs at the device's own rate and the worklet
+// resamples, which avoids browsers that refuse to mix a microphone into a context at another rate.
+export const startMicCapture = async (stream: MediaStream, onChunk: (chunk: CapturedChunk) => void): Promise<MicCapture> => {
+    const context = new AudioContext();
+    try {
+        await loadProcessors(context);
+        const source = context.createMediaStreamSource(stream);
+        const node = new AudioWorkletNode(context, 'mic-capture', {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            processorOptions: {
+                targetSampleRate: CAPTURE_SAMPLE_RATE,
+                chunkSamples: Math.round((CAPTURE_SAMPLE_RATE * CAPTURE_CHUNK_MS) / 1000),
+            },
+        });
+        // Nothing is heard, but some browsers only run nodes that lead to the speakers.
+        const mute = context.createGain();
+        mute.gain.value = 0;
+        source.connect(node);
+        node.connect(mute);
+        mute.connect(context.destination);
+
+        const isSpeech = createVoiceActivityDetector();
+        node.port.onmessage = ({ data }: MessageEvent<{ samples: Float32Array; level: number }>) => {
+            const durationMs = (data.samples.length / CAPTURE_SAMPLE_RATE) * 1000;
+            onChunk({ samples: data.samples, level: data.level, isSpeech: isSpeech(data.level, durationMs), durationMs, endedAt: Date.now() });
+        };
+        await context.resume();
+
+        return {
+            stop: async () => {
+                node.port.onmessage = null;
+                source.disconnect();
+                node.disconnect();
+                await context.close();
+            },
+        };
+    } catch (err) {
+        context.close().catch(console.error);
+        throw err;
+    }
+};
+
+export interface PcmPlayer {
+    // Queues mono samples at the player's sample rate.
+    play: (samples: Float32Array) => void;
+    // Drops everything queued, as when the speaker is interrupted.
+    clear: () => void;
+    // When the audio queued so far should finish playing, in epoch milliseconds.
+    endsAt: () => number;
+    close: () => Promise<void>;
+}
+
+export const createPcmPlayer = async (sampleRate: number, onPlayingChange: (playing: boolean) => void): Promise<PcmPlayer> => {
+    const context = new AudioContext({ sampleRate });
+    try {
+        await loadProcessors(context);
+        const node = new AudioWorkletNode(context, 'pcm-playback', {
+            numberOfInputs: 0,
+            numberOfOutputs: 1,
+            outputChannelCount: [1],
+            processorOptions: { prebufferMs: PLAYBACK_PREBUFFER_MS, idleAfterMs: PLAYBACK_IDLE_AFTER_MS },
+        });
+        node.connect(context.destination);
+        node.port.onmessage = ({ data }: MessageEvent<{ type: 'state'; playing: boolean }>) => {
+            if (data.type === 'state') onPlayingChange(data.playing);
+        };
+        await context.resume();
+
+        let queuedUntil = 0;
+        return {
+            play: (samples) => {
+                const start = Math.max(queuedUntil, Date.now() + (queuedUntil > Date.now() ? 0 : PLAYBACK_PREBUFFER_MS));
+                queuedUntil = start + (samples.length / sampleRate) * 1000;
+                node.port.postMessage({ type: 'push', samples }, [samples.buffer]);
+            },
+            clear: () => {
+                queuedUntil = 0;
+                node.port.postMessage({ type: 'clear' });
+            },
+            endsAt: () => Math.max(queuedUntil, Date.now()),
+            close: async () => {
+                node.port.onmessage = null;
+                node.disconnect();
+                await context.close();
+            },
+        };
+    } catch (err) {
+        context.close().catch(console.error);
+        throw err;
+    }
+};
+
+// The Live API sends little-endian 16-bit PCM.
+export const pcm16ToFloat32 = (bytes: Uint8Array): Float32Array => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = new Float32Array(Math.floor(bytes.byteLength / 2));
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 32768;
+    return samples;
+};
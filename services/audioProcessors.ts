@@ -0,0 +1,142 @@
+// Runs on the audio rendering thread. audioPipeline.ts loads it with audioWorklet.addModule, so it can't
+// import anything from the rest of the app. The empty export keeps it a module, so the declarations
+// below don't leak into the rest of the app as globals.
+export {};
+
+declare const sampleRate: number;
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+    abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+declare function registerProcessor(name: string, processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+
+// Downsamples the microphone to the target rate and posts it in fixed-size chunks with their RMS level.
+class MicCaptureProcessor extends AudioWorkletProcessor {
+    private ratio: number;
+    private chunk: Float32Array;
+    private filled = 0;
+    // Input samples averaged into the next output sample, which also filters out what the lower rate
+    // can't represent.
+    private sum = 0;
+    private count = 0;
+    private position = 0;
+    private last = 0;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const { targetSampleRate, chunkSamples } = options.processorOptions;
+        this.ratio = sampleRate / targetSampleRate;
+        this.chunk = new Float32Array(chunkSamples);
+    }
+
+    process(inputs: Float32Array[][]) {
+        const input = inputs[0]?.[0];
+        if (!input) return true;
+        for (let i = 0; i < input.length; i++) {
+            this.sum += input[i];
+            this.count++;
+            this.position++;
+            while (this.position >= this.ratio) {
+                this.position -= this.ratio;
+                if (this.count > 0) this.last = this.sum / this.count;
+                this.push(this.last);
+                this.sum = 0;
+                this.count = 0;
+            }
+        }
+        return true;
+    }
+
+    private push(sample: number) {
+        this.chunk[this.filled++] = sample;
+        if (this.filled < this.chunk.length) return;
+        let energy = 0;
+        for (let i = 0; i < this.chunk.length; i++) energy += this.chunk[i] * this.chunk[i];
+        this.port.postMessage({ samples: this.chunk, level: Math.sqrt(energy / this.chunk.length) }, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunk.length);
+        this.filled = 0;
+    }
+}
+
+// Plays PCM chunks as they arrive. It waits for a little audio to build up before starting, and again
+// whenever it runs dry, so uneven network delivery becomes a short delay rather than a gap mid-word.
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+    private queue: Float32Array[] = [];
+    private offset = 0;
+    private queued = 0;
+    private playing = false;
+    private waited = 0;
+    private idleFor = 0;
+    private reported = false;
+    private prebuffer: number;
+    private idleAfter: number;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const { prebufferMs, idleAfterMs } = options.processorOptions;
+        this.prebuffer = Math.round((sampleRate * prebufferMs) / 1000);
+        this.idleAfter = Math.round((sampleRate * idleAfterMs) / 1000);
+        this.port.onmessage = ({ data }) => {
+            if (data.type === 'push') {
+                this.queue.push(data.samples);
+                this.queued += data.samples.length;
+            } else if (data.type === 'clear') {
+                this.queue = [];
+                this.offset = 0;
+                this.queued = 0;
+                this.playing = false;
+                this.waited = 0;
+                this.report(false);
+            }
+        };
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+        const output = outputs[0][0];
+        if (!this.playing && this.queued > 0) {
+            // A short reply may never fill the buffer, so don't wait longer than filling it would take.
+            this.waited += output.length;
+            if (this.queued >= this.prebuffer || this.waited >= this.prebuffer) {
+                this.playing = true;
+                this.waited = 0;
+            }
+        }
+
+        let written = 0;
+        if (this.playing) {
+            while (written < output.length && this.queue.length > 0) {
+                const head = this.queue[0];
+                const count = Math.min(output.length - written, head.length - this.offset);
+                output.set(head.subarray(this.offset, this.offset + count), written);
+                written += count;
+                this.offset += count;
+                this.queued -= count;
+                if (this.offset === head.length) {
+                    this.queue.shift();
+                    this.offset = 0;
+                }
+            }
+            if (this.queued === 0) this.playing = false;
+        }
+
+        // Short gaps while rebuffering don't count as the speaker stopping.
+        if (written > 0) {
+            this.idleFor = 0;
+            this.report(true);
+        } else if (this.queued === 0) {
+            this.idleFor += output.length;
+            if (this.idleFor >= this.idleAfter) this.report(false);
+        }
+        return true;
+    }
+
+    private report(playing: boolean) {
+        if (playing === this.reported) return;
+        this.reported = playing;
+        this.port.postMessage({ type: 'state', playing });
+    }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
+registerProcessor('pcm-playback', PcmPlaybackProcessor);
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, migrateBackup, parseBackup, trackedJobsToCsv } from './dataBackup';
+
+const legacyJob = { id: '1', title: 'Backend Engineer', company: 'Acme', location: '', description: '', url: '', status: 'Interviewing', applicationDate: '2024-03-01' };
+
+describe('migrateBackup', () => {
+    it('upgrades a raw tracked jobs list copied out of storage', () => {
+        const backup = migrateBackup([legacyJob, null, 'junk']);
+        expect(backup.version).toBe(BACKUP_VERSION);
+        expect(backup.trackedJobs).toHaveLength(1);
+        expect(backup.trackedJobs[0]).toMatchObject({ status: 'Recruiter Screen', source: 'agent', tags: [] });
+        expect(backup.trackedJobs[0].stageTimestamps?.Applied).toBe(new Date('2024-03-01').toISOString());
+        expect(backup.interviewSessions).toEqual([]);
+    });
+
+    it('unwraps a copied storage value with its version envelope', () => {
+        expect(migrateBackup({ $v: 1, data: [legacyJob] }).trackedJobs).toHaveLength(1);
+    });
+
+    it('adds interview history to version 1 bundles', () => {
+        const backup = migrateBackup({ format: 'careernova-backup', version: 1, exportedAt: '2024-05-01T00:00:00Z', trackedJobs: [], searchHistory: [], resumes: [], settings: { theme: 'dark' } });
+        expect(backup).toMatchObject({ version: BACKUP_VERSION, exportedAt: '2024-05-01T00:00:00Z', interviewSessions: [], settings: { theme: 'dark' } });
+    });
+
+    it('drops malformed records and recordings', () => {
+        const backup = migrateBackup({
+            format: 'careernova-backup',
+            version: BACKUP_VERSION,
+            trackedJobs: [{ id: '2' }, legacyJob],
+            searchHistory: [{ id: 's', mission: 'x', date: '2024-01-01', resultCount: 1 }, { id: 'no-date', mission: 'y' }, {}],
+            resumes: [{ id: 'r', revisions: [], analyses: [] }, { id: 'broken' }],
+            interviewSessions: [
+                { id: 'i', startedAt: '2024-01-01T00:00:00Z', transcript: [], audio: ['data:audio/webm;base64,AAAA', 'https://example.com/x'] },
+                { id: 'no-transcript', startedAt: '2024-01-01T00:00:00Z' },
+            ],
+            settings: 'dark',
+        });
+        expect(backup.trackedJobs.map(job => job.id)).toEqual(['1']);
+        expect(backup.searchHistory).toHaveLength(1);
+        expect(backup.resumes.map(resume => resume.id)).toEqual(['r']);
+        expect(backup.interviewSessions.map(session => session.id)).toEqual(['i']);
+        expect(backup.interviewSessions[0].audio).toEqual(['data:audio/webm;base64,AAAA']);
+        expect(backup.settings).toEqual({});
+    });
+
+    it('rejects files that are not backups or come from a newer version', () => {
+        expect(() => migrateBackup({ hello: 'world' })).toThrow('not a CareerNova backup');
+        expect(() => migrateBackup({ format: 'careernova-backup', version: BACKUP_VERSION + 1 })).toThrow('newer version');
+        expect(() => parseBackup('{not json')).toThrow('not valid JSON');
+    });
+});
+
+describe('trackedJobsToCsv', () => {
+    it('quotes cells and defuses spreadsheet formulas', () => {
+        const csv = trackedJobsToCsv([{ ...legacyJob, status: 'Applied', title: '=HYPERLINK("x")', company: 'Acme, Inc.', notes: 'Line one\nLine two' }]);
+        const row = csv.split('\r\n')[1];
+        expect(csv.startsWith('\uFEFFTitle,Company,')).toBe(true);
+        expect(row.startsWith(`"'=HYPERLINK(""x"")","Acme, Inc.",`)).toBe(true);
+        expect(csv).toContain('"Line one\nLine two"');
+    });
+});
@@ -0,0 +1,278 @@
+import { AgentSearchHistoryItem, ApplicationStatus, InterviewSession, ResumeRecord, TrackedJob } from "../types";
+import { STAGE_ORDER, SOURCE_LABELS, hiddenStagesStore, loadTrackedJobs, saveTrackedJobs, trackedJobsStore } from "./jobTracker";
+import { findSameJob, mergeJobs, pickPrimary } from "./jobIdentity";
+import { activeResumeStore, listResumes, restoreResumes } from "./resumeLibrary";
+import { searchHistoryStore } from "./searchHistory";
+import { listInterviewSessions, restoreInterviewSessions } from "./interviewSessions";
+import { themeStore } from "./preferences";
+
+// One file holding everything CareerNova keeps in this browser, so a job search can move to
+// another laptop or browser. Bump BACKUP_VERSION whenever the bundle's shape changes and add a
+// step to MIGRATIONS that upgrades the previous version.
+
+const BACKUP_FORMAT = 'careernova-backup';
+export const BACKUP_VERSION = 2;
+
+export interface BackupSettings {
+    theme?: 'light' | 'dark';
+    activeResumeId?: string;
+    hiddenStages?: ApplicationStatus[];
+}
+
+// Recordings are written as data URLs, since a backup is JSON.
+export type BackupInterviewSession = Omit<InterviewSession, 'audio'> & { audio?: string[] };
+
+export interface CareerNovaBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    trackedJobs: TrackedJob[];
+    searchHistory: AgentSearchHistoryItem[];
+    resumes: ResumeRecord[];
+    interviewSessions: BackupInterviewSession[];
+    settings: BackupSettings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+    trackedJobs: { added: number; merged: number };
+    searchHistory: number;
+    resumes: { added: number; updated: number };
+    interviewSessions: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The objects in a list field; anything else in its place reads as an empty list.
+const objectsOf = (value: unknown): JsonObject[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+// Upgrades a bundle of the keyed version to the next one.
+const MIGRATIONS: Record<number, (bundle: unknown) => JsonObject> = {
+    // Before bundles existed, people copied the raw `trackedJobs` value out of the browser's storage.
+    0: jobs => ({ format: BACKUP_FORMAT, version: 1, exportedAt: '', trackedJobs: trackedJobsStore.migrate(objectsOf(jobs), 0), searchHistory: [], resumes: [], settings: {} }),
+    // Interview history joined the bundle.
+    1: bundle => ({ ...(isObject(bundle) ? bundle : {}), version: 2, interviewSessions: [] }),
+};
+
+const readSettings = (): BackupSettings => ({
+    theme: themeStore.read() || undefined,
+    activeResumeId: activeResumeStore.read() || undefined,
+    hiddenStages: hiddenStagesStore.read(),
+});
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+// Recordings can run to many megabytes, so they're only included when asked for.
+const backupSessions = async (includeRecordings: boolean): Promise<BackupInterviewSession[]> =>
+    Promise.all((await listInterviewSessions()).map(async ({ audio, ...session }) =>
+        includeRecordings && audio?.length ? { ...session, audio: await Promise.all(audio.map(blobToDataUrl)) } : session));
+
+export const createBackup = async ({ includeRecordings = false }: { includeRecordings?: boolean } = {}): Promise<CareerNovaBackup> => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    trackedJobs: loadTrackedJobs(),
+    searchHistory: searchHistoryStore.read(),
+    resumes: await listResumes(),
+    interviewSessions: await backupSessions(includeRecordings),
+    settings: readSettings(),
+});
+
+const isSearchHistoryItem = (item: JsonObject): item is JsonObject & AgentSearchHistoryItem =>
+    typeof item.id === 'string' && !!item.id && typeof item.date === 'string';
+
+const isResumeRecord = (resume: JsonObject): resume is JsonObject & ResumeRecord =>
+    typeof resume.id === 'string' && !!resume.id && Array.isArray(resume.revisions) && Array.isArray(resume.analyses);
+
+const isBackupSession = (session: JsonObject): session is JsonObject & BackupInterviewSession =>
+    typeof session.id === 'string' && !!session.id && typeof session.startedAt === 'string' && Array.isArray(session.transcript);
+
+const parseSettings = (value: unknown): BackupSettings => {
+    if (!isObject(value)) return {};
+    return {
+        theme: value.theme === 'light' || value.theme === 'dark' ? value.theme : undefined,
+        activeResumeId: typeof value.activeResumeId === 'string' ? value.activeResumeId : undefined,
+        hiddenStages: Array.isArray(value.hiddenStages)
+            ? value.hiddenStages.filter((stage): stage is ApplicationStatus => STAGE_ORDER.some(known => known === stage))
+            : undefined,
+    };
+};
+
+// Validates a parsed backup file and brings it up to the current version.
+export const migrateBackup = (raw: unknown): CareerNovaBackup => {
+    let bundle: unknown = raw;
+    let version: number;
+    // A copied storage value may carry its version envelope.
+    if (isObject(bundle) && Array.isArray(bundle.data) && Number.isInteger(bundle.$v)) {
+        bundle = bundle.data;
+    }
+    if (Array.isArray(bundle)) {
+        version = 0;
+    } else if (isObject(bundle) && bundle.format === BACKUP_FORMAT && typeof bundle.version === 'number' && Number.isInteger(bundle.version)) {
+        version = bundle.version;
+    } else {
+        throw new Error("This file is not a CareerNova backup.");
+    }
+    if (version > BACKUP_VERSION) {
+        throw new Error("This backup was made by a newer version of CareerNova. Update the app and try again.");
+    }
+    while (version < BACKUP_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`Backups from version ${version} can no longer be imported.`);
+        bundle = migrate(bundle);
+        version += 1;
+    }
+
+    const data = isObject(bundle) ? bundle : {};
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        // Records pass through the same upgrades the app applies when it reads its own storage.
+        trackedJobs: trackedJobsStore.migrate(objectsOf(data.trackedJobs).filter(job => job.id && job.title), trackedJobsStore.version),
+        searchHistory: objectsOf(data.searchHistory).filter(isSearchHistoryItem),
+        resumes: objectsOf(data.resumes).filter(isResumeRecord),
+        interviewSessions: objectsOf(data.interviewSessions)
+            .filter(isBackupSession)
+            .map(session => Array.isArray(session.audio) ? { ...session, audio: session.audio.filter(url => typeof url === 'string' && url.startsWith('data:')) } : session),
+        settings: parseSettings(data.settings),
+    };
+};
+
+export const parseBackup = (text: string): CareerNovaBackup => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("This file is not valid JSON.");
+    }
+    return migrateBackup(raw);
+};
+
+// The same posting tracked on both sides is folded into one record, keeping whichever got further.
+// Incoming jobs are only matched against this browser's jobs, never against each other.
+const mergeTrackedJobs = (current: TrackedJob[], incoming: TrackedJob[]) => {
+    const jobs = [...current];
+    let added = 0;
+    let merged = 0;
+    for (const job of incoming) {
+        const candidates = current.filter(existing => !(job.distinctFrom || []).includes(existing.id));
+        const matchId = (current.find(existing => existing.id === job.id) || findSameJob(candidates, job))?.id;
+        const index = jobs.findIndex(existing => existing.id === matchId);
+        if (index < 0) {
+            jobs.push(job);
+            added += 1;
+            continue;
+        }
+        const match = jobs[index];
+        const primary = pickPrimary([match, job]);
+        jobs[index] = { ...mergeJobs(primary, [primary === match ? job : match]), id: match.id };
+        merged += 1;
+    }
+    return { jobs, added, merged };
+};
+
+const applySettings = (settings: BackupSettings, mode: ImportMode) => {
+    const current = readSettings();
+    // Merging keeps this browser's preferences and only fills in ones it has never set.
+    const take = <K extends keyof BackupSettings>(key: K) => mode === 'replace' ? settings[key] : current[key] ?? settings[key];
+    const theme = take('theme');
+    if (theme) themeStore.write(theme);
+    const hiddenStages = take('hiddenStages');
+    if (hiddenStages) hiddenStagesStore.write(hiddenStages.filter(stage => STAGE_ORDER.includes(stage)));
+    const activeResumeId = take('activeResumeId');
+    if (activeResumeId || mode === 'replace') activeResumeStore.write(activeResumeId || null);
+};
+
+const STORAGE_FULL = "Browser storage is full, so the backup could not be imported. Free up space by deleting old resumes and try again.";
+
+export const importBackup = async (backup: CareerNovaBackup, mode: ImportMode): Promise<ImportSummary> => {
+    const { jobs, added, merged } = mode === 'merge'
+        ? mergeTrackedJobs(loadTrackedJobs(), backup.trackedJobs)
+        : { jobs: backup.trackedJobs, added: backup.trackedJobs.length, merged: 0 };
+
+    const currentHistory = mode === 'merge' ? searchHistoryStore.read() : [];
+    const newHistory = backup.searchHistory.filter(item => !currentHistory.some(existing => existing.id === item.id));
+    const history = [...currentHistory, ...newHistory].sort((a, b) => b.date.localeCompare(a.date));
+
+    // Resumes present on both sides keep whichever copy was edited last.
+    const currentResumes = mode === 'merge' ? await listResumes() : [];
+    const resumes = backup.resumes.filter(resume => {
+        const existing = currentResumes.find(r => r.id === resume.id);
+        return !existing || resume.updatedAt > existing.updatedAt;
+    });
+
+    // Sessions don't change once recorded apart from a report generated later, so one present on both
+    // sides keeps this browser's copy unless only the backup's has a report. This browser's recording
+    // is kept when the backup has none.
+    const currentSessions = mode === 'merge' ? await listInterviewSessions() : [];
+    const sessions: InterviewSession[] = [];
+    for (const { audio, ...session } of backup.interviewSessions) {
+        const existing = currentSessions.find(s => s.id === session.id);
+        if (existing && (existing.report || !session.report)) continue;
+        const recordings = audio?.length ? await Promise.all(audio.map(dataUrlToBlob)) : existing?.audio;
+        sessions.push(recordings ? { ...session, audio: recordings } : session);
+    }
+
+    // The small browser storage is the one likely to be full, so it is written first and put back if
+    // it doesn't all fit. Nothing has been replaced in IndexedDB yet at that point.
+    const previousJobs = loadTrackedJobs();
+    if (!saveTrackedJobs(jobs) || !searchHistoryStore.write(history)) {
+        saveTrackedJobs(previousJobs);
+        throw new Error(STORAGE_FULL);
+    }
+    await restoreResumes(resumes, mode === 'replace');
+    await restoreInterviewSessions(sessions, mode === 'replace');
+    applySettings(backup.settings, mode);
+
+    return {
+        trackedJobs: { added, merged },
+        searchHistory: newHistory.length,
+        resumes: {
+            added: resumes.filter(resume => !currentResumes.some(r => r.id === resume.id)).length,
+            updated: resumes.filter(resume => currentResumes.some(r => r.id === resume.id)).length,
+        },
+        interviewSessions: sessions.filter(session => !currentSessions.some(s => s.id === session.id)).length,
+    };
+};
+
+// --- CSV export of tracked jobs, for spreadsheets ---
+
+const csvCell = (value: string | undefined): string => {
+    let text = value ?? '';
+    // Spreadsheet apps run cells starting with these as formulas; posting text can contain anything.
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const dateOnly = (iso?: string) => iso ? iso.slice(0, 10) : '';
+
+export const trackedJobsToCsv = (jobs: TrackedJob[]): string => {
+    const header = ['Title', 'Company', 'Location', 'Stage', 'Source', 'Applied', 'Salary', 'Tags', 'URL', 'Resume', 'Notes', ...STAGE_ORDER.map(stage => `Reached ${stage}`)];
+    const rows = jobs.map(job => [
+        job.title,
+        job.company,
+        job.location,
+        job.status,
+        SOURCE_LABELS[job.source || 'agent'],
+        dateOnly(job.applicationDate),
+        job.salary,
+        (job.tags || []).join('; '),
+        job.url,
+        job.submittedResume?.resumeName,
+        job.notes,
+        ...STAGE_ORDER.map(stage => dateOnly(job.stageTimestamps?.[stage])),
+    ]);
+    // The byte order mark makes Excel read the file as UTF-8.
+    return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
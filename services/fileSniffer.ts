@@ -0,0 +1,67 @@
+import JSZip from 'jszip';
+import { DocumentFormat } from "../types";
+
+export const FORMAT_MIME_TYPES: Record<DocumentFormat, string> = {
+    'pdf': 'application/pdf',
+    'linkedin-pdf': 'application/pdf',
+    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'odt': 'application/vnd.oasis.opendocument.text',
+    'rtf': 'application/rtf',
+    'html': 'text/html',
+    'markdown': 'text/markdown',
+    'json-resume': 'application/json',
+    'txt': 'text/plain',
+    'png': 'image/png',
+    'jpeg': 'image/jpeg',
+};
+
+const HEAD_BYTES = 4096;
+
+const startsWithBytes = (head: Uint8Array, bytes: number[]) => bytes.every((byte, i) => head[i] === byte);
+
+const extensionOf = (name: string) => name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] || '';
+
+// Both DOCX and ODT are zip packages; the entries inside tell them apart.
+const sniffZip = async (file: File): Promise<DocumentFormat | null> => {
+    try {
+        const zip = await JSZip.loadAsync(await file.arrayBuffer());
+        if (zip.file('word/document.xml')) return 'docx';
+        const mimetype = await zip.file('mimetype')?.async('string');
+        if (mimetype?.trim() === 'application/vnd.oasis.opendocument.text' || zip.file('content.xml')) return 'odt';
+    } catch (error) {
+        console.error("Failed to read zip package", error);
+    }
+    return null;
+};
+
+const isJsonResume = (text: string) => {
+    try {
+        const json = JSON.parse(text);
+        return typeof json === 'object' && json !== null && typeof json.basics === 'object';
+    } catch {
+        return false;
+    }
+};
+
+// Detects a file's format from its leading bytes, falling back to its extension only to tell
+// apart text formats that have no signature. Returns null for anything we can't import.
+export const sniffDocumentFormat = async (file: File): Promise<DocumentFormat | null> => {
+    const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+    const latin1 = Array.from(head.subarray(0, 1024), byte => String.fromCharCode(byte)).join('');
+
+    // Only a header at the very start counts: text files that mention "%PDF-" aren't PDFs.
+    if (latin1.startsWith('%PDF-')) return 'pdf';
+    if (startsWithBytes(head, [0x89, 0x50, 0x4e, 0x47])) return 'png';
+    if (startsWithBytes(head, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (startsWithBytes(head, [0x50, 0x4b, 0x03, 0x04])) return sniffZip(file);
+    if (latin1.startsWith('{\\rtf')) return 'rtf';
+    // NUL bytes mean binary (or UTF-16, which resumes are not saved as in practice).
+    if (head.includes(0)) return null;
+
+    const start = new TextDecoder().decode(head).trimStart();
+    const extension = extensionOf(file.name);
+    if (start.startsWith('{')) return isJsonResume(await file.text()) ? 'json-resume' : null;
+    if (/^<(!doctype html|html|head|body|meta|div|p|h[1-6])[\s>]/i.test(start) || extension === 'html' || extension === 'htm') return 'html';
+    if (extension === 'md' || extension === 'markdown' || /^#{1,2} \S/.test(start)) return 'markdown';
+    return 'txt';
+};
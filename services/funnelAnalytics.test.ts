@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { TrackedJob } from '../types';
+import { computeFunnelAnalytics, roleFamily } from './funnelAnalytics';
+
+let nextId = 0;
+const job = (overrides: Partial<TrackedJob>): TrackedJob => ({
+    id: `job-${nextId++}`,
+    title: 'Backend Engineer',
+    company: 'Acme',
+    location: '',
+    description: '',
+    url: '',
+    status: 'Applied',
+    ...overrides,
+});
+
+const NOW = new Date(2024, 5, 12, 12);
+
+describe('roleFamily', () => {
+    it('drops seniority, levels and specialisations', () => {
+        expect(roleFamily('Senior Frontend Engineer II (React)')).toBe('Frontend Engineer');
+        expect(roleFamily('Sr. data analyst - Marketing')).toBe('Data Analyst');
+        expect(roleFamily('(Remote)')).toBe('Other');
+    });
+});
+
+describe('computeFunnelAnalytics', () => {
+    it('counts skipped stages as reached and ignores saved jobs', () => {
+        const analytics = computeFunnelAnalytics([
+            job({ status: 'Saved' }),
+            job({ status: 'Applied' }),
+            job({ status: 'Onsite' }),
+            job({ status: 'Rejected', stageTimestamps: { Applied: '2024-06-01T00:00:00Z', 'Recruiter Screen': '2024-06-03T00:00:00Z' } }),
+        ], NOW);
+        expect(analytics.appliedCount).toBe(3);
+        expect(analytics.reached).toEqual({ Applied: 3, 'Recruiter Screen': 2, Technical: 1, Onsite: 1, Offer: 0 });
+        expect(analytics.conversions[0]).toEqual({ from: 'Applied', to: 'Recruiter Screen', entered: 3, converted: 2, rate: 2 / 3 });
+    });
+
+    it('counts rejections and recruiter emails as responses', () => {
+        const analytics = computeFunnelAnalytics([
+            job({ source: 'manual', status: 'Rejected' }),
+            job({ source: 'manual', events: [{ id: 'e', type: 'recruiter-email', date: '2024-06-02' }] }),
+            job({ source: 'manual' }),
+            job({ source: 'manual' }),
+        ], NOW);
+        expect(analytics.sources.find(s => s.source === 'manual')).toMatchObject({ applied: 4, responded: 2, rate: 0.5 });
+        expect(analytics.sources.find(s => s.source === 'agent')).toMatchObject({ applied: 0, rate: 0 });
+    });
+
+    it('measures time in a stage until the job next moved', () => {
+        const analytics = computeFunnelAnalytics([
+            job({ status: 'Technical', stageTimestamps: { Applied: '2024-06-01T00:00:00Z', Technical: '2024-06-05T00:00:00Z' } }),
+            job({ status: 'Rejected', stageTimestamps: { Applied: '2024-06-01T00:00:00Z', Rejected: '2024-06-03T00:00:00Z' } }),
+            job({ status: 'Applied', stageTimestamps: { Applied: '2024-06-10T00:00:00Z' } }),
+        ], NOW);
+        expect(analytics.durations.find(d => d.stage === 'Applied')).toMatchObject({ count: 2, min: 2, median: 3, max: 4, ongoing: 1 });
+        expect(analytics.durations.find(d => d.stage === 'Technical')).toMatchObject({ count: 0, ongoing: 1 });
+    });
+
+    it('buckets applications into the last twelve weeks', () => {
+        const analytics = computeFunnelAnalytics([
+            job({ applicationDate: '2024-06-11' }),
+            job({ applicationDate: '2024-06-12' }),
+            job({ applicationDate: '2024-06-05' }),
+            job({ applicationDate: '2023-01-01' }),
+        ], NOW);
+        expect(analytics.velocity).toHaveLength(12);
+        expect(analytics.velocity.slice(-2).map(week => week.count)).toEqual([1, 2]);
+        expect(analytics.velocity.reduce((sum, week) => sum + week.count, 0)).toBe(3);
+    });
+
+    it('ranks only groups large enough to compare', () => {
+        const resume = (resumeName: string) => ({ resumeId: resumeName, resumeName, text: '', submittedAt: '2024-06-01T00:00:00Z' });
+        const analytics = computeFunnelAnalytics([
+            ...[1, 2, 3].map(() => job({ submittedResume: resume('Generic') })),
+            ...[1, 2, 3].map(i => job({ submittedResume: resume('Tailored'), status: i < 3 ? 'Technical' : 'Applied' })),
+            job({ submittedResume: resume('One-off'), status: 'Offer' }),
+        ], NOW);
+        expect(analytics.byResume.map(group => group.label)).toEqual(['Tailored', 'Generic', 'One-off']);
+        expect(analytics.byResume[0]).toMatchObject({ applied: 3, interviews: 2, offers: 0 });
+    });
+});
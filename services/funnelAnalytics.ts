@@ -0,0 +1,220 @@
+import { ApplicationStatus, JobSource, TrackedJob } from "../types";
+import { APPLICATION_STAGES, SOURCE_LABELS } from "./jobTracker";
+
+// The forward path of an application; closed stages (Rejected, Withdrawn, Ghosted) end it early.
+export const FUNNEL_STAGES: ApplicationStatus[] = ['Applied', 'Recruiter Screen', 'Technical', 'Onsite', 'Offer'];
+
+const DAY_MS = 86400000;
+const WEEK_MS = 7 * DAY_MS;
+const VELOCITY_WEEKS = 12;
+// Groups smaller than this are shown but not ranked, since one offer would swing them wildly.
+export const MIN_GROUP_SIZE = 3;
+
+export interface StageConversion {
+    from: ApplicationStatus;
+    to: ApplicationStatus;
+    entered: number;
+    converted: number;
+    rate: number;
+}
+
+export interface SourceResponse {
+    source: JobSource;
+    label: string;
+    applied: number;
+    responded: number;
+    rate: number;
+}
+
+export interface StageDuration {
+    stage: ApplicationStatus;
+    // Days spent in the stage by jobs that have left it.
+    count: number;
+    min: number;
+    p25: number;
+    median: number;
+    p75: number;
+    max: number;
+    // Jobs still sitting in the stage.
+    ongoing: number;
+}
+
+export interface WeeklyCount {
+    weekStart: Date;
+    count: number;
+}
+
+export interface GroupPerformance {
+    label: string;
+    applied: number;
+    interviews: number;
+    offers: number;
+    interviewRate: number;
+    offerRate: number;
+}
+
+export interface FunnelAnalytics {
+    appliedCount: number;
+    reached: Record<string, number>;
+    conversions: StageConversion[];
+    sources: SourceResponse[];
+    durations: StageDuration[];
+    velocity: WeeklyCount[];
+    byResume: GroupPerformance[];
+    byRoleFamily: GroupPerformance[];
+}
+
+const appliedAt = (job: TrackedJob): Date | null => {
+    const value = job.stageTimestamps?.Applied || job.applicationDate;
+    return value ? new Date(value) : null;
+};
+
+const hasApplied = (job: TrackedJob) => job.status !== 'Saved' || !!appliedAt(job);
+
+// How far along the funnel a job got. Stages can be skipped on the board (e.g. straight to Onsite),
+// so reaching a stage implies every stage before it.
+const furthestStageIndex = (job: TrackedJob): number => {
+    if (!hasApplied(job)) return -1;
+    const recorded = FUNNEL_STAGES.filter(stage => job.stageTimestamps?.[stage] || job.status === stage);
+    return Math.max(0, ...recorded.map(stage => FUNNEL_STAGES.indexOf(stage)));
+};
+
+// Any reply from the company counts, including a rejection.
+const hasResponse = (job: TrackedJob) =>
+    furthestStageIndex(job) >= 1 || job.status === 'Rejected' || !!job.stageTimestamps?.Rejected
+    || (job.events || []).some(event => event.type === 'recruiter-email');
+
+const ratio = (part: number, whole: number) => whole > 0 ? part / whole : 0;
+
+const quantile = (sorted: number[], q: number) => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Offer and the closed stages are where applications end, so time spent in them says little.
+const TIMED_STAGES = APPLICATION_STAGES.filter(stage => !stage.closed && stage.id !== 'Offer').map(stage => stage.id);
+
+const stageDurations = (jobs: TrackedJob[]): StageDuration[] =>
+    TIMED_STAGES.map(stage => {
+        const days: number[] = [];
+        let ongoing = 0;
+        for (const job of jobs) {
+            const entered = job.stageTimestamps?.[stage];
+            if (!entered) continue;
+            const start = new Date(entered).getTime();
+            // The stage ended when the job first moved anywhere else afterwards.
+            const exits = Object.entries(job.stageTimestamps || {})
+                .filter(([other, at]) => other !== stage && at && new Date(at).getTime() > start)
+                .map(([, at]) => new Date(at!).getTime());
+            if (exits.length > 0) days.push((Math.min(...exits) - start) / DAY_MS);
+            else if (job.status === stage) ongoing++;
+        }
+        const sorted = days.sort((a, b) => a - b);
+        return sorted.length === 0
+            ? { stage, count: 0, min: 0, p25: 0, median: 0, p75: 0, max: 0, ongoing }
+            : {
+                stage,
+                count: sorted.length,
+                min: sorted[0],
+                p25: quantile(sorted, 0.25),
+                median: quantile(sorted, 0.5),
+                p75: quantile(sorted, 0.75),
+                max: sorted[sorted.length - 1],
+                ongoing,
+            };
+    }).filter(duration => duration.count > 0 || duration.ongoing > 0);
+
+const startOfWeek = (date: Date) => {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    // Weeks start on Monday.
+    day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+    return day;
+};
+
+const weeklyVelocity = (jobs: TrackedJob[], now: Date): WeeklyCount[] => {
+    const thisWeek = startOfWeek(now);
+    const weeks = Array.from({ length: VELOCITY_WEEKS }, (_, i) => {
+        const weekStart = new Date(thisWeek);
+        weekStart.setDate(weekStart.getDate() - (VELOCITY_WEEKS - 1 - i) * 7);
+        return { weekStart, count: 0 };
+    });
+    for (const job of jobs) {
+        const at = appliedAt(job);
+        if (!at) continue;
+        const index = Math.round((startOfWeek(at).getTime() - weeks[0].weekStart.getTime()) / WEEK_MS);
+        if (index >= 0 && index < weeks.length) weeks[index].count++;
+    }
+    return weeks;
+};
+
+const SENIORITY = /\b(senior|sr|junior|jr|lead|staff|principal|head|associate|intern|entry[- ]level|mid[- ]level|i{1,3}|iv|[1-4])\b\.?/gi;
+
+// Collapses titles like "Senior Frontend Engineer II (React)" to "Frontend Engineer".
+export const roleFamily = (title: string): string => {
+    const core = title
+        .replace(/\(.*?\)|\[.*?\]/g, ' ')
+        .split(/\s[-–|,/]\s|,/)[0]
+        .replace(SENIORITY, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    if (!core) return 'Other';
+    return core.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(' ');
+};
+
+const groupPerformance = (jobs: TrackedJob[], keyOf: (job: TrackedJob) => string): GroupPerformance[] => {
+    const groups = new Map<string, TrackedJob[]>();
+    for (const job of jobs) {
+        const key = keyOf(job);
+        groups.set(key, [...(groups.get(key) || []), job]);
+    }
+    return [...groups.entries()].map(([label, group]) => {
+        const interviews = group.filter(job => furthestStageIndex(job) >= 1).length;
+        const offers = group.filter(job => furthestStageIndex(job) >= FUNNEL_STAGES.indexOf('Offer')).length;
+        return {
+            label,
+            applied: group.length,
+            interviews,
+            offers,
+            interviewRate: ratio(interviews, group.length),
+            offerRate: ratio(offers, group.length),
+        };
+    }).sort((a, b) => {
+        // Rank only groups big enough to mean something; the rest follow by size.
+        const aRanked = a.applied >= MIN_GROUP_SIZE;
+        const bRanked = b.applied >= MIN_GROUP_SIZE;
+        if (aRanked !== bRanked) return aRanked ? -1 : 1;
+        return aRanked ? b.interviewRate - a.interviewRate || b.offerRate - a.offerRate : b.applied - a.applied;
+    });
+};
+
+export const computeFunnelAnalytics = (jobs: TrackedJob[], now: Date = new Date()): FunnelAnalytics => {
+    const applied = jobs.filter(hasApplied);
+    const reached: Record<string, number> = {};
+    FUNNEL_STAGES.forEach((stage, i) => {
+        reached[stage] = applied.filter(job => furthestStageIndex(job) >= i).length;
+    });
+
+    const conversions = FUNNEL_STAGES.slice(1).map((to, i) => {
+        const from = FUNNEL_STAGES[i];
+        return { from, to, entered: reached[from], converted: reached[to], rate: ratio(reached[to], reached[from]) };
+    });
+
+    const sources = (Object.keys(SOURCE_LABELS) as JobSource[]).map(source => {
+        const group = applied.filter(job => (job.source || 'agent') === source);
+        const responded = group.filter(hasResponse).length;
+        return { source, label: SOURCE_LABELS[source], applied: group.length, responded, rate: ratio(responded, group.length) };
+    });
+
+    return {
+        appliedCount: applied.length,
+        reached,
+        conversions,
+        sources,
+        durations: stageDurations(jobs),
+        velocity: weeklyVelocity(jobs, now),
+        byResume: groupPerformance(applied, job => job.submittedResume?.resumeName || 'Not recorded'),
+        byRoleFamily: groupPerformance(applied, job => roleFamily(job.title)),
+    };
+};
@@ -0,0 +1,85 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, LlmResponseFormatError } from "./llmProvider";
+
+let client: GoogleGenAI | null = null;
+
+// The client is created on first use so that importing this module never requires a key.
+export const getGeminiClient = (): GoogleGenAI => {
+    if (!client) {
+        if (!process.env.API_KEY) {
+            throw new Error("API_KEY environment variable is not set. Please ensure it is configured in your environment.");
+        }
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+};
+
+// Helper function for retrying API calls on 503/429 errors
+async function generateWithRetry(model: string, params: any, retries = 3): Promise<any> {
+    for (let i = 0; i < retries; i++) {
+        try {
+            return await getGeminiClient().models.generateContent({ model, ...params });
+        } catch (e: any) {
+            // Check for 503 (Service Unavailable) or 429 (Too Many Requests)
+            const isTransientError = e.message?.includes('503') || e.message?.includes('429') || (e.status === 503) || (e.status === 429);
+
+            if (isTransientError && i < retries - 1) {
+                console.warn(`Gemini API ${model} hit error ${e.message}. Retrying... (${i + 1}/${retries})`);
+                // Exponential backoff: 1s, 2s, 4s
+                await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, i)));
+                continue;
+            }
+            throw e;
+        }
+    }
+}
+
+export const createGeminiProvider = (): LlmProvider => ({
+    name: 'gemini',
+
+    async generateJson<T>({ task, model, contents, schema }) {
+        const response = await generateWithRetry(model, {
+            contents,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: schema
+            }
+        });
+        try {
+            return JSON.parse(response.text.trim()) as T;
+        } catch (e) {
+            throw new LlmResponseFormatError(task, response.text);
+        }
+    },
+
+    async generateText({ model, contents }) {
+        const response = await generateWithRetry(model, { contents });
+        return response.text;
+    },
+
+    async generateTextStream({ model, contents, grounded }) {
+        const stream = await getGeminiClient().models.generateContentStream({
+            model,
+            contents,
+            config: grounded ? { tools: [{ googleSearch: {} }] } : undefined,
+        });
+        return (async function* () {
+            for await (const chunk of stream) {
+                yield { text: chunk.text || '' };
+            }
+        })();
+    },
+
+    async groundedSearch({ model, contents }) {
+        const response = await generateWithRetry(model, {
+            contents,
+            config: {
+                tools: [{ googleSearch: {} }],
+            },
+        });
+        return {
+            text: response.text,
+            groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+        };
+    },
+});
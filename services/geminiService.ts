@@ -1,64 +1,157 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, CareerPath, InterviewTurn, RoadmapResult, ResumeSuggestionsResult, UpdatedAtsScoreResult, JobListing, StructuredResume, LinkedInConnectionsResult, CareerTrajectoryResult, JobFitAnalysisResult, MessageGoal, LinkedInConnection, SuggestedNextStep, LinkedInOptimizationResult, VideoPitchFeedback, InterviewReportResult, UserVibeProfile, CompanyVibeAnalysisResult } from "../types";
+import { Type } from "@google/genai";
+import { AnalysisResult, AnchoredSuggestion, DocumentFormat, ExtractedPage, ExtractedSection, ExtractionProgress, TextExtraction, CareerPath, InterviewTurn, RoadmapResult, ResumeSuggestionsResult, UpdatedAtsScoreResult, JobListing, StructuredResume, TailoredResume, LinkedInConnectionsResult, CareerTrajectoryResult, JobFitAnalysisResult, MessageGoal, LinkedInConnection, SuggestedNextStep, LinkedInOptimizationResult, VideoPitchFeedback, InterviewReportResult, InterviewQuestion, AnswerScore, UserVibeProfile, CompanyVibeAnalysisResult } from "../types";
+import { composeDocument, LayoutItem, LayoutLink, layoutPage, layoutPlainText, PageLayout } from "./pdfLayout";
+import { FORMAT_MIME_TYPES, sniffDocumentFormat } from "./fileSniffer";
+import { htmlToText, isLinkedInProfile, jsonResumeToStructured, linkedInToStructured, markdownToStructured, markdownToText, odtToText, rtfToText, splitLinkedInSections, stripLinkedInFooters } from "./resumeImporters";
+import { listResumeFields, normalizeStructuredResume, recoverDroppedContent, resumeToText } from "./resumeModel";
+import { anchorSuggestions } from "./suggestionAnchors";
+import { DIFFICULTIES, QUESTION_CATEGORIES } from "./interviewQuestions";
+import { scoreResume } from "./atsScorer";
+import { getLlmProvider, LlmJsonRequest, LlmResponseFormatError } from "./llmProvider";
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
 
 // Set worker source for pdf.js
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
 
-// FIX: Ensure API_KEY is checked before use.
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set. Please ensure it is configured in your environment.");
+// Runs a schema-constrained request and maps unparseable output to a user-facing message.
+async function generateJson<T>(request: LlmJsonRequest, formatErrorMessage: string): Promise<T> {
+    const provider = await getLlmProvider();
+    try {
+        return await provider.generateJson<T>(request);
+    } catch (e) {
+        if (e instanceof LlmResponseFormatError) {
+            console.error(`Failed to parse ${e.task} JSON from ${provider.name}:`, e.rawText);
+            throw new Error(formatErrorMessage);
+        }
+        throw e;
+    }
 }
 
-// FIX: Initialize the GoogleGenAI client with the API key from environment variables.
-export const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-
-// Helper function for retrying API calls on 503/429 errors
-async function generateWithRetry(model: string, params: any, retries = 3): Promise<any> {
-    for (let i = 0; i < retries; i++) {
-        try {
-            return await ai.models.generateContent({ model, ...params });
-        } catch (e: any) {
-            // Check for 503 (Service Unavailable) or 429 (Too Many Requests)
-            const isTransientError = e.message?.includes('503') || e.message?.includes('429') || (e.status === 503) || (e.status === 429);
-            
-            if (isTransientError && i < retries - 1) {
-                console.warn(`Gemini API ${model} hit error ${e.message}. Retrying... (${i + 1}/${retries})`);
-                // Exponential backoff: 1s, 2s, 4s
-                await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, i)));
-                continue;
-            }
-            throw e;
+// Pages with less text than this are treated as scanned images and sent to OCR.
+const MIN_PAGE_TEXT_CHARS = 25;
+// pdf.js renders at 72 DPI; OCR is far more accurate nearer 200 DPI.
+const OCR_RENDER_SCALE = 2.5;
+
+const renderPdfPage = async (page: any): Promise<HTMLCanvasElement> => {
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    return canvas;
+};
+
+// Converts pdf.js text items and link annotations to top-left page coordinates for layoutPage.
+const readPdfPageLayout = async (page: any): Promise<{ layout: PageLayout; charCount: number }> => {
+    const viewport = page.getViewport({ scale: 1 });
+    const [content, annotations] = await Promise.all([page.getTextContent(), page.getAnnotations()]);
+    const items: LayoutItem[] = content.items.filter((item: any) => 'str' in item).map((item: any) => {
+        const [x, top] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        return { text: item.str, x, top, width: item.width, fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height };
+    });
+    const links: LayoutLink[] = annotations.filter((annotation: any) => annotation.subtype === 'Link' && annotation.url).map((annotation: any) => {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+        return { url: annotation.url, left: Math.min(x1, x2), right: Math.max(x1, x2), top: Math.min(y1, y2), bottom: Math.max(y1, y2) };
+    });
+    return {
+        layout: layoutPage(items, links, viewport.width),
+        charCount: items.reduce((sum, item) => sum + item.text.replace(/\s/g, '').length, 0),
+    };
+};
+
+const readPdf = async (file: File, pages: ExtractedPage[], layouts: PageLayout[], onProgress?: (progress: ExtractionProgress) => void) => {
+    const pdf = await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+    for (let i = 1; i <= pdf.numPages; i++) {
+        onProgress?.({ pageNumber: i, pageCount: pdf.numPages, method: 'text' });
+        const page = await pdf.getPage(i);
+        const { layout, charCount } = await readPdfPageLayout(page);
+        if (charCount >= MIN_PAGE_TEXT_CHARS) {
+            layouts.push(layout);
+            pages.push({ pageNumber: i, text: '', method: 'text', columnCount: layout.columnCount });
+            continue;
         }
+        const { recognizeImage } = await import('./ocr');
+        const result = await recognizeImage(await renderPdfPage(page), progress =>
+            onProgress?.({ pageNumber: i, pageCount: pdf.numPages, method: 'ocr', progress }));
+        layouts.push(layoutPlainText(result.text));
+        pages.push({ pageNumber: i, text: '', method: 'ocr', confidence: result.confidence });
     }
-}
+};
 
-export const getTextFromFile = async (file: File): Promise<string> => {
-    if (file.type === 'application/pdf') {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-        let textContent = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const text = await page.getTextContent();
-            textContent += text.items.map(item => ('str' in item ? item.str : '')).join('\n');
+// Converts a single-page source that has no layout of its own.
+const textSource = async (file: File, format: DocumentFormat): Promise<{ text: string; structured?: StructuredResume }> => {
+    switch (format) {
+        case 'docx':
+            return { text: (await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value };
+        case 'odt':
+            return { text: await odtToText(await file.arrayBuffer()) };
+        case 'rtf':
+            // RTF escapes anything beyond ASCII, so the raw bytes can be read as Latin-1.
+            return { text: rtfToText(new TextDecoder('latin1').decode(await file.arrayBuffer())) };
+        case 'html':
+            return { text: htmlToText(await file.text()) };
+        case 'markdown': {
+            const markdown = await file.text();
+            return { text: markdownToText(markdown), structured: markdownToStructured(markdown) || undefined };
         }
-        return textContent;
-    } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        const arrayBuffer = await file.arrayBuffer();
-        const { value } = await mammoth.extractRawText({ arrayBuffer });
-        return value;
-    } else if (file.type === 'text/plain') {
-        return file.text();
-    } else {
-        if (file.type.startsWith('text/')) {
-            return file.text();
+        case 'json-resume': {
+            const structured = jsonResumeToStructured(JSON.parse(await file.text()));
+            return { text: resumeToText(structured), structured };
         }
-        throw new Error(`Unsupported file type for text extraction: ${file.type}. Please use PDF, DOCX, or TXT.`);
+        default:
+            return { text: await file.text() };
     }
 };
 
+// Extracts the text of every page, falling back to in-browser OCR for pages (or images) that
+// carry no text layer. OCR is loaded on first use only. PDF text is rebuilt in reading order
+// from item positions, so columns, headings, bullets and link targets survive extraction.
+// The format is sniffed from the file's bytes, not its reported MIME type.
+export const extractResumeText = async (file: File, onProgress?: (progress: ExtractionProgress) => void): Promise<TextExtraction> => {
+    const format = await sniffDocumentFormat(file);
+    if (!format) {
+        throw new Error("Unsupported file format. Please use PDF, DOCX, ODT, RTF, HTML, Markdown, TXT, JSON Resume, PNG or JPEG.");
+    }
+
+    const pages: ExtractedPage[] = [];
+    const layouts: PageLayout[] = [];
+    let structured: StructuredResume | undefined;
+    if (format === 'pdf') {
+        await readPdf(file, pages, layouts, onProgress);
+    } else if (format === 'png' || format === 'jpeg') {
+        const { recognizeImage } = await import('./ocr');
+        const result = await recognizeImage(file, progress => onProgress?.({ pageNumber: 1, pageCount: 1, method: 'ocr', progress }));
+        layouts.push(layoutPlainText(result.text));
+        pages.push({ pageNumber: 1, text: '', method: 'ocr', confidence: result.confidence });
+    } else {
+        const source = await textSource(file, format);
+        structured = source.structured;
+        layouts.push(layoutPlainText(source.text));
+        pages.push({ pageNumber: 1, text: '', method: 'text' });
+    }
+
+    const { pageTexts, sections } = composeDocument(layouts);
+    pageTexts.forEach((text, i) => { pages[i].text = text; });
+    const text = pageTexts.join('\n\n');
+
+    if (format === 'pdf' && isLinkedInProfile(text)) {
+        const linkedInSections = splitLinkedInSections(layouts);
+        pages.forEach(page => { page.text = stripLinkedInFooters(page.text); });
+        return {
+            text: stripLinkedInFooters(text),
+            pages,
+            sections: linkedInSections,
+            format: 'linkedin-pdf',
+            mimeType: FORMAT_MIME_TYPES['linkedin-pdf'],
+            structured: linkedInToStructured(linkedInSections),
+        };
+    }
+    return { text, pages, sections, format, mimeType: FORMAT_MIME_TYPES[format], structured };
+};
+
+export const getTextFromFile = async (file: File): Promise<string> => (await extractResumeText(file)).text;
+
 const analysisSchema = {
     type: Type.OBJECT,
     properties: {
@@ -103,27 +196,26 @@ const analysisSchema = {
 
 export const analyzeResume = async (file: File): Promise<AnalysisResult> => {
     const resumeText = await getTextFromFile(file);
+    return analyzeResumeText(resumeText, file.type);
+};
+
+// The headline atsScore comes from the local rule-based scorer so it only changes when the text
+// does; the model's estimate is kept alongside it as llmAtsScore.
+export const analyzeResumeText = async (resumeText: string, fileType?: string): Promise<AnalysisResult> => {
     if (!resumeText.trim()) {
-        throw new Error("Could not extract any text from the resume file. It might be an image-based file or empty.");
+        throw new Error("Could not extract any text from the resume file. It might be empty, or a scan too blurry to read.");
     }
 
     const prompt = `Analyze the provided resume text and return a comprehensive career analysis. Focus on identifying key strengths, areas for improvement, and suggesting suitable job roles. For each suggested role, provide an estimated salary range, market demand, and future growth outlook. Provide an estimated ATS score. Here is the resume text:\n\n${resumeText}`;
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    const result = await generateJson<AnalysisResult>({
+        task: 'analyzeResume',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: analysisSchema
-        }
-    });
+        schema: analysisSchema
+    }, "The analysis result was not in the expected format. Please try again.");
 
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as AnalysisResult;
-    } catch(e) {
-        console.error("Failed to parse JSON response from Gemini:", response.text);
-        throw new Error("The analysis result was not in the expected format. Please try again.");
-    }
+    return { ...result, atsScore: scoreResume(resumeText, { fileType }).score, llmAtsScore: result.atsScore };
 };
 
 export const getCareerRoadmap = async (careerPath: CareerPath, resumeSummary: string): Promise<RoadmapResult> => {
@@ -146,18 +238,18 @@ export const getCareerRoadmap = async (careerPath: CareerPath, resumeSummary: st
             }
         }
     };
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<RoadmapResult>({
+        task: 'careerRoadmap',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-    return JSON.parse(response.text) as RoadmapResult;
+        schema
+    }, "Could not generate the career roadmap. Please try again.");
 }
 
-export const getResumeSuggestions = async (resumeText: string): Promise<ResumeSuggestionsResult> => {
-    const prompt = `Analyze the following resume text and provide 3-5 specific, actionable suggestions for improvement. For each suggestion, provide the original text snippet, the suggested change, and a brief explanation of why the change is beneficial. Focus on clarity, impact, and keyword optimization.`;
+// Suggestions are requested per field and anchored to the exact text they quote, so they can be
+// validated against the resume and applied without guessing where they belong.
+export const getResumeSuggestions = async (resume: StructuredResume): Promise<AnchoredSuggestion[]> => {
+    const prompt = `Analyze the following resume and provide 3-5 specific, actionable suggestions for improvement. The resume is given as fields, one per line, each prefixed with its id in square brackets. For each suggestion, provide the id of the field it applies to, the exact original text snippet copied from that field, the suggested replacement for that snippet, and a brief explanation of why the change is beneficial. Focus on clarity, impact, and keyword optimization.`;
     const schema = {
         type: Type.OBJECT,
         properties: {
@@ -166,7 +258,8 @@ export const getResumeSuggestions = async (resumeText: string): Promise<ResumeSu
                 items: {
                     type: Type.OBJECT,
                     properties: {
-                        originalText: { type: Type.STRING },
+                        fieldId: { type: Type.STRING, description: "The id of the field, e.g. 'experience.0.description.1'." },
+                        originalText: { type: Type.STRING, description: "Text copied verbatim from the field." },
                         suggestedChange: { type: Type.STRING },
                         explanation: { type: Type.STRING }
                     }
@@ -174,14 +267,14 @@ export const getResumeSuggestions = async (resumeText: string): Promise<ResumeSu
             }
         }
     };
-    const response = await generateWithRetry('gemini-2.5-flash', {
-        contents: { parts: [{ text: prompt }, { text: `\n\nResume Text:\n${resumeText}` }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-    return JSON.parse(response.text) as ResumeSuggestionsResult;
+    const fields = listResumeFields(resume).map(field => `[${field.id}] ${field.text}`).join('\n');
+    const result = await generateJson<ResumeSuggestionsResult>({
+        task: 'resumeSuggestions',
+        model: 'gemini-2.5-flash',
+        contents: { parts: [{ text: prompt }, { text: `\n\nResume Fields:\n${fields}` }] },
+        schema
+    }, "Could not generate resume suggestions. Please try again.");
+    return anchorSuggestions(resume, result.suggestions || []);
 }
 
 export const getUpdatedAtsScore = async (resumeText: string): Promise<UpdatedAtsScoreResult> => {
@@ -192,14 +285,12 @@ export const getUpdatedAtsScore = async (resumeText: string): Promise<UpdatedAts
             atsScore: { type: Type.INTEGER }
         }
     };
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<UpdatedAtsScoreResult>({
+        task: 'atsScore',
+        model: 'gemini-2.5-flash',
         contents: { parts: [{ text: prompt }, { text: `\n\nResume Text:\n${resumeText}` }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-    return JSON.parse(response.text) as UpdatedAtsScoreResult;
+        schema
+    }, "Could not update the ATS score. Please try again.");
 }
 
 export const findJobListings = async (role: string, location: string, resumeSummary: string): Promise<{ listings: JobListing[], groundingMetadata: any }> => {
@@ -211,15 +302,15 @@ export const findJobListings = async (role: string, location: string, resumeSumm
     Each job object must have the following keys: "title", "company", "location", "description", and "url".
     Ensure the URL is a direct and valid link to the job posting. Do not include any text, commentary, or markdown formatting outside of the JSON object.`;
 
-    const response = await generateWithRetry("gemini-2.5-flash", {
+    const provider = await getLlmProvider();
+    const response = await provider.groundedSearch({
+        task: 'jobListings',
+        model: "gemini-2.5-flash",
         contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
     });
 
     let listings: JobListing[] = [];
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    const groundingMetadata = response.groundingMetadata;
 
     try {
         const textResponse = response.text.trim();
@@ -232,12 +323,50 @@ export const findJobListings = async (role: string, location: string, resumeSumm
             }
         }
     } catch (e) {
-        console.error("Failed to parse job listings JSON from Gemini:", response.text, e);
+        console.error(`Failed to parse job listings JSON from ${provider.name}:`, response.text, e);
     }
 
     return { listings, groundingMetadata };
 };
 
+// Pulls the fields of a posting out of pasted or page text. Fields already known (e.g. from a
+// page's meta tags) are passed as hints and win over the model's reading.
+export const extractJobPosting = async (postingText: string, known: Partial<JobListing> = {}): Promise<JobListing> => {
+    const prompt = `Extract the job posting below into structured fields. "title" is the job title only, without the company or location. "company" is the hiring company, not a recruiting agency or job board. "location" is the city and region, or "Remote" with any region restriction. "salary" is the pay range exactly as stated, or an empty string if none is given. "requirements" lists the required and preferred qualifications as short separate items, in the posting's order. "url" is the application link if the text contains one, otherwise an empty string. Only use information in the text.`;
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            company: { type: Type.STRING },
+            location: { type: Type.STRING },
+            salary: { type: Type.STRING },
+            url: { type: Type.STRING },
+            requirements: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+    };
+    const hints = Object.entries(known).filter(([, value]) => typeof value === 'string' && value).map(([key, value]) => `${key}: ${value}`).join('\n');
+    const response = await generateJson<Omit<JobListing, 'description'>>({
+        task: 'jobPosting',
+        model: 'gemini-2.5-flash',
+        contents: { parts: [
+            { text: prompt },
+            ...(hints ? [{ text: `\n\nAlready known from the page:\n${hints}` }] : []),
+            { text: `\n\nJob Posting:\n${postingText}` },
+        ] },
+        schema,
+    }, "Could not read the job posting. Please fill in the fields yourself.");
+    const pick = (key: 'title' | 'company' | 'location' | 'url') => known[key] || response[key]?.trim() || '';
+    return {
+        title: pick('title'),
+        company: pick('company'),
+        location: pick('location'),
+        url: pick('url'),
+        description: known.description || postingText.trim(),
+        salary: known.salary || response.salary?.trim() || undefined,
+        requirements: known.requirements?.length ? known.requirements : (response.requirements || []).map(r => r.trim()).filter(Boolean),
+    };
+};
+
 export const runJobSearchAgentStream = async (mission: string, resumeSummary: string) => {
     const prompt = `You are an autonomous AI agent powered by the MCP (Mission, Capabilities, Plan) framework. Your task is to find job opportunities.
 
@@ -252,17 +381,40 @@ Finally, after executing the plan, use your search tools to find up to 5 relevan
 
 Start now.`;
 
-    return ai.models.generateContentStream({
+    const provider = await getLlmProvider();
+    return provider.generateTextStream({
+        task: 'jobSearchAgent',
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        grounded: true,
+    });
+};
+
+export const formatInterviewTranscript = (transcript: InterviewTurn[]): string =>
+    transcript.map(turn => `${turn.speaker === 'model' ? 'Interviewer' : 'Candidate'}: ${turn.text}`).join('\n');
+
+// The interviewer's next message in a typed interview. `instruction` is the same persona the voice
+// session gets; `direction` tells the interviewer what to do next, such as which planned question to ask.
+export const getInterviewerReply = async (instruction: string, transcript: InterviewTurn[], direction?: string): Promise<string> => {
+    const prompt = `${instruction}
+
+Conversation so far:
+${transcript.length > 0 ? formatInterviewTranscript(transcript) : '(nothing yet)'}
+
+${direction ? `Instruction from the app: ${direction}` : "Write the interviewer's next message."}
+Reply with the interviewer's message only.`;
+
+    const provider = await getLlmProvider();
+    const reply = await provider.generateText({
+        task: 'interviewChat',
         model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
     });
+    return reply.trim().replace(/^Interviewer:\s*/i, '');
 };
 
 export const getInterviewFeedback = async (transcript: InterviewTurn[]): Promise<InterviewReportResult> => {
-    const formattedTranscript = transcript.map(turn => `${turn.speaker === 'model' ? 'Interviewer' : 'Candidate'}: ${turn.text}`).join('\n');
+    const formattedTranscript = formatInterviewTranscript(transcript);
 
     const prompt = `You are an expert career coach. Analyze the following mock interview transcript. Provide a detailed performance report.
     
@@ -330,21 +482,12 @@ export const getInterviewFeedback = async (transcript: InterviewTurn[]): Promise
         required: ["feedback"]
     };
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<InterviewReportResult>({
+        task: 'interviewFeedback',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as InterviewReportResult;
-    } catch(e) {
-        console.error("Failed to parse interview feedback JSON from Gemini:", response.text, e);
-        throw new Error("Could not generate interview feedback. Please try again later.");
-    }
+        schema
+    }, "Could not generate interview feedback. Please try again later.");
 };
 
 const structuredResumeSchema = {
@@ -384,28 +527,109 @@ const structuredResumeSchema = {
             type: Type.ARRAY,
             description: "A list of key skills.",
             items: { type: Type.STRING }
+        },
+        customSections: {
+            type: Type.ARRAY,
+            description: "Any other sections, such as projects, certifications, publications or awards.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING, description: "The section heading, e.g. 'Projects'." },
+                    items: { type: Type.ARRAY, items: { type: Type.STRING } }
+                }
+            }
         }
     }
 };
 
-export const structureResumeForPdf = async (resumeText: string): Promise<StructuredResume> => {
-    const prompt = `Parse the following resume text into a structured JSON object. Identify the candidate's name, contact information (email, phone, LinkedIn), professional summary, work experience, education, and key skills. For work experience, list each job with the company, role, dates, and a list of bullet points for the description.`;
+// Parses free-form resume text into sections once; the editor works on the result from then on.
+export const structureResume = async (resumeText: string, sourceSections?: ExtractedSection[]): Promise<StructuredResume> => {
+    const headings = (sourceSections || []).map(section => section.heading).filter(heading => heading !== 'Header');
+    const headingHint = headings.length > 0
+        ? ` The original document's section headings, detected from its layout, are: ${headings.map(h => `"${h}"`).join(', ')}. Use them as section boundaries.`
+        : '';
+    const prompt = `Parse the following resume text into a structured JSON object. Identify the candidate's name, contact information (email, phone, LinkedIn), professional summary, work experience, education, and key skills. For work experience, list each job with the company, role, dates, and a list of bullet points for the description. Put any other sections (projects, certifications, publications, awards, etc.) in customSections with their heading as the title. Copy the wording exactly and do not leave any content out.${headingHint}`;
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    const structured = await generateJson<StructuredResume>({
+        task: 'structureResume',
+        model: 'gemini-2.5-flash',
         contents: { parts: [{ text: prompt }, { text: `\n\nResume Text:\n${resumeText}` }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: structuredResumeSchema
+        schema: structuredResumeSchema
+    }, "Could not split the resume into sections. Please check the text format.");
+
+    return recoverDroppedContent(resumeText, normalizeStructuredResume(structured));
+};
+
+interface TailoringResponse {
+    summary?: string;
+    experience?: Array<{ index: number; bullets: Array<{ source: string; text: string }> }>;
+    changes?: string[];
+}
+
+// Applies the model's rewrite to a copy of the resume. Roles, companies, dates and education are
+// never taken from the model, and any bullet it leaves out is kept at the end of its position.
+const mergeTailoring = (resume: StructuredResume, response: TailoringResponse): StructuredResume => ({
+    ...resume,
+    summary: response.summary?.trim() || resume.summary,
+    experience: resume.experience.map((entry, i) => {
+        const rewrite = (response.experience || []).find(e => e.index === i);
+        if (!rewrite) return entry;
+        const used = new Set<number>();
+        const bullets: string[] = [];
+        for (const bullet of rewrite.bullets || []) {
+            const [entryIndex, bulletIndex] = bullet.source.split('.').map(Number);
+            if (entryIndex !== i || !(bulletIndex in entry.description) || used.has(bulletIndex)) continue;
+            used.add(bulletIndex);
+            bullets.push(bullet.text?.trim() || entry.description[bulletIndex]);
         }
-    });
+        const dropped = entry.description.filter((_, j) => !used.has(j));
+        return { ...entry, description: [...bullets, ...dropped] };
+    }),
+});
 
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as StructuredResume;
-    } catch(e) {
-        console.error("Failed to parse structured resume JSON from Gemini:", response.text);
-        throw new Error("Could not structure the resume for PDF export. Please check the text format.");
-    }
+export const tailorResume = async (resume: StructuredResume, jobTitle: string, jobDescription: string): Promise<TailoredResume> => {
+    const prompt = `Tailor the resume below for the "${jobTitle}" role described in the job description. Rewrite the professional summary to speak directly to this role. For each position, reorder its bullets so the most relevant come first and rewrite bullets to surface matching skills and keywords from the job description. Every bullet has an id in square brackets ("[position.bullet]"); return each rewritten bullet with the id of the bullet it came from as "source", and keep every bullet. Do not invent employers, titles, dates, metrics, skills or achievements that are not in the resume. Finally, list 3-5 short notes on what you changed and why.`;
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            summary: { type: Type.STRING },
+            experience: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        index: { type: Type.INTEGER, description: "The position number from the resume, starting at 0." },
+                        bullets: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    source: { type: Type.STRING, description: "The id of the original bullet, e.g. '0.2'." },
+                                    text: { type: Type.STRING },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            changes: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+    };
+    const positions = resume.experience.map((entry, i) => [
+        `Position ${i}: ${entry.role} at ${entry.company} (${entry.dates})`,
+        ...entry.description.map((bullet, j) => `[${i}.${j}] ${bullet}`),
+    ].join('\n')).join('\n\n');
+    const response = await generateJson<TailoringResponse>({
+        task: 'tailorResume',
+        model: 'gemini-2.5-flash',
+        contents: { parts: [
+            { text: prompt },
+            { text: `\n\nJob Description:\n${jobDescription}` },
+            { text: `\n\nSummary:\n${resume.summary}\n\nSkills: ${resume.skills.join(', ')}\n\nExperience:\n${positions}` },
+        ] },
+        schema,
+    }, "Could not tailor the resume for this job. Please try again.");
+    return { resume: mergeTailoring(resume, response), changes: response.changes || [] };
 };
 
 export const findLinkedInConnections = async (company: string, role: string): Promise<LinkedInConnectionsResult> => {
@@ -421,11 +645,11 @@ export const findLinkedInConnections = async (company: string, role: string): Pr
 
     Do not include any text, commentary, or markdown formatting outside of the JSON object.`;
 
-    const response = await generateWithRetry("gemini-2.5-flash", {
+    const provider = await getLlmProvider();
+    const response = await provider.groundedSearch({
+        task: 'linkedInConnections',
+        model: "gemini-2.5-flash",
         contents: prompt,
-        config: {
-            tools: [{ googleSearch: {} }],
-        },
     });
 
     let connectionsResult: LinkedInConnectionsResult = { connections: [] };
@@ -443,7 +667,7 @@ export const findLinkedInConnections = async (company: string, role: string): Pr
              throw new Error("No valid JSON found in the response.");
         }
     } catch (e) {
-        console.error("Failed to parse connections JSON from Gemini:", response.text, e);
+        console.error(`Failed to parse connections JSON from ${provider.name}:`, response.text, e);
         throw new Error("Could not find connections. The AI returned an unexpected format.");
     }
 
@@ -485,11 +709,14 @@ The message should:
 
 Return only the raw text of the message body, with no additional commentary, greetings (like "Hi [Name],"), or sign-offs (like "Best regards, [Your Name]"). The user will add these themselves.`;
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    const provider = await getLlmProvider();
+    const text = await provider.generateText({
+        task: 'networkingMessage',
+        model: 'gemini-2.5-flash',
         contents: prompt,
     });
 
-    return response.text.trim();
+    return text.trim();
 };
 
 export const getCareerTrajectory = async (dreamJob: string, resumeSummary: string): Promise<CareerTrajectoryResult> => {
@@ -540,21 +767,12 @@ export const getCareerTrajectory = async (dreamJob: string, resumeSummary: strin
         required: ["trajectory"]
     };
 
-     const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<CareerTrajectoryResult>({
+        task: 'careerTrajectory',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as CareerTrajectoryResult;
-    } catch(e) {
-        console.error("Failed to parse career trajectory JSON from Gemini:", response.text, e);
-        throw new Error("Could not generate your career trajectory. The AI returned an unexpected format.");
-    }
+        schema
+    }, "Could not generate your career trajectory. The AI returned an unexpected format.");
 };
 
 export const getJobFitAnalysis = async (resumeText: string, jobDescription: string): Promise<JobFitAnalysisResult> => {
@@ -607,21 +825,12 @@ export const getJobFitAnalysis = async (resumeText: string, jobDescription: stri
         required: ["fitScore", "matchingSkills", "skillGaps", "actionableSteps", "overallVerdict"]
     };
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<JobFitAnalysisResult>({
+        task: 'jobFit',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as JobFitAnalysisResult;
-    } catch(e) {
-        console.error("Failed to parse job fit analysis JSON from Gemini:", response.text, e);
-        throw new Error("Could not analyze job fit. The AI returned an unexpected format.");
-    }
+        schema
+    }, "Could not analyze job fit. The AI returned an unexpected format.");
 };
 
 
@@ -647,19 +856,17 @@ export const getSuggestedNextSteps = async (analysisResult: AnalysisResult): Pro
         required: ["steps"]
     };
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
-        contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
+    const provider = await getLlmProvider();
     try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText);
+        return await provider.generateJson<{ steps: SuggestedNextStep[] }>({
+            task: 'nextSteps',
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            schema
+        });
     } catch (e) {
-        console.error("Failed to parse suggested next steps JSON from Gemini:", response.text, e);
+        if (!(e instanceof LlmResponseFormatError)) throw e;
+        console.error(`Failed to parse suggested next steps JSON from ${provider.name}:`, e.rawText);
         // Return a default step in case of an error
         return {
             steps: [{
@@ -707,21 +914,12 @@ export const optimizeLinkedInProfile = async (
         required: ["optimizedHeadline", "optimizedAbout", "keyImprovements"]
     };
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<LinkedInOptimizationResult>({
+        task: 'linkedInOptimization',
+        model: 'gemini-2.5-flash',
         contents: prompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
-    try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as LinkedInOptimizationResult;
-    } catch(e) {
-        console.error("Failed to parse LinkedIn optimization JSON from Gemini:", response.text, e);
-        throw new Error("Could not optimize the LinkedIn profile. The AI returned an unexpected format.");
-    }
+        schema
+    }, "Could not optimize the LinkedIn profile. The AI returned an unexpected format.");
 };
 
 export const analyzeVideoPitch = async (frames: string[], transcript: string): Promise<VideoPitchFeedback> => {
@@ -769,21 +967,12 @@ export const analyzeVideoPitch = async (frames: string[], transcript: string): P
         required: ["speechClarity", "pacing", "bodyLanguage", "eyeContact", "professionalism", "overallFeedback", "actionableImprovements"]
     };
 
-    const response = await generateWithRetry('gemini-2.5-flash', {
+    return generateJson<VideoPitchFeedback>({
+        task: 'videoPitch',
+        model: 'gemini-2.5-flash',
         contents: { parts: [imageParts[0] ? imageParts : [], textPart].flat() },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: schema
-        }
-    });
-
-     try {
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as VideoPitchFeedback;
-    } catch(e) {
-        console.error("Failed to parse Video Pitch Feedback JSON from Gemini:", response.text, e);
-        throw new Error("Could not analyze the video pitch. The AI returned an unexpected format.");
-    }
+        schema
+    }, "Could not analyze the video pitch. The AI returned an unexpected format.");
 };
 
 
@@ -817,14 +1006,14 @@ export const getCompanyVibeAnalysis = async (
     - "workLifeBalance": A string summarizing the work-life balance.
     - "keywords": An array of strings representing cultural keywords.`;
 
-  const response = await generateWithRetry("gemini-2.5-flash", {
+  const provider = await getLlmProvider();
+  const response = await provider.groundedSearch({
+    task: 'companyVibe',
+    model: "gemini-2.5-flash",
     contents: prompt,
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
   });
 
-  const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+  const groundingMetadata = response.groundingMetadata;
   
   try {
     const textResponse = response.text.trim();
@@ -840,7 +1029,137 @@ export const getCompanyVibeAnalysis = async (
     }
     return { analysis, groundingMetadata };
   } catch(e) {
-    console.error("Failed to parse company vibe JSON from Gemini:", response.text, e);
+    console.error(`Failed to parse company vibe JSON from ${provider.name}:`, response.text, e);
     throw new Error("Could not analyze the company vibe. The AI returned an unexpected format.");
   }
-};
\ No newline at end of file
+};
+
+// Drafts likely questions for a specific loop from the posting. Ids are assigned here; the caller ties
+// them to the tracked job.
+export const generateInterviewQuestions = async (job: JobListing, resumeSummary: string): Promise<InterviewQuestion[]> => {
+    const prompt = `You are preparing a candidate for the interview loop for "${job.title}" at "${job.company}". Write 10 questions this company's interviewers are likely to ask, based on the job description and requirements below. Cover four categories: "behavioral", "technical" (skills and tools the posting asks for), "situational" (hypothetical scenarios from the role's day-to-day) and "company" (about this company, its product, market or mission, and why the candidate wants to work there). Include at least two of each. Give each a "difficulty" of "easy", "medium" or "hard", and a one-sentence "lookingFor" describing what a strong answer shows. Questions must be phrased as an interviewer would say them aloud.
+
+Candidate background: "${resumeSummary}"
+
+Job description:
+${job.description}
+${job.requirements?.length ? `\nRequirements:\n${job.requirements.map(r => `- ${r}`).join('\n')}` : ''}`;
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            questions: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        category: { type: Type.STRING, enum: ['behavioral', 'technical', 'situational', 'company'] },
+                        difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'] },
+                        text: { type: Type.STRING },
+                        lookingFor: { type: Type.STRING },
+                    },
+                    required: ["category", "difficulty", "text", "lookingFor"],
+                },
+            },
+        },
+        required: ["questions"],
+    };
+
+    const response = await generateJson<{ questions: Omit<InterviewQuestion, 'id'>[] }>({
+        task: 'questionBank',
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        schema,
+    }, "Could not generate questions for this job. Please try again later.");
+    return (response.questions || [])
+        .filter(q => q.text?.trim())
+        .map((q, i) => ({
+            id: `${Date.now()}-${i}`,
+            category: QUESTION_CATEGORIES.includes(q.category) ? q.category : 'behavioral',
+            difficulty: DIFFICULTIES.includes(q.difficulty) ? q.difficulty : 'medium',
+            text: q.text.trim(),
+            lookingFor: q.lookingFor?.trim() || undefined,
+        }));
+};
+
+// Scores each answer of a structured interview against its own question. Unanswered questions are
+// scored zero without asking the model; answers the model skips are left unscored.
+export const scoreInterviewAnswers = async (role: string, answers: { question: InterviewQuestion; answer: string }[]): Promise<AnswerScore[]> => {
+    const unanswered = (question: InterviewQuestion): AnswerScore => ({
+        questionId: question.id, question: question.text, category: question.category, answer: '',
+        score: 0, feedback: "No answer was recorded for this question.", strengths: [], improvements: [],
+    });
+    const answered = answers.filter(a => a.answer.trim());
+    if (answered.length === 0) return answers.map(a => unanswered(a.question));
+
+    const formatted = answered.map((a, i) => `Question ${i + 1} (${a.question.category}, ${a.question.difficulty}): ${a.question.text}${a.question.lookingFor ? `\nA strong answer shows: ${a.question.lookingFor}` : ''}\nCandidate's answer: ${a.answer.trim()}`).join('\n\n');
+    const prompt = `You are an expert interviewer scoring a mock interview for the role of ${role}. The answers are speech transcripts, so ignore transcription errors. Score each answer on its own from 0-100 for how well it answers its question: structure (STAR for behavioral questions), specificity, evidence of impact and relevance to the role. For each, give "questionNumber", "score", one or two sentences of "feedback", up to 3 "strengths" and up to 3 concrete "improvements".
+
+${formatted}`;
+
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            answers: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        questionNumber: { type: Type.INTEGER },
+                        score: { type: Type.INTEGER },
+                        feedback: { type: Type.STRING },
+                        strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    },
+                    required: ["questionNumber", "score", "feedback", "strengths", "improvements"],
+                },
+            },
+        },
+        required: ["answers"],
+    };
+
+    const response = await generateJson<{ answers: { questionNumber: number; score: number; feedback: string; strengths: string[]; improvements: string[] }[] }>({
+        task: 'answerScores',
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        schema,
+    }, "Could not score your answers. Please try again later.");
+    return answers.map(({ question, answer }) => {
+        const number = answered.findIndex(a => a.question.id === question.id) + 1;
+        if (number === 0) return unanswered(question);
+        const scored = (response.answers || []).find(a => a.questionNumber === number);
+        if (!scored) {
+            return {
+                questionId: question.id, question: question.text, category: question.category, answer: answer.trim(),
+                feedback: "This answer wasn't scored.", strengths: [], improvements: [],
+            };
+        }
+        return {
+            questionId: question.id,
+            question: question.text,
+            category: question.category,
+            answer: answer.trim(),
+            score: Math.max(0, Math.min(100, Math.round(scored.score))),
+            feedback: scored.feedback,
+            strengths: scored.strengths || [],
+            improvements: scored.improvements || [],
+        };
+    });
+};
+
+export const generateJobPrepContent = async (
+    kind: 'coverLetter' | 'interviewQuestions',
+    job: JobListing,
+    resumeSummary: string
+): Promise<string> => {
+    const prompt = kind === 'coverLetter'
+        ? `Write a professional and concise cover letter for the role of "${job.title}" at "${job.company}". The candidate's background is: "${resumeSummary}". The job description is: "${job.description}". The letter should be tailored to the job and highlight the candidate's relevant skills.`
+        : `Generate a list of 5-7 potential interview questions for the role of "${job.title}" at "${job.company}". Include a mix of behavioral, technical, and situational questions based on the job description: "${job.description}". For each question, provide a brief tip on what the interviewer is looking for.`;
+
+    const provider = await getLlmProvider();
+    return provider.generateText({
+        task: kind,
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+    });
+};
@@ -0,0 +1,100 @@
+import { InterviewDifficulty, InterviewPlan, InterviewQuestion, InterviewQuestionCategory } from "../types";
+import { defineCollection } from "./storage";
+
+export const CATEGORY_LABELS: Record<InterviewQuestionCategory, string> = {
+    behavioral: 'Behavioral',
+    technical: 'Technical',
+    situational: 'Situational',
+    company: 'Company-specific',
+};
+
+export const QUESTION_CATEGORIES = Object.keys(CATEGORY_LABELS) as InterviewQuestionCategory[];
+
+export const DIFFICULTIES: InterviewDifficulty[] = ['easy', 'medium', 'hard'];
+
+const builtIn = (category: InterviewQuestionCategory, difficulty: InterviewDifficulty, text: string, lookingFor: string): InterviewQuestion => ({
+    id: `builtin-${category}-${text.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40)}`,
+    category,
+    difficulty,
+    text,
+    lookingFor,
+});
+
+// Role-neutral questions that work for any loop. Company-specific questions only come from job postings.
+export const BUILT_IN_QUESTIONS: InterviewQuestion[] = [
+    builtIn('behavioral', 'easy', "Tell me about yourself and what brings you to this role.", "A focused two-minute story that ends on why this role is the next step."),
+    builtIn('behavioral', 'easy', "Tell me about a project you're proud of.", "Personal ownership, the impact in numbers, and what they learned."),
+    builtIn('behavioral', 'medium', "Tell me about a time you disagreed with a colleague or manager.", "Respectful disagreement backed by data, and how alignment was reached."),
+    builtIn('behavioral', 'medium', "Describe a time you had to deliver with an unrealistic deadline.", "Prioritisation, negotiating scope, and communicating trade-offs early."),
+    builtIn('behavioral', 'medium', "Tell me about a time you received difficult feedback.", "Openness, concrete changes made, and evidence those changes stuck."),
+    builtIn('behavioral', 'hard', "Tell me about a time you failed.", "A real failure with their own part in it, owned without excuses, and what changed afterwards."),
+    builtIn('behavioral', 'hard', "Describe a time you led without formal authority.", "Influence through trust, shared goals and data rather than position."),
+    builtIn('technical', 'easy', "Walk me through the tools and technologies you use day to day and why.", "Depth over breadth, and reasons grounded in the problems they solve."),
+    builtIn('technical', 'medium', "Explain a complex technical concept from your field to someone non-technical.", "Clear analogies, no jargon, and checking for understanding."),
+    builtIn('technical', 'medium', "How do you make sure the quality of your work holds up?", "Concrete practices such as reviews, testing or checklists, and how they catch problems."),
+    builtIn('technical', 'hard', "Walk me through the hardest technical problem you've solved.", "A structured breakdown of the problem, options weighed, and a measurable result."),
+    builtIn('technical', 'hard', "How would you diagnose a problem you can't reproduce?", "A hypothesis-driven method, instrumentation, and narrowing the search systematically."),
+    builtIn('situational', 'easy', "What would you do in your first 30 days in this role?", "Listening and learning first, early relationships, and a small early win."),
+    builtIn('situational', 'medium', "Two stakeholders ask for conflicting things by the same deadline. What do you do?", "Clarifying the goal, making the trade-off visible, and escalating with a recommendation."),
+    builtIn('situational', 'medium', "You notice a teammate's mistake shortly before a launch. How do you handle it?", "Acting quickly but privately, focusing on the fix, and protecting the launch."),
+    builtIn('situational', 'hard', "Your project is cancelled halfway through. How do you respond?", "Understanding why, salvaging learnings, and keeping the team motivated."),
+    builtIn('situational', 'hard', "You're asked to cut your team's budget by 20% without missing goals. Where do you start?", "Data-driven prioritisation, creative options, and honest communication of the risks."),
+];
+
+// Questions generated from tracked jobs' descriptions.
+export const jobQuestionsStore = defineCollection<InterviewQuestion[]>({
+    key: 'interviewQuestionBank',
+    version: 1,
+    fallback: () => [],
+    parse: questions => Array.isArray(questions) ? questions.filter(question => question && typeof question === 'object') : [],
+});
+
+// Replaces any questions generated earlier for the same job.
+export const saveJobQuestions = (jobId: string, questions: InterviewQuestion[]): boolean =>
+    jobQuestionsStore.update(bank => [...bank.filter(q => q.jobId !== jobId), ...questions.map(q => ({ ...q, jobId }))]);
+
+export const getQuestionBank = (jobId?: string): InterviewQuestion[] => [
+    ...BUILT_IN_QUESTIONS,
+    ...(jobId ? jobQuestionsStore.read().filter(q => q.jobId === jobId) : []),
+];
+
+export interface PlanOptions {
+    count: number;
+    difficulty: InterviewDifficulty;
+    categories: InterviewQuestionCategory[];
+    answerTimeLimit: number;
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const difficultyDistance = (a: InterviewDifficulty, b: InterviewDifficulty) => Math.abs(DIFFICULTIES.indexOf(a) - DIFFICULTIES.indexOf(b));
+
+// Picks questions round-robin across the chosen categories so none dominates. Within a category,
+// questions at the chosen difficulty come first, then the nearest difficulty, and questions written
+// for the job come before generic ones at the same difficulty.
+export const buildInterviewPlan = (bank: InterviewQuestion[], options: PlanOptions): InterviewPlan => {
+    const pools = options.categories.map(category =>
+        shuffle(bank.filter(q => q.category === category)).sort((a, b) =>
+            difficultyDistance(a.difficulty, options.difficulty) - difficultyDistance(b.difficulty, options.difficulty)
+            || Number(!!b.jobId) - Number(!!a.jobId)
+        )
+    );
+    const questions: InterviewQuestion[] = [];
+    while (questions.length < options.count && pools.some(pool => pool.length > 0)) {
+        for (const pool of pools) {
+            const next = pool.shift();
+            if (next && questions.length < options.count) questions.push(next);
+        }
+    }
+    // Open with the warm-up question when it made the cut, as a real interview would.
+    const opener = questions.findIndex(q => q.id === BUILT_IN_QUESTIONS[0].id);
+    if (opener > 0) questions.unshift(...questions.splice(opener, 1));
+    return { questions, answerTimeLimit: options.answerTimeLimit };
+};
@@ -0,0 +1,122 @@
+import { InterviewSession, InterviewTurn } from "../types";
+import { INTERVIEW_SESSION_STORE, runRequest, runTransaction, subscribeToStore } from "./storage";
+import { patchStoredRecords, registerSyncAdapter } from "./sync";
+import { analyzeSpeech } from "./speechAnalytics";
+
+// Newest first.
+export const listInterviewSessions = async (): Promise<InterviewSession[]> => {
+    const sessions = await runRequest<InterviewSession[]>(INTERVIEW_SESSION_STORE, 'readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+export const saveInterviewSession = async (session: InterviewSession): Promise<void> => {
+    await runRequest(INTERVIEW_SESSION_STORE, 'readwrite', store => store.put(session));
+};
+
+export const deleteInterviewSession = async (id: string): Promise<void> => {
+    await runRequest(INTERVIEW_SESSION_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Writes sessions exactly as given in one transaction, as when importing a backup. With `replace`
+// the history is emptied first.
+export const restoreInterviewSessions = async (sessions: InterviewSession[], replace: boolean): Promise<void> =>
+    runTransaction(INTERVIEW_SESSION_STORE, 'readwrite', store => {
+        if (replace) store.clear();
+        sessions.forEach(session => store.put(session));
+        return () => undefined;
+    });
+
+// Recordings stay on the device they were made on, so sync only sees the rest of the session.
+registerSyncAdapter<Omit<InterviewSession, 'audio'>>({
+    collection: 'interviewSessions',
+    load: async () => (await listInterviewSessions()).map(({ audio, ...session }) => session),
+    // Patching the stored session keeps its recording.
+    save: async (patches, deletedIds) => {
+        if (patches.length > 0) await patchStoredRecords<InterviewSession>(INTERVIEW_SESSION_STORE, patches);
+        for (const id of deletedIds) await deleteInterviewSession(id);
+    },
+    changed: listener => subscribeToStore(INTERVIEW_SESSION_STORE, fromOtherTab => { if (!fromOtherTab) listener(); }),
+});
+
+// --- Trends ---
+
+export interface SessionMetric {
+    id: 'clarity' | 'relevance' | 'confidence' | 'star' | 'fillers';
+    label: string;
+    value: (session: InterviewSession) => number | undefined;
+    // Filler words are the one measure where going down is progress.
+    lowerIsBetter?: boolean;
+    max?: number;
+}
+
+export const SESSION_METRICS: SessionMetric[] = [
+    { id: 'clarity', label: 'Clarity', value: s => s.report?.feedback?.clarityScore, max: 100 },
+    { id: 'relevance', label: 'Relevance', value: s => s.report?.feedback?.relevanceScore, max: 100 },
+    { id: 'confidence', label: 'Confidence', value: s => s.report?.feedback?.confidenceScore, max: 100 },
+    { id: 'star', label: 'STAR Method', value: s => s.report?.feedback?.starMethodAdherence.score, max: 100 },
+    // Counted locally rather than the report's estimate, and per minute so a long session isn't
+    // penalised for having more answers.
+    {
+        id: 'fillers',
+        label: 'Filler Words / min',
+        value: s => s.durationSeconds > 0 ? Math.round((analyzeSpeech(s.transcript).fillerTotal / (s.durationSeconds / 60)) * 10) / 10 : undefined,
+        lowerIsBetter: true,
+    },
+];
+
+export interface MetricTrend {
+    points: { sessionId: string; date: string; value: number }[];
+    latest?: number;
+    // Average of the last few sessions minus the average of the few before them.
+    change?: number;
+}
+
+const TREND_WINDOW = 3;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const metricTrend = (sessions: InterviewSession[], metric: SessionMetric): MetricTrend => {
+    const points = [...sessions]
+        .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+        .map(session => ({ sessionId: session.id, date: session.startedAt, value: metric.value(session) }))
+        .filter((point): point is MetricTrend['points'][number] => typeof point.value === 'number' && Number.isFinite(point.value));
+    if (points.length === 0) return { points };
+    const values = points.map(p => p.value);
+    const recent = values.slice(-TREND_WINDOW);
+    const earlier = values.slice(-TREND_WINDOW * 2, -TREND_WINDOW);
+    return {
+        points,
+        latest: values[values.length - 1],
+        change: earlier.length > 0 ? Math.round((average(recent) - average(earlier)) * 10) / 10 : undefined,
+    };
+};
+
+// --- Replay ---
+
+const words = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean);
+
+// The candidate turn an improvement example quotes. The report paraphrases at times, so this falls
+// back to the turn sharing the most words with the quote.
+export const findQuotedTurn = (transcript: InterviewTurn[], quote: string): number => {
+    const quoteWords = words(quote);
+    if (quoteWords.length === 0) return -1;
+    const needle = quoteWords.join(' ');
+    let best = -1;
+    let bestOverlap = 0;
+    transcript.forEach((turn, index) => {
+        if (turn.speaker !== 'user') return;
+        const turnWords = words(turn.text);
+        if (turnWords.join(' ').includes(needle)) {
+            bestOverlap = Infinity;
+            best = index;
+            return;
+        }
+        const vocabulary = new Set(turnWords);
+        const overlap = quoteWords.filter(w => vocabulary.has(w)).length / quoteWords.length;
+        if (overlap > bestOverlap) {
+            bestOverlap = overlap;
+            best = index;
+        }
+    });
+    return bestOverlap >= 0.5 ? best : -1;
+};
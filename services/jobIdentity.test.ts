@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { TrackedJob } from '../types';
+import { DUPLICATE_THRESHOLD, compareJobs, findDuplicateGroups, findSameJob, markDistinct, mergeJobs, normalizeCompany, normalizeTitle, normalizeUrl, pickPrimary } from './jobIdentity';
+
+const job = (overrides: Partial<TrackedJob>): TrackedJob => ({
+    id: overrides.id || 'job',
+    title: 'Backend Engineer',
+    company: 'Acme Inc.',
+    location: 'Berlin, Germany',
+    description: '',
+    url: '',
+    status: 'Saved',
+    ...overrides,
+});
+
+describe('normalization', () => {
+    it('drops legal suffixes and punctuation from company names', () => {
+        expect(normalizeCompany('The Acme Corp.')).toBe('acme');
+        expect(normalizeCompany('Smith & Sons, LLC')).toBe('smith and sons');
+    });
+
+    it('expands common title abbreviations', () => {
+        expect(normalizeTitle('Sr. SWE II (Payments)')).toBe('senior software engineer 2 payments');
+        expect(normalizeTitle('Full-Stack Dev')).toBe('fullstack developer');
+    });
+
+    it('strips tracking parameters and reduces board links to their posting id', () => {
+        expect(normalizeUrl('https://www.example.com/careers/123/?utm_source=x&team=core#apply')).toBe('example.com/careers/123?team=core');
+        expect(normalizeUrl('https://de.linkedin.com/jobs/view/backend-engineer-at-acme-4012345678?trk=abc')).toBe('linkedin.com#4012345678');
+        expect(normalizeUrl('not a url')).toBeNull();
+    });
+});
+
+describe('compareJobs', () => {
+    it('treats the same posting link as the same job', () => {
+        const a = job({ url: 'https://boards.greenhouse.io/acme/jobs/555?gh_src=abc' });
+        const b = job({ title: 'Something else', url: 'https://boards.greenhouse.io/acme/jobs/555' });
+        expect(compareJobs(a, b).score).toBe(1);
+    });
+
+    it('keeps different posting links on one board apart', () => {
+        const a = job({ url: 'https://boards.greenhouse.io/acme/jobs/555' });
+        const b = job({ url: 'https://boards.greenhouse.io/acme/jobs/556' });
+        expect(compareJobs(a, b).score).toBe(0);
+    });
+
+    it('matches cosmetic variants of the same job', () => {
+        const match = compareJobs(job({ title: 'Sr. Backend Eng' }), job({ title: 'Senior Backend Engineer', company: 'ACME' }));
+        expect(match.score).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+        expect(match.reasons).toContain('Same company');
+    });
+
+    it('keeps different seniority, companies and cities apart', () => {
+        expect(compareJobs(job({ title: 'Senior Backend Engineer' }), job({})).score).toBeLessThan(DUPLICATE_THRESHOLD);
+        expect(compareJobs(job({ company: 'Globex' }), job({})).score).toBe(0);
+        expect(compareJobs(job({ location: 'Lisbon' }), job({})).score).toBeLessThan(DUPLICATE_THRESHOLD);
+    });
+});
+
+describe('findSameJob', () => {
+    it('finds an exact match but not a merely similar one', () => {
+        const tracked = [job({ id: 'a', title: 'Backend Engineer (Payments)' }), job({ id: 'b' })];
+        expect(findSameJob(tracked, job({ company: 'Acme' }))?.id).toBe('b');
+        expect(findSameJob(tracked.slice(0, 1), job({}))).toBeUndefined();
+    });
+});
+
+describe('findDuplicateGroups', () => {
+    it('clusters likely duplicates and skips pairs marked distinct', () => {
+        const jobs = [
+            job({ id: 'a' }),
+            job({ id: 'b', title: 'Backend Eng' }),
+            job({ id: 'c', company: 'Globex' }),
+        ];
+        expect(findDuplicateGroups(jobs).map(group => group.jobs.map(j => j.id))).toEqual([['a', 'b']]);
+        expect(findDuplicateGroups(markDistinct(jobs, [jobs[0], jobs[1]]))).toEqual([]);
+    });
+});
+
+describe('pickPrimary and mergeJobs', () => {
+    it('keeps the job that got furthest', () => {
+        expect(pickPrimary([job({ id: 'a' }), job({ id: 'b', status: 'Technical' })]).id).toBe('b');
+    });
+
+    it('combines notes, tags and stage history', () => {
+        const primary = job({ id: 'a', status: 'Technical', notes: 'Recruiter: Sam', tags: ['remote'], stageTimestamps: { Applied: '2024-03-05T00:00:00.000Z' } });
+        const other = job({ id: 'b', title: 'Backend Eng', notes: 'Referred by Alex', tags: ['referral', 'remote'], stageTimestamps: { Applied: '2024-03-01T00:00:00.000Z' }, distinctFrom: ['a', 'x'] });
+        const merged = mergeJobs(primary, [other]);
+        expect(merged.id).toBe('a');
+        expect(merged.status).toBe('Technical');
+        expect(merged.notes).toBe('Recruiter: Sam\n\nFrom "Backend Eng" (Acme Inc.):\nReferred by Alex');
+        expect(merged.tags).toEqual(['remote', 'referral']);
+        expect(merged.stageTimestamps?.Applied).toBe('2024-03-01T00:00:00.000Z');
+        expect(merged.distinctFrom).toEqual(['x']);
+    });
+
+    it('does not repeat a note the jobs share', () => {
+        const merged = mergeJobs(job({ id: 'a', notes: 'From the agent search' }), [job({ id: 'b', notes: 'From the agent search' })]);
+        expect(merged.notes).toBe('From the agent search');
+    });
+});
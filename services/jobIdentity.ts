@@ -0,0 +1,284 @@
+import { JobListing, TrackedJob } from "../types";
+import { STAGE_ORDER } from "./jobTracker";
+
+// Matching rules for telling whether two job records describe the same posting. Company names,
+// titles and URLs are normalized first, so cosmetic differences between sources don't matter.
+
+const LEGAL_SUFFIXES = /\b(incorporated|inc|llc|l\.l\.c|ltd|limited|corp|corporation|co|company|gmbh|plc|sa|ag|bv|pty|pvt|oy|ab)\b\.?/g;
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+    'sr': 'senior',
+    'jr': 'junior',
+    'eng': 'engineer',
+    'engr': 'engineer',
+    'dev': 'developer',
+    'mgr': 'manager',
+    'swe': 'software engineer',
+    'sde': 'software engineer',
+    'pm': 'product manager',
+    'front-end': 'frontend',
+    'front end': 'frontend',
+    'back-end': 'backend',
+    'back end': 'backend',
+    'full-stack': 'fullstack',
+    'full stack': 'fullstack',
+    'ii': '2',
+    'iii': '3',
+    'iv': '4',
+};
+
+// Compiled once, since titles are normalized for every pair of jobs compared.
+const TITLE_ABBREVIATION_PATTERNS = Object.entries(TITLE_ABBREVIATIONS)
+    .map(([short, long]) => ({ pattern: new RegExp(`(?<=\\s)${short}(?=\\s)`, 'g'), long }));
+
+// Query parameters added by job boards, ad networks and mail tools that never identify a posting.
+const TRACKING_PARAMS = /^(utm_.*|gclid|gclsrc|dclid|fbclid|msclkid|mc_cid|mc_eid|_hs(enc|mi)|ref|refid|referrer|source|src|trk|trkinfo|trackingid|lipi|originalsubdomain|gh_src|lever-source.*|lever-origin|campaign|from|feedid|share_id|position|pagenum|alid|ebp|eid|vjs|tk)$/i;
+
+// Where a posting id lives on the common boards, so different links to one posting still match.
+const POSTING_ID_PATTERNS: { host: RegExp; id: (url: URL) => string | null | undefined }[] = [
+    { host: /linkedin\.com$/, id: url => url.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1] || url.searchParams.get('currentJobId') },
+    { host: /indeed\./, id: url => url.searchParams.get('jk') || url.searchParams.get('vjk') },
+    { host: /greenhouse\.io$/, id: url => url.pathname.match(/\/jobs\/(\d+)/)?.[1] || url.searchParams.get('gh_jid') },
+    { host: /lever\.co$/, id: url => url.pathname.match(/\/([0-9a-f-]{36})/)?.[1] },
+    { host: /myworkdayjobs\.com$/, id: url => url.pathname.match(/_(R?-?\d+[\w-]*)$/i)?.[1] },
+    { host: /ashbyhq\.com$/, id: url => url.pathname.match(/\/([0-9a-f-]{36})/)?.[1] },
+];
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const normalizeCompany = (company: string): string =>
+    collapse(company.toLowerCase().replace(/&/g, ' and ').replace(/^the\s+/, '').replace(LEGAL_SUFFIXES, ' ').replace(/[^a-z0-9 ]/g, ' '));
+
+export const normalizeTitle = (title: string): string => {
+    let text = ` ${title.toLowerCase().replace(/[()[\],/|:]/g, ' ').replace(/\./g, '')} `;
+    for (const { pattern, long } of TITLE_ABBREVIATION_PATTERNS) {
+        text = text.replace(pattern, long);
+    }
+    return collapse(text.replace(/[^a-z0-9+# ]/g, ' '));
+};
+
+const normalizeLocation = (location: string): string =>
+    collapse(location.toLowerCase().replace(/[^a-z0-9 ]/g, ' '));
+
+// Canonical form of a posting URL: no tracking parameters, fragment, "www." or trailing slash.
+export const normalizeUrl = (raw: string): string | null => {
+    if (!raw?.trim()) return null;
+    try {
+        const url = new URL(raw.trim());
+        const host = url.hostname.toLowerCase().replace(/^www\./, '');
+        const posting = POSTING_ID_PATTERNS.find(pattern => pattern.host.test(host))?.id(url);
+        if (posting) return `${host.replace(/^[a-z]{2}\.(?=linkedin|indeed)/, '')}#${posting}`;
+        const params = [...url.searchParams.entries()]
+            .filter(([key]) => !TRACKING_PARAMS.test(key))
+            .sort(([a], [b]) => a.localeCompare(b));
+        const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+        return `${host}${url.pathname.replace(/\/+$/, '')}${query}`;
+    } catch {
+        return null;
+    }
+};
+
+// Search results sometimes link a careers home page rather than the posting, and such links say
+// nothing about identity. A link counts only if it carries a board's posting id or a specific path.
+const postingKey = (raw: string): string | null => {
+    const normalized = normalizeUrl(raw);
+    if (!normalized) return null;
+    const path = normalized.split('?')[0].split('/').slice(1);
+    return normalized.includes('#') || path.length >= 2 || path.some(segment => /\d/.test(segment)) ? normalized : null;
+};
+
+const tokens = (text: string) => new Set(text.split(' ').filter(Boolean));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    a.forEach(token => { if (b.has(token)) shared++; });
+    return shared / (a.size + b.size - shared);
+};
+
+// Share of the smaller set found in the larger, so "Backend Engineer (Payments)" still matches
+// "Backend Engineer".
+const containment = (a: Set<string>, b: Set<string>) => {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    if (small.size === 0) return 0;
+    let shared = 0;
+    small.forEach(token => { if (large.has(token)) shared++; });
+    return shared / small.size;
+};
+
+const SENIORITY_TOKENS = ['intern', 'junior', 'senior', 'staff', 'principal', 'lead', 'head', 'director', '2', '3', '4'];
+
+const seniorityOf = (title: Set<string>) => SENIORITY_TOKENS.filter(token => title.has(token)).join(' ');
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+export interface JobMatch {
+    score: number;
+    reasons: string[];
+}
+
+// The parts of a job that identity is judged on, normalized once so a job can be compared with many.
+interface JobIdentity {
+    postingKey: string | null;
+    company: string;
+    companyTokens: Set<string>;
+    title: string;
+    titleTokens: Set<string>;
+    seniority: string;
+    location: string;
+    locationTokens: Set<string>;
+}
+
+const identityOf = (job: JobListing): JobIdentity => {
+    const company = normalizeCompany(job.company);
+    const title = normalizeTitle(job.title);
+    const titleTokens = tokens(title);
+    const location = normalizeLocation(job.location);
+    return {
+        postingKey: postingKey(job.url),
+        company,
+        companyTokens: tokens(company),
+        title,
+        titleTokens,
+        seniority: seniorityOf(titleTokens),
+        location,
+        locationTokens: tokens(location),
+    };
+};
+
+// Different posting links on the same site always mean different reqs, however alike the titles.
+const compareIdentities = (a: JobIdentity, b: JobIdentity): JobMatch => {
+    if (a.postingKey && b.postingKey) {
+        if (a.postingKey === b.postingKey) return { score: 1, reasons: ['Same posting link'] };
+        if (a.postingKey.split(/[/#]/)[0] === b.postingKey.split(/[/#]/)[0]) return { score: 0, reasons: [] };
+    }
+
+    const companyScore = a.company === b.company ? 1 : jaccard(a.companyTokens, b.companyTokens);
+    if (companyScore < 0.6) return { score: 0, reasons: [] };
+
+    // A senior and a mid-level opening at one company are usually separate reqs.
+    const seniorityPenalty = a.seniority === b.seniority ? 1 : 0.5;
+    const titleScore = a.title === b.title ? 1 : (jaccard(a.titleTokens, b.titleTokens) + containment(a.titleTokens, b.titleTokens)) / 2 * seniorityPenalty;
+    const locationScore = !a.location || !b.location ? 0.5 : a.location === b.location ? 1 : containment(a.locationTokens, b.locationTokens);
+
+    const reasons = [
+        companyScore === 1 ? 'Same company' : 'Similar company name',
+        titleScore === 1 ? 'Same title' : titleScore >= 0.5 ? 'Similar title' : '',
+        locationScore === 1 ? 'Same location' : '',
+    ].filter(Boolean);
+    const score = companyScore * 0.3 + titleScore * 0.55 + locationScore * 0.15;
+    // The same title in different cities is more often a separate req than a duplicate.
+    return { score: locationScore === 0 ? Math.min(score, DUPLICATE_THRESHOLD - 0.05) : score, reasons };
+};
+
+// Scores how likely two records are the same posting, from 0 to 1.
+export const compareJobs = (a: JobListing, b: JobListing): JobMatch => compareIdentities(identityOf(a), identityOf(b));
+
+// A record this close is treated as the same job when tracking, rather than as a suspected duplicate.
+const SAME_JOB_THRESHOLD = 0.97;
+
+export const findSameJob = (jobs: TrackedJob[], listing: JobListing): TrackedJob | undefined => {
+    const identity = identityOf(listing);
+    return jobs.find(job => compareIdentities(identityOf(job), identity).score >= SAME_JOB_THRESHOLD);
+};
+
+export const findSimilarJobs = (jobs: TrackedJob[], listing: JobListing): TrackedJob[] => {
+    const identity = identityOf(listing);
+    return jobs.filter(job => {
+        const score = compareIdentities(identityOf(job), identity).score;
+        return score >= DUPLICATE_THRESHOLD && score < SAME_JOB_THRESHOLD;
+    });
+};
+
+export interface DuplicateGroup {
+    jobs: TrackedJob[];
+    reasons: string[];
+}
+
+// Clusters suspected duplicates, skipping pairs the user has said are different jobs.
+export const findDuplicateGroups = (jobs: TrackedJob[]): DuplicateGroup[] => {
+    const parent = jobs.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    const reasons = new Map<number, Set<string>>();
+    const identities = jobs.map(identityOf);
+
+    for (let i = 0; i < jobs.length; i++) {
+        for (let j = i + 1; j < jobs.length; j++) {
+            if (jobs[i].distinctFrom?.includes(jobs[j].id) || jobs[j].distinctFrom?.includes(jobs[i].id)) continue;
+            const match = compareIdentities(identities[i], identities[j]);
+            if (match.score < DUPLICATE_THRESHOLD) continue;
+            const a = root(i);
+            const b = root(j);
+            parent[b] = a;
+            const merged = new Set([...(reasons.get(a) || []), ...(reasons.get(b) || []), ...match.reasons]);
+            reasons.set(a, merged);
+        }
+    }
+
+    const groups = new Map<number, TrackedJob[]>();
+    jobs.forEach((job, i) => groups.set(root(i), [...(groups.get(root(i)) || []), job]));
+    return [...groups.entries()]
+        .filter(([, group]) => group.length > 1)
+        .map(([key, group]) => ({ jobs: group, reasons: [...(reasons.get(key) || [])] }));
+};
+
+const latestActivity = (job: TrackedJob) =>
+    Math.max(0, ...Object.values(job.stageTimestamps || {}).map(at => new Date(at!).getTime()));
+
+// The record kept by default: the one furthest along, then the most recently active.
+export const pickPrimary = (jobs: TrackedJob[]): TrackedJob =>
+    [...jobs].sort((a, b) => STAGE_ORDER.indexOf(b.status) - STAGE_ORDER.indexOf(a.status) || latestActivity(b) - latestActivity(a))[0];
+
+const earliest = (values: (string | undefined)[]) =>
+    values.filter((value): value is string => !!value).sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+
+// The jobs whose notes say something new. Copies of one note, such as a job tracked twice from the
+// same search, and notes already folded into another job's by an earlier merge are left out.
+const uniqueNotes = (jobs: TrackedJob[]): TrackedJob[] =>
+    jobs.filter((job, i) => {
+        const note = job.notes?.trim();
+        return note && jobs.every((other, j) => {
+            const otherNote = other.notes?.trim();
+            if (!otherNote || j === i) return true;
+            return otherNote === note ? j > i : !otherNote.includes(note);
+        });
+    });
+
+// Folds the other records into the primary. The primary's stage and posting details win; notes,
+// timeline events, tags and stage history are combined.
+export const mergeJobs = (primary: TrackedJob, others: TrackedJob[]): TrackedJob => {
+    const all = [primary, ...others];
+    const stageTimestamps: TrackedJob['stageTimestamps'] = {};
+    for (const stage of STAGE_ORDER) {
+        const at = earliest(all.map(job => job.stageTimestamps?.[stage]));
+        if (at) stageTimestamps[stage] = at;
+    }
+    const notes = uniqueNotes(all)
+        .map(job => job === primary ? job.notes!.trim() : `From "${job.title}" (${job.company}):\n${job.notes!.trim()}`)
+        .join('\n\n');
+    const events = all.flatMap(job => job.events || []).filter((event, i, list) => list.findIndex(e => e.id === event.id) === i);
+    const withDetail = <K extends keyof TrackedJob>(key: K) => all.find(job => job[key])?.[key];
+
+    return {
+        ...primary,
+        description: all.map(job => job.description || '').sort((a, b) => b.length - a.length)[0],
+        url: primary.url || withDetail('url') || '',
+        applicationDate: earliest(all.map(job => job.applicationDate)),
+        notes: notes || undefined,
+        resumeId: withDetail('resumeId'),
+        variantResumeId: withDetail('variantResumeId'),
+        submittedResume: withDetail('submittedResume'),
+        stageTimestamps,
+        tags: [...new Set(all.flatMap(job => job.tags || []))],
+        events,
+        distinctFrom: [...new Set(all.flatMap(job => job.distinctFrom || []))].filter(id => !all.some(job => job.id === id)),
+    };
+};
+
+// Records that each job is a different posting from all the others, so they stop being suggested.
+export const markDistinct = (jobs: TrackedJob[], distinct: TrackedJob[]): TrackedJob[] => {
+    const ids = distinct.map(job => job.id);
+    return jobs.map(job => ids.includes(job.id)
+        ? { ...job, distinctFrom: [...new Set([...(job.distinctFrom || []), ...ids.filter(id => id !== job.id)])] }
+        : job);
+};
@@ -0,0 +1,158 @@
+import { JobListing } from "../types";
+import { htmlToText } from "./resumeImporters";
+
+// Reads job postings saved from a browser. Most boards embed a schema.org JobPosting as JSON-LD
+// for search engines, which gives exact fields; pages without it fall back to their meta tags and
+// main text, which still need the model to pick out fields.
+
+export interface ParsedJobPosting {
+    listing: Partial<JobListing>;
+    // Readable text of the posting, for the model when structured data is missing or incomplete.
+    text: string;
+    // True when the page carried structured posting data.
+    structured: boolean;
+}
+
+const REQUIREMENTS_HEADING = /^(requirements|qualifications|minimum qualifications|basic qualifications|preferred qualifications|what you('|’)ll need|what we('|’)re looking for|what you bring|who you are|you have|skills( and experience)?|must[- ]haves?)\s*:?$/i;
+
+// JSON-LD comes from the page as is, so every field is checked before use.
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringOf = (value: unknown): string => typeof value === 'string' ? value : '';
+
+const asArray = (value: unknown): unknown[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const nameOf = (value: unknown): string => typeof value === 'string' ? value : isObject(value) ? stringOf(value.name) : '';
+
+const findJobPosting = (node: unknown): JsonObject | null => {
+    for (const item of asArray(node)) {
+        if (!isObject(item)) continue;
+        if (asArray(item['@type']).includes('JobPosting')) return item;
+        const nested = findJobPosting(item['@graph']);
+        if (nested) return nested;
+    }
+    return null;
+};
+
+// Descriptions are HTML, sometimes entity-escaped a second time.
+const descriptionText = (html: string): string => {
+    const unescaped = /&lt;\w/.test(html) ? new DOMParser().parseFromString(html, 'text/html').documentElement.textContent || '' : html;
+    return htmlToText(unescaped);
+};
+
+const formatLocation = (posting: JsonObject): string => {
+    const places = asArray(posting.jobLocation).map(place => {
+        const address = isObject(place) ? place.address : undefined;
+        if (typeof address === 'string') return address;
+        if (!isObject(address)) return '';
+        return [stringOf(address.addressLocality), stringOf(address.addressRegion), nameOf(address.addressCountry)].filter(Boolean).join(', ');
+    }).filter(Boolean);
+    const remote = posting.jobLocationType === 'TELECOMMUTE';
+    if (places.length === 0) {
+        const regions = asArray(posting.applicantLocationRequirements).map(nameOf).filter(Boolean);
+        return remote ? `Remote${regions.length > 0 ? ` (${regions.join(', ')})` : ''}` : '';
+    }
+    return [...new Set(places)].join('; ') + (remote ? ' (Remote)' : '');
+};
+
+const formatAmount = (value: unknown) => {
+    const amount = Number(value);
+    return Number.isFinite(amount) ? amount.toLocaleString('en-US') : String(value);
+};
+
+const SALARY_UNITS: Record<string, string> = { HOUR: 'hour', DAY: 'day', WEEK: 'week', MONTH: 'month', YEAR: 'year' };
+
+const formatSalary = (salary: unknown): string | undefined => {
+    if (!salary) return undefined;
+    if (typeof salary === 'string' || typeof salary === 'number') return String(salary);
+    if (!isObject(salary)) return undefined;
+    const value = salary.value ?? {};
+    const range = isObject(value)
+        ? [value.minValue, value.maxValue].filter(v => v !== undefined).map(formatAmount).join('–') || (value.value !== undefined ? formatAmount(value.value) : '')
+        : formatAmount(value);
+    if (!range) return undefined;
+    const unit = SALARY_UNITS[String((isObject(value) ? value.unitText : undefined) || salary.unitText || '').toUpperCase()];
+    return [stringOf(salary.currency), range].filter(Boolean).join(' ') + (unit ? ` / ${unit}` : '');
+};
+
+// Bullet lines under a requirements-style heading.
+export const requirementsFromText = (text: string): string[] => {
+    const requirements: string[] = [];
+    let inSection = false;
+    for (const raw of text.split('\n')) {
+        const line = raw.trim();
+        if (!line) continue;
+        const isBullet = /^[•\-*·]\s*/.test(line);
+        if (!isBullet) {
+            inSection = REQUIREMENTS_HEADING.test(line.replace(/[*#]/g, '').trim());
+            continue;
+        }
+        if (inSection) requirements.push(line.replace(/^[•\-*·]\s*/, ''));
+    }
+    return requirements;
+};
+
+const postingRequirements = (posting: JsonObject, description: string): string[] => {
+    const listed = ['qualifications', 'experienceRequirements', 'skills']
+        .flatMap(key => asArray(posting[key]))
+        .map(value => typeof value === 'string' ? descriptionText(value) : nameOf(value) || (isObject(value) ? stringOf(value.description) : ''))
+        .flatMap(value => value.split('\n'))
+        .map(line => line.replace(/^[•\-*·]\s*/, '').trim())
+        .filter(Boolean);
+    return listed.length > 0 ? listed : requirementsFromText(description);
+};
+
+const meta = (doc: Document, ...names: string[]) => {
+    for (const name of names) {
+        const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content');
+        if (content?.trim()) return content.trim();
+    }
+    return '';
+};
+
+export const parseJobPostingHtml = (html: string): ParsedJobPosting => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const pageUrl = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') || meta(doc, 'og:url');
+
+    let posting: JsonObject | null = null;
+    for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+        try {
+            posting = findJobPosting(JSON.parse(script.textContent || ''));
+        } catch {
+            // Pages sometimes ship malformed JSON-LD alongside a valid block; skip it.
+        }
+        if (posting) break;
+    }
+
+    if (posting) {
+        const description = descriptionText(stringOf(posting.description));
+        return {
+            listing: {
+                title: stringOf(posting.title),
+                company: nameOf(posting.hiringOrganization),
+                location: formatLocation(posting),
+                description,
+                url: stringOf(posting.url) || pageUrl || '',
+                salary: formatSalary(posting.baseSalary || posting.estimatedSalary),
+                requirements: postingRequirements(posting, description),
+            },
+            text: description,
+            structured: true,
+        };
+    }
+
+    const main = doc.querySelector('main, article, [role="main"]') || doc.body;
+    const text = htmlToText(main.outerHTML);
+    return {
+        listing: {
+            title: meta(doc, 'og:title', 'twitter:title') || doc.title || '',
+            company: meta(doc, 'og:site_name'),
+            url: pageUrl || '',
+            requirements: requirementsFromText(text),
+        },
+        text,
+        structured: false,
+    };
+};
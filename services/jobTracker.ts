@@ -0,0 +1,89 @@
+import { ApplicationEvent, ApplicationStatus, JobSource, TrackedJob } from "../types";
+import { createId } from "./resumeLibrary";
+import { defineCollection } from "./storage";
+
+export const TRACKED_JOBS_KEY = 'trackedJobs';
+
+export interface ApplicationStage {
+    id: ApplicationStatus;
+    // Tailwind classes for the column's top border and count badge.
+    accent: string;
+    badge: string;
+    // Closed stages end an application; they sit at the right of the board.
+    closed: boolean;
+}
+
+export const APPLICATION_STAGES: ApplicationStage[] = [
+    { id: 'Saved', accent: 'border-gray-400', badge: 'bg-gray-500/20 text-gray-300', closed: false },
+    { id: 'Applied', accent: 'border-sky-400', badge: 'bg-sky-500/20 text-sky-300', closed: false },
+    { id: 'Recruiter Screen', accent: 'border-indigo-400', badge: 'bg-indigo-500/20 text-indigo-300', closed: false },
+    { id: 'Technical', accent: 'border-purple-400', badge: 'bg-purple-500/20 text-purple-300', closed: false },
+    { id: 'Onsite', accent: 'border-fuchsia-400', badge: 'bg-fuchsia-500/20 text-fuchsia-300', closed: false },
+    { id: 'Offer', accent: 'border-green-400', badge: 'bg-green-500/20 text-green-300', closed: false },
+    { id: 'Rejected', accent: 'border-red-400', badge: 'bg-red-500/20 text-red-300', closed: true },
+    { id: 'Withdrawn', accent: 'border-amber-400', badge: 'bg-amber-500/20 text-amber-300', closed: true },
+    { id: 'Ghosted', accent: 'border-slate-400', badge: 'bg-slate-500/20 text-slate-300', closed: true },
+];
+
+export const STAGE_ORDER: ApplicationStatus[] = APPLICATION_STAGES.map(stage => stage.id);
+
+export const SOURCE_LABELS: Record<JobSource, string> = {
+    'agent': 'Agent search',
+    'manual': 'Added manually',
+};
+
+// Statuses stored before the board had its current stages.
+const LEGACY_STATUSES: Record<string, ApplicationStatus> = {
+    'Interviewing': 'Recruiter Screen',
+    'Offer Received': 'Offer',
+};
+
+const appliedEvent = (date: string): ApplicationEvent => ({ id: createId(), type: 'applied', date });
+
+// Maps legacy statuses and backfills the Applied timestamp and timeline entry from the application date.
+// Jobs saved before sources were recorded could only have come from the agent search.
+export const normalizeTrackedJob = (job: TrackedJob): TrackedJob => {
+    const status = LEGACY_STATUSES[job.status] || (STAGE_ORDER.includes(job.status) ? job.status : 'Saved');
+    const stageTimestamps = { ...job.stageTimestamps };
+    // A date that doesn't parse is left alone rather than failing the whole tracker.
+    const applied = job.applicationDate ? new Date(job.applicationDate) : null;
+    if (applied && !Number.isNaN(applied.getTime()) && status !== 'Saved' && !stageTimestamps.Applied) {
+        stageTimestamps.Applied = applied.toISOString();
+    }
+    const events = job.events || (job.applicationDate && status !== 'Saved' ? [appliedEvent(job.applicationDate)] : []);
+    return { ...job, status, source: job.source || 'agent', stageTimestamps, tags: job.tags || [], events };
+};
+
+// Moves a job to a stage, recording when it first got there. Leaving "Saved" also fills in the
+// application date if the user hasn't set one, and logs it on the timeline.
+export const moveToStage = (job: TrackedJob, status: ApplicationStatus, at: Date = new Date()): TrackedJob => {
+    if (job.status === status) return job;
+    const stageTimestamps = { ...job.stageTimestamps };
+    stageTimestamps[status] ||= at.toISOString();
+    const applicationDate = job.applicationDate || (status !== 'Saved' ? at.toISOString().split('T')[0] : undefined);
+    const events = job.events || [];
+    const needsApplied = applicationDate && status !== 'Saved' && !events.some(event => event.type === 'applied');
+    return { ...job, status, stageTimestamps, applicationDate, events: needsApplied ? [...events, appliedEvent(applicationDate)] : events };
+};
+
+// Version 1 only added the storage envelope; older records are brought up to date by normalizing.
+export const trackedJobsStore = defineCollection<TrackedJob[]>({
+    key: TRACKED_JOBS_KEY,
+    version: 1,
+    fallback: () => [],
+    parse: jobs => {
+        if (!Array.isArray(jobs)) throw new Error("Tracked jobs are not a list.");
+        return jobs.filter(job => job && typeof job === 'object').map(normalizeTrackedJob);
+    },
+});
+
+export const hiddenStagesStore = defineCollection<ApplicationStatus[]>({
+    key: 'trackerHiddenStages',
+    version: 1,
+    fallback: () => [],
+    parse: stages => Array.isArray(stages) ? stages.filter(stage => STAGE_ORDER.includes(stage)) : [],
+});
+
+export const loadTrackedJobs = (): TrackedJob[] => trackedJobsStore.read();
+
+export const saveTrackedJobs = (jobs: TrackedJob[]): boolean => trackedJobsStore.write(jobs);
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeKeywordGap, extractJobKeywords } from './keywordGap';
+import { createEmptyResume } from './resumeModel';
+
+const DESCRIPTION = `Requirements
+- 3+ years of machine learning in production
+- Python and SQL; experience with feature stores
+- Build feature stores and model monitoring for machine learning teams
+
+Nice to have
+- Computer vision or model monitoring tooling`;
+
+const keywordsOf = (description: string) => extractJobKeywords(description).map(k => `${k.keyword}:${k.importance}`);
+
+describe('extractJobKeywords', () => {
+    it('keeps known phrases whole', () => {
+        const keywords = keywordsOf(DESCRIPTION);
+        expect(keywords).toContain('machine learning:required');
+        expect(keywords).toContain('computer vision:preferred');
+        expect(keywords).not.toContain('machine:required');
+        expect(keywords).not.toContain('learning:required');
+    });
+
+    it('treats recurring word pairs as phrases', () => {
+        const keywords = keywordsOf(DESCRIPTION);
+        expect(keywords).toContain('feature stores:required');
+        expect(keywords).toContain('model monitoring:required');
+        expect(keywords).not.toContain('stores:required');
+    });
+
+    it('falls back to single words', () => {
+        expect(keywordsOf(DESCRIPTION)).toEqual(expect.arrayContaining(['python:required', 'sql:required', 'tooling:preferred']));
+    });
+
+    it("doesn't join words across list items", () => {
+        const keywords = extractJobKeywords('Python, Kafka\nPython, Kafka').map(k => k.keyword);
+        expect(keywords).toEqual(['kafka', 'python']);
+    });
+});
+
+describe('analyzeKeywordGap', () => {
+    it('matches phrases only where all their words appear together', () => {
+        const resume = {
+            ...createEmptyResume(),
+            summary: 'Engineer applying machine learning to fraud.',
+            skills: ['Python', 'Learning management systems'],
+        };
+        const matches = analyzeKeywordGap(resume, [{ id: 'job', title: 'ML Engineer', company: '', description: DESCRIPTION }]);
+        const fieldsOf = (keyword: string) => matches.find(m => m.keyword === keyword)?.fieldIds;
+        expect(fieldsOf('machine learning')).toEqual(['summary']);
+        expect(fieldsOf('python')).toEqual(['skills.0']);
+        expect(fieldsOf('feature stores')).toEqual([]);
+    });
+});
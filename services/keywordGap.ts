@@ -0,0 +1,131 @@
+import { KeywordImportance, KeywordMatch, StructuredResume, TargetJob } from "../types";
+import { isMeaningfulWord, tokenizeWords } from "./atsScorer";
+import { listResumeFields } from "./resumeModel";
+
+const PREFERRED_HEADING = /(preferred|nice to have|nice-to-have|bonus|pluses|desired|good to have)/i;
+const REQUIRED_HEADING = /(requirements|required|qualifications|must have|must-have|what you('|’)ll need|what you bring|you have|responsibilities)/i;
+const PREFERRED_SENTENCE = /(preferred|nice to have|is a plus|a bonus|bonus points|ideally|desirable)/i;
+
+const REQUIRED_LIMIT = 20;
+const PREFERRED_LIMIT = 10;
+
+// Terms that only mean something together, so "machine learning" isn't reported as "machine" and
+// "learning". Written as tokenizeWords would split them.
+const KNOWN_PHRASES = [
+    'machine learning', 'deep learning', 'computer vision', 'natural language processing', 'data science',
+    'data analysis', 'data engineering', 'data visualization', 'business intelligence', 'distributed systems',
+    'system design', 'software development', 'web development', 'mobile development', 'unit testing',
+    'test automation', 'quality assurance', 'continuous integration', 'continuous delivery', 'infrastructure as code',
+    'cloud computing', 'google cloud', 'version control', 'incident response', 'information security',
+    'site reliability', 'react native', 'ruby on rails', 'power bi', 'user experience', 'user research',
+    'product management', 'project management', 'program management', 'stakeholder management', 'change management',
+    'risk management', 'supply chain', 'financial modeling', 'customer success', 'customer service',
+    'digital marketing', 'content marketing', 'social media', 'search engine optimization', 'technical writing',
+    'public speaking', 'cross functional',
+];
+
+// Other word pairs and triples count as one term once they recur anywhere in a description.
+const PHRASE_MIN_COUNT = 2;
+const MAX_PHRASE_WORDS = 3;
+
+// Stretches of text a phrase can't span: lines, clauses and sentences. Dots inside words such as
+// "node.js" don't end a sentence.
+const chunksOf = (text: string): string[][] =>
+    text.split(/[\n,;:!?()]+|\.(?=\s|$)/).map(tokenizeWords).filter(tokens => tokens.length > 0);
+
+const findPhrases = (chunks: string[][]): Set<string> => {
+    const counts = new Map<string, number>();
+    for (const tokens of chunks) {
+        for (let n = 2; n <= MAX_PHRASE_WORDS; n++) {
+            for (let i = 0; i + n <= tokens.length; i++) {
+                const gram = tokens.slice(i, i + n);
+                if (!gram.every(isMeaningfulWord)) continue;
+                const phrase = gram.join(' ');
+                counts.set(phrase, (counts.get(phrase) || 0) + 1);
+            }
+        }
+    }
+    const recurring = [...counts.entries()].filter(([, count]) => count >= PHRASE_MIN_COUNT).map(([phrase]) => phrase);
+    return new Set([...KNOWN_PHRASES, ...recurring]);
+};
+
+// The most frequent terms in a description, most frequent first. At each position the longest
+// known or recurring phrase is taken before falling back to the single word.
+const extractTerms = (text: string, phrases: Set<string>, limit: number): string[] => {
+    const chunks = chunksOf(text);
+    const longest = Math.max(...[...phrases].map(phrase => phrase.split(' ').length));
+    const counts = new Map<string, number>();
+    for (const tokens of chunks) {
+        let i = 0;
+        while (i < tokens.length) {
+            let n = Math.min(longest, tokens.length - i);
+            while (n > 1 && !phrases.has(tokens.slice(i, i + n).join(' '))) n--;
+            const term = tokens.slice(i, i + n).join(' ');
+            if (n > 1 || isMeaningfulWord(term)) counts.set(term, (counts.get(term) || 0) + 1);
+            i += n;
+        }
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([term]) => term);
+};
+
+// Splits a job description into the parts that read as requirements and the parts that read
+// as nice-to-haves, based on section headings and hedging phrases in individual lines.
+const splitByImportance = (description: string): Record<KeywordImportance, string> => {
+    const parts: Record<KeywordImportance, string[]> = { required: [], preferred: [] };
+    let section: KeywordImportance = 'required';
+    for (const line of description.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+        const isHeading = trimmed.split(/\s+/).length <= 6 && !/[.!?]$/.test(trimmed);
+        if (isHeading && PREFERRED_HEADING.test(trimmed)) {
+            section = 'preferred';
+        } else if (isHeading && REQUIRED_HEADING.test(trimmed)) {
+            section = 'required';
+        }
+        parts[PREFERRED_SENTENCE.test(trimmed) ? 'preferred' : section].push(trimmed);
+    }
+    return { required: parts.required.join('\n'), preferred: parts.preferred.join('\n') };
+};
+
+export const extractJobKeywords = (description: string): Array<{ keyword: string; importance: KeywordImportance }> => {
+    const { required, preferred } = splitByImportance(description);
+    const phrases = findPhrases(chunksOf(description));
+    const requiredKeywords = extractTerms(required, phrases, REQUIRED_LIMIT);
+    const preferredKeywords = extractTerms(preferred, phrases, PREFERRED_LIMIT).filter(k => !requiredKeywords.includes(k));
+    return [
+        ...requiredKeywords.map(keyword => ({ keyword, importance: 'required' as const })),
+        ...preferredKeywords.map(keyword => ({ keyword, importance: 'preferred' as const })),
+    ];
+};
+
+// Merges the keywords of every target job and records where each one appears in the resume.
+// A keyword required by any job counts as required.
+export const analyzeKeywordGap = (resume: StructuredResume, jobs: TargetJob[]): KeywordMatch[] => {
+    const merged = new Map<string, { importance: KeywordImportance; jobIds: string[] }>();
+    for (const job of jobs) {
+        for (const { keyword, importance } of extractJobKeywords(job.description)) {
+            const existing = merged.get(keyword);
+            if (existing) {
+                existing.jobIds.push(job.id);
+                if (importance === 'required') existing.importance = 'required';
+            } else {
+                merged.set(keyword, { importance, jobIds: [job.id] });
+            }
+        }
+    }
+
+    // Padded with spaces so a keyword, one word or several, only matches whole words.
+    const fields = listResumeFields(resume).map(field => ({ id: field.id, text: ` ${tokenizeWords(field.text).join(' ')} ` }));
+    return Array.from(merged.entries())
+        .map(([keyword, { importance, jobIds }]) => ({
+            keyword,
+            importance,
+            jobIds,
+            fieldIds: fields.filter(field => field.text.includes(` ${keyword} `)).map(field => field.id),
+        }))
+        // Required first, then the keywords most jobs share.
+        .sort((a, b) => (a.importance === b.importance ? 0 : a.importance === 'required' ? -1 : 1) || b.jobIds.length - a.jobIds.length);
+};
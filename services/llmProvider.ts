@@ -0,0 +1,114 @@
+import { Schema } from "@google/genai";
+
+export type LlmProviderName = 'gemini' | 'local';
+
+// Every call site names its task so fixture-based providers can answer without a model.
+export type LlmTask =
+    | 'analyzeResume'
+    | 'careerRoadmap'
+    | 'resumeSuggestions'
+    | 'atsScore'
+    | 'jobListings'
+    | 'jobPosting'
+    | 'jobSearchAgent'
+    | 'interviewFeedback'
+    | 'interviewChat'
+    | 'structureResume'
+    | 'tailorResume'
+    | 'linkedInConnections'
+    | 'networkingMessage'
+    | 'careerTrajectory'
+    | 'jobFit'
+    | 'nextSteps'
+    | 'linkedInOptimization'
+    | 'videoPitch'
+    | 'companyVibe'
+    | 'coverLetter'
+    | 'interviewQuestions'
+    | 'questionBank'
+    | 'answerScores';
+
+export interface LlmPart {
+    text?: string;
+    inlineData?: { mimeType: string; data: string };
+}
+
+export type LlmContents = string | { parts: LlmPart[] };
+
+export interface LlmRequest {
+    task: LlmTask;
+    model: string;
+    contents: LlmContents;
+}
+
+export interface LlmJsonRequest extends LlmRequest {
+    schema: Schema;
+}
+
+export interface LlmStreamRequest extends LlmRequest {
+    grounded?: boolean;
+}
+
+export interface LlmStreamChunk {
+    text: string;
+}
+
+export interface GroundedResult {
+    text: string;
+    groundingMetadata: any;
+}
+
+export interface LlmProvider {
+    readonly name: LlmProviderName;
+    generateJson<T>(request: LlmJsonRequest): Promise<T>;
+    generateText(request: LlmRequest): Promise<string>;
+    generateTextStream(request: LlmStreamRequest): Promise<AsyncIterable<LlmStreamChunk>>;
+    groundedSearch(request: LlmRequest): Promise<GroundedResult>;
+}
+
+// Thrown when a provider answers but the payload can't be parsed as the requested JSON.
+export class LlmResponseFormatError extends Error {
+    constructor(public readonly task: LlmTask, public readonly rawText: string) {
+        super(`The ${task} response was not valid JSON.`);
+        this.name = 'LlmResponseFormatError';
+    }
+}
+
+// Flattens request contents into plain text, ignoring inline media.
+export const contentsToText = (contents: LlmContents): string => {
+    if (typeof contents === 'string') return contents;
+    return contents.parts.map(part => part.text || '').join('');
+};
+
+let activeProvider: LlmProvider | null = null;
+
+const resolveProviderName = (): LlmProviderName => {
+    const configured = process.env.LLM_PROVIDER;
+    if (configured === 'gemini' || configured === 'local') {
+        return configured;
+    }
+    if (!process.env.API_KEY) {
+        console.warn("API_KEY is not set; falling back to the local fixture LLM provider.");
+        return 'local';
+    }
+    return 'gemini';
+};
+
+export const getLlmProvider = async (): Promise<LlmProvider> => {
+    if (!activeProvider) {
+        // Loaded lazily so the Gemini SDK client is never constructed in offline mode.
+        if (resolveProviderName() === 'local') {
+            const { createLocalProvider } = await import('./localProvider');
+            activeProvider = createLocalProvider();
+        } else {
+            const { createGeminiProvider } = await import('./geminiProvider');
+            activeProvider = createGeminiProvider();
+        }
+    }
+    return activeProvider;
+};
+
+// Lets callers (and tests) swap the backend at runtime.
+export const setLlmProvider = (provider: LlmProvider | null) => {
+    activeProvider = provider;
+};
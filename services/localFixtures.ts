@@ -0,0 +1,301 @@
+import { LlmTask } from "./llmProvider";
+
+// Deterministic canned responses for the local provider. Each fixture receives the flattened
+// request text so it can echo real resume content where the UI depends on it.
+export type Fixture = (input: string) => unknown;
+
+// A stable 0-99 value derived from the input, so identical text always yields identical numbers.
+const stableHash = (input: string): number => {
+    let hash = 0;
+    for (let i = 0; i < input.length; i++) {
+        hash = (hash * 31 + input.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % 100;
+};
+
+const extractResumeText = (input: string): string => {
+    const marker = input.lastIndexOf('Resume Text:');
+    return marker === -1 ? input : input.slice(marker + 'Resume Text:'.length);
+};
+
+// Suggestion requests list the resume as "[fieldId] text" lines.
+const firstResumeFields = (input: string, count: number): Array<{ fieldId: string; line: string }> =>
+    input
+        .split('\n')
+        .map(line => line.match(/^\[([\w.]+)\] (.+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null && match[2].trim().length > 20)
+        .slice(0, count)
+        .map(match => ({ fieldId: match[1], line: match[2].trim() }));
+
+const SAMPLE_JOBS = [
+    {
+        title: "Senior Product Manager, Payments",
+        company: "Northwind Fintech",
+        location: "Remote (US)",
+        description: "Own the payments roadmap, partner with engineering and compliance, and ship customer-facing features end to end.",
+        url: "https://example.com/jobs/northwind-senior-pm",
+    },
+    {
+        title: "Product Manager, Lending Platform",
+        company: "Contoso Capital",
+        location: "New York, NY",
+        description: "Drive discovery and delivery for the lending platform, define success metrics and lead cross-functional squads.",
+        url: "https://example.com/jobs/contoso-pm-lending",
+    },
+    {
+        title: "Group Product Manager",
+        company: "Fabrikam Pay",
+        location: "Remote (EU)",
+        description: "Lead a team of PMs across onboarding and risk, with a focus on experimentation and data-informed decisions.",
+        url: "https://example.com/jobs/fabrikam-gpm",
+    },
+];
+
+export const LOCAL_GROUNDING_METADATA = {
+    groundingChunks: [
+        { web: { uri: "https://example.com/culture", title: "example.com" } },
+    ],
+};
+
+export const LOCAL_FIXTURES: Record<LlmTask, Fixture> = {
+    analyzeResume: (input) => ({
+        summary: "Results-driven professional with a track record of shipping cross-functional projects. Combines strong communication with hands-on technical depth.",
+        atsScore: 60 + Math.round(stableHash(input) / 4),
+        strengths: [
+            { point: "Cross-functional leadership", explanation: "Experience coordinating engineering, design and business stakeholders." },
+            { point: "Technical fluency", explanation: "Comfortable discussing architecture and trade-offs with engineers." },
+        ],
+        weaknesses: [
+            { point: "Few quantified outcomes", explanation: "Add metrics (%, $, time saved) to show the impact of your work." },
+            { point: "Generic summary", explanation: "Tailor the summary to the roles you are targeting." },
+        ],
+        suggestedRoles: [
+            { role: "Product Manager", matchPercentage: 86, reasoning: "Blend of delivery and stakeholder management.", salaryRange: "$110k - $150k", marketDemand: "High", growthOutlook: "10% growth expected over next decade" },
+            { role: "Technical Program Manager", matchPercentage: 78, reasoning: "Strong coordination across engineering teams.", salaryRange: "$120k - $160k", marketDemand: "Growing", growthOutlook: "8% growth expected over next decade" },
+        ],
+    }),
+
+    careerRoadmap: () => ({
+        roadmap: [
+            { stage: "Foundations", description: "Build core domain knowledge.", skillsToLearn: ["Domain fundamentals", "Stakeholder communication"], projectIdeas: ["Write a teardown of a product you use daily"], resources: ["Online course: Introduction to the role"] },
+            { stage: "Practitioner", description: "Apply skills on real projects.", skillsToLearn: ["Prioritisation", "Metrics definition"], projectIdeas: ["Lead a small feature from idea to launch"], resources: ["Book: Inspired"] },
+            { stage: "Leader", description: "Scale your impact through others.", skillsToLearn: ["Strategy", "Mentoring"], projectIdeas: ["Define a 12-month strategy for a product area"], resources: ["Book: Good Strategy Bad Strategy"] },
+        ],
+    }),
+
+    resumeSuggestions: (input) => ({
+        suggestions: firstResumeFields(input, 3).map(({ fieldId, line }) => ({
+            fieldId,
+            originalText: line,
+            suggestedChange: `${line.replace(/\.$/, '')}, delivering measurable results for the team.`,
+            explanation: "Ending with a concrete outcome shows impact rather than just responsibility.",
+        })),
+    }),
+
+    atsScore: (input) => ({
+        atsScore: 60 + Math.round(stableHash(extractResumeText(input)) / 4),
+    }),
+
+    jobListings: () => JSON.stringify({ jobs: SAMPLE_JOBS }),
+
+    jobSearchAgent: () => [
+        "<plan>\n1. Interpret the mission and candidate background.\n2. Search for matching roles.\n3. Filter for relevance and recency.\n</plan>",
+        "<log>\nParsed mission and extracted target role and location.\nSearched job boards for matching postings.\nFiltered results to the most relevant listings.\n</log>",
+        `<jobs>${JSON.stringify({ jobs: SAMPLE_JOBS })}</jobs>`,
+    ].join('\n'),
+
+    interviewFeedback: () => ({
+        feedback: {
+            clarityScore: 74,
+            clarityFeedback: "Answers were mostly clear; trim long preambles.",
+            relevanceScore: 80,
+            relevanceFeedback: "You stayed on topic for most questions.",
+            confidenceScore: 70,
+            confidenceFeedback: "Use more decisive language when describing your decisions.",
+            starMethodAdherence: { score: 65, feedback: "Situations were clear but results were often missing." },
+            relevantKeywordsUsed: ["stakeholders", "roadmap", "metrics"],
+            fillerWordCount: 6,
+            sentiment: "Positive",
+            overallFeedback: "A solid practice session. Focus on closing each story with a measurable result.",
+            exampleImprovements: [
+                { userAnswer: "I worked with the team to fix it.", suggestion: "Name your specific action and quantify the outcome." },
+                { userAnswer: "It went well in the end.", suggestion: "Describe the result with a metric, e.g. 'cut churn by 12%'." },
+            ],
+        },
+    }),
+
+    interviewChat: (input) => {
+        const planned = input.match(/^Instruction from the app: Ask question \d+ of \d+: (.+)$/m)?.[1];
+        const hasStarted = /^Interviewer:/m.test(input);
+        if (planned) return hasStarted ? `Thank you. ${planned}` : `Hi, thanks for making the time today. Let's begin. ${planned}`;
+        const questions = [
+            "Hi, thanks for making the time today. To start, could you walk me through your background?",
+            "Thanks. Tell me about a project where you had to influence people you didn't manage.",
+            "What was the hardest trade-off you made on that project, and how did you decide?",
+            "How do you measure whether your work was successful?",
+            "Tell me about a time something you owned went wrong. What did you do?",
+        ];
+        const asked = (input.match(/^Interviewer:/gm) || []).length;
+        return asked < questions.length ? questions[asked] : "Thanks, that's all my questions. Do you have anything you'd like to ask me?";
+    },
+
+    structureResume: (input) => {
+        const lines = extractResumeText(input).split('\n').map(line => line.trim()).filter(Boolean);
+        const email = lines.join(' ').match(/[\w.+-]+@[\w-]+\.[\w.]+/)?.[0] || '';
+        const phone = lines.join(' ').match(/\+?\d[\d\s().-]{7,}\d/)?.[0] || '';
+        return {
+            name: lines[0] || 'Your Name',
+            email,
+            phone,
+            summary: lines.slice(1, 3).join(' '),
+            experience: [
+                { company: "Most Recent Company", role: "Most Recent Role", dates: "2021 - Present", description: lines.slice(3, 7) },
+            ],
+            education: [],
+            skills: [],
+        };
+    },
+
+    tailorResume: (input) => {
+        const jobTitle = input.match(/for the "([^"]+)" role/)?.[1] || 'target';
+        const jobWords = new Set((input.match(/Job Description:\n([\s\S]*?)\n\nSummary:/)?.[1] || '').toLowerCase().match(/[a-z]{4,}/g) || []);
+        const summary = input.match(/Summary:\n([\s\S]*?)\n\nSkills:/)?.[1].trim() || '';
+        const relevance = (text: string) => (text.toLowerCase().match(/[a-z]{4,}/g) || []).filter(word => jobWords.has(word)).length;
+        const byPosition = new Map<number, Array<{ source: string; text: string }>>();
+        for (const match of input.matchAll(/^\[(\d+)\.(\d+)\] (.+)$/gm)) {
+            const bullets = byPosition.get(Number(match[1])) || [];
+            bullets.push({ source: `${match[1]}.${match[2]}`, text: match[3].trim() });
+            byPosition.set(Number(match[1]), bullets);
+        }
+        return {
+            summary: `${summary.replace(/\.?$/, '.')} Now focused on bringing this experience to a ${jobTitle} role.`.trim(),
+            experience: Array.from(byPosition.entries()).map(([index, bullets]) => ({
+                index,
+                bullets: [...bullets].sort((a, b) => relevance(b.text) - relevance(a.text)),
+            })),
+            changes: [
+                `Rewrote the summary to target the ${jobTitle} role.`,
+                "Moved the bullets that share the most keywords with the job description to the top of each position.",
+            ],
+        };
+    },
+
+    linkedInConnections: () => JSON.stringify({
+        connections: [
+            { name: "Alex Rivera", title: "Director of Product", linkedinUrl: "https://www.linkedin.com/search/results/people/?keywords=Alex+Rivera" },
+            { name: "Sam Chen", title: "Senior Product Manager", linkedinUrl: "https://www.linkedin.com/search/results/people/?keywords=Sam+Chen" },
+        ],
+    }),
+
+    networkingMessage: () => "I came across your profile while researching the team and was impressed by the work you've been leading. My background is in shipping cross-functional products, and I'd value 15 minutes of your time to hear how your team approaches its roadmap. Would you be open to a short call in the next couple of weeks?",
+
+    careerTrajectory: () => ({
+        trajectory: [
+            { role: "Senior Individual Contributor", duration: "1-2 years", keyResponsibilities: ["Own a product area end to end"], skillsToAcquire: ["Strategic thinking"], suggestedResources: [{ name: "Coursera: Strategic Leadership", url: "https://www.coursera.org" }] },
+            { role: "Team Lead", duration: "2-3 years", keyResponsibilities: ["Manage and grow a small team"], skillsToAcquire: ["Coaching", "Hiring"], suggestedResources: [{ name: "The Manager's Path", url: "https://www.oreilly.com" }] },
+            { role: "Dream Job", duration: "Ongoing", keyResponsibilities: ["Set direction for the organisation"], skillsToAcquire: ["Executive communication"], suggestedResources: [{ name: "HBR Leadership articles", url: "https://hbr.org" }] },
+        ],
+    }),
+
+    jobPosting: (input) => {
+        const posting = input.slice(input.lastIndexOf('Job Posting:') + 'Job Posting:'.length).trim();
+        const lines = posting.split('\n').map(line => line.trim()).filter(Boolean);
+        const field = (label: RegExp) => lines.map(line => line.match(label)?.[1]?.trim()).find(Boolean) || '';
+        const heading = lines[0] || '';
+        const atCompany = heading.match(/^(.+?)\s+(?:at|@|-|–|\|)\s+(.+)$/);
+        let inRequirements = false;
+        const requirements: string[] = [];
+        for (const line of lines) {
+            if (/^[•\-*]/.test(line)) {
+                if (inRequirements) requirements.push(line.replace(/^[•\-*]\s*/, ''));
+            } else {
+                inRequirements = /requirements|qualifications|you('|’)ll need|looking for/i.test(line) && line.length < 60;
+            }
+        }
+        return {
+            title: atCompany?.[1] || heading,
+            company: field(/^company:\s*(.+)$/i) || atCompany?.[2] || '',
+            location: field(/^location:\s*(.+)$/i) || (/\bremote\b/i.test(posting) ? 'Remote' : ''),
+            salary: posting.match(/[$£€]\s?\d[\d,.]*k?(?:\s*(?:-|–|to)\s*[$£€]?\s?\d[\d,.]*k?)?(?:\s*(?:\/|per)\s*(?:year|yr|hour|hr))?/i)?.[0] || '',
+            url: posting.match(/https?:\/\/\S+/)?.[0].replace(/[).,]+$/, '') || '',
+            requirements,
+        };
+    },
+
+    jobFit: (input) => ({
+        fitScore: 55 + Math.round(stableHash(input) / 3),
+        matchingSkills: ["Communication", "Project management"],
+        skillGaps: [{ skill: "SQL", reason: "The role expects self-serve analysis of product metrics." }],
+        actionableSteps: [{ skillGap: "SQL", suggestion: "Complete an introductory SQL course and analyse a public dataset." }],
+        overallVerdict: "A reasonable fit with a clear gap in data skills. Address SQL before applying to senior roles.",
+    }),
+
+    nextSteps: () => ({
+        steps: [
+            { suggestion: "Add measurable outcomes to your most recent role.", targetTab: "editor" },
+            { suggestion: "Launch the AI job agent for your top suggested role.", targetTab: "jobs" },
+        ],
+    }),
+
+    linkedInOptimization: () => ({
+        optimizedHeadline: "Product Leader | Turning Customer Insight into Shipped Outcomes",
+        optimizedAbout: "I help teams ship products customers love by pairing discovery with disciplined delivery. Let's connect if you're building something ambitious.",
+        keyImprovements: ["Leads with value proposition", "Adds industry keywords", "Ends with a call to action"],
+    }),
+
+    videoPitch: () => ({
+        speechClarity: { score: 75, feedback: "Clear articulation overall." },
+        pacing: { score: 70, feedback: "Slightly rushed towards the end." },
+        bodyLanguage: { score: 72, feedback: "Open posture; reduce fidgeting." },
+        eyeContact: { score: 68, feedback: "Look at the lens more often." },
+        professionalism: { score: 82, feedback: "Tidy background and appropriate attire." },
+        overallFeedback: "A confident pitch. Slow down and hold eye contact with the camera.",
+        actionableImprovements: ["Pause between key points", "Look into the lens", "End with a clear ask"],
+    }),
+
+    companyVibe: () => JSON.stringify({
+        vibeFitScore: 72,
+        vibeSummary: "A fast-moving, collaborative culture with high autonomy.",
+        matchReasoning: "Your preference for dynamic, collaborative work aligns well; expect less formal structure than you may be used to.",
+        companyVibe: {
+            pace: "Fast-paced",
+            collaboration: "Highly collaborative",
+            structure: "Flat",
+            workLifeBalance: "Generally good, with busy launch periods.",
+            keywords: ["ownership", "candor", "impact"],
+        },
+    }),
+
+    coverLetter: () => "Dear Hiring Manager,\n\nI am excited to apply for this role. My experience leading cross-functional projects and delivering measurable results maps closely to the responsibilities described in the posting.\n\nI would welcome the opportunity to discuss how I can contribute to your team.\n\nSincerely,\nThe Candidate",
+
+    interviewQuestions: () => "1. Tell me about a project you led from start to finish.\n   Tip: They want ownership and a measurable result.\n2. How do you prioritise competing requests?\n   Tip: Show a framework and how you communicate trade-offs.\n3. Describe a time you disagreed with a stakeholder.\n   Tip: Focus on how you reached alignment.",
+
+    questionBank: (input) => {
+        const company = input.match(/ at "([^"]+)"/)?.[1] || 'the company';
+        return {
+            questions: [
+                { category: 'behavioral', difficulty: 'easy', text: `Why do you want to join ${company}?`, lookingFor: "Specific reasons tied to the product and mission, not perks." },
+                { category: 'behavioral', difficulty: 'medium', text: "Tell me about a time you shipped something under real constraints.", lookingFor: "Clear trade-offs and a measurable outcome." },
+                { category: 'technical', difficulty: 'medium', text: "Walk me through how you would measure success for a feature you launched.", lookingFor: "Leading and lagging metrics, and a baseline." },
+                { category: 'technical', difficulty: 'hard', text: "How would you design the first version of our core workflow for a new market?", lookingFor: "Scoping an MVP, assumptions, and how to validate them." },
+                { category: 'situational', difficulty: 'medium', text: "Engineering says your top priority will slip a quarter. What do you do?", lookingFor: "Re-planning with the team and communicating early." },
+                { category: 'situational', difficulty: 'hard', text: "A key customer threatens to churn unless you build a one-off feature. How do you respond?", lookingFor: "Weighing the customer against the roadmap, with data." },
+                { category: 'company', difficulty: 'easy', text: `What do you know about ${company}'s customers?`, lookingFor: "Research beyond the homepage." },
+                { category: 'company', difficulty: 'medium', text: `Who do you see as ${company}'s main competitors, and how would you differentiate?`, lookingFor: "Market awareness and a point of view." },
+            ],
+        };
+    },
+
+    answerScores: (input) => ({
+        answers: [...input.matchAll(/Candidate's answer: (.*)/g)].map((match, i) => {
+            const score = 50 + Math.round(stableHash(match[1]) * 0.45);
+            return {
+                questionNumber: i + 1,
+                score,
+                feedback: score >= 70 ? "A well-structured answer with a clear outcome." : "The situation was clear, but the result and your own contribution were vague.",
+                strengths: ["Stayed on topic"],
+                improvements: score >= 70 ? ["Quantify the result"] : ["Close with a measurable result", "Say 'I' for your own actions"],
+            };
+        }),
+    }),
+};
@@ -0,0 +1,49 @@
+import { LlmProvider, LlmRequest, contentsToText } from "./llmProvider";
+import { LOCAL_FIXTURES, LOCAL_GROUNDING_METADATA } from "./localFixtures";
+
+const STREAM_CHUNK_SIZE = 80;
+
+const runFixture = (request: LlmRequest): unknown => {
+    const fixture = LOCAL_FIXTURES[request.task];
+    if (!fixture) {
+        throw new Error(`No local fixture is registered for the "${request.task}" task.`);
+    }
+    return fixture(contentsToText(request.contents));
+};
+
+const fixtureAsText = (request: LlmRequest): string => {
+    const result = runFixture(request);
+    return typeof result === 'string' ? result : JSON.stringify(result);
+};
+
+// Offline provider backed by deterministic fixtures, used for demos, development and CI.
+export const createLocalProvider = (): LlmProvider => ({
+    name: 'local',
+
+    async generateJson<T>(request: LlmRequest) {
+        const result = runFixture(request);
+        return (typeof result === 'string' ? JSON.parse(result) : structuredClone(result)) as T;
+    },
+
+    async generateText(request) {
+        return fixtureAsText(request);
+    },
+
+    async generateTextStream(request) {
+        const text = fixtureAsText(request);
+        return (async function* () {
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+                // Yield to the event loop so consumers render incrementally, as with a real stream.
+                await new Promise(resolve => setTimeout(resolve, 0));
+                yield { text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+            }
+        })();
+    },
+
+    async groundedSearch(request) {
+        return {
+            text: fixtureAsText(request),
+            groundingMetadata: structuredClone(LOCAL_GROUNDING_METADATA),
+        };
+    },
+});
@@ -0,0 +1,52 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+// Bundled as static assets so OCR never touches the network.
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+export interface OcrResult {
+    text: string;
+    confidence: number;
+}
+
+type ProgressListener = (progress: number) => void;
+
+let workerPromise: Promise<Worker> | null = null;
+let progressListener: ProgressListener | null = null;
+
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+// Tesseract runs in its own Web Worker. It is created on first use and kept for later pages.
+const getWorker = (): Promise<Worker> => {
+    if (!workerPromise) {
+        workerPromise = (async () => {
+            const response = await fetch(absoluteUrl(engDataUrl));
+            if (!response.ok) throw new Error(`Could not load OCR language data (${response.status}).`);
+            const data = new Uint8Array(await response.arrayBuffer());
+            return createWorker([{ code: 'eng', data }], OEM.LSTM_ONLY, {
+                workerPath: absoluteUrl(workerUrl),
+                corePath: absoluteUrl(coreUrl),
+                workerBlobURL: false,
+                cacheMethod: 'none',
+                logger: message => {
+                    if (message.status === 'recognizing text') progressListener?.(message.progress);
+                },
+            });
+        })().catch(err => {
+            workerPromise = null;
+            throw err;
+        });
+    }
+    return workerPromise;
+};
+
+export const recognizeImage = async (image: Blob | HTMLCanvasElement, onProgress?: ProgressListener): Promise<OcrResult> => {
+    const worker = await getWorker();
+    progressListener = onProgress || null;
+    try {
+        const { data } = await worker.recognize(image);
+        return { text: data.text, confidence: Math.round(data.confidence) };
+    } finally {
+        progressListener = null;
+    }
+};
@@ -0,0 +1,287 @@
+import { ExtractedSection } from "../types";
+
+// Rebuilds reading order from positioned pdf.js text items. pdf.js returns items in content-stream
+// order, which for designer and two-column resumes interleaves the columns line by line.
+
+export interface LayoutItem {
+    text: string;
+    x: number;
+    // Distance of the baseline from the top of the page, in PDF points.
+    top: number;
+    width: number;
+    fontSize: number;
+    // Set on the last item covered by a link annotation.
+    link?: string;
+}
+
+export interface LayoutLink {
+    url: string;
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface LayoutLine {
+    text: string;
+    kind: 'heading' | 'bullet' | 'text';
+    x: number;
+    top: number;
+    fontSize: number;
+}
+
+export interface PageLayout {
+    lines: LayoutLine[];
+    columnCount: number;
+}
+
+export interface DocumentLayout {
+    pageTexts: string[];
+    sections: ExtractedSection[];
+}
+
+// Symbol fonts often map bullets into the Unicode private use area.
+const BULLET_GLYPH = /^(?:[•●▪■◦‣○◆◇❖➢➤►▸✓✔·]|[-–*](?=\s)|[\uE000-\uF8FF])\s*/;
+const KNOWN_HEADING = /^(summary|professional summary|profile|objective|about( me)?|(work |professional |relevant )?experience|employment( history)?|work history|education|skills|technical skills|core competencies|competencies|technologies|projects|certifications?|licenses|awards|honou?rs|publications|languages|interests|volunteer(ing)?|references|contact|achievements|training|courses)$/i;
+// Item-coverage share a gap may have and still count as a gutter, so a full-width header or
+// footer line crossing it doesn't hide the columns below.
+const GUTTER_TOLERANCE = 0.04;
+const MIN_GUTTER_WIDTH = 8;
+// Each column must hold at least this share of the page's characters; right-aligned dates in a
+// single-column resume leave a similar gap but hold far less text.
+const MIN_COLUMN_SHARE = 0.2;
+
+const charCount = (items: LayoutItem[]) => items.reduce((sum, item) => sum + item.text.length, 0);
+
+interface ColumnSplit {
+    columns: LayoutItem[][];
+    spanning: LayoutItem[];
+}
+
+const findGutter = (items: LayoutItem[], left: number, right: number): { start: number; end: number } | null => {
+    const width = Math.ceil(right - left);
+    if (width <= 0) return null;
+    const coverage = new Array<number>(width).fill(0);
+    for (const item of items) {
+        const from = Math.max(0, Math.floor(item.x - left));
+        const to = Math.min(width - 1, Math.ceil(item.x + item.width - left));
+        for (let b = from; b <= to; b++) coverage[b]++;
+    }
+    const tolerance = Math.max(1, Math.floor(items.length * GUTTER_TOLERANCE));
+    const totalChars = charCount(items);
+    let best: { start: number; end: number } | null = null;
+    let runStart = -1;
+    for (let b = 0; b <= width; b++) {
+        const open = b < width && coverage[b] <= tolerance;
+        if (open && runStart < 0) runStart = b;
+        if (open || runStart < 0) continue;
+        // Narrow the run to its least-covered stretch, so only the items that really cross it span.
+        const minCoverage = Math.min(...coverage.slice(runStart, b));
+        let subStart = runStart;
+        let subEnd = runStart;
+        for (let c = runStart, from = -1; c <= b; c++) {
+            if (c < b && coverage[c] === minCoverage) {
+                if (from < 0) from = c;
+            } else if (from >= 0) {
+                if (c - from > subEnd - subStart) { subStart = from; subEnd = c; }
+                from = -1;
+            }
+        }
+        const start = left + subStart;
+        const end = left + subEnd;
+        runStart = -1;
+        if (end - start < MIN_GUTTER_WIDTH || start < left + (right - left) * 0.15 || end > left + (right - left) * 0.85) continue;
+        const leftChars = charCount(items.filter(item => item.x + item.width <= start + 1));
+        const rightChars = charCount(items.filter(item => item.x >= end - 1));
+        if (leftChars / totalChars < MIN_COLUMN_SHARE || rightChars / totalChars < MIN_COLUMN_SHARE) continue;
+        if (!best || end - start > best.end - best.start) best = { start, end };
+    }
+    return best;
+};
+
+// Splits recursively, so three-column layouts are handled as a column pair inside a column.
+const splitColumns = (items: LayoutItem[], left: number, right: number): ColumnSplit => {
+    const gutter = findGutter(items, left, right);
+    if (!gutter) return { columns: [items], spanning: [] };
+    const leftItems = items.filter(item => item.x + item.width <= gutter.start + 1);
+    const rightItems = items.filter(item => item.x >= gutter.end - 1);
+    const spanning = items.filter(item => !leftItems.includes(item) && !rightItems.includes(item));
+    const leftSplit = splitColumns(leftItems, left, gutter.start);
+    const rightSplit = splitColumns(rightItems, gutter.end, right);
+    return {
+        columns: [...leftSplit.columns, ...rightSplit.columns],
+        spanning: [...spanning, ...leftSplit.spanning, ...rightSplit.spanning],
+    };
+};
+
+const sameUrl = (text: string, url: string) => {
+    const bare = (value: string) => value.toLowerCase().replace(/^(https?:\/\/|mailto:)/, '').replace(/^www\./, '').replace(/\/$/, '');
+    return bare(text).includes(bare(url));
+};
+
+const groupLines = (items: LayoutItem[]): LayoutLine[] => {
+    const sorted = [...items].sort((a, b) => a.top - b.top || a.x - b.x);
+    const groups: LayoutItem[][] = [];
+    for (const item of sorted) {
+        const current = groups[groups.length - 1];
+        const anchor = current?.[0];
+        if (anchor && Math.abs(item.top - anchor.top) <= Math.max(anchor.fontSize, item.fontSize) * 0.5) current.push(item);
+        else groups.push([item]);
+    }
+
+    return groups.map(group => {
+        group.sort((a, b) => a.x - b.x);
+        let text = '';
+        group.forEach((item, i) => {
+            const prev = group[i - 1];
+            if (prev) {
+                const gap = item.x - (prev.x + prev.width);
+                // A wide gap inside one line separates fields, e.g. a job title and its dates.
+                if (gap > item.fontSize * 2) text = `${text.trimEnd()} | `;
+                else if (gap > item.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.text)) text += ' ';
+            }
+            text += item.text;
+            if (item.link && !sameUrl(text, item.link)) text += ` (${item.link.replace(/^mailto:/, '')})`;
+        });
+        const fontSize = Math.max(...group.map(item => item.fontSize));
+        const bullet = text.trim().match(BULLET_GLYPH);
+        return {
+            text: bullet ? `• ${text.trim().slice(bullet[0].length)}` : text.trim(),
+            kind: bullet ? 'bullet' : 'text',
+            x: group[0].x,
+            top: group[0].top,
+            fontSize,
+        } as LayoutLine;
+    }).filter(line => line.text && line.text !== '•');
+};
+
+// Folds wrapped bullet lines back into their bullet. A continuation is indented past the glyph
+// and sits directly below the previous line.
+const joinWrappedBullets = (lines: LayoutLine[]): LayoutLine[] => {
+    const result: LayoutLine[] = [];
+    let lastTop = 0;
+    for (const line of lines) {
+        const prev = result[result.length - 1];
+        if (prev?.kind === 'bullet' && line.kind === 'text' && line.x > prev.x + prev.fontSize * 0.4
+            && line.top - lastTop <= line.fontSize * 1.8) {
+            prev.text = `${prev.text} ${line.text}`;
+        } else {
+            result.push({ ...line });
+        }
+        lastTop = line.top;
+    }
+    return result;
+};
+
+const attachLinks = (items: LayoutItem[], links: LayoutLink[]) => {
+    for (const link of links) {
+        const covered = items.filter(item => {
+            const midX = item.x + item.width / 2;
+            const midY = item.top - item.fontSize / 3;
+            return midX >= link.left - 2 && midX <= link.right + 2 && midY >= link.top - 2 && midY <= link.bottom + 2;
+        });
+        const last = covered.sort((a, b) => a.top - b.top || a.x - b.x)[covered.length - 1];
+        if (last && !last.link) last.link = link.url;
+    }
+};
+
+export const layoutPage = (rawItems: LayoutItem[], links: LayoutLink[], pageWidth: number): PageLayout => {
+    const items = rawItems.filter(item => item.text.trim());
+    attachLinks(items, links);
+    const { columns, spanning } = splitColumns(items, 0, pageWidth);
+    const spanningLines = groupLines(spanning);
+
+    // Column text between two full-width lines is read column by column, then the full-width line.
+    const lines: LayoutLine[] = [];
+    const columnLines = columns.map(groupLines);
+    let from = -Infinity;
+    for (const boundary of [...spanningLines, null]) {
+        const to = boundary ? boundary.top : Infinity;
+        for (const column of columnLines) {
+            lines.push(...joinWrappedBullets(column.filter(line => line.top > from && line.top <= to)));
+        }
+        if (boundary) lines.push(boundary);
+        from = to;
+    }
+
+    return { lines, columnCount: columns.length };
+};
+
+// Wraps OCR output so it joins the same heading and section pass as laid-out pages.
+export const layoutPlainText = (text: string): PageLayout => ({
+    lines: text.split('\n').map(line => line.trim()).filter(Boolean).map((line, i) => {
+        const bullet = line.match(BULLET_GLYPH);
+        return {
+            text: bullet ? `• ${line.slice(bullet[0].length)}` : line,
+            kind: bullet ? 'bullet' : 'text',
+            x: 0,
+            top: i,
+            fontSize: 0,
+        } as LayoutLine;
+    }),
+    columnCount: 1,
+});
+
+// The most common font size by character count is taken as body text.
+const bodyFontSize = (lines: LayoutLine[]) => {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+        if (!line.fontSize) continue;
+        const size = Math.round(line.fontSize * 2) / 2;
+        counts.set(size, (counts.get(size) || 0) + line.text.length);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+};
+
+const isHeading = (line: LayoutLine, bodySize: number) => {
+    if (line.kind === 'bullet') return false;
+    const text = line.text.replace(/[:\s]+$/, '');
+    const words = text.split(/\s+/).length;
+    if (words > 6 || /[.,;]$/.test(text) || text.includes(' | ')) return false;
+    if (words <= 4 && KNOWN_HEADING.test(text)) return true;
+    const letters = text.replace(/[^A-Za-z]/g, '');
+    if (letters.length >= 3 && words <= 5 && letters === letters.toUpperCase() && !/\d/.test(text)) return true;
+    return bodySize > 0 && line.fontSize >= bodySize * 1.15;
+};
+
+// The name is usually the largest text on the first page, but sidebar layouts can place it after
+// a whole column of contact details. Moving it first gives the model the order it expects.
+const nameFirst = (pages: PageLayout[], bodySize: number): PageLayout[] => {
+    const [first, ...rest] = pages;
+    if (!first || !bodySize) return pages;
+    const name = first.lines
+        .filter(line => line.kind === 'text' && !KNOWN_HEADING.test(line.text.replace(/[:\s]+$/, '')))
+        .reduce<LayoutLine | null>((largest, line) => !largest || line.fontSize > largest.fontSize ? line : largest, null);
+    if (!name || name.fontSize < bodySize * 1.4) return pages;
+    return [{ ...first, lines: [name, ...first.lines.filter(line => line !== name)] }, ...rest];
+};
+
+// Classifies headings across the whole document, then builds each page's text and a map of the
+// sections found. The first line is never a heading: it is almost always the candidate's name.
+export const composeDocument = (layouts: PageLayout[]): DocumentLayout => {
+    const bodySize = bodyFontSize(layouts.flatMap(page => page.lines));
+    const pages = nameFirst(layouts, bodySize);
+    const sections: ExtractedSection[] = [];
+    let current: ExtractedSection = { heading: 'Header', text: '', pageNumber: 1 };
+    let isFirstLine = true;
+
+    const pageTexts = pages.map((page, i) => {
+        const out: string[] = [];
+        for (const line of page.lines) {
+            if (!isFirstLine && isHeading(line, bodySize)) {
+                line.kind = 'heading';
+                if (current.text || current.heading !== 'Header') sections.push(current);
+                current = { heading: line.text.replace(/[:\s]+$/, ''), text: '', pageNumber: i + 1 };
+                if (out.length > 0) out.push('');
+            } else {
+                current.text = current.text ? `${current.text}\n${line.text}` : line.text;
+            }
+            out.push(line.text);
+            isFirstLine = false;
+        }
+        return out.join('\n');
+    });
+    if (current.text || current.heading !== 'Header') sections.push(current);
+
+    return { pageTexts, sections };
+};
@@ -0,0 +1,19 @@
+import { defineCollection } from "./storage";
+
+export type Theme = 'light' | 'dark';
+
+// Before versioning the theme was stored as the bare word, which reads back as version 0 data.
+export const themeStore = defineCollection<Theme | null>({
+    key: 'theme',
+    version: 1,
+    fallback: () => null,
+    parse: theme => theme === 'light' || theme === 'dark' ? theme : null,
+});
+
+// The microphone chosen for interviews and the pitch coach; null follows the system default.
+export const microphoneStore = defineCollection<string | null>({
+    key: 'microphone',
+    version: 1,
+    fallback: () => null,
+    parse: id => typeof id === 'string' && id ? id : null,
+});
@@ -0,0 +1,519 @@
+import jsPDF from 'jspdf';
+import { AlignmentType, BorderStyle, Document, Packer, Paragraph, TabStopType, TextRun } from 'docx';
+import { ResumeFont, StructuredResume, TemplateSettings } from "../types";
+import { getTemplate, ResumeTemplate } from "./resumeTemplates";
+
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const PT_TO_MM = 0.3528;
+const LINE_HEIGHT = 1.25;
+const SIDEBAR_WIDTH_MM = 68;
+// Page fitting never shrinks type below this fraction of the template's size.
+const MIN_FIT_SCALE = 0.75;
+const FIT_STEP = 0.05;
+
+type Rgb = [number, number, number];
+
+const hexToRgb = (hex: string): Rgb => {
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+    return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [17, 24, 39];
+};
+
+const BODY_COLOR: Rgb = [31, 41, 55];
+const MUTED_COLOR: Rgb = [75, 85, 99];
+const WHITE: Rgb = [255, 255, 255];
+
+const contactParts = (resume: StructuredResume): string[] =>
+    [resume.email, resume.phone, ...[resume.linkedin, ...(resume.links || [])].map(link => link?.replace(/^https?:\/\/(www\.)?/, ''))]
+        .filter((part): part is string => !!part && !!part.trim());
+
+// --- PDF ---
+
+interface PdfContext {
+    doc: jsPDF;
+    template: ResumeTemplate;
+    settings: TemplateSettings;
+    scale: number;
+    accent: Rgb;
+}
+
+interface TextStyle {
+    size: number;           // relative to the template's base font size
+    bold?: boolean;
+    italic?: boolean;
+    color?: Rgb;
+    align?: 'left' | 'center';
+    indent?: number;        // mm
+}
+
+// Draws page furniture (the sidebar background) on every page as soon as it exists, so
+// text written to the page later is never covered.
+const decoratePage = (ctx: PdfContext) => {
+    if (ctx.template.layout !== 'sidebar') return;
+    ctx.doc.setFillColor(...ctx.accent);
+    ctx.doc.rect(0, 0, SIDEBAR_WIDTH_MM, PAGE_HEIGHT_MM, 'F');
+};
+
+// A column of text that flows onto following pages. Columns share pages, so a column moving
+// to a page that does not exist yet creates it.
+const createFlow = (ctx: PdfContext, x: number, width: number) => {
+    const { doc, settings } = ctx;
+    const top = settings.marginMm;
+    const bottom = PAGE_HEIGHT_MM - settings.marginMm;
+    let page = 1;
+    let y = top;
+
+    const pt = (relative: number) => ctx.template.baseFontSize * relative * ctx.scale;
+    const lineHeight = (relative: number) => pt(relative) * PT_TO_MM * LINE_HEIGHT;
+
+    const nextPage = () => {
+        page += 1;
+        if (page > doc.getNumberOfPages()) {
+            doc.addPage();
+            decoratePage(ctx);
+        }
+        y = top;
+    };
+
+    const ensure = (height: number) => {
+        if (y + height > bottom && y > top) nextPage();
+        doc.setPage(page);
+    };
+
+    const setStyle = (style: TextStyle) => {
+        doc.setFont(settings.font, style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'normal');
+        doc.setFontSize(pt(style.size));
+        doc.setTextColor(...(style.color || BODY_COLOR));
+    };
+
+    const wrap = (text: string, style: TextStyle, maxWidth: number = width - (style.indent || 0)): string[] => {
+        setStyle(style);
+        return doc.splitTextToSize(text, maxWidth) as string[];
+    };
+
+    const text = (value: string, style: TextStyle) => {
+        if (!value.trim()) return;
+        const indent = style.indent || 0;
+        const height = lineHeight(style.size);
+        for (const line of wrap(value, style)) {
+            ensure(height);
+            setStyle(style);
+            if (style.align === 'center') {
+                doc.text(line, x + width / 2, y, { baseline: 'top', align: 'center' });
+            } else {
+                doc.text(line, x + indent, y, { baseline: 'top' });
+            }
+            y += height;
+        }
+    };
+
+    // A bold title with a right-aligned note (dates) on its first line.
+    const row = (title: string, note: string, style: TextStyle) => {
+        const noteStyle: TextStyle = { size: style.size * 0.9, color: MUTED_COLOR };
+        setStyle(noteStyle);
+        const noteWidth = note ? doc.getTextWidth(note) + 3 : 0;
+        const lines = wrap(title, style, width - noteWidth);
+        const height = lineHeight(style.size);
+        ensure(height * Math.min(lines.length, 2));
+        lines.forEach((line, i) => {
+            ensure(height);
+            setStyle(style);
+            doc.text(line, x, y, { baseline: 'top' });
+            if (i === 0 && note) {
+                setStyle(noteStyle);
+                doc.text(note, x + width, y + (pt(style.size) - pt(noteStyle.size)) * PT_TO_MM, { baseline: 'top', align: 'right' });
+            }
+            y += height;
+        });
+    };
+
+    const bullet = (value: string, style: TextStyle) => {
+        const indent = 3.5;
+        const lines = wrap(value, style, width - indent);
+        const height = lineHeight(style.size);
+        lines.forEach((line, i) => {
+            ensure(height);
+            setStyle(style);
+            if (i === 0) doc.text('•', x + 0.5, y, { baseline: 'top' });
+            doc.text(line, x + indent, y, { baseline: 'top' });
+            y += height;
+        });
+    };
+
+    const heading = (title: string, color: Rgb, rule: boolean) => {
+        const style: TextStyle = { size: 1.05, bold: true, color };
+        const height = lineHeight(style.size);
+        gap(3.5);
+        // Keep a heading together with at least two lines of what follows.
+        ensure(height + lineHeight(1) * 2 + 2);
+        text(title.toUpperCase(), style);
+        if (rule) {
+            doc.setDrawColor(...color);
+            doc.setLineWidth(0.3);
+            doc.line(x, y + 0.3, x + width, y + 0.3);
+        }
+        y += 1.8;
+    };
+
+    const gap = (mm: number) => {
+        y += mm * ctx.template.spacing * ctx.scale;
+    };
+
+    return { text, row, bullet, heading, gap, ensure, lineHeight };
+};
+
+type Flow = ReturnType<typeof createFlow>;
+
+const writeExperience = (flow: Flow, resume: StructuredResume, accent: Rgb) => {
+    resume.experience.forEach((entry, i) => {
+        if (i > 0) flow.gap(2.5);
+        flow.ensure(flow.lineHeight(1.1) + flow.lineHeight(1) * 2);
+        flow.row(entry.role, entry.dates, { size: 1.1, bold: true });
+        flow.text(entry.company, { size: 1, bold: true, color: accent });
+        entry.description.filter(line => line.trim()).forEach(line => flow.bullet(line, { size: 1 }));
+    });
+};
+
+const writeEducation = (flow: Flow, resume: StructuredResume) => {
+    resume.education.forEach((entry, i) => {
+        if (i > 0) flow.gap(1.5);
+        flow.row(entry.institution, entry.dates, { size: 1, bold: true });
+        flow.text(entry.degree, { size: 1, italic: true });
+    });
+};
+
+const writeCustomSections = (flow: Flow, resume: StructuredResume, headingColor: Rgb, rule: boolean) => {
+    for (const section of resume.customSections || []) {
+        const items = section.items.filter(item => item.trim());
+        if (items.length === 0) continue;
+        flow.heading(section.title, headingColor, rule);
+        items.forEach(item => flow.bullet(item, { size: 1 }));
+    }
+};
+
+const renderSingleColumn = (ctx: PdfContext, resume: StructuredResume) => {
+    const { settings, template, accent } = ctx;
+    const flow = createFlow(ctx, settings.marginMm, PAGE_WIDTH_MM - settings.marginMm * 2);
+    const align = template.headerAlign;
+
+    flow.text(resume.name, { size: 2.2, bold: true, color: accent, align });
+    flow.gap(1);
+    flow.text(contactParts(resume).join('  |  '), { size: 0.95, color: MUTED_COLOR, align });
+
+    if (resume.summary.trim()) {
+        flow.heading('Summary', accent, template.headingRule);
+        flow.text(resume.summary, { size: 1 });
+    }
+    if (resume.experience.length > 0) {
+        flow.heading('Experience', accent, template.headingRule);
+        writeExperience(flow, resume, accent);
+    }
+    if (resume.education.length > 0) {
+        flow.heading('Education', accent, template.headingRule);
+        writeEducation(flow, resume);
+    }
+    const skills = resume.skills.filter(skill => skill.trim());
+    if (skills.length > 0) {
+        flow.heading('Skills', accent, template.headingRule);
+        flow.text(skills.join('  •  '), { size: 1 });
+    }
+    writeCustomSections(flow, resume, accent, template.headingRule);
+};
+
+const renderSidebar = (ctx: PdfContext, resume: StructuredResume) => {
+    const { settings, accent } = ctx;
+    const padding = Math.min(settings.marginMm, 10);
+    const side = createFlow(ctx, padding, SIDEBAR_WIDTH_MM - padding * 2);
+    const main = createFlow(ctx, SIDEBAR_WIDTH_MM + padding, PAGE_WIDTH_MM - SIDEBAR_WIDTH_MM - padding - settings.marginMm);
+
+    side.heading('Contact', WHITE, false);
+    contactParts(resume).forEach(part => side.text(part, { size: 0.9, color: WHITE }));
+    const skills = resume.skills.filter(skill => skill.trim());
+    if (skills.length > 0) {
+        side.heading('Skills', WHITE, false);
+        skills.forEach(skill => side.text(skill, { size: 0.9, color: WHITE }));
+    }
+    if (resume.education.length > 0) {
+        side.heading('Education', WHITE, false);
+        resume.education.forEach((entry, i) => {
+            if (i > 0) side.gap(2);
+            side.text(entry.degree, { size: 0.9, bold: true, color: WHITE });
+            side.text(entry.institution, { size: 0.9, color: WHITE });
+            side.text(entry.dates, { size: 0.85, italic: true, color: WHITE });
+        });
+    }
+
+    main.text(resume.name, { size: 2.2, bold: true, color: accent });
+    if (resume.summary.trim()) {
+        main.heading('Profile', accent, true);
+        main.text(resume.summary, { size: 1 });
+    }
+    if (resume.experience.length > 0) {
+        main.heading('Experience', accent, true);
+        writeExperience(main, resume, accent);
+    }
+    writeCustomSections(main, resume, accent, true);
+};
+
+const renderPdfAtScale = (resume: StructuredResume, settings: TemplateSettings, scale: number): jsPDF => {
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+    const template = getTemplate(settings.templateId);
+    const ctx: PdfContext = { doc, template, settings, scale, accent: hexToRgb(settings.accentColor) };
+    doc.setProperties({ title: resume.name ? `${resume.name} - Resume` : 'Resume', author: resume.name });
+    decoratePage(ctx);
+    if (template.layout === 'sidebar') {
+        renderSidebar(ctx, resume);
+    } else {
+        renderSingleColumn(ctx, resume);
+    }
+    return doc;
+};
+
+export interface PdfRender {
+    doc: jsPDF;
+    pageCount: number;
+    scale: number;
+    // False when the page-fit target couldn't be met even at the smallest allowed type size.
+    fits: boolean;
+}
+
+// Renders the resume as real text (selectable and readable by ATS parsers), shrinking the type
+// step by step when the settings ask for a one- or two-page resume.
+export const renderResumePdf = (resume: StructuredResume, settings: TemplateSettings): PdfRender => {
+    const maxPages = settings.pageFit === 'one-page' ? 1 : settings.pageFit === 'two-page' ? 2 : Infinity;
+    let scale = 1;
+    let doc = renderPdfAtScale(resume, settings, scale);
+    while (doc.getNumberOfPages() > maxPages && scale - FIT_STEP >= MIN_FIT_SCALE - 1e-9) {
+        scale -= FIT_STEP;
+        doc = renderPdfAtScale(resume, settings, scale);
+    }
+    const pageCount = doc.getNumberOfPages();
+    return { doc, pageCount, scale, fits: pageCount <= maxPages };
+};
+
+// --- DOCX ---
+
+const DOCX_FONTS: Record<ResumeFont, string> = {
+    helvetica: 'Arial',
+    times: 'Times New Roman',
+    courier: 'Courier New',
+};
+
+const MM_TO_TWIPS = 56.7;
+
+// Word output is always a single column: ATS parsers read Word tables and text boxes out of
+// order, and recruiters usually forward the .docx straight into one.
+export const renderResumeDocx = async (resume: StructuredResume, settings: TemplateSettings): Promise<Blob> => {
+    const template = getTemplate(settings.templateId);
+    const accent = settings.accentColor.replace('#', '');
+    const halfPoints = (relative: number) => Math.round(template.baseFontSize * relative * 2);
+    const spacing = (points: number) => Math.round(points * 20 * template.spacing);
+    const contentWidth = Math.round((PAGE_WIDTH_MM - settings.marginMm * 2) * MM_TO_TWIPS);
+    const alignment = template.headerAlign === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+    const heading = (title: string) => new Paragraph({
+        spacing: { before: spacing(10), after: spacing(4) },
+        keepNext: true,
+        border: template.headingRule ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: accent, space: 1 } } : undefined,
+        children: [new TextRun({ text: title.toUpperCase(), bold: true, color: accent, size: halfPoints(1.05) })],
+    });
+    const bullet = (text: string) => new Paragraph({ bullet: { level: 0 }, spacing: { after: spacing(1) }, children: [new TextRun(text)] });
+    const row = (title: string, note: string, size: number, before: number = 0) => new Paragraph({
+        keepNext: true,
+        spacing: { before },
+        tabStops: [{ type: TabStopType.RIGHT, position: contentWidth }],
+        children: [
+            new TextRun({ text: title, bold: true, size: halfPoints(size) }),
+            ...(note ? [new TextRun({ text: `\t${note}`, color: '4B5563', size: halfPoints(0.9) })] : []),
+        ],
+    });
+
+    const children: Paragraph[] = [
+        new Paragraph({ alignment, children: [new TextRun({ text: resume.name, bold: true, color: accent, size: halfPoints(2.2) })] }),
+        new Paragraph({ alignment, spacing: { after: spacing(4) }, children: [new TextRun({ text: contactParts(resume).join('  |  '), color: '4B5563', size: halfPoints(0.95) })] }),
+    ];
+
+    if (resume.summary.trim()) {
+        children.push(heading('Summary'), new Paragraph({ children: [new TextRun(resume.summary)] }));
+    }
+    if (resume.experience.length > 0) {
+        children.push(heading('Experience'));
+        resume.experience.forEach((entry, i) => {
+            children.push(
+                row(entry.role, entry.dates, 1.1, i > 0 ? spacing(6) : 0),
+                new Paragraph({ keepNext: true, children: [new TextRun({ text: entry.company, bold: true, color: accent })] }),
+                ...entry.description.filter(line => line.trim()).map(bullet),
+            );
+        });
+    }
+    if (resume.education.length > 0) {
+        children.push(heading('Education'));
+        resume.education.forEach(entry => {
+            children.push(row(entry.institution, entry.dates, 1), new Paragraph({ children: [new TextRun({ text: entry.degree, italics: true })] }));
+        });
+    }
+    const skills = resume.skills.filter(skill => skill.trim());
+    if (skills.length > 0) {
+        children.push(heading('Skills'), new Paragraph({ children: [new TextRun(skills.join('  •  '))] }));
+    }
+    for (const section of resume.customSections || []) {
+        const items = section.items.filter(item => item.trim());
+        if (items.length === 0) continue;
+        children.push(heading(section.title), ...items.map(bullet));
+    }
+
+    const margin = Math.round(settings.marginMm * MM_TO_TWIPS);
+    const doc = new Document({
+        creator: resume.name || 'CareerNova',
+        title: resume.name ? `${resume.name} - Resume` : 'Resume',
+        styles: {
+            default: { document: { run: { font: DOCX_FONTS[settings.font], size: halfPoints(1), color: '1F2937' } } },
+        },
+        sections: [{
+            properties: {
+                page: {
+                    size: { width: Math.round(PAGE_WIDTH_MM * MM_TO_TWIPS), height: Math.round(PAGE_HEIGHT_MM * MM_TO_TWIPS) },
+                    margin: { top: margin, right: margin, bottom: margin, left: margin },
+                },
+            },
+            children,
+        }],
+    });
+    return Packer.toBlob(doc);
+};
+
+// --- Markdown ---
+
+export const resumeToMarkdown = (resume: StructuredResume): string => {
+    const lines: string[] = [`# ${resume.name || 'Resume'}`, ''];
+    const contact = contactParts(resume);
+    if (contact.length > 0) lines.push(contact.join(' · '), '');
+    if (resume.summary.trim()) lines.push('## Summary', '', resume.summary.trim(), '');
+    if (resume.experience.length > 0) {
+        lines.push('## Experience', '');
+        for (const entry of resume.experience) {
+            lines.push(`### ${[entry.role, entry.company].filter(Boolean).join(' — ')}`);
+            if (entry.dates) lines.push(`*${entry.dates}*`);
+            lines.push('', ...entry.description.filter(line => line.trim()).map(line => `- ${line}`), '');
+        }
+    }
+    if (resume.education.length > 0) {
+        lines.push('## Education', '');
+        for (const entry of resume.education) {
+            lines.push(`- **${entry.degree}**${entry.institution ? `, ${entry.institution}` : ''}${entry.dates ? ` (${entry.dates})` : ''}`);
+        }
+        lines.push('');
+    }
+    const skills = resume.skills.filter(skill => skill.trim());
+    if (skills.length > 0) lines.push('## Skills', '', skills.join(', '), '');
+    for (const section of resume.customSections || []) {
+        const items = section.items.filter(item => item.trim());
+        if (items.length === 0) continue;
+        lines.push(`## ${section.title}`, '', ...items.map(item => `- ${item}`), '');
+    }
+    return lines.join('\n').trimEnd() + '\n';
+};
+
+// --- JSON Resume (https://jsonresume.org/schema, v1.0.0) ---
+
+export interface JsonResume {
+    $schema?: string;
+    basics: {
+        name: string;
+        email?: string;
+        phone?: string;
+        summary?: string;
+        profiles?: Array<{ network: string; url: string }>;
+    };
+    work?: Array<{ name?: string; position?: string; startDate?: string; endDate?: string; highlights?: string[] }>;
+    education?: Array<{ institution?: string; studyType?: string; startDate?: string; endDate?: string }>;
+    skills?: Array<{ name: string }>;
+    projects?: Array<{ name: string }>;
+    certificates?: Array<{ name: string }>;
+    publications?: Array<{ name: string }>;
+    awards?: Array<{ title: string }>;
+    languages?: Array<{ language: string }>;
+    interests?: Array<{ name: string }>;
+    meta?: { version?: string; customSections?: Array<{ title: string; items: string[] }> };
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Mar 2021", "03/2021" and "2021" become ISO 8601 ("2021-03", "2021"); anything else is dropped.
+const toIsoDate = (token: string): string | undefined => {
+    const value = token.trim().toLowerCase();
+    const numeric = /^(\d{1,2})\/(\d{4})$/.exec(value);
+    if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+    const named = /^([a-z]+)\.?\s+(\d{4})$/.exec(value);
+    if (named) {
+        const month = MONTHS.findIndex(m => named[1].startsWith(m));
+        return month >= 0 ? `${named[2]}-${String(month + 1).padStart(2, '0')}` : named[2];
+    }
+    return /^\d{4}$/.test(value) ? value : undefined;
+};
+
+export const parseDateRange = (dates: string): { startDate?: string; endDate?: string } => {
+    const [start, end] = dates.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+    return {
+        startDate: start ? toIsoDate(start) : undefined,
+        // "Present" and friends mean the role is ongoing, which JSON Resume expresses by omitting the end date.
+        endDate: end ? toIsoDate(end) : undefined,
+    };
+};
+
+export const resumeToJsonResume = (resume: StructuredResume): JsonResume => {
+    const json: JsonResume = {
+        $schema: 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json',
+        basics: {
+            name: resume.name,
+            email: resume.email || undefined,
+            phone: resume.phone || undefined,
+            summary: resume.summary || undefined,
+            profiles: resume.linkedin ? [{ network: 'LinkedIn', url: resume.linkedin }] : [],
+        },
+        work: resume.experience.map(entry => ({
+            name: entry.company,
+            position: entry.role,
+            ...parseDateRange(entry.dates),
+            highlights: entry.description.filter(line => line.trim()),
+        })),
+        education: resume.education.map(entry => ({
+            institution: entry.institution,
+            studyType: entry.degree,
+            ...parseDateRange(entry.dates),
+        })),
+        skills: resume.skills.filter(skill => skill.trim()).map(name => ({ name })),
+        meta: { version: 'v1.0.0' },
+    };
+
+    // Custom sections with a JSON Resume equivalent are mapped onto it; the rest are kept under meta.
+    const unmapped: Array<{ title: string; items: string[] }> = [];
+    for (const section of resume.customSections || []) {
+        const items = section.items.filter(item => item.trim());
+        switch (section.title.trim().toLowerCase()) {
+            case 'projects': json.projects = items.map(name => ({ name })); break;
+            case 'certifications':
+            case 'certificates': json.certificates = items.map(name => ({ name })); break;
+            case 'publications': json.publications = items.map(name => ({ name })); break;
+            case 'awards': json.awards = items.map(title => ({ title })); break;
+            case 'languages': json.languages = items.map(language => ({ language })); break;
+            case 'interests': json.interests = items.map(name => ({ name })); break;
+            default: unmapped.push({ title: section.title, items });
+        }
+    }
+    if (unmapped.length > 0) json.meta!.customSections = unmapped;
+    return json;
+};
+
+// --- Download ---
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
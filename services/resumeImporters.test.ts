@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { jsonResumeToStructured, rtfToText } from './resumeImporters';
+
+describe('rtfToText', () => {
+    it('keeps paragraphs and turns bullet characters into bullets', () => {
+        const rtf = String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}{\colortbl;\red0\green0\blue0;}\f0 Jane Doe\par Experience\par \bullet  Led a team\par \'b7\tab Cut costs by 10\'25\par}`;
+        expect(rtfToText(rtf)).toBe('Jane Doe\nExperience\n• Led a team\n• Cut costs by 10%');
+    });
+
+    it('decodes code page escapes, unicode escapes and their fallbacks', () => {
+        const rtf = String.raw`{\rtf1 Caf\'e9 \'96 \u8212? dash \uc2\u8364 XXrate\par \ldblquote quoted\rdblquote  \{braces\}\par}`;
+        expect(rtfToText(rtf)).toBe('Café – — dash €rate\n“quoted” {braces}');
+    });
+
+    it('keeps hyperlink targets next to their text', () => {
+        const rtf = String.raw`{\rtf1 See {\field{\*\fldinst HYPERLINK "https://example.com"}{\fldrslt my site}} now.\par}`;
+        expect(rtfToText(rtf)).toBe('See my site (https://example.com) now.');
+    });
+
+    it('skips metadata, headers and unknown destinations', () => {
+        const rtf = String.raw`{\rtf1{\info{\title Resume}{\author Jane}}{\*\generator Word;}{\*\unknowndest hidden}shown\par{\header Page 1}Body\par}`;
+        expect(rtfToText(rtf)).toBe('shown\nBody');
+    });
+});
+
+describe('jsonResumeToStructured', () => {
+    it('reads the sections a JSON Resume has', () => {
+        const resume = jsonResumeToStructured({
+            basics: { name: ' Jane Doe ', email: 'jane@example.com', profiles: [{ network: 'LinkedIn', username: 'janedoe' }] },
+            work: [{ name: 'Acme', position: 'Engineer', startDate: '2021-03', highlights: ['Built the API'] }],
+            skills: [{ name: 'Go', keywords: ['gRPC'] }],
+        });
+        expect(resume).toMatchObject({ name: 'Jane Doe', email: 'jane@example.com', linkedin: 'linkedin.com/in/janedoe', skills: ['Go', 'gRPC'] });
+        expect(resume.experience).toEqual([{ company: 'Acme', role: 'Engineer', dates: 'Mar 2021 - Present', description: ['Built the API'] }]);
+    });
+
+    it('skips fields of the wrong shape instead of failing', () => {
+        const resume = jsonResumeToStructured({ basics: { name: 42 }, work: {}, skills: ['Go', { name: 'Rust', keywords: 'none' }], meta: { customSections: [{ title: 'Talks', items: [1, 'KubeCon'] }] } });
+        expect(resume).toMatchObject({ name: '', experience: [], skills: ['Rust'], customSections: [{ title: 'Talks', items: ['KubeCon'] }] });
+    });
+
+    it('rejects JSON that is not an object', () => {
+        expect(() => jsonResumeToStructured([1, 2])).toThrow('not a JSON Resume');
+    });
+});
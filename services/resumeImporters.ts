@@ -0,0 +1,586 @@
+import JSZip from 'jszip';
+import { CustomSection, EducationEntry, ExperienceEntry, ExtractedSection, StructuredResume } from "../types";
+import { createEmptyResume, stripBullet } from "./resumeModel";
+import { LayoutLine, PageLayout } from "./pdfLayout";
+
+// Converters from the formats FileUpload accepts into plain text (headings on their own line,
+// "• " bullets, blank lines between blocks) or, where the source is structured, directly into
+// a StructuredResume. Text output goes through the same section pass as PDF text afterwards.
+
+const collapse = (text: string) => text.replace(/[ \t\u00a0]+/g, ' ').trim();
+
+const withLink = (text: string, href: string | null) => {
+    if (!href || !/^(https?:|mailto:)/i.test(href)) return text;
+    const target = href.replace(/^mailto:/i, '');
+    const bare = (value: string) => value.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/$/, '');
+    return bare(text).includes(bare(target)) ? text : `${text} (${target})`;
+};
+
+// Collects text block by block, so converters only say where blocks start and what kind they are.
+class BlockWriter {
+    private blocks: string[] = [];
+    private current = '';
+    private prefix = '';
+
+    text(value: string) {
+        this.current += value;
+    }
+
+    // Ends the current block; a heading also gets a blank line before it.
+    end() {
+        const line = collapse(this.current);
+        if (line) this.blocks.push(this.prefix + line);
+        this.current = '';
+        this.prefix = '';
+    }
+
+    start(kind: 'heading' | 'bullet' | 'paragraph') {
+        this.end();
+        if (kind === 'heading' && this.blocks.length > 0) this.blocks.push('');
+        this.prefix = kind === 'bullet' ? '• ' : '';
+    }
+
+    toString() {
+        this.end();
+        return this.blocks.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    }
+}
+
+// --- ODT ---
+
+const ODT_SKIPPED = new Set(['tracked-changes', 'sequence-decls', 'annotation', 'note-citation', 'bookmark-ref']);
+
+const walkOdt = (node: Element, out: BlockWriter, inList: boolean) => {
+    for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+            out.text(child.textContent || '');
+            continue;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) continue;
+        const element = child as Element;
+        switch (element.localName) {
+            case 'h':
+                out.start('heading');
+                walkOdt(element, out, inList);
+                out.end();
+                break;
+            case 'p':
+                out.start(inList ? 'bullet' : 'paragraph');
+                walkOdt(element, out, false);
+                out.end();
+                break;
+            case 'list-item':
+                walkOdt(element, out, true);
+                break;
+            case 's':
+                out.text(' '.repeat(Number(element.getAttribute('text:c')) || 1));
+                break;
+            case 'tab':
+                out.text(' ');
+                break;
+            case 'line-break':
+                out.end();
+                break;
+            case 'table-cell':
+                walkOdt(element, out, inList);
+                out.text(' | ');
+                break;
+            case 'a': {
+                const inner = new BlockWriter();
+                walkOdt(element, inner, false);
+                out.text(withLink(inner.toString(), element.getAttribute('xlink:href')));
+                break;
+            }
+            default:
+                if (!ODT_SKIPPED.has(element.localName)) walkOdt(element, out, inList);
+        }
+    }
+};
+
+const ODF_OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+
+export const odtToText = async (data: ArrayBuffer): Promise<string> => {
+    const zip = await JSZip.loadAsync(data);
+    const content = await zip.file('content.xml')?.async('string');
+    const xml = content ? new DOMParser().parseFromString(content, 'application/xml') : null;
+    const body = xml?.getElementsByTagNameNS(ODF_OFFICE_NS, 'text')[0];
+    if (!body) throw new Error("This OpenDocument file has no text content.");
+    const out = new BlockWriter();
+    walkOdt(body, out, false);
+    return out.toString();
+};
+
+// --- RTF ---
+
+// Groups whose text is metadata or styling rather than document content.
+const RTF_SKIPPED = new Set([
+    'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+    'footer', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable', 'rsidtbl', 'xmlnstbl', 'generator',
+    'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'filetbl', 'revtbl', 'pgdsctbl', 'footnote',
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+    par: '\n', line: '\n', sect: '\n', page: '\n', row: '\n', cell: ' | ', tab: ' ',
+    bullet: '•', emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F, where it puts typographic punctuation.
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const decodeCp1252 = (byte: number) => byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+
+interface RtfGroup {
+    skip: boolean;
+    // Set by "\*": the group is skipped unless its first control word is one we understand.
+    optional: boolean;
+    unicodeSkip: number;
+    field?: 'instruction' | 'result';
+}
+
+export const rtfToText = (rtf: string): string => {
+    const stack: RtfGroup[] = [];
+    let group: RtfGroup = { skip: false, optional: false, unicodeSkip: 1 };
+    let out = '';
+    let instruction = '';
+    let pendingLink: string | null = null;
+    let linkTextStart = 0;
+    // Characters still to drop after a \u escape (its plain-text fallback).
+    let fallback = 0;
+
+    const emit = (text: string) => {
+        if (fallback > 0) {
+            fallback--;
+            return;
+        }
+        if (group.field === 'instruction') instruction += text;
+        else if (!group.skip) out += text;
+    };
+
+    for (let i = 0; i < rtf.length; i++) {
+        const char = rtf[i];
+        if (char === '{') {
+            stack.push(group);
+            group = { ...group, optional: false };
+        } else if (char === '}') {
+            const closed = group;
+            group = stack.pop() || group;
+            if (closed.field === 'instruction' && group.field !== 'instruction') {
+                pendingLink = instruction.match(/HYPERLINK\s+"([^"]+)"/)?.[1] || null;
+                instruction = '';
+                linkTextStart = out.length;
+            } else if (closed.field === 'result' && group.field !== 'result' && pendingLink) {
+                out = out.slice(0, linkTextStart) + withLink(out.slice(linkTextStart), pendingLink);
+                pendingLink = null;
+            }
+        } else if (char === '\\') {
+            const next = rtf[i + 1];
+            if (next === '\\' || next === '{' || next === '}') {
+                emit(next);
+                i++;
+            } else if (next === "'") {
+                emit(decodeCp1252(parseInt(rtf.slice(i + 2, i + 4), 16)));
+                i += 3;
+            } else if (next === '*') {
+                group.optional = true;
+                i++;
+            } else if (next === '~') {
+                emit(' ');
+                i++;
+            } else if (next === '\n' || next === '\r') {
+                emit('\n');
+                i++;
+            } else if (/[a-z]/i.test(next)) {
+                const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40))!;
+                const [, word, param] = match;
+                i += match[0].length;
+                const wasOptional = group.optional;
+                group.optional = false;
+                if (word === 'fldinst') group.field = 'instruction';
+                else if (word === 'fldrslt') group.field = 'result';
+                else if (RTF_SKIPPED.has(word) || wasOptional) group.skip = true;
+                else if (word === 'uc') group.unicodeSkip = Number(param) || 0;
+                else if (word === 'u') {
+                    const code = Number(param);
+                    emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+                    fallback = group.unicodeSkip;
+                } else if (RTF_SYMBOLS[word]) emit(RTF_SYMBOLS[word]);
+            } else {
+                i++;
+            }
+        } else if (char !== '\n' && char !== '\r') {
+            emit(char);
+        }
+    }
+
+    // List numbering and bullets arrive as literal text, often a Symbol-font "·".
+    const writer = new BlockWriter();
+    for (const line of out.split('\n')) {
+        const bullet = /^\s*[•·]\s*/.exec(line);
+        writer.start(bullet ? 'bullet' : 'paragraph');
+        writer.text(bullet ? line.slice(bullet[0].length) : line);
+    }
+    return writer.toString();
+};
+
+// --- HTML ---
+
+const HTML_SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'nav', 'button', 'form']);
+const HTML_BLOCKS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'tr', 'dd', 'dt', 'blockquote', 'address', 'pre', 'table', 'ul', 'ol', 'dl']);
+
+const walkHtml = (node: Node, out: BlockWriter) => {
+    for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+            out.text(child.textContent || '');
+            continue;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) continue;
+        const element = child as HTMLElement;
+        const tag = element.tagName.toLowerCase();
+        if (HTML_SKIPPED.has(tag) || element.hidden) continue;
+        if (/^h[1-6]$/.test(tag)) {
+            out.start('heading');
+            walkHtml(element, out);
+            out.end();
+        } else if (tag === 'li') {
+            out.start('bullet');
+            walkHtml(element, out);
+            out.end();
+        } else if (tag === 'br') {
+            out.end();
+        } else if (tag === 'td' || tag === 'th') {
+            walkHtml(element, out);
+            out.text(' | ');
+        } else if (tag === 'a') {
+            const inner = new BlockWriter();
+            walkHtml(element, inner);
+            out.text(withLink(inner.toString(), element.getAttribute('href')));
+        } else if (HTML_BLOCKS.has(tag)) {
+            out.start('paragraph');
+            walkHtml(element, out);
+            out.end();
+        } else {
+            walkHtml(element, out);
+        }
+    }
+};
+
+export const htmlToText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const out = new BlockWriter();
+    walkHtml(doc.body, out);
+    return out.toString().replace(/ \| (?=\n|$)/g, '');
+};
+
+// --- Markdown ---
+
+const SUMMARY_HEADING = /^(summary|professional summary|profile|about( me)?|objective)$/i;
+const EXPERIENCE_HEADING = /^((work |professional )?experience|employment( history)?|work history)$/i;
+const EDUCATION_HEADING = /^education$/i;
+const SKILLS_HEADING = /^((technical |key |core )?skills|technologies|competencies)$/i;
+
+const stripInlineMarkdown = (text: string) => text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, href: string) => withLink(label, href))
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+
+export const markdownToText = (markdown: string): string => {
+    const out = new BlockWriter();
+    for (const raw of markdown.replace(/\r\n/g, '\n').split('\n')) {
+        const heading = /^#{1,6}\s+(.*)$/.exec(raw);
+        const bullet = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(raw);
+        if (/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(raw) || /^```/.test(raw)) continue;
+        if (heading) {
+            out.start('heading');
+            out.text(stripInlineMarkdown(heading[1]));
+            out.end();
+        } else if (bullet) {
+            out.start('bullet');
+            out.text(stripInlineMarkdown(bullet[1]));
+        } else if (!raw.trim()) {
+            out.end();
+        } else {
+            out.start('paragraph');
+            out.text(stripInlineMarkdown(raw));
+        }
+    }
+    return out.toString();
+};
+
+const readContact = (resume: StructuredResume, text: string) => {
+    resume.email ||= text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/)?.[0] || '';
+    resume.linkedin ||= text.match(/(?:https?:\/\/)?(?:www\.)?linkedin\.com\/in\/[\w%-]+\/?/i)?.[0] || '';
+    resume.phone ||= text.match(/\+?\d[\d\s().-]{7,}\d/)?.[0].trim() || '';
+};
+
+// "Role — Company", "Role at Company", "Role | Company | Dates" or "Role, Company".
+const splitRoleLine = (line: string): Pick<ExperienceEntry, 'role' | 'company' | 'dates'> => {
+    const parts = line.split(/\s+[—–|]\s+|\s+-\s+|\s+at\s+/).map(part => part.trim()).filter(Boolean);
+    const datesIndex = parts.findIndex(part => /\d{4}|present/i.test(part));
+    const dates = datesIndex > 0 ? parts.splice(datesIndex).join(' - ') : '';
+    if (parts.length === 1 && parts[0].includes(', ')) parts.splice(0, 1, ...parts[0].split(/,\s+(.+)/).slice(0, 2));
+    return { role: parts[0] || '', company: parts.slice(1).join(', '), dates };
+};
+
+// Maps Markdown with conventional resume headings (as written by our own Markdown export) into a
+// StructuredResume. Returns null when it has no recognisable Experience or Education section, so
+// free-form Markdown is structured by the model like any other text.
+export const markdownToStructured = (markdown: string): StructuredResume | null => {
+    const resume = createEmptyResume();
+    const sections: Array<{ title: string; lines: string[] }> = [];
+    const header: string[] = [];
+    for (const raw of markdown.replace(/\r\n/g, '\n').split('\n')) {
+        const h1 = /^#\s+(.*)$/.exec(raw);
+        const h2 = /^##\s+(.*)$/.exec(raw);
+        if (h1 && !resume.name) resume.name = stripInlineMarkdown(h1[1]);
+        else if (h2) sections.push({ title: stripInlineMarkdown(h2[1]), lines: [] });
+        else if (sections.length > 0) sections[sections.length - 1].lines.push(raw);
+        else header.push(raw);
+    }
+    readContact(resume, header.join(' '));
+
+    for (const section of sections) {
+        const lines = section.lines.map(line => line.trimEnd());
+        const items = lines.filter(line => line.trim()).map(line => stripInlineMarkdown(stripBullet(line.replace(/^\s*[+*]\s+/, '- '))));
+        if (SUMMARY_HEADING.test(section.title)) {
+            resume.summary = items.join('\n');
+        } else if (EXPERIENCE_HEADING.test(section.title)) {
+            let entry: ExperienceEntry | null = null;
+            for (const line of lines) {
+                const role = /^###\s+(.*)$/.exec(line);
+                if (role) {
+                    entry = { ...splitRoleLine(stripInlineMarkdown(role[1])), description: [] };
+                    resume.experience.push(entry);
+                } else if (entry && /^\s*[*_][^*_].*[*_]\s*$/.test(line) && !entry.dates) {
+                    entry.dates = stripInlineMarkdown(line);
+                } else if (entry && line.trim()) {
+                    entry.description.push(stripInlineMarkdown(stripBullet(line)));
+                }
+            }
+        } else if (EDUCATION_HEADING.test(section.title)) {
+            resume.education = items.map((item): EducationEntry => {
+                const dates = item.match(/\(([^)]*\d{4}[^)]*)\)\s*$/)?.[1] || '';
+                const [degree, ...institution] = item.replace(/\s*\([^)]*\d{4}[^)]*\)\s*$/, '').split(/,\s+/);
+                return { degree, institution: institution.join(', '), dates };
+            });
+        } else if (SKILLS_HEADING.test(section.title)) {
+            resume.skills = items.flatMap(item => item.split(/\s*[,;·]\s*/)).filter(Boolean);
+        } else if (items.length > 0) {
+            resume.customSections!.push({ title: section.title, items });
+        }
+    }
+
+    return resume.experience.length > 0 || resume.education.length > 0 ? resume : null;
+};
+
+// --- JSON Resume (https://jsonresume.org/schema) ---
+
+// Any JSON file can claim to be a JSON Resume, so every field is checked before it is read.
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringOf = (value: unknown): string => typeof value === 'string' ? value : '';
+
+// The objects in a list field; anything else in its place reads as an empty list.
+const objectsOf = (value: unknown): JsonObject[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+const stringsOf = (value: unknown): string[] => Array.isArray(value) ? value.map(stringOf) : [];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ISO 8601 dates ("2021-03", "2021-03-15", "2021") back to the "Mar 2021" form used elsewhere.
+const fromIsoDate = (value: string) => {
+    const match = /^(\d{4})(?:-(\d{2}))?/.exec(value);
+    if (!match) return value;
+    return match[2] ? `${MONTH_NAMES[Number(match[2]) - 1] || ''} ${match[1]}`.trim() : match[1];
+};
+
+const dateRange = (start: string, end: string) => start ? `${fromIsoDate(start)} - ${end ? fromIsoDate(end) : 'Present'}` : fromIsoDate(end);
+
+const joinParts = (...parts: string[]) => parts.map(part => part.trim()).filter(Boolean).join(', ');
+
+export const jsonResumeToStructured = (json: unknown): StructuredResume => {
+    if (!isObject(json)) throw new Error("This JSON file is not a JSON Resume.");
+    const basics = isObject(json.basics) ? json.basics : {};
+    const linkedin = objectsOf(basics.profiles).find(profile => /linkedin/i.test(stringOf(profile.network)) || /linkedin\.com/i.test(stringOf(profile.url)));
+    const custom: CustomSection[] = [];
+    const addSection = (title: string, items: string[]) => {
+        const kept = items.map(item => item.trim()).filter(Boolean);
+        if (kept.length > 0) custom.push({ title, items: kept });
+    };
+    const text = (value: unknown) => stringOf(value).trim();
+
+    addSection('Projects', objectsOf(json.projects).map(p => p.description ? `${stringOf(p.name)}: ${stringOf(p.description)}` : stringOf(p.name)));
+    addSection('Certifications', objectsOf(json.certificates).map(c => joinParts(stringOf(c.name), stringOf(c.issuer))));
+    addSection('Publications', objectsOf(json.publications).map(p => joinParts(stringOf(p.name), stringOf(p.publisher))));
+    addSection('Awards', objectsOf(json.awards).map(a => joinParts(stringOf(a.title), stringOf(a.awarder))));
+    addSection('Volunteering', objectsOf(json.volunteer).map(v => joinParts(stringOf(v.position), stringOf(v.organization), dateRange(stringOf(v.startDate), stringOf(v.endDate)))));
+    addSection('Languages', objectsOf(json.languages).map(l => l.fluency ? `${stringOf(l.language)} (${stringOf(l.fluency)})` : stringOf(l.language)));
+    addSection('Interests', objectsOf(json.interests).map(i => stringOf(i.name)));
+    const meta = isObject(json.meta) ? json.meta : {};
+    for (const section of objectsOf(meta.customSections)) addSection(stringOf(section.title), stringsOf(section.items));
+
+    return {
+        name: text(basics.name),
+        email: text(basics.email),
+        phone: text(basics.phone),
+        linkedin: text(linkedin?.url) || (linkedin && text(linkedin.username) ? `linkedin.com/in/${text(linkedin.username)}` : ''),
+        summary: text(basics.summary) || text(basics.label),
+        experience: objectsOf(json.work).map(work => ({
+            company: text(work.name) || text(work.company),
+            role: text(work.position),
+            dates: dateRange(stringOf(work.startDate), stringOf(work.endDate)),
+            description: [stringOf(work.summary), ...stringsOf(work.highlights)].map(line => line.trim()).filter(Boolean),
+        })),
+        education: objectsOf(json.education).map(entry => ({
+            institution: text(entry.institution),
+            degree: joinParts(stringOf(entry.studyType), stringOf(entry.area)),
+            dates: dateRange(stringOf(entry.startDate), stringOf(entry.endDate)),
+        })),
+        skills: [...new Set(objectsOf(json.skills).flatMap(skill => [stringOf(skill.name), ...stringsOf(skill.keywords)]).map(s => s.trim()).filter(Boolean))],
+        customSections: custom,
+    };
+};
+
+// --- LinkedIn "Save to PDF" profile ---
+
+const LINKEDIN_DATE_LINE = /^((?:[A-Z][a-z]+ )?\d{4})\s*-\s*(Present|(?:[A-Z][a-z]+ )?\d{4})(?:\s*\(.*\))?$/;
+const LINKEDIN_DURATION_LINE = /^(\d+ years?)?\s*(\d+ months?)?$/;
+const LINKEDIN_PAGE_FOOTER = /^Page \d+ of \d+$/;
+const LINKEDIN_LOCATION_LINE = /,|\b(Area|Remote|Region|Metropolitan)\b/;
+
+const LINKEDIN_HEADINGS = new Set([
+    'Contact', 'Top Skills', 'Languages', 'Certifications', 'Honors-Awards', 'Publications', 'Patents', 'Summary',
+    'Experience', 'Education', 'Projects', 'Volunteer Experience', 'Courses', 'Organizations', 'Test Scores',
+]);
+
+export const isLinkedInProfile = (text: string) => {
+    const lines = text.split('\n').map(line => line.trim());
+    return /linkedin\.com\/in\//i.test(text)
+        && lines.some(line => LINKEDIN_PAGE_FOOTER.test(line))
+        && lines.includes('Experience')
+        && (lines.includes('Contact') || lines.includes('Top Skills'));
+};
+
+export const stripLinkedInFooters = (text: string) =>
+    text.split('\n').filter(line => !LINKEDIN_PAGE_FOOTER.test(line.trim())).join('\n');
+
+// Splits on LinkedIn's own fixed headings only; company names are set large enough to pass for
+// headings in the generic pass. Works on layout lines rather than text because the name,
+// headline and location sit at the top of the main column, after the whole sidebar.
+export const splitLinkedInSections = (pages: PageLayout[]): ExtractedSection[] => {
+    const firstPage = pages[0]?.lines || [];
+    const nameLine = firstPage.reduce<LayoutLine | null>((largest, line) => !largest || line.fontSize > largest.fontSize ? line : largest, null);
+    const sections: ExtractedSection[] = [];
+    pages.forEach((page, i) => {
+        for (const line of page.lines) {
+            const text = line.text.trim();
+            if (!text || LINKEDIN_PAGE_FOOTER.test(text)) continue;
+            if (line === nameLine || LINKEDIN_HEADINGS.has(text)) {
+                sections.push({ heading: line === nameLine ? 'Header' : text, text: line === nameLine ? text : '', pageNumber: i + 1 });
+            } else if (sections.length > 0) {
+                const current = sections[sections.length - 1];
+                current.text = current.text ? `${current.text}\n${text}` : text;
+            }
+        }
+    });
+    return sections;
+};
+
+const sectionLines = (section?: ExtractedSection) =>
+    (section?.text || '').split('\n').map(line => line.trim()).filter(line => line && !LINKEDIN_PAGE_FOOTER.test(line));
+
+// LinkedIn wraps long paragraphs at the column edge; a line that doesn't end a sentence continues.
+const joinWrapped = (lines: string[]): string[] => {
+    const items: string[] = [];
+    for (const line of lines) {
+        const bullet = /^[•\-*]\s*/.exec(line);
+        const last = items[items.length - 1];
+        if (!bullet && last !== undefined && !/[.!?:]$/.test(last)) items[items.length - 1] = `${last} ${line}`;
+        else items.push(bullet ? line.slice(bullet[0].length) : line);
+    }
+    return items;
+};
+
+const isShortLabel = (line: string) => line.split(/\s+/).length <= 8 && !/[.!?]$/.test(line);
+
+const parseLinkedInExperience = (lines: string[]): ExperienceEntry[] => {
+    const dateIndexes = lines.map((line, i) => LINKEDIN_DATE_LINE.test(line) ? i : -1).filter(i => i > 0);
+    const entries: Array<ExperienceEntry & { start: number; bodyStart: number }> = [];
+    let company = '';
+    let inGroup = false;
+    let prevDate = -1;
+
+    for (const d of dateIndexes) {
+        let start = d - 1;
+        const before = lines[d - 2];
+        if (d >= 3 && LINKEDIN_DURATION_LINE.test(before) && before) {
+            // A company with several roles: "Company", total duration, then each role with its dates.
+            company = lines[d - 3];
+            inGroup = true;
+            start = d - 3;
+        } else if (before !== undefined && d - 2 > prevDate && (!inGroup || (d - 2 !== prevDate + 1 && isShortLabel(before)))) {
+            company = before;
+            inGroup = false;
+            start = d - 2;
+        }
+        const location = lines[d + 1];
+        const bodyStart = location && isShortLabel(location) && LINKEDIN_LOCATION_LINE.test(location) ? d + 2 : d + 1;
+        const match = LINKEDIN_DATE_LINE.exec(lines[d])!;
+        entries.push({ company, role: lines[d - 1], dates: `${match[1]} - ${match[2]}`, description: [], start, bodyStart });
+        prevDate = d;
+    }
+
+    return entries.map((entry, i) => {
+        const end = entries[i + 1]?.start ?? lines.length;
+        const { start, bodyStart, ...rest } = entry;
+        return { ...rest, description: joinWrapped(lines.slice(bodyStart, end)) };
+    });
+};
+
+const parseLinkedInEducation = (lines: string[]): EducationEntry[] => {
+    const entries: EducationEntry[] = [];
+    let block: string[] = [];
+    for (const line of lines) {
+        block.push(line);
+        const dates = /\(([^)]*\d{4}[^)]*)\)\s*$/.exec(line);
+        if (!dates && !line.includes(' · ')) continue;
+        const [institution, ...rest] = block;
+        const degreeLine = rest.join(' ');
+        entries.push({
+            institution,
+            degree: degreeLine.split(' · ')[0].replace(/\s*\([^)]*\)\s*$/, '').trim(),
+            dates: dates?.[1].trim() || '',
+        });
+        block = [];
+    }
+    // A school listed without a degree line.
+    if (block.length > 0) entries.push({ institution: block.join(' '), degree: '', dates: '' });
+    return entries;
+};
+
+// Maps the fixed layout of LinkedIn's profile PDF: a sidebar with Contact, Top Skills, Languages
+// and Certifications, and a main column with the name, headline, Summary, Experience and Education.
+export const linkedInToStructured = (sections: ExtractedSection[]): StructuredResume => {
+    const find = (heading: string) => sections.find(section => section.heading === heading);
+    const resume = createEmptyResume();
+
+    const header = sectionLines(find('Header'));
+    resume.name = header[0] || '';
+    // LinkedIn breaks long profile URLs across lines, usually after a hyphen.
+    readContact(resume, sectionLines(find('Contact')).join('\n').replace(/([-/])\n/g, '$1').replace(/\n/g, ' '));
+    resume.summary = joinWrapped(sectionLines(find('Summary'))).join('\n') || header[1] || '';
+    resume.skills = sectionLines(find('Top Skills'));
+    resume.experience = parseLinkedInExperience(sectionLines(find('Experience')));
+    resume.education = parseLinkedInEducation(sectionLines(find('Education')));
+
+    const mapped = new Set(['Header', 'Contact', 'Summary', 'Top Skills', 'Experience', 'Education']);
+    resume.customSections = sections
+        .filter(section => !mapped.has(section.heading))
+        .map(section => ({ title: section.heading.replace(/-/g, ' & '), items: joinWrapped(sectionLines(section)) }))
+        .filter(section => section.items.length > 0);
+    return resume;
+};
@@ -0,0 +1,125 @@
+import { AnalysisResult, ResumeRecord, ResumeRevision, StoredAnalysis, StructuredResume, TargetJob, TemplateSettings, TextExtraction } from "../types";
+import { RESUME_STORE, defineCollection, runRequest, runTransaction } from "./storage";
+import { resumeToText } from "./resumeModel";
+
+const ACTIVE_RESUME_KEY = 'activeResumeId';
+
+export const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The text the editor and analyses should work from: the latest revision, or the original upload.
+export const getCurrentText = (resume: ResumeRecord): string =>
+    resume.revisions.length > 0 ? resume.revisions[resume.revisions.length - 1].text : resume.originalText;
+
+// The structured form of the resume's latest state, if one was recorded with it.
+export const getCurrentStructured = (resume: ResumeRecord): StructuredResume | undefined =>
+    resume.revisions.length > 0 ? resume.revisions[resume.revisions.length - 1].structured : resume.originalStructured;
+
+// The text ATS scores are taken from, wherever they are shown: the structured resume rendered the way
+// the editor renders it, so the analysis, the breakdown and the editor all agree.
+export const getScoredText = (resume: ResumeRecord): string => {
+    const structured = getCurrentStructured(resume);
+    return structured ? resumeToText(structured) : getCurrentText(resume);
+};
+
+export const getLatestAnalysis = (resume: ResumeRecord): StoredAnalysis | null =>
+    resume.analyses.length > 0 ? resume.analyses[resume.analyses.length - 1] : null;
+
+// Revisions saved before snapshots were named have no kind or label.
+const normalizeResume = (resume: ResumeRecord): ResumeRecord => ({
+    ...resume,
+    revisions: resume.revisions.map(r => ({ ...r, kind: r.kind || 'edit', label: r.label || 'Manual edits' })),
+});
+
+export const listResumes = async (): Promise<ResumeRecord[]> => {
+    const resumes = await runRequest<ResumeRecord[]>(RESUME_STORE, 'readonly', store => store.getAll());
+    return resumes.map(normalizeResume).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getResume = async (id: string): Promise<ResumeRecord | null> => {
+    const resume = await runRequest<ResumeRecord | undefined>(RESUME_STORE, 'readonly', store => store.get(id));
+    return resume ? normalizeResume(resume) : null;
+};
+
+export const saveResume = async (resume: ResumeRecord): Promise<ResumeRecord> => {
+    const updated = { ...resume, updatedAt: new Date().toISOString() };
+    await runRequest(RESUME_STORE, 'readwrite', store => store.put(updated));
+    return updated;
+};
+
+export const deleteResume = async (id: string): Promise<void> => {
+    await runRequest(RESUME_STORE, 'readwrite', store => store.delete(id));
+    if (getActiveResumeId() === id) {
+        setActiveResumeId(null);
+    }
+};
+
+export const createResume = async (file: File, extraction: TextExtraction, analysis: AnalysisResult): Promise<ResumeRecord> => {
+    const now = new Date().toISOString();
+    const resume: ResumeRecord = {
+        id: createId(),
+        name: file.name.split('.').slice(0, -1).join('.') || file.name,
+        fileName: file.name,
+        fileType: extraction.mimeType,
+        originalText: extraction.text,
+        originalStructured: extraction.structured,
+        sourceSections: extraction.sections,
+        createdAt: now,
+        updatedAt: now,
+        analyses: [{ id: createId(), createdAt: now, result: analysis }],
+        revisions: [],
+    };
+    return saveResume(resume);
+};
+
+export const addAnalysis = async (resume: ResumeRecord, result: AnalysisResult): Promise<ResumeRecord> =>
+    saveResume({
+        ...resume,
+        analyses: [...resume.analyses, { id: createId(), createdAt: new Date().toISOString(), result }],
+    });
+
+// Upserts the revision with the given id, so a burst of manual edits keeps amending one revision.
+export const saveRevision = async (resume: ResumeRecord, revision: ResumeRevision): Promise<ResumeRecord> => {
+    const exists = resume.revisions.some(r => r.id === revision.id);
+    const revisions = exists
+        ? resume.revisions.map(r => r.id === revision.id ? revision : r)
+        : [...resume.revisions, revision];
+    return saveResume({ ...resume, revisions });
+};
+
+export const updateRevision = async (resume: ResumeRecord, id: string, patch: Partial<ResumeRevision>): Promise<ResumeRecord> =>
+    saveResume({
+        ...resume,
+        revisions: resume.revisions.map(r => r.id === id ? { ...r, ...patch } : r),
+    });
+
+export const setTargetJobs = async (resume: ResumeRecord, targetJobs: TargetJob[]): Promise<ResumeRecord> =>
+    saveResume({ ...resume, targetJobs });
+
+export const setTemplateSettings = async (resume: ResumeRecord, templateSettings: TemplateSettings): Promise<ResumeRecord> =>
+    saveResume({ ...resume, templateSettings });
+
+export const renameResume = async (resume: ResumeRecord, name: string): Promise<ResumeRecord> =>
+    saveResume({ ...resume, name });
+
+// Writes resumes exactly as given, keeping their timestamps, in one transaction. With `replace`
+// the library is emptied first.
+export const restoreResumes = async (resumes: ResumeRecord[], replace: boolean): Promise<void> =>
+    runTransaction(RESUME_STORE, 'readwrite', store => {
+        if (replace) store.clear();
+        resumes.forEach(resume => store.put(resume));
+        return () => undefined;
+    });
+
+// Ids are stored as bare strings, which older ids made of digits alone would parse as numbers.
+export const activeResumeStore = defineCollection<string | null>({
+    key: ACTIVE_RESUME_KEY,
+    version: 1,
+    fallback: () => null,
+    parse: id => id === null || id === undefined ? null : String(id),
+});
+
+export const getActiveResumeId = (): string | null => activeResumeStore.read();
+
+export const setActiveResumeId = (id: string | null) => {
+    activeResumeStore.write(id);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { StructuredResume } from '../types';
+import { createEmptyResume, getFieldText, parseResumeText, resumeToText, setFieldText } from './resumeModel';
+
+const resume = (fields: Partial<StructuredResume>): StructuredResume => ({ ...createEmptyResume(), ...fields });
+
+const roundTrip = (value: StructuredResume) => parseResumeText(resumeToText(value));
+
+const JANE = resume({
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: '(555) 123-4567',
+    linkedin: 'linkedin.com/in/janedoe',
+    links: ['github.com/janedoe'],
+    summary: 'Backend engineer.\nFocused on payments.',
+    experience: [
+        { role: 'Senior Engineer', company: 'Acme', dates: 'Jan 2020 - Present', description: ['Led a team of 6', 'Cut latency by 40%'] },
+        { role: 'Engineer', company: 'Initech', dates: '2016 - 2019', description: [] },
+    ],
+    education: [{ degree: 'B.Sc. Computer Science', institution: 'State University', dates: '2016' }],
+    skills: ['Go', 'PostgreSQL'],
+    customSections: [{ title: 'Projects', items: ['Ledger: a double-entry bookkeeping library'] }],
+});
+
+describe('resumeToText and parseResumeText', () => {
+    it('round-trip a full resume', () => {
+        expect(roundTrip(JANE)).toEqual(JANE);
+    });
+
+    it('keep contact parts that are not the email, phone or LinkedIn profile', () => {
+        const text = resumeToText(JANE);
+        expect(text.split('\n')[1]).toBe('jane@example.com | (555) 123-4567 | linkedin.com/in/janedoe | github.com/janedoe');
+        expect(roundTrip(resume({ name: 'Jane Doe', email: 'jane@example.com', links: ['janedoe.dev', 'Portland, OR'] })).links).toEqual(['janedoe.dev', 'Portland, OR']);
+    });
+
+    it("don't take the contact line for the name of a resume without one", () => {
+        const nameless = resume({ email: 'jane@example.com', phone: '555-123-4567', skills: ['Go'] });
+        expect(roundTrip(nameless)).toEqual(nameless);
+    });
+
+    it('keep custom sections titled like a built-in section apart from it', () => {
+        const withCustomSkills = resume({ name: 'Jane Doe', customSections: [{ title: 'Skills', items: ['Public speaking'] }] });
+        expect(roundTrip(withCustomSkills)).toEqual(withCustomSkills);
+        const withBoth = resume({ name: 'Jane Doe', skills: ['Go'], customSections: [{ title: 'Skills', items: ['Public speaking'] }] });
+        expect(roundTrip(withBoth)).toEqual(withBoth);
+    });
+
+    it('keep text above the first section with the summary', () => {
+        expect(parseResumeText('Jane Doe\njane@example.com\nOpen to relocation\n\nSummary\n-------\nBackend engineer.').summary)
+            .toBe('Open to relocation\nBackend engineer.');
+    });
+});
+
+describe('getFieldText and setFieldText', () => {
+    it('read and write a field by its path', () => {
+        expect(getFieldText(JANE, 'experience.0.description.1')).toBe('Cut latency by 40%');
+        expect(getFieldText(JANE, 'experience.5.role')).toBeUndefined();
+        const edited = setFieldText(JANE, 'experience.0.description.1', 'Cut latency by half');
+        expect(edited.experience[0].description).toEqual(['Led a team of 6', 'Cut latency by half']);
+        expect(JANE.experience[0].description[1]).toBe('Cut latency by 40%');
+    });
+});
@@ -0,0 +1,294 @@
+import { CustomSection, EducationEntry, ExperienceEntry, StructuredResume } from "../types";
+
+// Plain-text layout written by resumeToText and read back by parseResumeText:
+//
+//   Name
+//   email | phone | linkedin | other links
+//
+//   Experience
+//   ----------
+//   Role | Company | Dates
+//   - Bullet
+//
+// Sections are a title underlined with dashes. Entries within a section are separated by blank lines.
+// A custom section sharing a built-in section's title comes after that section's heading, which is
+// written even when empty, so the second heading with the title is always the custom one.
+
+const FIELD_SEPARATOR = ' | ';
+const BULLET = '- ';
+
+const SUMMARY_TITLE = 'Summary';
+const EXPERIENCE_TITLE = 'Experience';
+const EDUCATION_TITLE = 'Education';
+const SKILLS_TITLE = 'Skills';
+const BUILT_IN_TITLES = [SUMMARY_TITLE, EXPERIENCE_TITLE, EDUCATION_TITLE, SKILLS_TITLE];
+
+export const CUSTOM_SECTION_PRESETS = ['Projects', 'Certifications', 'Publications'];
+
+export const createEmptyResume = (): StructuredResume => ({
+    name: '',
+    email: '',
+    phone: '',
+    linkedin: '',
+    links: [],
+    summary: '',
+    experience: [],
+    education: [],
+    skills: [],
+    customSections: [],
+});
+
+const cleanList = (items: unknown): string[] =>
+    Array.isArray(items) ? items.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean) : [];
+
+const cleanString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Fills in anything the model left out so the editor never has to null-check.
+export const normalizeStructuredResume = (raw: Partial<StructuredResume>): StructuredResume => ({
+    name: cleanString(raw.name),
+    email: cleanString(raw.email),
+    phone: cleanString(raw.phone),
+    linkedin: cleanString(raw.linkedin),
+    links: cleanList(raw.links),
+    summary: cleanString(raw.summary),
+    experience: (raw.experience || []).map(entry => ({
+        company: cleanString(entry.company),
+        role: cleanString(entry.role),
+        dates: cleanString(entry.dates),
+        description: cleanList(entry.description),
+    })),
+    education: (raw.education || []).map(entry => ({
+        institution: cleanString(entry.institution),
+        degree: cleanString(entry.degree),
+        dates: cleanString(entry.dates),
+    })),
+    skills: cleanList(raw.skills),
+    customSections: (raw.customSections || [])
+        .map(section => ({ title: cleanString(section.title) || 'Additional Information', items: cleanList(section.items) }))
+        .filter(section => section.items.length > 0),
+});
+
+const heading = (title: string) => `${title}\n${'-'.repeat(Math.max(title.length, 3))}`;
+
+const joinFields = (...fields: string[]) => fields.join(FIELD_SEPARATOR).trimEnd();
+
+export const resumeToText = (resume: StructuredResume): string => {
+    const blocks: string[] = [];
+
+    const contact = [resume.email, resume.phone, resume.linkedin || '', ...(resume.links || [])].filter(Boolean).join(FIELD_SEPARATOR);
+    blocks.push([resume.name, contact].filter(Boolean).join('\n'));
+
+    const customTitles = new Set((resume.customSections || []).map(section => section.title));
+    if (resume.summary || customTitles.has(SUMMARY_TITLE)) {
+        blocks.push(`${heading(SUMMARY_TITLE)}\n${resume.summary}`.trimEnd());
+    }
+    if (resume.experience.length > 0 || customTitles.has(EXPERIENCE_TITLE)) {
+        const entries = resume.experience.map(entry =>
+            [joinFields(entry.role, entry.company, entry.dates), ...entry.description.map(line => BULLET + line)].join('\n'));
+        blocks.push(`${heading(EXPERIENCE_TITLE)}\n${entries.join('\n\n')}`.trimEnd());
+    }
+    if (resume.education.length > 0 || customTitles.has(EDUCATION_TITLE)) {
+        const entries = resume.education.map(entry => joinFields(entry.degree, entry.institution, entry.dates));
+        blocks.push(`${heading(EDUCATION_TITLE)}\n${entries.join('\n\n')}`.trimEnd());
+    }
+    if (resume.skills.length > 0 || customTitles.has(SKILLS_TITLE)) {
+        blocks.push(`${heading(SKILLS_TITLE)}\n${resume.skills.map(skill => BULLET + skill).join('\n')}`.trimEnd());
+    }
+    for (const section of resume.customSections || []) {
+        blocks.push(`${heading(section.title)}\n${section.items.map(item => BULLET + item).join('\n')}`);
+    }
+
+    return blocks.filter(Boolean).join('\n\n');
+};
+
+const isUnderline = (line: string | undefined) => line !== undefined && /^-{3,}$/.test(line.trim());
+
+const splitFields = (line: string, count: number): string[] => {
+    const parts = line.split('|').map(part => part.trim());
+    // Extra separators belong to the last field rather than being dropped.
+    const fields = parts.slice(0, count - 1);
+    fields.push(parts.slice(count - 1).join(' | '));
+    while (fields.length < count) fields.push('');
+    return fields;
+};
+
+const splitEntries = (lines: string[]): string[][] => {
+    const entries: string[][] = [];
+    let current: string[] = [];
+    for (const line of lines) {
+        if (line.trim()) {
+            current.push(line);
+        } else if (current.length > 0) {
+            entries.push(current);
+            current = [];
+        }
+    }
+    if (current.length > 0) entries.push(current);
+    return entries;
+};
+
+const isEmail = (part: string) => /^[^\s@]+@[^\s@]+$/.test(part);
+const isPhone = (part: string) => /^\+?[\d\s().-]{7,}$/.test(part) && /\d{3}/.test(part.replace(/\D/g, ''));
+const isLink = (part: string) => /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(part);
+
+// Whether a header line is the contact line rather than the name, for resumes with no name.
+const isContactLine = (line: string) =>
+    line.split('|').map(part => part.trim()).some(part => isEmail(part) || isPhone(part) || isLink(part));
+
+export const stripBullet = (line: string) => line.trim().replace(/^[-•*]\s+/, '');
+
+// Reads text in the resumeToText layout back into a StructuredResume, so edits made in the
+// plain-text view survive a round trip. Text in any other layout is better handled by the model.
+export const parseResumeText = (text: string): StructuredResume => {
+    const resume = createEmptyResume();
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+    const sections: Array<{ title: string; lines: string[] }> = [];
+    const header: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        if (lines[i].trim() && isUnderline(lines[i + 1])) {
+            sections.push({ title: lines[i].trim(), lines: [] });
+            i++;
+        } else if (sections.length > 0) {
+            sections[sections.length - 1].lines.push(lines[i]);
+        } else {
+            header.push(lines[i]);
+        }
+    }
+
+    const headerLines = header.map(line => line.trim()).filter(Boolean);
+    if (headerLines.length > 0 && isContactLine(headerLines[0])) headerLines.unshift('');
+    resume.name = headerLines[0] || '';
+    // Parts that aren't the email, phone or LinkedIn profile are kept as links rather than dropped.
+    for (const part of (headerLines[1] || '').split('|').map(p => p.trim()).filter(Boolean)) {
+        if (!resume.email && isEmail(part)) resume.email = part;
+        else if (!resume.linkedin && /linkedin/i.test(part)) resume.linkedin = part;
+        else if (!resume.phone && isPhone(part)) resume.phone = part;
+        else resume.links!.push(part);
+    }
+
+    const seen = new Set<string>();
+    for (const section of sections) {
+        const entries = splitEntries(section.lines);
+        // Only the first heading with a built-in title is the built-in section.
+        const builtIn = BUILT_IN_TITLES.includes(section.title) && !seen.has(section.title);
+        seen.add(section.title);
+        switch (builtIn ? section.title : null) {
+            case SUMMARY_TITLE:
+                resume.summary = section.lines.join('\n').trim();
+                break;
+            case EXPERIENCE_TITLE:
+                resume.experience = entries.map((entry): ExperienceEntry => {
+                    const [role, company, dates] = splitFields(entry[0], 3);
+                    return { role, company, dates, description: entry.slice(1).map(stripBullet).filter(Boolean) };
+                });
+                break;
+            case EDUCATION_TITLE:
+                resume.education = entries.map((entry): EducationEntry => {
+                    const [degree, institution, dates] = splitFields(entry.join(' '), 3);
+                    return { degree, institution, dates };
+                });
+                break;
+            case SKILLS_TITLE:
+                resume.skills = section.lines.map(stripBullet).filter(Boolean);
+                break;
+            default:
+                resume.customSections!.push({ title: section.title, items: section.lines.map(stripBullet).filter(Boolean) });
+        }
+    }
+
+    // Stray lines above the first section would otherwise be lost; keep them with the summary.
+    const extraHeaderLines = headerLines.slice(2);
+    if (extraHeaderLines.length > 0) {
+        resume.summary = [extraHeaderLines.join('\n'), resume.summary].filter(Boolean).join('\n');
+    }
+
+    return resume;
+};
+
+const wordsOf = (text: string) => text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/g) || [];
+
+// The model sometimes leaves lines out when structuring a resume. Any source line whose words
+// mostly don't appear in the structured result is kept in an "Additional Information" section
+// so the user can see it and move it where it belongs.
+export const recoverDroppedContent = (sourceText: string, resume: StructuredResume): StructuredResume => {
+    const present = new Set(wordsOf(resumeToText(resume)));
+    const dropped = sourceText
+        .split('\n')
+        .map(stripBullet)
+        .filter(line => {
+            const words = wordsOf(line).filter(word => word.length > 2);
+            if (words.length === 0) return false;
+            const missing = words.filter(word => !present.has(word)).length;
+            return missing / words.length > 0.5;
+        });
+
+    if (dropped.length === 0) return resume;
+    const recovered: CustomSection = { title: 'Additional Information', items: dropped };
+    return { ...resume, customSections: [...(resume.customSections || []), recovered] };
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+    if (to < 0 || to >= items.length || from === to) return items;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+export interface ResumeField {
+    id: string;
+    label: string;
+    text: string;
+}
+
+// Every editable text field that suggestions can target, addressed by its path in the resume
+// (e.g. "experience.0.description.2").
+export const listResumeFields = (resume: StructuredResume): ResumeField[] => {
+    const fields: ResumeField[] = [{ id: 'summary', label: 'Summary', text: resume.summary }];
+    resume.experience.forEach((entry, i) => {
+        const where = entry.company || entry.role || `Position ${i + 1}`;
+        fields.push({ id: `experience.${i}.role`, label: `${where} · role`, text: entry.role });
+        fields.push({ id: `experience.${i}.company`, label: `${where} · company`, text: entry.company });
+        fields.push({ id: `experience.${i}.dates`, label: `${where} · dates`, text: entry.dates });
+        entry.description.forEach((bullet, j) => {
+            fields.push({ id: `experience.${i}.description.${j}`, label: `${where} · bullet ${j + 1}`, text: bullet });
+        });
+    });
+    resume.education.forEach((entry, i) => {
+        const where = entry.institution || `Education ${i + 1}`;
+        fields.push({ id: `education.${i}.degree`, label: `${where} · degree`, text: entry.degree });
+        fields.push({ id: `education.${i}.institution`, label: `${where} · institution`, text: entry.institution });
+        fields.push({ id: `education.${i}.dates`, label: `${where} · dates`, text: entry.dates });
+    });
+    resume.skills.forEach((skill, i) => fields.push({ id: `skills.${i}`, label: `Skill ${i + 1}`, text: skill }));
+    (resume.customSections || []).forEach((section, i) => {
+        section.items.forEach((item, j) => {
+            fields.push({ id: `customSections.${i}.items.${j}`, label: `${section.title} · item ${j + 1}`, text: item });
+        });
+    });
+    return fields.filter(field => field.text);
+};
+
+export const getFieldText = (resume: StructuredResume, fieldId: string): string | undefined => {
+    let value: unknown = resume;
+    for (const key of fieldId.split('.')) {
+        if (!value || typeof value !== 'object') return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return typeof value === 'string' ? value : undefined;
+};
+
+const setAtPath = (value: unknown, keys: string[], text: string): unknown => {
+    if (keys.length === 0) return text;
+    const [key, ...rest] = keys;
+    if (Array.isArray(value)) {
+        const index = Number(key);
+        return value.map((item, i) => i === index ? setAtPath(item, rest, text) : item);
+    }
+    const record = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+    return { ...record, [key]: setAtPath(record[key], rest, text) };
+};
+
+export const setFieldText = (resume: StructuredResume, fieldId: string, text: string): StructuredResume =>
+    setAtPath(resume, fieldId.split('.'), text) as StructuredResume;
@@ -0,0 +1,102 @@
+import { ResumeFont, ResumeTemplateId, TemplateSettings } from "../types";
+
+export interface ResumeTemplate {
+    id: ResumeTemplateId;
+    name: string;
+    description: string;
+    // Single column, standard headings and no text inside shapes, so ATS parsers read it in order.
+    atsSafe: boolean;
+    layout: 'single' | 'sidebar';
+    headerAlign: 'left' | 'center';
+    // Body text size in points before any page-fit scaling.
+    baseFontSize: number;
+    // Multiplier for the vertical gaps between entries and sections.
+    spacing: number;
+    headingRule: boolean;
+    defaultFont: ResumeFont;
+    defaultAccent: string;
+}
+
+export const RESUME_TEMPLATES: ResumeTemplate[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        description: 'Serif type with ruled section headings. Safe for every ATS.',
+        atsSafe: true,
+        layout: 'single',
+        headerAlign: 'left',
+        baseFontSize: 10.5,
+        spacing: 1,
+        headingRule: true,
+        defaultFont: 'times',
+        defaultAccent: '#111827',
+    },
+    {
+        id: 'modern',
+        name: 'Modern',
+        description: 'Clean sans-serif with coloured headings and company names.',
+        atsSafe: true,
+        layout: 'single',
+        headerAlign: 'left',
+        baseFontSize: 10,
+        spacing: 1,
+        headingRule: true,
+        defaultFont: 'helvetica',
+        defaultAccent: '#3730a3',
+    },
+    {
+        id: 'compact',
+        name: 'Compact',
+        description: 'Smaller type and tight spacing for long careers on one page.',
+        atsSafe: true,
+        layout: 'single',
+        headerAlign: 'left',
+        baseFontSize: 9,
+        spacing: 0.6,
+        headingRule: false,
+        defaultFont: 'helvetica',
+        defaultAccent: '#0f766e',
+    },
+    {
+        id: 'executive',
+        name: 'Executive',
+        description: 'Centred header and generous spacing for senior roles.',
+        atsSafe: true,
+        layout: 'single',
+        headerAlign: 'center',
+        baseFontSize: 10.5,
+        spacing: 1.3,
+        headingRule: true,
+        defaultFont: 'times',
+        defaultAccent: '#7c2d12',
+    },
+    {
+        id: 'sidebar',
+        name: 'Sidebar',
+        description: 'Two columns with a coloured sidebar. Best for sending to people, not ATS portals.',
+        atsSafe: false,
+        layout: 'sidebar',
+        headerAlign: 'left',
+        baseFontSize: 9.5,
+        spacing: 1,
+        headingRule: false,
+        defaultFont: 'helvetica',
+        defaultAccent: '#1e3a8a',
+    },
+];
+
+export const getTemplate = (id: ResumeTemplateId): ResumeTemplate =>
+    RESUME_TEMPLATES.find(template => template.id === id) || RESUME_TEMPLATES[0];
+
+export const getDefaultSettings = (id: ResumeTemplateId = 'modern'): TemplateSettings => {
+    const template = getTemplate(id);
+    return {
+        templateId: template.id,
+        font: template.defaultFont,
+        accentColor: template.defaultAccent,
+        marginMm: 18,
+        pageFit: 'natural',
+    };
+};
+
+export const MARGIN_RANGE_MM = { min: 10, max: 30 };
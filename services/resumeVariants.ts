@@ -0,0 +1,62 @@
+import { ResumeRecord, SubmittedResume, TrackedJob } from "../types";
+import { structureResume, tailorResume } from "./geminiService";
+import { createId, getCurrentStructured, getCurrentText, saveResume } from "./resumeLibrary";
+import { resumeToText } from "./resumeModel";
+import { scoreResume } from "./atsScorer";
+
+// Forks the base resume into a new library entry tailored for the job. The variant's "original"
+// is the base as it was at fork time, so its revision history shows exactly what tailoring changed.
+// Its text is rendered from the structured base, like every revision's, so diffs only show edits.
+export const createTailoredVariant = async (base: ResumeRecord, job: TrackedJob): Promise<{ variant: ResumeRecord; changes: string[] }> => {
+    const baseText = getCurrentText(base);
+    const baseStructured = getCurrentStructured(base) || await structureResume(baseText);
+    const { resume: tailored, changes } = await tailorResume(baseStructured, job.title, job.description);
+
+    const now = new Date().toISOString();
+    const text = resumeToText(tailored);
+    const variant: ResumeRecord = {
+        id: createId(),
+        name: `${base.name} · ${job.company}`,
+        fileName: base.fileName,
+        fileType: base.fileType,
+        originalText: resumeToText(baseStructured),
+        originalStructured: baseStructured,
+        createdAt: now,
+        updatedAt: now,
+        analyses: [],
+        revisions: [{
+            id: createId(),
+            createdAt: now,
+            updatedAt: now,
+            text,
+            structured: tailored,
+            kind: 'tailored',
+            label: `Tailored for ${job.title} at ${job.company}`,
+            atsScore: scoreResume(text, { fileType: base.fileType }).score,
+        }],
+        targetJobs: [{ id: createId(), title: job.title, company: job.company, description: job.description, trackedJobId: job.id }],
+        templateSettings: base.templateSettings,
+        variantOf: {
+            baseResumeId: base.id,
+            baseName: base.name,
+            trackedJobId: job.id,
+            jobTitle: job.title,
+            company: job.company,
+            createdAt: now,
+        },
+    };
+    return { variant: await saveResume(variant), changes };
+};
+
+export const createSubmission = (resume: ResumeRecord): SubmittedResume => {
+    const head = resume.revisions[resume.revisions.length - 1];
+    return {
+        resumeId: resume.id,
+        resumeName: resume.name,
+        revisionId: head?.id,
+        text: getCurrentText(resume),
+        structured: getCurrentStructured(resume),
+        atsScore: head?.atsScore,
+        submittedAt: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,16 @@
+import { AgentSearchHistoryItem } from "../types";
+import { defineCollection } from "./storage";
+
+// Agent missions, newest first.
+export const searchHistoryStore = defineCollection<AgentSearchHistoryItem[]>({
+    key: 'agentSearchHistory',
+    version: 1,
+    fallback: () => [],
+    parse: history => Array.isArray(history) ? history.filter(item => item && typeof item === 'object') : [],
+});
+
+export const addSearchToHistory = (mission: string, resultCount: number): boolean =>
+    searchHistoryStore.update(history => [
+        { id: Date.now().toString(), mission, date: new Date().toISOString(), resultCount },
+        ...history,
+    ]);
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewTurn } from '../types';
+import { analyzeSpeech, countFillers, countWords, createSpeechTracker } from './speechAnalytics';
+
+describe('countFillers', () => {
+    it('counts filler words', () => {
+        expect(countFillers("Um, so I, uh, basically you know, rewrote it. Umm, like, it was sort of slow.")).toEqual({
+            um: 2, uh: 1, basically: 1, 'you know': 1, like: 1, 'sort of': 1,
+        });
+    });
+
+    it('ignores the everyday meanings of filler phrases', () => {
+        expect(countFillers("I'd like to know what kind of team this is. Do you know the kind of work? I feel like it fits.")).toEqual({});
+    });
+});
+
+describe('countWords', () => {
+    it("counts words with apostrophes as one", () => {
+        expect(countWords("I'm sure it's fine — 100%.")).toBe(5);
+    });
+});
+
+describe('createSpeechTracker', () => {
+    it('measures speaking time and long pauses', () => {
+        const tracker = createSpeechTracker();
+        tracker.addFrame(true, 50, 1050);
+        tracker.addFrame(false, 50, 1100);
+        tracker.addFrame(true, 50, 1150);
+        tracker.addFrame(true, 50, 4200);
+        expect(tracker.take()).toEqual({ startedAt: 1000, endedAt: 4200, speakingMs: 150, pauses: [3000] });
+        expect(tracker.take()).toBeUndefined();
+    });
+
+    it("doesn't count silence across an interruption as a pause", () => {
+        const tracker = createSpeechTracker();
+        tracker.addFrame(true, 50, 1050);
+        tracker.interrupt();
+        tracker.addFrame(true, 50, 9050);
+        expect(tracker.take()?.pauses).toEqual([]);
+    });
+});
+
+describe('analyzeSpeech', () => {
+    const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+    it('groups consecutive candidate turns into one answer', () => {
+        const analytics = analyzeSpeech([
+            { speaker: 'model', text: 'Tell me about yourself.' },
+            { speaker: 'user', text: 'Um, I build APIs.' },
+            { speaker: 'user', text: 'Mostly in Go.' },
+            { speaker: 'model', text: 'Why this role?' },
+            { speaker: 'user', text: words(120) },
+        ]);
+        expect(analytics.answers.map(answer => [answer.question, answer.words, answer.length])).toEqual([
+            ['Tell me about yourself.', 7, 'short'],
+            ['Why this role?', 120, 'within'],
+        ]);
+        expect(analytics.fillerTotal).toBe(1);
+        expect(analytics.shareBasis).toBe('words');
+    });
+
+    it('keeps a structured question together across a clarifying exchange', () => {
+        const analytics = analyzeSpeech([
+            { speaker: 'model', text: 'Describe a conflict.', questionId: 'q1' },
+            { speaker: 'user', text: 'With a peer or a manager?', questionId: 'q1' },
+            { speaker: 'model', text: 'Either.', questionId: 'q1' },
+            { speaker: 'user', text: 'A peer, about code review.', questionId: 'q1' },
+        ]);
+        expect(analytics.answers).toHaveLength(1);
+        expect(analytics.answers[0].words).toBe(11);
+    });
+
+    it('uses audio timing when every turn was spoken', () => {
+        const spoken = (speaker: InterviewTurn['speaker'], text: string, startedAt: number, endedAt: number, pauses: number[] = []): InterviewTurn =>
+            ({ speaker, text, timing: { startedAt, endedAt, speakingMs: endedAt - startedAt, pauses } });
+        const analytics = analyzeSpeech([
+            spoken('model', 'Tell me about yourself.', 0, 10000),
+            spoken('user', words(60), 12000, 42000, [2500]),
+        ]);
+        expect(analytics.answers[0]).toMatchObject({ spoken: true, durationSeconds: 30, wordsPerMinute: 120, longPauses: 1 });
+        expect(analytics.wordsPerMinute).toBe(120);
+        expect(analytics.shareBasis).toBe('time');
+        expect(analytics.candidateShare).toBeCloseTo(0.75);
+    });
+
+    it('leaves out timing measures for typed answers', () => {
+        const analytics = analyzeSpeech([
+            { speaker: 'model', text: 'Why this role?' },
+            { speaker: 'user', text: 'Because.', timing: { startedAt: 0, endedAt: 0 } },
+        ]);
+        expect(analytics.answers[0].spoken).toBe(false);
+        expect(analytics.answers[0].wordsPerMinute).toBeUndefined();
+        expect(analytics.wordsPerMinute).toBeUndefined();
+    });
+});
@@ -0,0 +1,201 @@
+import { InterviewTurn, TurnTiming } from "../types";
+
+// --- Measuring speech from the microphone ---
+
+// A silence at least this long inside an answer counts as a long pause.
+export const LONG_PAUSE_MS = 2000;
+
+export interface SpeechTracker {
+    // One chunk of microphone audio that finished at `endedAt` (epoch ms), as judged by the voice
+    // activity detector in audioPipeline.ts.
+    addFrame: (isSpeech: boolean, durationMs: number, endedAt: number) => void;
+    // Marks a stretch the candidate wasn't expected to talk, such as while the interviewer speaks, so
+    // the silence around it isn't counted as a pause.
+    interrupt: () => void;
+    // The timing of everything said since the last call, or undefined if nothing was said.
+    take: () => TurnTiming | undefined;
+}
+
+export const createSpeechTracker = (): SpeechTracker => {
+    let startedAt: number | null = null;
+    let endedAt = 0;
+    let speakingMs = 0;
+    let pauses: number[] = [];
+    let interrupted = false;
+
+    return {
+        addFrame: (isSpeech, durationMs, frameEnd) => {
+            if (!isSpeech) return;
+
+            const frameStart = frameEnd - durationMs;
+            if (startedAt === null) {
+                startedAt = frameStart;
+            } else if (!interrupted && frameStart - endedAt >= LONG_PAUSE_MS) {
+                pauses.push(Math.round(frameStart - endedAt));
+            }
+            interrupted = false;
+            endedAt = frameEnd;
+            speakingMs += durationMs;
+        },
+        interrupt: () => {
+            interrupted = true;
+        },
+        take: () => {
+            const timing = startedAt === null ? undefined : { startedAt, endedAt, speakingMs: Math.round(speakingMs), pauses };
+            startedAt = null;
+            speakingMs = 0;
+            pauses = [];
+            interrupted = false;
+            return timing;
+        },
+    };
+};
+
+// --- Analysing the transcript ---
+
+// Roughly 30 seconds to two minutes of speech at a usual pace.
+export const RECOMMENDED_ANSWER_WORDS = { min: 80, max: 300 };
+
+// Patterns run on lower-cased text. The look-behinds skip the everyday meanings that aren't filler,
+// such as "I'd like to" or "what kind of".
+const FILLERS: { word: string; pattern: RegExp }[] = [
+    { word: 'um', pattern: /\b(?:u+m+|uhm+)\b/g },
+    { word: 'uh', pattern: /\bu+h+\b/g },
+    { word: 'er', pattern: /\b(?:er+|erm+)\b/g },
+    { word: 'ah', pattern: /\bah+\b/g },
+    { word: 'hmm', pattern: /\bhm+\b/g },
+    { word: 'like', pattern: /(?<!\b(?:i|you|we|they|would|i'd|you'd|we'd|they'd|feel|felt|look|looks|looked|seem|seems|seemed|sound|sounds|sounded|just|much|not|don't|didn't|something|anything) )\blike\b/g },
+    { word: 'you know', pattern: /(?<!\b(?:do|did|don't|if|as) )\byou know\b/g },
+    { word: 'I mean', pattern: /\bi mean\b/g },
+    { word: 'basically', pattern: /\bbasically\b/g },
+    { word: 'actually', pattern: /\bactually\b/g },
+    { word: 'literally', pattern: /\bliterally\b/g },
+    { word: 'sort of', pattern: /(?<!\b(?:what|which|this|that|the|a|any|some|every|same) )\bsort of\b/g },
+    { word: 'kind of', pattern: /(?<!\b(?:what|which|this|that|the|a|any|some|every|same) )\bkind of\b/g },
+];
+
+export const countWords = (text: string) => text.match(/[\p{L}\p{N}']+/gu)?.length ?? 0;
+
+export const countFillers = (text: string): Record<string, number> => {
+    const normalized = text.toLowerCase().replace(/[‘’]/g, "'");
+    const counts: Record<string, number> = {};
+    for (const { word, pattern } of FILLERS) {
+        const found = normalized.match(pattern)?.length ?? 0;
+        if (found > 0) counts[word] = found;
+    }
+    return counts;
+};
+
+const addCounts = (total: Record<string, number>, counts: Record<string, number>) => {
+    for (const [word, count] of Object.entries(counts)) total[word] = (total[word] || 0) + count;
+    return total;
+};
+
+const sumCounts = (counts: Record<string, number>) => Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+const perMinute = (words: number, ms: number) => ms > 0 ? Math.round(words / (ms / 60000)) : undefined;
+
+export interface AnswerAnalytics {
+    questionId?: string;
+    // The interviewer's last message before the answer.
+    question: string;
+    words: number;
+    length: 'short' | 'within' | 'long';
+    fillers: Record<string, number>;
+    fillerTotal: number;
+    // Whether the whole answer was spoken. The timing measures below are only set when it was.
+    spoken: boolean;
+    // From the first word to the last, including pauses.
+    durationSeconds?: number;
+    wordsPerMinute?: number;
+    longPauses?: number;
+}
+
+export interface SpeechAnalytics {
+    answers: AnswerAnalytics[];
+    fillers: Record<string, number>;
+    fillerTotal: number;
+    // Over the spoken answers only.
+    wordsPerMinute?: number;
+    longPauses: number;
+    // The candidate's share of the conversation, from 0 to 1.
+    candidateShare?: number;
+    // Speaking time when every turn was timed from audio, otherwise word counts.
+    shareBasis: 'time' | 'words';
+}
+
+const isSpoken = (turn: InterviewTurn) => turn.timing?.speakingMs !== undefined;
+
+const turnSpan = (turn: InterviewTurn) => turn.timing ? turn.timing.endedAt - turn.timing.startedAt : 0;
+
+// Consecutive candidate turns make one answer. In structured interviews, every turn for the same
+// planned question does, even with a clarifying exchange in between.
+const groupAnswers = (transcript: InterviewTurn[]) => {
+    const groups: { question: string; questionId?: string; turns: InterviewTurn[] }[] = [];
+    let question = '';
+    let previous: InterviewTurn | undefined;
+    for (const turn of transcript) {
+        if (!turn.text) continue;
+        if (turn.speaker === 'model') {
+            question = turn.text;
+        } else {
+            const last = groups[groups.length - 1];
+            const continues = last && (turn.questionId ? last.questionId === turn.questionId : previous?.speaker === 'user');
+            if (continues) {
+                last.turns.push(turn);
+            } else {
+                groups.push({ question, questionId: turn.questionId, turns: [turn] });
+            }
+        }
+        previous = turn;
+    }
+    return groups;
+};
+
+export const analyzeSpeech = (transcript: InterviewTurn[]): SpeechAnalytics => {
+    const answers = groupAnswers(transcript).map(({ question, questionId, turns }): AnswerAnalytics => {
+        const text = turns.map(turn => turn.text).join(' ');
+        const words = countWords(text);
+        const fillers = countFillers(text);
+        const spoken = turns.every(isSpoken);
+        const durationMs = turns.reduce((sum, turn) => sum + turnSpan(turn), 0);
+        return {
+            questionId,
+            question,
+            words,
+            length: words < RECOMMENDED_ANSWER_WORDS.min ? 'short' : words > RECOMMENDED_ANSWER_WORDS.max ? 'long' : 'within',
+            fillers,
+            fillerTotal: sumCounts(fillers),
+            spoken,
+            ...(spoken ? {
+                durationSeconds: Math.round(durationMs / 1000),
+                wordsPerMinute: perMinute(words, durationMs),
+                longPauses: turns.reduce((sum, turn) => sum + (turn.timing?.pauses?.length ?? 0), 0),
+            } : {}),
+        };
+    });
+
+    const spokenAnswers = answers.filter(answer => answer.spoken && answer.durationSeconds);
+    const fillers = answers.reduce((total, answer) => addCounts(total, answer.fillers), {} as Record<string, number>);
+
+    const turns = transcript.filter(turn => turn.text);
+    const shareBasis = turns.length > 0 && turns.every(isSpoken) ? 'time' : 'words';
+    const talk = (speaker: InterviewTurn['speaker']) => turns
+        .filter(turn => turn.speaker === speaker)
+        .reduce((sum, turn) => sum + (shareBasis === 'time' ? turn.timing!.speakingMs! : countWords(turn.text)), 0);
+    const candidate = talk('user');
+    const total = candidate + talk('model');
+
+    return {
+        answers,
+        fillers,
+        fillerTotal: sumCounts(fillers),
+        wordsPerMinute: perMinute(
+            spokenAnswers.reduce((sum, answer) => sum + answer.words, 0),
+            spokenAnswers.reduce((sum, answer) => sum + answer.durationSeconds! * 1000, 0),
+        ),
+        longPauses: answers.reduce((sum, answer) => sum + (answer.longPauses ?? 0), 0),
+        candidateShare: total > 0 ? candidate / total : undefined,
+        shareBasis,
+    };
+};
@@ -0,0 +1,293 @@
+// Everything CareerNova keeps in the browser goes through this module. Small values live in
+// localStorage as typed, versioned collections; bulky records such as resumes with their revisions
+// and video captures live in IndexedDB. Both tell subscribers when they change, including when the
+// change was made in another tab.
+
+// --- Quota ---
+
+type StorageFullListener = (error: unknown) => void;
+const storageFullListeners = new Set<StorageFullListener>();
+
+export const isQuotaExceeded = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+const reportWriteError = (error: unknown) => {
+    if (isQuotaExceeded(error)) storageFullListeners.forEach(listener => listener(error));
+};
+
+// Called whenever a write fails because the browser's storage for this site is full.
+export const onStorageFull = (listener: StorageFullListener): (() => void) => {
+    storageFullListeners.add(listener);
+    return () => { storageFullListeners.delete(listener); };
+};
+
+export interface StorageUsage {
+    usedBytes: number;
+    quotaBytes: number;
+    persisted: boolean;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const [estimate, persisted] = await Promise.all([navigator.storage.estimate(), navigator.storage.persisted?.() ?? false]);
+    return { usedBytes: estimate.usage || 0, quotaBytes: estimate.quota || 0, persisted };
+};
+
+// Asks the browser not to evict our data under storage pressure. Browsers may say no.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    try {
+        return (await navigator.storage?.persist?.()) ?? false;
+    } catch (error) {
+        console.error("Failed to request persistent storage", error);
+        return false;
+    }
+};
+
+// --- Collections in localStorage ---
+
+// Stored values are wrapped with their schema version. Values written before versioning existed are
+// bare JSON (or a bare string, for the theme) and count as version 0.
+interface Envelope {
+    $v: number;
+    data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Number.isInteger((value as Partial<Envelope>).$v) && 'data' in value;
+
+export interface CollectionOptions<T> {
+    key: string;
+    version: number;
+    fallback: () => T;
+    // Keyed by the version they upgrade from.
+    migrations?: Record<number, (data: unknown) => unknown>;
+    // Checks and completes the migrated data, which may be anything another version or another app
+    // left under the key; throw to fall back.
+    parse: (data: unknown) => T;
+}
+
+export interface Collection<T> {
+    readonly key: string;
+    readonly version: number;
+    // Returns the same object until the stored value changes, so it is safe as a React snapshot.
+    read: () => T;
+    write: (value: T) => boolean;
+    update: (change: (current: T) => T) => boolean;
+    subscribe: (listener: (value: T) => void) => () => void;
+    // Upgrades data stored or exported at an older version.
+    migrate: (data: unknown, fromVersion: number) => T;
+}
+
+const collections = new Map<string, Collection<unknown> & { notify: () => void }>();
+
+let listeningAcrossTabs = false;
+
+// The storage event only fires in the other tabs of this origin, which is exactly what we need:
+// writes in this tab notify directly.
+const listenAcrossTabs = () => {
+    if (listeningAcrossTabs || typeof window === 'undefined') return;
+    listeningAcrossTabs = true;
+    window.addEventListener('storage', event => {
+        if (event.storageArea !== localStorage) return;
+        if (event.key === null) {
+            collections.forEach(collection => collection.notify());
+        } else {
+            collections.get(event.key)?.notify();
+        }
+    });
+};
+
+export const defineCollection = <T>(options: CollectionOptions<T>): Collection<T> => {
+    const { key, version, fallback, migrations = {}, parse } = options;
+    const listeners = new Set<(value: T) => void>();
+    let cache: { raw: string | null; value: T } | null = null;
+
+    const migrate = (data: unknown, fromVersion: number): T => {
+        let current = data;
+        for (let v = fromVersion; v < version; v++) {
+            if (migrations[v]) current = migrations[v](current);
+        }
+        return parse(current);
+    };
+
+    const decode = (raw: string): { value: T; stale: boolean } => {
+        let stored: unknown;
+        try {
+            stored = JSON.parse(raw);
+        } catch {
+            stored = raw;
+        }
+        const [data, storedVersion] = isEnvelope(stored) ? [stored.data, stored.$v] : [stored, 0];
+        // A newer version of the app in another tab may have written this; read it as best we can.
+        return { value: migrate(data, Math.min(storedVersion, version)), stale: storedVersion < version };
+    };
+
+    const encode = (value: T) => JSON.stringify({ $v: version, data: value } satisfies Envelope);
+
+    const read = (): T => {
+        let raw: string | null = null;
+        try {
+            raw = localStorage.getItem(key);
+        } catch (error) {
+            console.error(`Failed to read ${key} from localStorage`, error);
+        }
+        if (cache && cache.raw === raw) return cache.value;
+
+        let value: T;
+        if (raw === null) {
+            value = fallback();
+        } else {
+            try {
+                const decoded = decode(raw);
+                value = decoded.value;
+                // Rewrite upgraded data once so the migration doesn't run on every read.
+                if (decoded.stale) {
+                    try {
+                        const upgraded = encode(value);
+                        localStorage.setItem(key, upgraded);
+                        raw = upgraded;
+                    } catch (error) {
+                        reportWriteError(error);
+                    }
+                }
+            } catch (error) {
+                console.error(`Failed to read ${key} from localStorage`, error);
+                value = fallback();
+            }
+        }
+        cache = { raw, value };
+        return value;
+    };
+
+    const notify = () => {
+        const value = read();
+        listeners.forEach(listener => listener(value));
+    };
+
+    const write = (value: T): boolean => {
+        try {
+            const raw = encode(value);
+            localStorage.setItem(key, raw);
+            cache = { raw, value };
+        } catch (error) {
+            console.error(`Failed to save ${key} to localStorage`, error);
+            reportWriteError(error);
+            return false;
+        }
+        notify();
+        return true;
+    };
+
+    const collection = {
+        key,
+        version,
+        read,
+        write,
+        update: (change: (current: T) => T) => write(change(read())),
+        subscribe: (listener: (value: T) => void) => {
+            listenAcrossTabs();
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        migrate,
+        notify,
+    };
+    collections.set(key, collection);
+    return collection;
+};
+
+// --- IndexedDB ---
+
+const DB_NAME = 'careernova';
+const DB_VERSION = 4;
+
+export const RESUME_STORE = 'resumes';
+export const VIDEO_CAPTURE_STORE = 'videoCaptures';
+export const SYNC_STATE_STORE = 'syncState';
+export const INTERVIEW_SESSION_STORE = 'interviewSessions';
+
+export type StoreName = typeof RESUME_STORE | typeof VIDEO_CAPTURE_STORE | typeof SYNC_STATE_STORE | typeof INTERVIEW_SESSION_STORE;
+
+// Object stores added by each database version, all keyed by `id`.
+const STORES_BY_VERSION: Record<number, StoreName[]> = {
+    1: [RESUME_STORE],
+    2: [VIDEO_CAPTURE_STORE],
+    3: [SYNC_STATE_STORE],
+    4: [INTERVIEW_SESSION_STORE],
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+                    for (const store of STORES_BY_VERSION[v] || []) {
+                        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+                    }
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab wants to upgrade the schema; step aside so it isn't blocked.
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('careernova-storage') : null;
+type StoreListener = (fromOtherTab: boolean) => void;
+const storeListeners = new Map<StoreName, Set<StoreListener>>();
+
+const notifyStore = (store: StoreName, fromOtherTab: boolean) => storeListeners.get(store)?.forEach(listener => listener(fromOtherTab));
+
+channel?.addEventListener('message', (event: MessageEvent<StoreName>) => notifyStore(event.data, true));
+
+// Called after any write to the store, from this tab or another.
+export const subscribeToStore = (store: StoreName, listener: StoreListener): (() => void) => {
+    if (!storeListeners.has(store)) storeListeners.set(store, new Set());
+    storeListeners.get(store)!.add(listener);
+    return () => { storeListeners.get(store)?.delete(listener); };
+};
+
+// Runs `operation` in one transaction and resolves with `result` once it commits. Write
+// transactions notify subscribers.
+export const runTransaction = async <T>(store: StoreName, mode: IDBTransactionMode, operation: (objectStore: IDBObjectStore) => () => T): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(store, mode);
+        const result = operation(transaction.objectStore(store));
+        transaction.oncomplete = () => {
+            resolve(result());
+            if (mode === 'readwrite') {
+                notifyStore(store, false);
+                channel?.postMessage(store);
+            }
+        };
+        const fail = () => {
+            reportWriteError(transaction.error);
+            reject(transaction.error);
+        };
+        transaction.onerror = fail;
+        transaction.onabort = fail;
+    });
+};
+
+export const runRequest = <T>(store: StoreName, mode: IDBTransactionMode, operation: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    runTransaction(store, mode, objectStore => {
+        const request = operation(objectStore);
+        return () => request.result;
+    });
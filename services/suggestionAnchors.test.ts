@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StructuredResume } from '../types';
+import { anchorSuggestions, applyAllSuggestions, applySuggestion, resolveSuggestion } from './suggestionAnchors';
+import { createEmptyResume } from './resumeModel';
+
+const resume = (): StructuredResume => ({
+    ...createEmptyResume(),
+    name: 'Jane Doe',
+    summary: 'Engineer who builds payment systems.',
+    experience: [{
+        company: 'Acme',
+        role: 'Senior Engineer',
+        dates: '2020 - Present',
+        description: ['Worked on the billing platform', 'Helped with on-call and made dashboards'],
+    }],
+    skills: ['Go', 'Python'],
+});
+
+const suggestion = (originalText: string, suggestedChange: string, fieldId?: string) => ({ originalText, suggestedChange, explanation: '', fieldId });
+
+describe('anchorSuggestions', () => {
+    it('pins a quote to the field it was found in', () => {
+        const [anchored] = anchorSuggestions(resume(), [suggestion('Worked on', 'Rebuilt')]);
+        expect(anchored.anchor).toEqual({ fieldId: 'experience.0.description.0', start: 0, end: 9 });
+        expect(anchored.fieldId).toBe('experience.0.description.0');
+    });
+
+    it('tolerates wrapping quotes, bullet markers, case and spacing', () => {
+        const [anchored] = anchorSuggestions(resume(), [suggestion('"- helped with  ON-CALL"', '• Led on-call')]);
+        expect(anchored.originalText).toBe('Helped with on-call');
+        expect(anchored.suggestedChange).toBe('Led on-call');
+    });
+
+    it('prefers the field the model named', () => {
+        const edited = resume();
+        edited.experience[0].description[1] = 'Worked on dashboards';
+        const [anchored] = anchorSuggestions(edited, [suggestion('Worked on', 'Built', 'experience.0.description.1')]);
+        expect(anchored.anchor.fieldId).toBe('experience.0.description.1');
+    });
+
+    it('drops quotes that are not in the resume', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(anchorSuggestions(resume(), [suggestion('Managed a team of 40', 'Led 40 people')])).toEqual([]);
+        warn.mockRestore();
+    });
+});
+
+describe('resolveSuggestion', () => {
+    it('follows text that moved within its field', () => {
+        const [anchored] = anchorSuggestions(resume(), [suggestion('billing platform', 'payments platform')]);
+        const edited = resume();
+        edited.experience[0].description[0] = 'Mostly worked on the billing platform';
+        expect(resolveSuggestion(edited, anchored)?.anchor).toEqual({ fieldId: 'experience.0.description.0', start: 21, end: 37 });
+    });
+
+    it('reports a suggestion whose text was edited away as stale', () => {
+        const [anchored] = anchorSuggestions(resume(), [suggestion('billing platform', 'payments platform')]);
+        const edited = resume();
+        edited.experience[0].description[0] = 'Rebuilt invoicing';
+        expect(resolveSuggestion(edited, anchored)).toBeNull();
+    });
+});
+
+describe('applySuggestion', () => {
+    it('replaces the range and shifts later anchors in the same field', () => {
+        const base = resume();
+        const [first, second] = anchorSuggestions(base, [suggestion('Worked on', 'Rebuilt'), suggestion('billing', 'invoicing')]);
+        const { resume: updated, remaining } = applySuggestion(base, first, [first, second]);
+        expect(updated.experience[0].description[0]).toBe('Rebuilt the billing platform');
+        expect(remaining).toHaveLength(1);
+        expect(resolveSuggestion(updated, remaining[0])).toBe(remaining[0]);
+    });
+
+    it('uses text the user edited', () => {
+        const base = resume();
+        const [anchored] = anchorSuggestions(base, [suggestion('Worked on', 'Rebuilt')]);
+        expect(applySuggestion(base, anchored, [anchored], 'Redesigned').resume.experience[0].description[0]).toBe('Redesigned the billing platform');
+    });
+});
+
+describe('applyAllSuggestions', () => {
+    it('applies non-overlapping suggestions and reports overlapping ones as conflicts', () => {
+        const base = resume();
+        const anchored = anchorSuggestions(base, [
+            suggestion('Worked on', 'Rebuilt'),
+            suggestion('billing platform', 'invoicing platform'),
+            suggestion('the billing', 'our billing'),
+            suggestion('payment systems', 'payment and fraud systems'),
+        ]);
+        const result = applyAllSuggestions(base, anchored);
+        expect(result.appliedCount).toBe(3);
+        expect(result.conflicts.map(s => s.originalText)).toEqual(['the billing']);
+        expect(result.resume.experience[0].description[0]).toBe('Rebuilt the invoicing platform');
+        expect(result.resume.summary).toBe('Engineer who builds payment and fraud systems.');
+        expect(result.remaining).toHaveLength(1);
+    });
+});
@@ -0,0 +1,158 @@
+import { AnchoredSuggestion, StructuredResume, Suggestion, SuggestionAnchor } from "../types";
+import { getFieldText, listResumeFields, setFieldText, stripBullet } from "./resumeModel";
+import { createId } from "./resumeLibrary";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds `quote` in `text`: exactly if possible, otherwise ignoring case and whitespace differences.
+const locateQuote = (text: string, quote: string): { start: number; end: number } | null => {
+    const exact = text.indexOf(quote);
+    if (exact !== -1) return { start: exact, end: exact + quote.length };
+
+    const words = quote.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return null;
+    const match = new RegExp(words.map(escapeRegExp).join('\\s+'), 'i').exec(text);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+const cleanQuote = (quote: string): string => {
+    let cleaned = quote.trim();
+    // Models often wrap the quoted snippet in quotes or keep the bullet marker.
+    if ((cleaned.startsWith('"') && cleaned.endsWith('"')) || (cleaned.startsWith("'") && cleaned.endsWith("'"))) {
+        cleaned = cleaned.slice(1, -1);
+    }
+    return stripBullet(cleaned);
+};
+
+// Pins each model suggestion to the field and character range it quotes. The field the model
+// named is tried first, then every other field. Suggestions whose quote can't be found are dropped.
+export const anchorSuggestions = (resume: StructuredResume, suggestions: Suggestion[]): AnchoredSuggestion[] => {
+    const fields = listResumeFields(resume);
+    const anchored: AnchoredSuggestion[] = [];
+
+    for (const suggestion of suggestions) {
+        const quote = cleanQuote(suggestion.originalText || '');
+        if (!quote) continue;
+        const candidates = [
+            ...fields.filter(field => field.id === suggestion.fieldId),
+            ...fields.filter(field => field.id !== suggestion.fieldId),
+        ];
+        for (const field of candidates) {
+            const range = locateQuote(field.text, quote);
+            if (range) {
+                anchored.push({
+                    ...suggestion,
+                    id: createId(),
+                    // Store the text as it appears in the resume so later validation can be exact.
+                    originalText: field.text.slice(range.start, range.end),
+                    suggestedChange: stripBullet(suggestion.suggestedChange),
+                    fieldId: field.id,
+                    anchor: { fieldId: field.id, ...range },
+                });
+                break;
+            }
+        }
+    }
+
+    const dropped = suggestions.length - anchored.length;
+    if (dropped > 0) {
+        console.warn(`Dropped ${dropped} suggestion(s) whose original text was not found in the resume.`);
+    }
+    return anchored;
+};
+
+// Checks a suggestion against the current resume. Returns it with an up-to-date anchor, or null
+// when the text it targets has been edited away (the suggestion is stale).
+export const resolveSuggestion = (resume: StructuredResume, suggestion: AnchoredSuggestion): AnchoredSuggestion | null => {
+    const { fieldId, start, end } = suggestion.anchor;
+    const fieldText = getFieldText(resume, fieldId);
+    if (fieldText !== undefined && fieldText.slice(start, end) === suggestion.originalText) {
+        return suggestion;
+    }
+
+    // The text may have moved, e.g. after bullets were reordered or text was inserted before it.
+    const relocate = (id: string, text: string) => {
+        const index = text.indexOf(suggestion.originalText);
+        return index === -1 ? null : { ...suggestion, anchor: { fieldId: id, start: index, end: index + suggestion.originalText.length } };
+    };
+    if (fieldText !== undefined) {
+        const sameField = relocate(fieldId, fieldText);
+        if (sameField) return sameField;
+    }
+    for (const field of listResumeFields(resume)) {
+        const moved = relocate(field.id, field.text);
+        if (moved) return moved;
+    }
+    return null;
+};
+
+const overlaps = (a: SuggestionAnchor, b: SuggestionAnchor) =>
+    a.fieldId === b.fieldId && a.start < b.end && b.start < a.end;
+
+// Moves the anchors of the remaining suggestions to account for a replacement made at `applied`.
+const rebase = (suggestions: AnchoredSuggestion[], applied: SuggestionAnchor, replacementLength: number): AnchoredSuggestion[] => {
+    const delta = replacementLength - (applied.end - applied.start);
+    return suggestions.map(suggestion => {
+        const { anchor } = suggestion;
+        if (anchor.fieldId !== applied.fieldId || anchor.start < applied.end) return suggestion;
+        return { ...suggestion, anchor: { ...anchor, start: anchor.start + delta, end: anchor.end + delta } };
+    });
+};
+
+const replaceRange = (resume: StructuredResume, anchor: SuggestionAnchor, replacement: string): StructuredResume => {
+    const text = getFieldText(resume, anchor.fieldId) || '';
+    return setFieldText(resume, anchor.fieldId, text.slice(0, anchor.start) + replacement + text.slice(anchor.end));
+};
+
+export interface SuggestionApplyResult {
+    resume: StructuredResume;
+    remaining: AnchoredSuggestion[];
+}
+
+// Applies one (already resolved) suggestion, optionally with text the user edited first.
+export const applySuggestion = (
+    resume: StructuredResume,
+    suggestion: AnchoredSuggestion,
+    others: AnchoredSuggestion[],
+    replacement: string = suggestion.suggestedChange,
+): SuggestionApplyResult => ({
+    resume: replaceRange(resume, suggestion.anchor, replacement),
+    remaining: rebase(others.filter(s => s.id !== suggestion.id), suggestion.anchor, replacement.length),
+});
+
+export interface ApplyAllResult extends SuggestionApplyResult {
+    appliedCount: number;
+    conflicts: AnchoredSuggestion[];
+}
+
+// Applies every valid suggestion in list order. A suggestion overlapping one that was already
+// accepted is skipped and reported as a conflict; stale suggestions are left untouched.
+export const applyAllSuggestions = (resume: StructuredResume, suggestions: AnchoredSuggestion[]): ApplyAllResult => {
+    const accepted: AnchoredSuggestion[] = [];
+    const conflicts: AnchoredSuggestion[] = [];
+
+    for (const suggestion of suggestions) {
+        const resolved = resolveSuggestion(resume, suggestion);
+        if (!resolved) continue;
+        if (accepted.some(other => overlaps(other.anchor, resolved.anchor))) {
+            conflicts.push(resolved);
+        } else {
+            accepted.push(resolved);
+        }
+    }
+
+    // Apply from the end of each field backwards so earlier anchors stay valid.
+    const ordered = [...accepted].sort((a, b) =>
+        a.anchor.fieldId === b.anchor.fieldId ? b.anchor.start - a.anchor.start : a.anchor.fieldId.localeCompare(b.anchor.fieldId));
+    let updated = resume;
+    const acceptedIds = new Set(accepted.map(s => s.id));
+    let remaining = suggestions
+        .filter(s => !acceptedIds.has(s.id))
+        .map(s => conflicts.find(conflict => conflict.id === s.id) || s);
+    for (const suggestion of ordered) {
+        updated = replaceRange(updated, suggestion.anchor, suggestion.suggestedChange);
+        remaining = rebase(remaining, suggestion.anchor, suggestion.suggestedChange.length);
+    }
+
+    return { resume: updated, remaining, appliedCount: accepted.length, conflicts };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { isNewer } from './syncProtocol';
+import { applyPatch, findLocalEdits, mergeField } from './sync';
+
+describe('mergeField', () => {
+    it('takes the newer value for fields without a strategy', () => {
+        expect(mergeField(undefined, 'Onsite', 'Applied')).toBe('Onsite');
+        expect(mergeField(undefined, ['a'], ['b'])).toEqual(['a']);
+    });
+
+    it('unions lists such as tags', () => {
+        expect(mergeField('union', ['remote', 'referral'], ['referral', 'visa'])).toEqual(['remote', 'referral', 'visa']);
+    });
+
+    it('merges records by id and keeps them in creation order', () => {
+        const winner = [{ id: '1', createdAt: '2024-01-01', text: 'edited' }, { id: '3', createdAt: '2024-03-01' }];
+        const loser = [{ id: '1', createdAt: '2024-01-01', text: 'old' }, { id: '2', createdAt: '2024-02-01' }];
+        expect(mergeField('byId', winner, loser)).toEqual([
+            { id: '1', createdAt: '2024-01-01', text: 'edited' },
+            { id: '2', createdAt: '2024-02-01' },
+            { id: '3', createdAt: '2024-03-01' },
+        ]);
+    });
+
+    it('keeps both sides of edited text', () => {
+        expect(mergeField('text', 'Called Sam.', 'Sent thank-you note.')).toBe('Called Sam.\n\n--- Also edited on another device ---\nSent thank-you note.');
+    });
+
+    it("doesn't repeat text the newer side already contains", () => {
+        expect(mergeField('text', 'Called Sam. Sent thank-you note.', 'Sent thank-you note.')).toBe('Called Sam. Sent thank-you note.');
+        expect(mergeField('text', 'Called Sam.', '  ')).toBe('Called Sam.');
+    });
+});
+
+describe('applyPatch', () => {
+    it('changes only the patched fields of the stored record', () => {
+        const stored = { id: 'a', title: 'Engineer', notes: 'Written while syncing', tags: ['x'] };
+        expect(applyPatch(stored, { id: 'a', fields: { tags: ['x', 'y'] } })).toEqual({ id: 'a', title: 'Engineer', notes: 'Written while syncing', tags: ['x', 'y'] });
+        expect(stored.tags).toEqual(['x']);
+    });
+
+    it('creates a record only another device had', () => {
+        expect(applyPatch(undefined, { id: 'b', fields: { title: 'Designer' } })).toEqual({ id: 'b', title: 'Designer' });
+    });
+});
+
+describe('findLocalEdits', () => {
+    const records = new Map([['trackedJobs/a', { id: 'a', status: 'Applied', notes: 'Stale copy' }]]);
+
+    it("doesn't let stale data win on reconnecting", () => {
+        const state = { id: 'state' as const, cursor: 0, fields: {}, edits: {} };
+        const local = findLocalEdits(state, records, 'laptop', Date.now());
+        const status = local.get('trackedJobs/a/status')!;
+        expect(status.stamp.ts).toBe(0);
+        // Any value another device pushed, however old, beats it.
+        expect(isNewer({ ts: 1, device: 'phone' }, status.stamp)).toBe(true);
+    });
+
+    it('stamps fields changed since the last round with when they were noticed', () => {
+        const state = {
+            id: 'state' as const,
+            cursor: 4,
+            fields: {
+                'trackedJobs/a/status': { ts: 1000, device: 'phone', hash: 'old' },
+                'trackedJobs/b/status': { ts: 1000, device: 'phone', hash: 'old' },
+            },
+            edits: {},
+        };
+        const local = findLocalEdits(state, records, 'laptop', 5000);
+        expect(local.get('trackedJobs/a/status')!.stamp).toEqual({ ts: 5000, device: 'laptop' });
+        expect(local.get('trackedJobs/b/$deleted')).toMatchObject({ value: true, stamp: { ts: 5000 } });
+    });
+});
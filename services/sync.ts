@@ -0,0 +1,498 @@
+import { ResumeRecord, TrackedJob } from "../types";
+import { normalizeTrackedJob, trackedJobsStore } from "./jobTracker";
+import { deleteResume, listResumes, createId } from "./resumeLibrary";
+import { RESUME_STORE, SYNC_STATE_STORE, StoreName, defineCollection, runRequest, runTransaction, subscribeToStore } from "./storage";
+import { decryptValue, deriveSyncKey, encryptValue } from "./syncCrypto";
+import {
+    DELETED_FIELD, FieldChange, FieldStamp, PullResponse, PushRequest, PushResponse, SPACE_PATTERN, SYNC_API_VERSION,
+    SyncCollection, fieldKey, isNewer,
+} from "./syncProtocol";
+
+// Optional replication of tracked jobs, resumes (with their revisions and analyses) and interview
+// sessions through a self-hosted server (see server/syncServer.ts).
+//
+// The app's own storage stays the source of truth and knows nothing about sync. Each round compares
+// every record field against a shadow of what was last synced to find local edits, pulls what other
+// devices pushed, merges, writes the result back and pushes the local edits. Fields resolve by last
+// writer wins; when both sides changed the same field since the last round, fields that can be
+// combined (timeline events, revisions, tags, notes) are merged instead of one side being dropped.
+
+export interface SyncSettings {
+    serverUrl: string;
+    space: string;
+    token: string;
+    deviceId: string;
+}
+
+export interface SyncStatus {
+    lastSyncedAt?: string;
+    error?: string;
+    // Fields both sides had changed that were merged in the last round.
+    mergedConflicts?: number;
+}
+
+const isSyncSettings = (value: unknown): value is SyncSettings => {
+    const settings = value as Partial<SyncSettings> | null;
+    return !!settings && typeof settings === 'object'
+        && (['serverUrl', 'space', 'token', 'deviceId'] as const).every(key => typeof settings[key] === 'string');
+};
+
+export const syncSettingsStore = defineCollection<SyncSettings | null>({
+    key: 'syncSettings',
+    version: 1,
+    fallback: () => null,
+    parse: settings => isSyncSettings(settings) ? settings : null,
+});
+
+export const syncStatusStore = defineCollection<SyncStatus>({
+    key: 'syncStatus',
+    version: 1,
+    fallback: () => ({}),
+    parse: status => status && typeof status === 'object' && !Array.isArray(status) ? status : {},
+});
+
+// --- Field merging ---
+
+// How a field is combined when both sides changed it since the last round. Fields without a
+// strategy take the newer value.
+type FieldStrategy = 'byId' | 'union' | 'text';
+
+export const mergeField = (strategy: FieldStrategy | undefined, winner: any, loser: any): any => {
+    if (strategy === 'union' && Array.isArray(winner) && Array.isArray(loser)) {
+        return [...new Set([...winner, ...loser])];
+    }
+    if (strategy === 'byId' && Array.isArray(winner) && Array.isArray(loser)) {
+        const merged = [...winner, ...loser.filter(item => !winner.some(w => w?.id === item?.id))];
+        return merged.every(item => typeof item?.createdAt === 'string')
+            ? merged.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            : merged;
+    }
+    if (strategy === 'text' && typeof winner === 'string' && typeof loser === 'string' && winner.trim() && loser.trim() && !winner.includes(loser.trim())) {
+        return `${winner.trim()}\n\n--- Also edited on another device ---\n${loser.trim()}`;
+    }
+    return winner;
+};
+
+// Fields a round changed on one record.
+export interface RecordPatch {
+    id: string;
+    fields: Record<string, unknown>;
+}
+
+// Applies a patch to a record as it is stored now. A record only other devices had is created from
+// the patch alone.
+export const applyPatch = <T extends { id: string }>(record: T | undefined, patch: RecordPatch): T =>
+    record ? Object.assign({ ...record }, patch.fields) : { id: patch.id, ...patch.fields } as T;
+
+interface SyncAdapter<T extends { id: string } = { id: string }> {
+    collection: SyncCollection;
+    load: () => Promise<T[]>;
+    // Patches re-read each record when writing it, so edits made while the round was on the network
+    // keep the fields it didn't change.
+    save: (patches: RecordPatch[], deletedIds: string[]) => Promise<void>;
+    strategies?: Partial<Record<keyof T, FieldStrategy>>;
+    // Called after any local write, so edits are noticed when they are made. This includes the
+    // round's own writes.
+    changed?: (listener: () => void) => () => void;
+}
+
+const trackedJobsAdapter: SyncAdapter<TrackedJob> = {
+    collection: 'trackedJobs',
+    load: async () => trackedJobsStore.read(),
+    save: async (patches, deletedIds) => {
+        trackedJobsStore.update(jobs => {
+            const kept = jobs.filter(job => !deletedIds.includes(job.id)).map(job => {
+                const patch = patches.find(p => p.id === job.id);
+                return patch ? applyPatch(job, patch) : job;
+            });
+            const added = patches.filter(p => !jobs.some(job => job.id === p.id)).map(p => normalizeTrackedJob(applyPatch<TrackedJob>(undefined, p)));
+            return [...kept, ...added];
+        });
+    },
+    strategies: { events: 'byId', tags: 'union', distinctFrom: 'union', notes: 'text' },
+    changed: listener => trackedJobsStore.subscribe(listener),
+};
+
+// Reads and writes each record in one transaction, so nothing written in between is lost.
+export const patchStoredRecords = <T extends { id: string }>(storeName: StoreName, patches: RecordPatch[]): Promise<void> =>
+    runTransaction(storeName, 'readwrite', store => {
+        for (const patch of patches) {
+            const request = store.get(patch.id);
+            request.onsuccess = () => store.put(applyPatch<T>(request.result, patch));
+        }
+        return () => undefined;
+    });
+
+const resumesAdapter: SyncAdapter<ResumeRecord> = {
+    collection: 'resumes',
+    load: listResumes,
+    save: async (patches, deletedIds) => {
+        if (patches.length > 0) await patchStoredRecords<ResumeRecord>(RESUME_STORE, patches);
+        for (const id of deletedIds) await deleteResume(id);
+    },
+    strategies: { revisions: 'byId', analyses: 'byId', targetJobs: 'byId' },
+    changed: listener => subscribeToStore(RESUME_STORE, fromOtherTab => { if (!fromOtherTab) listener(); }),
+};
+
+const adapters: SyncAdapter[] = [trackedJobsAdapter, resumesAdapter];
+
+// Lets other collections (interview sessions) take part in sync.
+export const registerSyncAdapter = <T extends { id: string }>(adapter: SyncAdapter<T>) => {
+    adapters.push(adapter);
+};
+
+// --- Sync state, kept in IndexedDB since the shadow grows with the data ---
+
+// The stamp and a hash of each field's value as of the last round.
+interface ShadowField extends FieldStamp {
+    hash: string;
+}
+
+// When a local edit not yet pushed was first noticed, and a hash of the value it was noticed with.
+interface LocalEdit {
+    hash: string;
+    ts: number;
+}
+
+interface SyncState {
+    id: 'state';
+    cursor: number;
+    fields: Record<string, ShadowField>;
+    edits: Record<string, LocalEdit>;
+}
+
+const emptyState = (): SyncState => ({ id: 'state', cursor: 0, fields: {}, edits: {} });
+
+// States saved before edit times were kept have no `edits`.
+const loadState = async (): Promise<SyncState> =>
+    ({ ...emptyState(), ...await runRequest<SyncState | undefined>(SYNC_STATE_STORE, 'readonly', store => store.get('state')) });
+
+const saveState = (state: SyncState) => runRequest(SYNC_STATE_STORE, 'readwrite', store => store.put(state));
+
+const loadKey = async (): Promise<CryptoKey | null> =>
+    (await runRequest<{ id: string; key: CryptoKey } | undefined>(SYNC_STATE_STORE, 'readonly', store => store.get('key')))?.key || null;
+
+// cyrb53: a fast 53-bit string hash, plenty to notice that a field changed.
+const hash = (text: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const hashValue = (value: unknown) => hash(JSON.stringify(value ?? null));
+
+// --- Server calls ---
+
+const api = async <T>(settings: SyncSettings, init?: RequestInit, query = ''): Promise<T> => {
+    const url = `${settings.serverUrl.replace(/\/+$/, '')}/${SYNC_API_VERSION}/spaces/${encodeURIComponent(settings.space)}/changes${query}`;
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, headers: { 'Authorization': `Bearer ${settings.token}`, 'Content-Type': 'application/json' } });
+    } catch {
+        throw new Error(`Could not reach the sync server at ${settings.serverUrl}.`);
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || `The sync server answered ${response.status}.`);
+    return body as T;
+};
+
+// --- One round ---
+
+interface PendingChange {
+    collection: SyncCollection;
+    id: string;
+    field: string;
+    value: unknown;
+    stamp: FieldStamp;
+}
+
+const recordKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+// Current records, keyed by collection and id.
+const loadRecords = async () => {
+    const records = new Map<string, Record<string, unknown>>();
+    for (const adapter of adapters) {
+        for (const record of await adapter.load()) records.set(recordKey(adapter.collection, record.id), { ...record });
+    }
+    return records;
+};
+
+// Fields that differ from the shadow. Each edit is stamped with when it was first noticed, here or by
+// noteLocalEdits, so last writer wins goes by when the edit was made rather than when it was synced.
+// A field the shadow has never held, as after reconnecting or importing a backup, may be older than
+// anything on the server, so it is stamped 0: a pulled value wins and it is only pushed if no device
+// has one.
+export const findLocalEdits = (state: SyncState, records: Map<string, Record<string, unknown>>, device: string, seenAt: number): Map<string, PendingChange> => {
+    const shadowByRecord = new Map<string, string[]>();
+    for (const fk of Object.keys(state.fields)) {
+        const rk = fk.slice(0, fk.lastIndexOf('/'));
+        shadowByRecord.set(rk, [...(shadowByRecord.get(rk) || []), fk]);
+    }
+    const local = new Map<string, PendingChange>();
+    const add = (collection: SyncCollection, id: string, field: string, value: unknown) => {
+        const fk = `${recordKey(collection, id)}/${field}`;
+        const valueHash = hashValue(value);
+        if (state.edits[fk]?.hash !== valueHash) state.edits[fk] = { hash: valueHash, ts: seenAt };
+        // An edit is newer than the value it was made to, even if that came from a device whose clock
+        // is ahead. Deleting a synced record is always an edit, though its tombstone has no shadow.
+        const shadow = state.fields[fk];
+        const ts = shadow || field === DELETED_FIELD ? Math.max(state.edits[fk].ts, (shadow?.ts ?? 0) + 1) : 0;
+        local.set(fk, { collection, id, field, value, stamp: { ts, device } });
+    };
+
+    for (const adapter of adapters) {
+        const collection = adapter.collection;
+        const ids = new Set([
+            ...[...records.keys()].filter(rk => rk.startsWith(`${collection}/`)),
+            ...[...shadowByRecord.keys()].filter(rk => rk.startsWith(`${collection}/`)),
+        ].map(rk => rk.slice(collection.length + 1)));
+        for (const id of ids) {
+            const rk = recordKey(collection, id);
+            const record = records.get(rk);
+            if (!record) {
+                if (!isDeleted(state, rk)) add(collection, id, DELETED_FIELD, true);
+                continue;
+            }
+            const fields = new Set([...Object.keys(record), ...(shadowByRecord.get(rk) || []).map(fk => fk.slice(rk.length + 1))]);
+            fields.delete('id');
+            fields.delete(DELETED_FIELD);
+            for (const field of fields) {
+                const shadow = state.fields[`${rk}/${field}`];
+                if (!shadow ? record[field] !== undefined : shadow.hash !== hashValue(record[field])) {
+                    add(collection, id, field, record[field]);
+                }
+            }
+        }
+    }
+    // Edits since undone, or overwritten by a newer value from another device, are gone.
+    for (const fk of Object.keys(state.edits)) {
+        if (!local.has(fk)) delete state.edits[fk];
+    }
+    return local;
+};
+
+const isDeleted = (state: SyncState, rk: string) => state.fields[`${rk}/${DELETED_FIELD}`]?.hash === hashValue(true);
+
+const syncRound = async (settings: SyncSettings, key: CryptoKey): Promise<{ conflicts: number; retry: boolean }> => {
+    const state = await loadState();
+
+    // 1. Local edits since the last round, kept with their edit times in case the server can't be reached.
+    const local = findLocalEdits(state, await loadRecords(), settings.deviceId, Date.now());
+    await saveState(state);
+
+    // 2. What other devices pushed.
+    const pulled = await api<PullResponse>(settings, undefined, `?since=${state.cursor}`);
+    const patches = new Map<string, Record<string, unknown>>();
+    const removed = new Set<string>();
+    let conflicts = 0;
+    for (const change of pulled.changes) {
+        const fk = fieldKey(change);
+        const shadow = state.fields[fk];
+        if (!isNewer(change, shadow)) continue;
+        let value: unknown;
+        try {
+            value = await decryptValue(key, change.value, fk);
+        } catch {
+            throw new Error("Data from the sync server could not be decrypted. Check that every device uses the same passphrase for this space.");
+        }
+        const adapter = adapters.find(a => a.collection === change.collection);
+        const strategies: Partial<Record<string, FieldStrategy>> = adapter?.strategies || {};
+        const strategy = strategies[change.field];
+        const rk = recordKey(change.collection, change.id);
+        const pending = local.get(fk);
+        let resolved = value;
+        if (pending) {
+            // Both sides changed the field. The later edit wins, unless the field can be combined.
+            const localWins = isNewer(pending.stamp, change);
+            const winner = localWins ? pending.value : value;
+            resolved = mergeField(strategy, winner, localWins ? value : pending.value);
+            const combined = hashValue(resolved) !== hashValue(winner);
+            if (combined) conflicts += 1;
+            if (localWins || combined) {
+                // A combined value is a new edit, later than both it was made from.
+                const stamp = combined ? { ts: Math.max(pending.stamp.ts, change.ts) + 1, device: settings.deviceId } : pending.stamp;
+                local.set(fk, { ...pending, value: resolved, stamp });
+            } else {
+                local.delete(fk);
+                delete state.edits[fk];
+            }
+        }
+        state.fields[fk] = { ts: change.ts, device: change.device, hash: hashValue(value) };
+
+        if (change.field === DELETED_FIELD) {
+            if (resolved === true) {
+                patches.delete(rk);
+                removed.add(rk);
+                [...local.keys()].filter(k => k.startsWith(`${rk}/`)).forEach(k => local.delete(k));
+            }
+            continue;
+        }
+        // Edits to a record deleted here or elsewhere don't bring it back.
+        if (isDeleted(state, rk) || local.has(`${rk}/${DELETED_FIELD}`)) continue;
+        patches.set(rk, { ...patches.get(rk), [change.field]: resolved ?? undefined });
+    }
+
+    // 3. Push local edits, stamped and encrypted.
+    const changes: FieldChange[] = await Promise.all([...local.entries()].map(async ([fk, change]) => ({
+        collection: change.collection,
+        id: change.id,
+        field: change.field,
+        ts: change.stamp.ts,
+        device: change.stamp.device,
+        value: await encryptValue(key, change.value, fk),
+    })));
+    const pushed = changes.length > 0
+        ? await api<PushResponse>(settings, { method: 'POST', body: JSON.stringify({ since: pulled.cursor, changes } satisfies PushRequest) })
+        : { cursor: pulled.cursor, accepted: 0, conflicts: [] };
+    const rejected = new Set(pushed.conflicts.map(fieldKey));
+    for (const [fk, change] of local) {
+        if (rejected.has(fk)) continue;
+        state.fields[fk] = { ...change.stamp, hash: hashValue(change.value) };
+        delete state.edits[fk];
+    }
+
+    // 4. Write the fields that changed back.
+    for (const adapter of adapters) {
+        const prefix = `${adapter.collection}/`;
+        const recordPatches = [...patches]
+            .filter(([rk]) => rk.startsWith(prefix))
+            .map(([rk, fields]): RecordPatch => ({ id: rk.slice(prefix.length), fields }));
+        const deletedIds = [...removed].filter(rk => rk.startsWith(prefix)).map(rk => rk.slice(prefix.length));
+        if (recordPatches.length > 0 || deletedIds.length > 0) await adapter.save(recordPatches, deletedIds);
+    }
+    // Changes accepted from others between our pull and push are picked up next round.
+    state.cursor = pulled.cursor;
+    await saveState(state);
+    return { conflicts, retry: rejected.size > 0 };
+};
+
+// --- Running sync ---
+
+// Rounds and edit noting both rewrite the sync state, so they take turns.
+let stateQueue: Promise<unknown> = Promise.resolve();
+const withState = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = stateQueue.then(task, task);
+    stateQueue = result.catch(() => undefined);
+    return result;
+};
+
+// Records when local edits were made, without waiting for the next round or a connection.
+const noteLocalEdits = (seenAt: number): Promise<void> => withState(async () => {
+    const settings = syncSettingsStore.read();
+    if (!settings) return;
+    const state = await loadState();
+    findLocalEdits(state, await loadRecords(), settings.deviceId, seenAt);
+    await saveState(state);
+});
+
+let running: Promise<void> | null = null;
+let queued = false;
+
+export const syncNow = async (): Promise<void> => {
+    if (running) {
+        queued = true;
+        return running;
+    }
+    const settings = syncSettingsStore.read();
+    if (!settings) return;
+    running = (async () => {
+        try {
+            const key = await loadKey();
+            if (!key) throw new Error("This device has no sync passphrase. Disconnect and connect again.");
+            let conflicts = 0;
+            // A push rejected because another device got in first is retried after pulling its change.
+            for (let attempt = 0; attempt < 3; attempt++) {
+                const round = await withState(() => syncRound(settings, key));
+                conflicts += round.conflicts;
+                if (!round.retry) break;
+            }
+            syncStatusStore.write({ lastSyncedAt: new Date().toISOString(), mergedConflicts: conflicts });
+        } catch (error: any) {
+            console.error("Sync failed", error);
+            syncStatusStore.write({ ...syncStatusStore.read(), error: error.message || "Sync failed." });
+        } finally {
+            running = null;
+        }
+    })();
+    await running;
+    if (queued) {
+        queued = false;
+        await syncNow();
+    }
+};
+
+export const connectSync = async (serverUrl: string, space: string, token: string, passphrase: string): Promise<void> => {
+    if (!SPACE_PATTERN.test(space)) throw new Error("Space names use letters, digits, - and _ only.");
+    const settings: SyncSettings = { serverUrl: serverUrl.trim(), space, token, deviceId: syncSettingsStore.read()?.deviceId || createId() };
+    const key = await deriveSyncKey(passphrase, space);
+
+    // Check the token, and the passphrase against whatever the space already holds, before saving anything.
+    const existing = await api<PullResponse>(settings, undefined, '?since=0');
+    const sample = existing.changes[0];
+    if (sample) {
+        try {
+            await decryptValue(key, sample.value, fieldKey(sample));
+        } catch {
+            throw new Error("That passphrase doesn't match the data already in this space.");
+        }
+    }
+
+    await runRequest(SYNC_STATE_STORE, 'readwrite', store => store.put({ id: 'key', key }));
+    await saveState(emptyState());
+    syncSettingsStore.write(settings);
+    syncStatusStore.write({});
+    await syncNow();
+};
+
+// Stops syncing on this device. Local data and the server's copy are both kept.
+export const disconnectSync = async (): Promise<void> => {
+    syncSettingsStore.write(null);
+    syncStatusStore.write({});
+    await runRequest(SYNC_STATE_STORE, 'readwrite', store => store.clear());
+};
+
+// Edits made within this of each other are noted together, at the time of the first.
+const EDIT_NOTE_DELAY = 1000;
+const LOCAL_CHANGE_DELAY = 5000;
+const POLL_INTERVAL = 60000;
+
+// Keeps this device in sync while the app is open: shortly after local edits, every minute, and on
+// reconnecting. Returns a function that stops it.
+export const startAutoSync = (): (() => void) => {
+    let timer: number | undefined;
+    let noteTimer: number | undefined;
+    let firstSeen: number | undefined;
+    const soon = () => {
+        if (!syncSettingsStore.read()) return;
+        firstSeen ??= Date.now();
+        window.clearTimeout(noteTimer);
+        noteTimer = window.setTimeout(() => {
+            const seenAt = firstSeen!;
+            firstSeen = undefined;
+            noteLocalEdits(seenAt).catch(err => console.error("Failed to note local edits", err));
+        }, EDIT_NOTE_DELAY);
+        // Writes made by a running round are mostly sync's own; anything else is found by the next round.
+        if (running) return;
+        window.clearTimeout(timer);
+        timer = window.setTimeout(syncNow, LOCAL_CHANGE_DELAY);
+    };
+    const run = () => { syncNow(); };
+    const unsubscribers = adapters.map(adapter => adapter.changed?.(soon)).filter((stop): stop is () => void => !!stop);
+    const interval = window.setInterval(run, POLL_INTERVAL);
+    window.addEventListener('online', run);
+    run();
+    return () => {
+        window.clearTimeout(timer);
+        window.clearTimeout(noteTimer);
+        window.clearInterval(interval);
+        window.removeEventListener('online', run);
+        unsubscribers.forEach(stop => stop());
+    };
+};
@@ -0,0 +1,49 @@
+// End-to-end encryption for sync. The key is derived from a passphrase that never leaves the
+// device, salted with the space name so the same passphrase gives different keys per space.
+
+const PBKDF2_ITERATIONS = 310000;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// Not extractable: the key can be kept in IndexedDB and used, but never read back out.
+export const deriveSyncKey = async (passphrase: string, space: string): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(`careernova-sync:${space}`), iterations: PBKDF2_ITERATIONS },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+// The field's address is bound in as associated data, so the server can't move a ciphertext onto
+// another record or field without decryption failing.
+export const encryptValue = async (key: CryptoKey, value: unknown, address: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value === undefined ? null : value));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(address) }, key, plaintext));
+    const packed = new Uint8Array(IV_BYTES + ciphertext.length);
+    packed.set(iv);
+    packed.set(ciphertext, IV_BYTES);
+    return toBase64(packed);
+};
+
+export const decryptValue = async (key: CryptoKey, packed: string, address: string): Promise<unknown> => {
+    const bytes = fromBase64(packed);
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES), additionalData: new TextEncoder().encode(address) },
+        key,
+        bytes.subarray(IV_BYTES),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
@@ -0,0 +1,58 @@
+// Wire format shared by the browser client (services/sync.ts) and the self-hosted server
+// (server/syncServer.ts). Records are replicated one top-level field at a time, so two devices
+// editing different fields of the same job never overwrite each other. Every value is encrypted on
+// the device before it is sent; the server only compares stamps and never sees content.
+
+export const SYNC_API_VERSION = 'v1';
+
+export type SyncCollection = 'trackedJobs' | 'resumes' | 'interviewSessions';
+
+// Field name used to replicate a deletion. A tombstone newer than every field of a record deletes it.
+export const DELETED_FIELD = '$deleted';
+
+export interface FieldStamp {
+    // Milliseconds since the epoch when the field was edited, or 0 for a value from before the device
+    // started syncing (see findLocalEdits in services/sync.ts).
+    ts: number;
+    device: string;
+}
+
+export interface FieldChange extends FieldStamp {
+    collection: SyncCollection;
+    id: string;
+    field: string;
+    // Base64 of the IV followed by the AES-GCM ciphertext of the field's JSON.
+    value: string;
+}
+
+// A change as stored by the server, with its place in the space's change log.
+export interface StoredChange extends FieldChange {
+    seq: number;
+}
+
+export interface PullResponse {
+    cursor: number;
+    changes: StoredChange[];
+}
+
+export interface PushRequest {
+    // The cursor the client last pulled up to. Fields the server has accepted since then from other
+    // devices are rejected, so the client pulls, merges and tries again instead of overwriting them.
+    since: number;
+    changes: FieldChange[];
+}
+
+export interface PushResponse {
+    cursor: number;
+    accepted: number;
+    conflicts: { collection: SyncCollection; id: string; field: string }[];
+}
+
+// Last writer wins; equal times are settled by device id so every replica picks the same value.
+export const isNewer = (a: FieldStamp, b: FieldStamp | undefined): boolean =>
+    !b || a.ts > b.ts || (a.ts === b.ts && a.device > b.device);
+
+export const fieldKey = (change: { collection: SyncCollection; id: string; field: string }) =>
+    `${change.collection}/${change.id}/${change.field}`;
+
+export const SPACE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
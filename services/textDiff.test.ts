@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DiffSegment, countChanges, diffWords } from './textDiff';
+
+const side = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+    segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+    it('returns a single equal segment for identical text', () => {
+        expect(diffWords('Led a team of five', 'Led a team of five')).toEqual([{ type: 'equal', text: 'Led a team of five' }]);
+    });
+
+    it('marks replaced words as removed then added', () => {
+        expect(diffWords('Led a team of five', 'Led a team of eight')).toEqual([
+            { type: 'equal', text: 'Led a team of ' },
+            { type: 'removed', text: 'five' },
+            { type: 'added', text: 'eight' },
+        ]);
+    });
+
+    it('handles insertions at the start and deletions at the end', () => {
+        expect(diffWords('built the API quickly', 'Designed and built the API')).toEqual([
+            { type: 'added', text: 'Designed and ' },
+            { type: 'equal', text: 'built the API' },
+            { type: 'removed', text: ' quickly' },
+        ]);
+    });
+
+    it('rebuilds both texts from the segments, whitespace included', () => {
+        const before = 'Managed  budgets\nfor three regions and cut costs by 10%';
+        const after = 'Owned budgets\nfor four regions, and cut costs by 12%\n';
+        const segments = diffWords(before, after);
+        expect(side(segments, 'added')).toBe(before);
+        expect(side(segments, 'removed')).toBe(after);
+    });
+
+    it('keeps as many words as possible unchanged', () => {
+        const segments = diffWords('a b c a b b a', 'c b a b a c');
+        const kept = segments.filter(s => s.type === 'equal').flatMap(s => s.text.split(/\s+/).filter(Boolean));
+        // The longest common subsequence of the two word lists has four words.
+        expect(kept).toHaveLength(4);
+    });
+
+    it('stays fast on long texts', () => {
+        const before = Array.from({ length: 20000 }, (_, i) => `word${i % 500}`).join(' ');
+        const after = before.replace(/word7 /g, 'changed ');
+        const started = Date.now();
+        const segments = diffWords(before, after);
+        expect(Date.now() - started).toBeLessThan(2000);
+        expect(side(segments, 'removed')).toBe(after);
+    });
+});
+
+describe('countChanges', () => {
+    it('counts changed words, not whitespace', () => {
+        expect(countChanges(diffWords('Led a team of five', 'Led a large team of eight people'))).toEqual({ added: 3, removed: 1 });
+    });
+});
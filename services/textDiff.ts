@@ -0,0 +1,130 @@
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    text: string;
+}
+
+// Splits text into words and the whitespace between them, so whitespace changes are preserved.
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+};
+
+// Past this many edits on each side of the middle, two texts are too different for a word diff to
+// help the reader, and the search stops rather than keep the page busy.
+const MAX_HALF_EDITS = 2000;
+
+// Finds where a shortest edit script from a[aLo, aHi) to b[bLo, bHi) crosses its middle, by running
+// Myers' search from both ends until the two meet. Returns that point, or null when the ranges share
+// no tokens or the search gives up. Both ranges must be non-empty and differ at their first and last
+// tokens.
+const findMiddle = (a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): [number, number] | null => {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+    // Furthest x reached on each diagonal k = x - y, going forwards and (from the ends) backwards.
+    const forward = new Int32Array(size).fill(-1);
+    const backward = new Int32Array(size).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+    const delta = n - m;
+    // With an odd delta the paths can only meet on a forward step, with an even one on a backward step.
+    const checkForward = delta % 2 !== 0;
+    // Diagonals that have run off the edge of the grid are skipped from then on.
+    let forwardStart = 0, forwardEnd = 0, backwardStart = 0, backwardEnd = 0;
+
+    for (let d = 0; d < Math.min(maxD, MAX_HALF_EDITS); d++) {
+        for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+            const i = offset + k;
+            let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+                x++;
+                y++;
+            }
+            forward[i] = x;
+            if (x > n) {
+                forwardEnd += 2;
+            } else if (y > m) {
+                forwardStart += 2;
+            } else if (checkForward) {
+                const j = offset + delta - k;
+                if (j >= 0 && j < size && backward[j] !== -1 && x >= n - backward[j]) return [x, y];
+            }
+        }
+
+        for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+            const i = offset + k;
+            let x = k === -d || (k !== d && backward[i - 1] < backward[i + 1]) ? backward[i + 1] : backward[i - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+                x++;
+                y++;
+            }
+            backward[i] = x;
+            if (x > n) {
+                backwardEnd += 2;
+            } else if (y > m) {
+                backwardStart += 2;
+            } else if (!checkForward) {
+                const j = offset + delta - k;
+                if (j >= 0 && j < size && forward[j] !== -1) {
+                    const forwardX = forward[j];
+                    if (forwardX >= n - x) return [forwardX, offset + forwardX - j];
+                }
+            }
+        }
+    }
+    return null;
+};
+
+const diffRange = (segments: DiffSegment[], a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number) => {
+    // Runs of shared tokens at either end are taken as they are, which also covers most edits, since
+    // a revision usually changes a few places in a long text.
+    const prefixStart = aLo;
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+        aLo++;
+        bLo++;
+    }
+    if (aLo > prefixStart) pushSegment(segments, 'equal', a.slice(prefixStart, aLo).join(''));
+    const suffixEnd = aHi;
+    while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+        aHi--;
+        bHi--;
+    }
+
+    const middle = aLo < aHi && bLo < bHi ? findMiddle(a, aLo, aHi, b, bLo, bHi) : null;
+    if (middle) {
+        diffRange(segments, a, aLo, aLo + middle[0], b, bLo, bLo + middle[1]);
+        diffRange(segments, a, aLo + middle[0], aHi, b, bLo + middle[1], bHi);
+    } else {
+        if (aLo < aHi) pushSegment(segments, 'removed', a.slice(aLo, aHi).join(''));
+        if (bLo < bHi) pushSegment(segments, 'added', b.slice(bLo, bHi).join(''));
+    }
+
+    if (suffixEnd > aHi) pushSegment(segments, 'equal', a.slice(aHi, suffixEnd).join(''));
+};
+
+// Word-level diff using Myers' algorithm in linear space, which takes time in proportion to the
+// text's length times the number of changes, rather than the product of both lengths.
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const segments: DiffSegment[] = [];
+    diffRange(segments, a, 0, a.length, b, 0, b.length);
+    return segments;
+};
+
+export const countChanges = (segments: DiffSegment[]) => ({
+    added: segments.filter(s => s.type === 'added').reduce((n, s) => n + tokenize(s.text.trim()).filter(t => t.trim()).length, 0),
+    removed: segments.filter(s => s.type === 'removed').reduce((n, s) => n + tokenize(s.text.trim()).filter(t => t.trim()).length, 0),
+});
@@ -0,0 +1,26 @@
+import { VIDEO_CAPTURE_STORE, runRequest } from "./storage";
+
+// Frames and transcript from a pitch recording, kept until its analysis succeeds so a failed request
+// or a closed tab doesn't mean recording again.
+export interface VideoCapture {
+    id: string;
+    createdAt: string;
+    // Base64 JPEG frames, as sent to the model.
+    frames: string[];
+    transcript: string;
+}
+
+const PENDING_CAPTURE_ID = 'pending';
+
+export const savePendingCapture = async (frames: string[], transcript: string): Promise<VideoCapture> => {
+    const capture: VideoCapture = { id: PENDING_CAPTURE_ID, createdAt: new Date().toISOString(), frames, transcript };
+    await runRequest(VIDEO_CAPTURE_STORE, 'readwrite', store => store.put(capture));
+    return capture;
+};
+
+export const loadPendingCapture = async (): Promise<VideoCapture | null> =>
+    (await runRequest<VideoCapture | undefined>(VIDEO_CAPTURE_STORE, 'readonly', store => store.get(PENDING_CAPTURE_ID))) || null;
+
+export const clearPendingCapture = async (): Promise<void> => {
+    await runRequest(VIDEO_CAPTURE_STORE, 'readwrite', store => store.delete(PENDING_CAPTURE_ID));
+};
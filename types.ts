@@ -16,6 +16,8 @@ export interface CareerPath {
 export interface AnalysisResult {
   summary: string;
   atsScore: number;
+  // The model's own estimate, kept as a second opinion next to the rule-based atsScore.
+  llmAtsScore?: number;
   strengths: StrengthWeakness[];
   weaknesses: StrengthWeakness[];
   suggestedRoles: CareerPath[];
@@ -25,6 +27,19 @@ export interface Suggestion {
   originalText: string;
   suggestedChange: string;
   explanation: string;
+  fieldId?: string;
+}
+
+// Where a suggestion applies: a character range within one field of the StructuredResume.
+export interface SuggestionAnchor {
+  fieldId: string;
+  start: number;
+  end: number;
+}
+
+export interface AnchoredSuggestion extends Suggestion {
+  id: string;
+  anchor: SuggestionAnchor;
 }
 
 export interface ResumeSuggestionsResult {
@@ -35,6 +50,24 @@ export interface UpdatedAtsScoreResult {
     atsScore: number;
 }
 
+export type AtsRuleId = 'sections' | 'contact' | 'dates' | 'bulletLength' | 'actionVerbs' | 'quantified' | 'keywords' | 'parseability';
+
+export interface AtsRuleResult {
+    id: AtsRuleId;
+    label: string;
+    points: number;
+    maxPoints: number;
+    // False when the rule can't be evaluated, e.g. keyword coverage without a job description.
+    applicable: boolean;
+    details: string;
+    tips: string[];
+}
+
+export interface AtsScoreReport {
+    score: number;
+    rules: AtsRuleResult[];
+}
+
 export interface RoadmapStep {
   stage: string;
   description: string;
@@ -50,6 +83,20 @@ export interface RoadmapResult {
 export interface InterviewTurn {
   speaker: 'user' | 'model';
   text: string;
+  // The planned question this turn belongs to, in structured interviews.
+  questionId?: string;
+  // Missing on turns recorded before timing was added.
+  timing?: TurnTiming;
+}
+
+// When a turn happened, in epoch milliseconds. Typed turns start and end when they're sent.
+export interface TurnTiming {
+  startedAt: number;
+  endedAt: number;
+  // Time actually spent talking, measured from the audio. Missing for typed turns.
+  speakingMs?: number;
+  // The long silences inside a spoken turn, in milliseconds.
+  pauses?: number[];
 }
 
 export interface InterviewFeedback {
@@ -74,7 +121,64 @@ export interface InterviewFeedback {
 }
 
 export interface InterviewReportResult {
-  feedback: InterviewFeedback;
+  // Missing when only the answer scores could be generated.
+  feedback?: InterviewFeedback;
+  // Scores for each planned question, in structured interviews.
+  answers?: AnswerScore[];
+}
+
+// How the candidate answers: spoken over the live audio session, or typed.
+export type InterviewChannel = 'voice' | 'text';
+
+export type InterviewQuestionCategory = 'behavioral' | 'technical' | 'situational' | 'company';
+
+export type InterviewDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface InterviewQuestion {
+  id: string;
+  category: InterviewQuestionCategory;
+  difficulty: InterviewDifficulty;
+  text: string;
+  // What a strong answer shows. Given to the scorer, never read out.
+  lookingFor?: string;
+  // Set on questions generated from a tracked job's description.
+  jobId?: string;
+}
+
+// The questions a structured interview will ask, in order.
+export interface InterviewPlan {
+  questions: InterviewQuestion[];
+  // Seconds allowed for each answer; 0 means no limit.
+  answerTimeLimit: number;
+}
+
+// A finished practice interview, kept for the history page.
+export interface InterviewSession {
+  id: string;
+  role: string;
+  startedAt: string;
+  durationSeconds: number;
+  mode: 'structured' | 'freeform';
+  // Every channel used during the session, in the order they were first used.
+  channels: InterviewChannel[];
+  transcript: InterviewTurn[];
+  // Missing when the report couldn't be generated; it can be retried from the history page.
+  report?: InterviewReportResult;
+  // The candidate's microphone, one recording per stretch of voice. Only kept when the user opts in,
+  // and never synced.
+  audio?: Blob[];
+}
+
+export interface AnswerScore {
+  questionId: string;
+  question: string;
+  category: InterviewQuestionCategory;
+  answer: string;
+  // Missing when the model returned nothing for an answered question.
+  score?: number;
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
 }
 
 export interface JobListing {
@@ -82,7 +186,10 @@ export interface JobListing {
   company: string;
   location: string;
   description: string;
+  // Where to apply, or the posting itself.
   url: string;
+  salary?: string;
+  requirements?: string[];
 }
 
 export interface GroundingChunk {
@@ -92,13 +199,66 @@ export interface GroundingChunk {
   };
 }
 
-export type ApplicationStatus = 'Saved' | 'Applied' | 'Interviewing' | 'Offer Received';
+export type ApplicationStatus =
+  | 'Saved'
+  | 'Applied'
+  | 'Recruiter Screen'
+  | 'Technical'
+  | 'Onsite'
+  | 'Offer'
+  | 'Rejected'
+  | 'Withdrawn'
+  | 'Ghosted';
+
+// How a job got onto the tracker.
+export type JobSource = 'agent' | 'manual';
 
 export interface TrackedJob extends JobListing {
   id: string;
   status: ApplicationStatus;
+  source?: JobSource;
   applicationDate?: string;
   notes?: string;
+  resumeId?: string;
+  // The resume variant tailored for this job, if one was created.
+  variantResumeId?: string;
+  submittedResume?: SubmittedResume;
+  // ISO time the job first entered each stage.
+  stageTimestamps?: Partial<Record<ApplicationStatus, string>>;
+  tags?: string[];
+  events?: ApplicationEvent[];
+  // Jobs the user has confirmed are not duplicates of this one.
+  distinctFrom?: string[];
+}
+
+export type ApplicationEventType = 'applied' | 'recruiter-email' | 'interview' | 'take-home' | 'offer-deadline';
+
+export type InterviewFormat = 'Phone' | 'Video' | 'Onsite' | 'Pair Programming' | 'Panel';
+
+export interface ApplicationEvent {
+  id: string;
+  type: ApplicationEventType;
+  // Local calendar date (YYYY-MM-DD) and optional time (HH:MM); events without a time are all-day.
+  date: string;
+  time?: string;
+  title?: string;
+  notes?: string;
+  // Interview details.
+  round?: string;
+  interviewer?: string;
+  format?: InterviewFormat;
+  durationMinutes?: number;
+}
+
+// A frozen copy of the resume sent with an application, kept even if that resume is later edited or deleted.
+export interface SubmittedResume {
+  resumeId: string;
+  resumeName: string;
+  revisionId?: string;
+  text: string;
+  structured?: StructuredResume;
+  atsScore?: number;
+  submittedAt: string;
 }
 
 export interface AgentSearchHistoryItem {
@@ -121,15 +281,24 @@ export interface EducationEntry {
   dates: string;
 }
 
+// Sections beyond the fixed ones, e.g. projects, certifications or publications.
+export interface CustomSection {
+  title: string;
+  items: string[];
+}
+
 export interface StructuredResume {
   name: string;
   email: string;
   phone: string;
   linkedin?: string;
+  // Other contact details from the header, such as a website, GitHub or location.
+  links?: string[];
   summary: string;
   experience: ExperienceEntry[];
   education: EducationEntry[];
   skills: string[];
+  customSections?: CustomSection[];
 }
 
 export type MessageGoal = 'Informational Interview' | 'Referral Request' | 'General Networking';
@@ -216,3 +385,129 @@ export interface CompanyVibeAnalysisResult {
   matchReasoning: string;
   companyVibe: CompanyVibe;
 }
+
+export interface StoredAnalysis {
+  id: string;
+  createdAt: string;
+  result: AnalysisResult;
+}
+
+export type RevisionKind = 'edit' | 'suggestion' | 'reset' | 'restore' | 'tailored';
+
+export interface ResumeRevision {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  text: string;
+  kind: RevisionKind;
+  label: string;
+  atsScore?: number;
+  structured?: StructuredResume;
+}
+
+// Formats are detected from file contents, since browsers often report an empty or generic MIME type.
+export type DocumentFormat = 'pdf' | 'linkedin-pdf' | 'docx' | 'odt' | 'rtf' | 'html' | 'markdown' | 'json-resume' | 'txt' | 'png' | 'jpeg';
+
+export type ExtractionMethod = 'text' | 'ocr';
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+  method: ExtractionMethod;
+  // Mean OCR word confidence, 0-100; only set for OCR'd pages.
+  confidence?: number;
+  // Text columns detected on a PDF page with a text layer.
+  columnCount?: number;
+}
+
+// A section of the source document, found from its layout before any model sees the text.
+export interface ExtractedSection {
+  heading: string;
+  text: string;
+  pageNumber: number;
+}
+
+export interface TextExtraction {
+  text: string;
+  pages: ExtractedPage[];
+  sections: ExtractedSection[];
+  format: DocumentFormat;
+  // The MIME type for the detected format, used in place of the browser-reported one.
+  mimeType: string;
+  // Set when the source was structured enough to map without a model call.
+  structured?: StructuredResume;
+}
+
+export interface ExtractionProgress {
+  pageNumber: number;
+  pageCount: number;
+  method: ExtractionMethod;
+  // 0-1 progress of OCR on the current page.
+  progress?: number;
+}
+
+// A job description pinned to a resume while tailoring it, pasted or taken from a TrackedJob.
+export interface TargetJob {
+  id: string;
+  title: string;
+  company?: string;
+  description: string;
+  trackedJobId?: string;
+}
+
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact' | 'executive' | 'sidebar';
+export type ResumeFont = 'helvetica' | 'times' | 'courier';
+// 'natural' lets the resume run to as many pages as it needs; the others shrink type to fit.
+export type PageFit = 'natural' | 'one-page' | 'two-page';
+
+export interface TemplateSettings {
+  templateId: ResumeTemplateId;
+  font: ResumeFont;
+  accentColor: string;
+  marginMm: number;
+  pageFit: PageFit;
+}
+
+export type KeywordImportance = 'required' | 'preferred';
+
+export interface KeywordMatch {
+  keyword: string;
+  importance: KeywordImportance;
+  // Ids of the target jobs that ask for this keyword.
+  jobIds: string[];
+  // Resume fields (see listResumeFields) where the keyword appears; empty when it's missing.
+  fieldIds: string[];
+}
+
+export interface ResumeRecord {
+  id: string;
+  name: string;
+  fileName: string;
+  fileType: string;
+  originalText: string;
+  originalStructured?: StructuredResume;
+  sourceSections?: ExtractedSection[];
+  createdAt: string;
+  updatedAt: string;
+  analyses: StoredAnalysis[];
+  revisions: ResumeRevision[];
+  targetJobs?: TargetJob[];
+  templateSettings?: TemplateSettings;
+  variantOf?: ResumeVariantInfo;
+}
+
+// Set on resumes forked from another resume and tailored for one tracked job.
+export interface ResumeVariantInfo {
+  baseResumeId: string;
+  baseName: string;
+  trackedJobId: string;
+  jobTitle: string;
+  company: string;
+  createdAt: string;
+}
+
+export interface TailoredResume {
+  resume: StructuredResume;
+  // Short, human-readable notes on what was changed and why.
+  changes: string[];
+}